@@ -0,0 +1,299 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint64, externalEuint64, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+
+/// @title ConfidentialToken - Encrypted-balance token shared by the credit and payment tokens
+/// @author Power Key Vault Team
+/// @notice ERC-7984 style token whose balances, allowances and transfers are encrypted
+/// @dev Transfers never revert on insufficient balance or allowance, they move zero instead so that
+/// neither is revealed. Only the minter can mint and burn.
+abstract contract ConfidentialToken is SepoliaConfig {
+    /// @notice Token name
+    string public name;
+
+    /// @notice Token symbol
+    string public symbol;
+
+    /// @notice Number of decimals of the encrypted amounts, see decimals
+    uint8 private immutable DECIMALS;
+
+    /// @notice Only address allowed to mint and burn tokens, see minter
+    address private immutable MINTER;
+
+    /// @notice Encrypted balance per account
+    mapping(address account => euint64 balance) private _balances;
+
+    /// @notice Encrypted amount a spender can still transfer from an owner
+    mapping(address owner => mapping(address spender => euint64 allowance)) private _allowances;
+
+    /// @notice Encrypted total of the minted tokens, decryptable by the minter only
+    euint64 private _totalSupply;
+
+    /// @notice Event emitted when tokens move; minting is from address(0) and burning to address(0)
+    /// @dev amount is the encrypted amount actually moved, decryptable by both parties
+    /// @param from Sender, address(0) when minting
+    /// @param to Recipient, address(0) when burning
+    /// @param amount Encrypted amount moved
+    event ConfidentialTransfer(address indexed from, address indexed to, euint64 indexed amount);
+
+    /// @notice Event emitted when an owner sets a spender's encrypted allowance
+    /// @param owner Owner of the tokens
+    /// @param spender Spender whose allowance is set
+    event Approval(address indexed owner, address indexed spender);
+
+    /// @notice The caller is not the minter
+    error NotMinter();
+
+    /// @notice The minter is the zero address
+    error InvalidMinter();
+
+    /// @notice The caller is not allowed on the encrypted amount
+    error AmountNotAllowed();
+
+    /// @notice The spender is the zero address
+    error InvalidSpender();
+
+    /// @notice The recipient is the zero address
+    error InvalidReceiver();
+
+    /// @notice Modifier to restrict minting and burning to the minter
+    modifier onlyMinter() {
+        if (msg.sender != MINTER) revert NotMinter();
+        _;
+    }
+
+    /// @notice Deploy a token minted and burned by a single minter
+    /// @param name_ The token name
+    /// @param symbol_ The token symbol
+    /// @param minter_ The address minting and burning the tokens
+    /// @param decimals_ The number of decimals of the encrypted amounts
+    constructor(string memory name_, string memory symbol_, address minter_, uint8 decimals_) {
+        if (minter_ == address(0)) revert InvalidMinter();
+        name = name_;
+        symbol = symbol_;
+        MINTER = minter_;
+        DECIMALS = decimals_;
+    }
+
+    /// @notice Get the number of decimals of the encrypted amounts
+    /// @return The number of decimals
+    function decimals() external view returns (uint8) {
+        return DECIMALS;
+    }
+
+    /// @notice Get the only address allowed to mint and burn tokens
+    /// @return The minter
+    function minter() external view returns (address) {
+        return MINTER;
+    }
+
+    /// @notice Get the encrypted balance of an account
+    /// @dev The handle is public but only the account can decrypt it
+    /// @param account The account address
+    /// @return The encrypted balance, bytes32(0) if the account never held tokens
+    function confidentialBalanceOf(address account) external view returns (euint64) {
+        return _balances[account];
+    }
+
+    /// @notice Get the encrypted total supply
+    /// @return The encrypted total of the minted tokens minus the burned ones
+    function confidentialTotalSupply() external view returns (euint64) {
+        return _totalSupply;
+    }
+
+    /// @notice Get the encrypted allowance of a spender
+    /// @dev Both the owner and the spender can decrypt it
+    /// @param owner The owner of the tokens
+    /// @param spender The address allowed to transfer them
+    /// @return The encrypted remaining allowance, bytes32(0) if never approved
+    function allowance(address owner, address spender) external view returns (euint64) {
+        return _allowances[owner][spender];
+    }
+
+    /// @notice Transfer tokens from the sender
+    /// @param to The receiver
+    /// @param encryptedAmount The encrypted amount to transfer
+    /// @param inputProof The input proof for the encrypted amount
+    /// @return transferred The encrypted amount actually transferred: the amount, or zero if the balance is too low
+    function confidentialTransfer(
+        address to,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external returns (euint64 transferred) {
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        transferred = _transfer(msg.sender, to, FHE.le(amount, _balanceOf(msg.sender)), amount);
+    }
+
+    /// @notice Transfer tokens from the sender by handle, for contracts holding tokens
+    /// @dev The sender must be allowed on the amount
+    /// @param to The receiver
+    /// @param amount The encrypted amount to transfer
+    /// @return transferred The encrypted amount actually transferred: the amount, or zero if the balance is too low
+    function confidentialTransfer(address to, euint64 amount) external returns (euint64 transferred) {
+        if (!FHE.isSenderAllowed(amount)) revert AmountNotAllowed();
+        transferred = _transfer(msg.sender, to, FHE.le(amount, _balanceOf(msg.sender)), amount);
+    }
+
+    /// @notice Set the encrypted amount a spender can transfer from the sender, replacing any previous allowance
+    /// @param spender The address allowed to transfer
+    /// @param encryptedAmount The encrypted allowance
+    /// @param inputProof The input proof for the encrypted allowance
+    function approve(address spender, externalEuint64 encryptedAmount, bytes calldata inputProof) external {
+        if (spender == address(0)) revert InvalidSpender();
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        _setAllowance(msg.sender, spender, amount);
+
+        emit Approval(msg.sender, spender);
+    }
+
+    /// @notice Transfer tokens from an owner using the sender's allowance
+    /// @param from The owner of the tokens
+    /// @param to The receiver
+    /// @param encryptedAmount The encrypted amount to transfer
+    /// @param inputProof The input proof for the encrypted amount
+    /// @return transferred The encrypted amount actually transferred: the amount, or zero if the allowance or
+    /// the balance is too low
+    function confidentialTransferFrom(
+        address from,
+        address to,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external returns (euint64 transferred) {
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        transferred = _transferFrom(from, to, amount);
+    }
+
+    /// @notice Transfer tokens from an owner using the sender's allowance, by handle
+    /// @dev For contracts such as the market escrow. The sender must be allowed on the amount.
+    /// @param from The owner of the tokens
+    /// @param to The receiver
+    /// @param amount The encrypted amount to transfer
+    /// @return transferred The encrypted amount actually transferred: the amount, or zero if the allowance or
+    /// the balance is too low
+    function confidentialTransferFrom(address from, address to, euint64 amount) external returns (euint64 transferred) {
+        if (!FHE.isSenderAllowed(amount)) revert AmountNotAllowed();
+        transferred = _transferFrom(from, to, amount);
+    }
+
+    /// @notice Mint tokens to an account
+    /// @dev The minter must allow this contract on the amount
+    /// @param to The receiver
+    /// @param amount The encrypted amount to mint
+    function mint(address to, euint64 amount) external onlyMinter {
+        if (!FHE.isSenderAllowed(amount)) revert AmountNotAllowed();
+        _mint(to, amount);
+    }
+
+    /// @notice Internal function to mint tokens; tokens that would overflow the supply are not minted
+    /// @param to The receiver
+    /// @param amount The encrypted amount to mint
+    function _mint(address to, euint64 amount) internal {
+        euint64 supply = FHE.isInitialized(_totalSupply) ? _totalSupply : FHE.asEuint64(0);
+        euint64 newSupply = FHE.add(supply, amount);
+        // Balances are bounded by the supply, so checking it is enough
+        euint64 minted = FHE.select(FHE.lt(newSupply, supply), FHE.asEuint64(0), amount);
+
+        _totalSupply = FHE.add(supply, minted);
+        FHE.allowThis(_totalSupply);
+        FHE.allow(_totalSupply, MINTER);
+
+        _setBalance(to, FHE.add(_balanceOf(to), minted));
+        FHE.allowThis(minted);
+        FHE.allow(minted, to);
+
+        emit ConfidentialTransfer(address(0), to, minted);
+    }
+
+    /// @notice Burn tokens of an account, at most its balance
+    /// @dev The minter must allow this contract on the amount
+    /// @param from The account whose tokens are burned
+    /// @param amount The encrypted amount to burn
+    function burn(address from, euint64 amount) external onlyMinter {
+        if (!FHE.isSenderAllowed(amount)) revert AmountNotAllowed();
+
+        // Tokens already transferred away cannot be taken back
+        euint64 burned = FHE.min(amount, _balanceOf(from));
+        _setBalance(from, FHE.sub(_balanceOf(from), burned));
+
+        _totalSupply = FHE.sub(_totalSupply, burned);
+        FHE.allowThis(_totalSupply);
+        FHE.allow(_totalSupply, MINTER);
+
+        FHE.allowThis(burned);
+        FHE.allow(burned, from);
+
+        emit ConfidentialTransfer(from, address(0), burned);
+    }
+
+    /// @notice Internal function to transfer tokens using the sender's allowance
+    /// @param from The owner of the tokens
+    /// @param to The receiver
+    /// @param amount The encrypted amount to transfer
+    /// @return transferred The encrypted amount moved: amount, or zero if the allowance or the balance is too low
+    function _transferFrom(address from, address to, euint64 amount) internal returns (euint64 transferred) {
+        euint64 currentAllowance = _allowances[from][msg.sender];
+        if (!FHE.isInitialized(currentAllowance)) {
+            currentAllowance = FHE.asEuint64(0);
+        }
+
+        ebool canTransfer = FHE.and(FHE.le(amount, currentAllowance), FHE.le(amount, _balanceOf(from)));
+        transferred = _transfer(from, to, canTransfer, amount);
+        _setAllowance(from, msg.sender, FHE.sub(currentAllowance, transferred));
+    }
+
+    /// @notice Internal function to move tokens between two accounts if a condition holds
+    /// @param from The sender of the tokens
+    /// @param to The receiver
+    /// @param canTransfer Encrypted condition under which the amount is moved
+    /// @param amount The encrypted amount to move
+    /// @return transferred The encrypted amount moved: amount if canTransfer, zero otherwise
+    function _transfer(
+        address from,
+        address to,
+        ebool canTransfer,
+        euint64 amount
+    ) internal returns (euint64 transferred) {
+        if (to == address(0)) revert InvalidReceiver();
+
+        transferred = FHE.select(canTransfer, amount, FHE.asEuint64(0));
+        _setBalance(from, FHE.sub(_balanceOf(from), transferred));
+        _setBalance(to, FHE.add(_balanceOf(to), transferred));
+
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, from);
+        FHE.allow(transferred, to);
+        FHE.allow(transferred, msg.sender);
+
+        emit ConfidentialTransfer(from, to, transferred);
+    }
+
+    /// @notice Internal function to read a balance, zero if the account never held tokens
+    /// @param account The account address
+    /// @return The encrypted balance
+    function _balanceOf(address account) internal returns (euint64) {
+        euint64 balance = _balances[account];
+        return FHE.isInitialized(balance) ? balance : FHE.asEuint64(0);
+    }
+
+    /// @notice Internal function to store a balance and allow it to the contract and the account
+    /// @param account The account address
+    /// @param balance The new encrypted balance
+    function _setBalance(address account, euint64 balance) internal {
+        _balances[account] = balance;
+        FHE.allowThis(balance);
+        FHE.allow(balance, account);
+    }
+
+    /// @notice Internal function to store an allowance and allow it to both parties
+    /// @param owner The owner of the tokens
+    /// @param spender The address allowed to transfer them
+    /// @param amount The new encrypted allowance
+    function _setAllowance(address owner, address spender, euint64 amount) internal {
+        _allowances[owner][spender] = amount;
+        FHE.allowThis(amount);
+        FHE.allow(amount, owner);
+        FHE.allow(amount, spender);
+    }
+}
@@ -0,0 +1,52 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IEnergyVaultErrors} from "./IEnergyVaultErrors.sol";
+import {IndexedAddressList} from "./IndexedAddressList.sol";
+
+/// @title EnergyAuditors - Auditor lists of the energy vault
+/// @author Power Key Vault Team
+/// @notice Tracks the auditors each user authorized, and the users each auditor audits
+/// @dev Linked into EnergyVault, its external functions run on the vault's storage. Allowing the auditors on
+/// the encrypted totals is left to the vault.
+library EnergyAuditors {
+    /// @notice Auditor lists, stored by the vault
+    /// @dev auditorIndex is the position + 1 of an auditor in auditors, auditedUserIndex the position + 1 of a
+    /// user in auditedUsers (0 means not authorized).
+    struct Registry {
+        mapping(address user => address[] auditors) auditors;
+        mapping(address user => mapping(address auditor => uint256 position)) auditorIndex;
+        mapping(address auditor => address[] users) auditedUsers;
+        mapping(address auditor => mapping(address user => uint256 position)) auditedUserIndex;
+    }
+
+    /// @notice Add an auditor of the sender
+    /// @param self The auditor lists
+    /// @param auditor The address of the auditor
+    function authorize(Registry storage self, address auditor) external {
+        if (auditor == address(0) || auditor == msg.sender) revert IEnergyVaultErrors.InvalidAuditor();
+        if (isAuditor(self, msg.sender, auditor)) revert IEnergyVaultErrors.AuditorAlreadyAuthorized();
+
+        IndexedAddressList.add(self.auditors[msg.sender], self.auditorIndex[msg.sender], auditor);
+        IndexedAddressList.add(self.auditedUsers[auditor], self.auditedUserIndex[auditor], msg.sender);
+    }
+
+    /// @notice Remove an auditor of the sender
+    /// @param self The auditor lists
+    /// @param auditor The address of the auditor
+    function revoke(Registry storage self, address auditor) external {
+        if (!isAuditor(self, msg.sender, auditor)) revert IEnergyVaultErrors.AuditorNotAuthorized();
+
+        IndexedAddressList.remove(self.auditors[msg.sender], self.auditorIndex[msg.sender], auditor);
+        IndexedAddressList.remove(self.auditedUsers[auditor], self.auditedUserIndex[auditor], msg.sender);
+    }
+
+    /// @notice Check if a user authorized an auditor
+    /// @param self The auditor lists
+    /// @param user The address of the user
+    /// @param auditor The address to check
+    /// @return True if the auditor is in the user's list
+    function isAuditor(Registry storage self, address user, address auditor) internal view returns (bool) {
+        return self.auditorIndex[user][auditor] != 0;
+    }
+}
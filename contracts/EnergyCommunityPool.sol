@@ -0,0 +1,167 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint64} from "@fhevm/solidity/lib/FHE.sol";
+import {IEnergyVaultErrors} from "./IEnergyVaultErrors.sol";
+
+/// @title EnergyCommunityPool - Pooled generation of the energy vault's community
+/// @author Power Key Vault Team
+/// @notice Sums the total generation of the users who opted in, and publishes the sum through the decryption oracle
+/// @dev Linked into EnergyVault, its external functions run on the vault's storage and ACL. Only the vault can
+/// use the pooled ciphertext; it is never allowed to members.
+library EnergyCommunityPool {
+    /// @notice Minimum number of members before the pooled generation can be published
+    uint256 internal constant MIN_MEMBERS = 3;
+
+    /// @notice Minimum time between two publications of the pooled generation
+    uint256 internal constant PUBLICATION_INTERVAL = 7 days;
+
+    /// @notice Community pool state, stored by the vault
+    /// @dev generation is the encrypted sum of the members' total generation. requestId is the pending public
+    /// decryption request (valid while decryptionPending), requestMemberCount the member count when it was made
+    /// and requestedAt the time of the last request. round is advanced by every request; memberRound and
+    /// wasMember hold the round of each user's last join or leave and whether the user was a member when that
+    /// round started, membershipChanges the number of users whose membership differs from the start of the
+    /// current round. The published fields hold the last sum revealed by the oracle.
+    struct Pool {
+        mapping(address user => bool isMember) isMember;
+        uint256 memberCount;
+        euint64 generation;
+        uint256 requestId;
+        uint256 requestMemberCount;
+        uint256 requestedAt;
+        uint256 round;
+        mapping(address user => uint256 round) memberRound;
+        mapping(address user => bool wasMember) wasMember;
+        uint256 membershipChanges;
+        bool decryptionPending;
+        uint64 publishedGeneration;
+        uint256 publishedMemberCount;
+        uint256 publishedAt;
+    }
+
+    /// @notice Add the sender to the pool
+    /// @param self The pool
+    /// @param hasGeneration Whether the sender has a total generation yet
+    /// @param totalGeneration The sender's encrypted total generation
+    function join(Pool storage self, bool hasGeneration, euint64 totalGeneration) external {
+        if (self.isMember[msg.sender]) revert IEnergyVaultErrors.AlreadyAMember();
+
+        _countMembershipChange(self, msg.sender);
+        self.isMember[msg.sender] = true;
+        ++self.memberCount;
+        if (hasGeneration) {
+            add(self, totalGeneration);
+        }
+    }
+
+    /// @notice Remove the sender from the pool
+    /// @param self The pool
+    /// @param hasGeneration Whether the sender has a total generation yet
+    /// @param totalGeneration The sender's encrypted total generation
+    function leave(Pool storage self, bool hasGeneration, euint64 totalGeneration) external {
+        if (!self.isMember[msg.sender]) revert IEnergyVaultErrors.NotAMember();
+
+        _countMembershipChange(self, msg.sender);
+        self.isMember[msg.sender] = false;
+        --self.memberCount;
+        if (hasGeneration) {
+            replace(self, totalGeneration, FHE.asEuint64(0));
+        }
+    }
+
+    /// @notice Ask the decryption oracle to reveal the pooled generation
+    /// @dev Comparing publications around a single join or leave would reveal that member's total, so the member
+    /// set must be unchanged or differ by at least MIN_MEMBERS users since the previous request
+    /// @param self The pool
+    /// @param callbackSelector The vault function the oracle answers to
+    /// @return requestId The ID of the decryption request
+    function requestDecryption(Pool storage self, bytes4 callbackSelector) external returns (uint256 requestId) {
+        if (self.memberCount < MIN_MEMBERS) revert IEnergyVaultErrors.NotEnoughMembers();
+        if (self.decryptionPending) revert IEnergyVaultErrors.DecryptionPending();
+        if (!FHE.isInitialized(self.generation)) revert IEnergyVaultErrors.PoolIsEmpty();
+        if (self.requestedAt != 0 && block.timestamp < self.requestedAt + PUBLICATION_INTERVAL) {
+            revert IEnergyVaultErrors.PublicationTooSoon();
+        }
+        if (self.membershipChanges != 0 && self.membershipChanges < MIN_MEMBERS) {
+            revert IEnergyVaultErrors.TooFewMembershipChanges();
+        }
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(self.generation);
+        requestId = FHE.requestDecryption(handles, callbackSelector);
+
+        self.requestId = requestId;
+        self.decryptionPending = true;
+        self.requestMemberCount = self.memberCount;
+        self.requestedAt = block.timestamp;
+        ++self.round;
+        self.membershipChanges = 0;
+    }
+
+    /// @notice Store the pooled generation revealed by the decryption oracle
+    /// @param self The pool
+    /// @param requestId The ID of the decryption request
+    /// @param cleartexts The ABI-encoded clear pooled generation
+    /// @param decryptionProof The KMS signatures over the cleartexts
+    /// @return totalGeneration The clear pooled generation
+    function publish(
+        Pool storage self,
+        uint256 requestId,
+        bytes calldata cleartexts,
+        bytes calldata decryptionProof
+    ) external returns (uint64 totalGeneration) {
+        if (!self.decryptionPending || requestId != self.requestId) revert IEnergyVaultErrors.UnknownRequest();
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        totalGeneration = abi.decode(cleartexts, (uint64));
+        self.publishedGeneration = totalGeneration;
+        self.publishedMemberCount = self.requestMemberCount;
+        self.publishedAt = block.timestamp;
+        self.decryptionPending = false;
+    }
+
+    /// @notice Add a value to the pooled generation
+    /// @dev Saturates at the euint64 maximum without touching the member's overflow flag, which covers
+    /// their own totals only
+    /// @param self The pool
+    /// @param value The encrypted value to add
+    function add(Pool storage self, euint64 value) public {
+        euint64 pool = self.generation;
+        if (FHE.isInitialized(pool)) {
+            euint64 sum = FHE.add(pool, value);
+            pool = FHE.select(FHE.lt(sum, pool), FHE.asEuint64(type(uint64).max), sum);
+        } else {
+            pool = value;
+        }
+        self.generation = pool;
+        FHE.allowThis(pool);
+    }
+
+    /// @notice Compute pool - oldValue + newValue
+    /// @dev The subtraction floors at zero, in case the pool saturated below the sum of its members
+    /// @param self The pool
+    /// @param oldValue The encrypted value to remove
+    /// @param newValue The encrypted value to add
+    function replace(Pool storage self, euint64 oldValue, euint64 newValue) public {
+        euint64 pool = self.generation;
+        self.generation = FHE.select(FHE.ge(pool, oldValue), FHE.sub(pool, oldValue), FHE.asEuint64(0));
+        add(self, newValue);
+    }
+
+    /// @notice Count a join or leave towards the membership changes of the current round
+    /// @dev Called before the membership flips: a user who leaves and rejoins within a round is not a change
+    /// @param self The pool
+    /// @param user The user joining or leaving
+    function _countMembershipChange(Pool storage self, address user) private {
+        if (self.memberRound[user] != self.round) {
+            self.memberRound[user] = self.round;
+            self.wasMember[user] = self.isMember[user];
+        }
+        if (self.isMember[user] == self.wasMember[user]) {
+            ++self.membershipChanges;
+        } else {
+            --self.membershipChanges;
+        }
+    }
+}
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ConfidentialToken} from "./ConfidentialToken.sol";
+
+/// @title EnergyCredit - Confidential energy credit token
+/// @author Power Key Vault Team
+/// @notice Encrypted-balance token (ERC-7984 style) minted by EnergyVault from generation records
+/// @dev One credit is one stored energy value of the vault: the token uses the unit and precision of its
+/// minter. EnergyMarket escrows and settles offers in credits.
+contract EnergyCredit is ConfidentialToken {
+    /// @notice Deploy a credit token minted by a vault
+    /// @param minter_ The EnergyVault minting the credits
+    /// @param decimals_ The number of decimals of the vault values
+    constructor(address minter_, uint8 decimals_) ConfidentialToken("Energy Credit", "EGC", minter_, decimals_) {}
+}
@@ -0,0 +1,65 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IEnergyVaultErrors} from "./IEnergyVaultErrors.sol";
+import {IndexedAddressList} from "./IndexedAddressList.sol";
+
+/// @title EnergyDevices - Meter device registry of the energy vault
+/// @author Power Key Vault Team
+/// @notice Tracks which meter devices may submit records on behalf of each user
+/// @dev Linked into EnergyVault, its external functions run on the vault's storage. A user proposes a device,
+/// and the device is registered once it accepts from its own key.
+library EnergyDevices {
+    /// @notice Device registry state, stored by the vault
+    /// @dev owners maps each registered device to its owner (address(0) if not registered). proposals holds the
+    /// owners who proposed each device, until the device accepts one of them. indexes is the position + 1 of a
+    /// device in its owner's devices (0 means not registered).
+    struct Registry {
+        mapping(address device => address owner) owners;
+        mapping(address device => mapping(address owner => bool proposed)) proposals;
+        mapping(address user => address[] devices) devices;
+        mapping(address device => uint256 position) indexes;
+    }
+
+    /// @notice Record the sender's proposal of a device
+    /// @dev Proposals do not reserve the device, so nobody can block its real owner by proposing it first
+    /// @param self The registry
+    /// @param device The device address
+    function propose(Registry storage self, address device) external {
+        if (device == address(0) || device == msg.sender) revert IEnergyVaultErrors.InvalidDevice();
+        if (self.owners[device] != address(0)) revert IEnergyVaultErrors.DeviceAlreadyRegistered();
+
+        self.proposals[device][msg.sender] = true;
+    }
+
+    /// @notice Withdraw a device proposal of the sender
+    /// @param self The registry
+    /// @param device The device address
+    function cancelProposal(Registry storage self, address device) external {
+        if (!self.proposals[device][msg.sender]) revert IEnergyVaultErrors.NoDeviceProposal();
+
+        delete self.proposals[device][msg.sender];
+    }
+
+    /// @notice Register the sending device for a user who proposed it
+    /// @param self The registry
+    /// @param owner The user who proposed the sending device
+    function accept(Registry storage self, address owner) external {
+        if (!self.proposals[msg.sender][owner]) revert IEnergyVaultErrors.NoDeviceProposal();
+        if (self.owners[msg.sender] != address(0)) revert IEnergyVaultErrors.DeviceAlreadyRegistered();
+
+        delete self.proposals[msg.sender][owner];
+        self.owners[msg.sender] = owner;
+        IndexedAddressList.add(self.devices[owner], self.indexes, msg.sender);
+    }
+
+    /// @notice Unregister one of the sender's devices
+    /// @param self The registry
+    /// @param device The device address
+    function remove(Registry storage self, address device) external {
+        if (self.owners[device] != msg.sender) revert IEnergyVaultErrors.NotDeviceOwner();
+
+        IndexedAddressList.remove(self.devices[msg.sender], self.indexes, device);
+        delete self.owners[device];
+    }
+}
@@ -0,0 +1,476 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint64, euint128, externalEuint64, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+
+/// @title IConfidentialToken - Confidential token calls made by the market
+/// @author Power Key Vault Team
+/// @notice Subset of ConfidentialToken used by the market to escrow and settle credits and payments
+interface IConfidentialToken {
+    /// @notice Number of decimals of the encrypted amounts
+    /// @return The number of decimals
+    function decimals() external view returns (uint8);
+
+    /// @notice Transfer an encrypted amount from the caller
+    /// @param to The recipient
+    /// @param amount The encrypted amount
+    /// @return The encrypted amount actually moved
+    function confidentialTransfer(address to, euint64 amount) external returns (euint64);
+
+    /// @notice Transfer an encrypted amount from an owner who approved the caller
+    /// @param from The owner
+    /// @param to The recipient
+    /// @param amount The encrypted amount
+    /// @return The encrypted amount actually moved
+    function confidentialTransferFrom(address from, address to, euint64 amount) external returns (euint64);
+}
+
+/// @title EnergyMarket - Peer-to-peer confidential energy trading
+/// @author Power Key Vault Team
+/// @notice Trade EnergyCredit tokens earned from EnergyVault generation records against a confidential
+/// payment token
+/// @dev Sellers escrow credits when listing an offer and buyers escrow the payment when bidding, both through
+/// allowances they approve to the market beforehand. Accepting a bid settles both legs in the same transaction.
+/// Whether an escrow succeeded is only known to the contract and to the party it was escrowed from: the
+/// counterparty gets handles computed from the requested amounts instead.
+/// Prices are public, in payment token base units per whole credit (10^decimals credit base units).
+contract EnergyMarket is SepoliaConfig {
+    /// @notice Lifecycle of a bid
+    enum BidStatus {
+        OPEN,
+        ACCEPTED,
+        CANCELLED
+    }
+
+    /// @notice Structure for an offer to sell energy credits
+    /// @dev amount is what is left of the amount the seller listed, which buyers' fills are computed from.
+    /// remaining is what is left of the escrowed credits, which the trades settle.
+    struct Offer {
+        uint256 id;
+        address seller;
+        bool isOpen;
+        euint64 amount;
+        euint64 remaining;
+        uint256 price;
+        uint256 createdAt;
+    }
+
+    /// @notice Structure for a bid on an offer
+    /// @dev amount is the requested amount and funded the amount the escrowed payment covers, zero if it could
+    /// not be escrowed. payment is the escrowed price of amount while the bid is open, and the price of filled
+    /// once accepted.
+    struct Bid {
+        uint256 id;
+        uint256 offerId;
+        address buyer;
+        BidStatus status;
+        euint64 amount;
+        euint64 funded;
+        euint64 filled;
+        euint64 payment;
+        uint256 createdAt;
+    }
+
+    /// @notice EnergyCredit token traded on the market, see creditToken
+    IConfidentialToken private immutable CREDIT_TOKEN;
+
+    /// @notice Token buyers pay the credits with, see paymentToken
+    IConfidentialToken private immutable PAYMENT_TOKEN;
+
+    /// @notice Credit base units per whole credit, the quantity prices refer to
+    uint128 private immutable CREDIT_SCALE;
+
+    /// @notice Counter for offer IDs
+    uint256 private _nextOfferId;
+
+    /// @notice Counter for bid IDs
+    uint256 private _nextBidId;
+
+    /// @notice Mapping from offer ID to Offer
+    mapping(uint256 offerId => Offer offer) private _offers;
+
+    /// @notice Mapping from bid ID to Bid
+    mapping(uint256 bidId => Bid bid) private _bids;
+
+    /// @notice IDs of the offers still open
+    uint256[] private _openOfferIds;
+
+    /// @notice Position + 1 of an offer in _openOfferIds (0 means closed)
+    mapping(uint256 offerId => uint256 position) private _openOfferIndex;
+
+    /// @notice Bid IDs placed on each offer
+    mapping(uint256 offerId => uint256[] bidIds) private _offerBids;
+
+    /// @notice Offer IDs created by each seller
+    mapping(address user => uint256[] offerIds) private _userOffers;
+
+    /// @notice Bid IDs placed by each buyer
+    mapping(address user => uint256[] bidIds) private _userBids;
+
+    /// @notice Event emitted when a seller lists an offer
+    /// @param id ID of the offer
+    /// @param seller Seller listing the offer
+    /// @param price Price in payment base units per whole credit
+    /// @param timestamp Block timestamp of the listing
+    event OfferCreated(uint256 indexed id, address indexed seller, uint256 indexed price, uint256 timestamp);
+
+    /// @notice Event emitted when a seller cancels an offer
+    /// @param id ID of the offer
+    /// @param seller Seller of the offer
+    event OfferCancelled(uint256 indexed id, address indexed seller);
+
+    /// @notice Event emitted when a buyer bids on an offer
+    /// @param id ID of the bid
+    /// @param offerId ID of the offer bid on
+    /// @param buyer Buyer placing the bid
+    /// @param timestamp Block timestamp of the bid
+    event BidPlaced(uint256 indexed id, uint256 indexed offerId, address indexed buyer, uint256 timestamp);
+
+    /// @notice Event emitted when a seller accepts a bid and the credits are settled
+    /// @param id ID of the bid
+    /// @param offerId ID of the offer
+    /// @param buyer Buyer of the bid
+    /// @param timestamp Block timestamp of the settlement
+    event BidAccepted(uint256 indexed id, uint256 indexed offerId, address indexed buyer, uint256 timestamp);
+
+    /// @notice Event emitted when a buyer cancels a bid
+    /// @param id ID of the bid
+    /// @param offerId ID of the offer
+    /// @param buyer Buyer of the bid
+    event BidCancelled(uint256 indexed id, uint256 indexed offerId, address indexed buyer);
+
+    /// @notice A token address is zero
+    error InvalidToken();
+
+    /// @notice No offer has the given ID
+    error OfferDoesNotExist();
+
+    /// @notice No bid has the given ID
+    error BidDoesNotExist();
+
+    /// @notice The caller is not the seller of the offer
+    error NotOfferSeller();
+
+    /// @notice The caller is neither the buyer of the bid nor the seller of its offer
+    error NotBidParticipant();
+
+    /// @notice The caller is not the buyer of the bid
+    error NotBidBuyer();
+
+    /// @notice The price is zero or does not fit in a uint64
+    error InvalidPrice();
+
+    /// @notice The offer was cancelled or fully sold
+    error OfferIsClosed();
+
+    /// @notice The bid was accepted or cancelled
+    error BidIsClosed();
+
+    /// @notice The caller is the seller of the offer
+    error CannotBidOnOwnOffer();
+
+    /// @notice Deploy a market trading a credit token against a payment token
+    /// @param creditToken_ The EnergyCredit token traded
+    /// @param paymentToken_ The token buyers pay with
+    constructor(IConfidentialToken creditToken_, IConfidentialToken paymentToken_) {
+        if (address(creditToken_) == address(0) || address(paymentToken_) == address(0)) revert InvalidToken();
+        CREDIT_TOKEN = creditToken_;
+        PAYMENT_TOKEN = paymentToken_;
+        CREDIT_SCALE = uint128(10) ** creditToken_.decimals();
+    }
+
+    /// @notice Get the EnergyCredit token traded on the market
+    /// @return The credit token
+    function creditToken() external view returns (IConfidentialToken) {
+        return CREDIT_TOKEN;
+    }
+
+    /// @notice Get the token buyers pay the credits with
+    /// @return The payment token
+    function paymentToken() external view returns (IConfidentialToken) {
+        return PAYMENT_TOKEN;
+    }
+
+    /// @notice Get the number of offers ever created
+    /// @return The total count of offers
+    function getOfferCount() external view returns (uint256) {
+        return _nextOfferId;
+    }
+
+    /// @notice Get the IDs of the offers still open
+    /// @return The open offer IDs, in no particular order
+    function getOpenOfferIds() external view returns (uint256[] memory) {
+        return _openOfferIds;
+    }
+
+    /// @notice Get the IDs of the offers created by a seller
+    /// @param seller The address of the seller
+    /// @return Array of offer IDs
+    function getUserOfferIds(address seller) external view returns (uint256[] memory) {
+        return _userOffers[seller];
+    }
+
+    /// @notice Get the IDs of the bids placed by a buyer
+    /// @param buyer The address of the buyer
+    /// @return Array of bid IDs
+    function getUserBidIds(address buyer) external view returns (uint256[] memory) {
+        return _userBids[buyer];
+    }
+
+    /// @notice Get the IDs of the bids placed on an offer
+    /// @param offerId The ID of the offer
+    /// @return Array of bid IDs
+    function getOfferBidIds(uint256 offerId) external view returns (uint256[] memory) {
+        return _offerBids[offerId];
+    }
+
+    /// @notice Get the public details of an offer
+    /// @param offerId The ID of the offer
+    /// @return id The offer ID
+    /// @return seller The seller address
+    /// @return price The asking price in payment base units per whole credit
+    /// @return createdAt The listing timestamp
+    /// @return isOpen True until the offer is cancelled
+    function getOffer(
+        uint256 offerId
+    ) external view returns (uint256 id, address seller, uint256 price, uint256 createdAt, bool isOpen) {
+        Offer storage offer = _offers[offerId];
+        if (offer.seller == address(0)) revert OfferDoesNotExist();
+        return (offer.id, offer.seller, offer.price, offer.createdAt, offer.isOpen);
+    }
+
+    /// @notice Get the encrypted amount left on an offer (only accessible by the seller)
+    /// @param offerId The ID of the offer
+    /// @return The encrypted remaining amount
+    function getOfferRemaining(uint256 offerId) external view returns (euint64) {
+        Offer storage offer = _offers[offerId];
+        if (offer.seller == address(0)) revert OfferDoesNotExist();
+        if (offer.seller != msg.sender) revert NotOfferSeller();
+        return offer.remaining;
+    }
+
+    /// @notice Get the public details of a bid
+    /// @param bidId The ID of the bid
+    /// @return id The bid ID
+    /// @return offerId The ID of the offer bid on
+    /// @return buyer The buyer address
+    /// @return createdAt The bid timestamp
+    /// @return status The bid status
+    function getBid(
+        uint256 bidId
+    ) external view returns (uint256 id, uint256 offerId, address buyer, uint256 createdAt, BidStatus status) {
+        Bid storage bid = _bids[bidId];
+        if (bid.buyer == address(0)) revert BidDoesNotExist();
+        return (bid.id, bid.offerId, bid.buyer, bid.createdAt, bid.status);
+    }
+
+    /// @notice Get the encrypted amounts of a bid
+    /// @dev Accessible by the buyer and by the seller of the offer, who can only decrypt amount. filled is
+    /// uninitialized until accepted.
+    /// @param bidId The ID of the bid
+    /// @return amount The encrypted requested amount
+    /// @return filled The encrypted amount filled from what the seller listed
+    /// @return payment The encrypted escrowed payment, or the price of filled once accepted
+    function getBidAmounts(uint256 bidId) external view returns (euint64 amount, euint64 filled, euint64 payment) {
+        Bid storage bid = _bids[bidId];
+        if (bid.buyer == address(0)) revert BidDoesNotExist();
+        if (bid.buyer != msg.sender && _offers[bid.offerId].seller != msg.sender) revert NotBidParticipant();
+        return (bid.amount, bid.filled, bid.payment);
+    }
+
+    /// @notice List an offer to sell energy credits
+    /// @dev The amount is escrowed from the seller's credits, which must approve this market first. If the
+    /// balance or the allowance is insufficient nothing is moved and the offer settles nothing, which only the
+    /// seller can tell.
+    /// @param encryptedAmount The encrypted amount of credits offered
+    /// @param inputProof The input proof for the encrypted amount
+    /// @param price The public asking price in payment base units per whole credit
+    /// @return offerId The ID of the new offer
+    function createOffer(
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof,
+        uint256 price
+    ) external returns (uint256 offerId) {
+        if (price == 0 || price > type(uint64).max) revert InvalidPrice();
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        FHE.allowTransient(amount, address(CREDIT_TOKEN));
+        // The token allows the moved amount to this market and to the seller
+        euint64 escrowed = CREDIT_TOKEN.confidentialTransferFrom(msg.sender, address(this), amount);
+
+        FHE.allowThis(amount);
+
+        offerId = _nextOfferId;
+        ++_nextOfferId;
+        _offers[offerId] = Offer({
+            id: offerId,
+            seller: msg.sender,
+            isOpen: true,
+            amount: amount,
+            remaining: escrowed,
+            price: price,
+            createdAt: block.timestamp
+        });
+        _userOffers[msg.sender].push(offerId);
+        _openOfferIds.push(offerId);
+        _openOfferIndex[offerId] = _openOfferIds.length;
+
+        emit OfferCreated(offerId, msg.sender, price, block.timestamp);
+    }
+
+    /// @notice Cancel one of the sender's offers and return the credits left to the seller
+    /// @param offerId The ID of the offer
+    function cancelOffer(uint256 offerId) external {
+        Offer storage offer = _offers[offerId];
+        if (offer.seller == address(0)) revert OfferDoesNotExist();
+        if (offer.seller != msg.sender) revert NotOfferSeller();
+        if (!offer.isOpen) revert OfferIsClosed();
+
+        _closeOffer(offerId);
+        _sendTokens(CREDIT_TOKEN, msg.sender, offer.remaining);
+
+        emit OfferCancelled(offerId, msg.sender);
+    }
+
+    /// @notice Bid on an open offer
+    /// @dev The price of the amount at the offer price, rounded up, is escrowed from the sender's payment tokens,
+    /// which must approve this market first. If it cannot be escrowed the bid is funded for zero, which only the
+    /// buyer can tell: the seller sees the requested amount either way.
+    /// @param offerId The ID of the offer
+    /// @param encryptedAmount The encrypted amount of credits wanted
+    /// @param inputProof The input proof for the encrypted amount
+    /// @return bidId The ID of the new bid
+    function placeBid(
+        uint256 offerId,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external returns (uint256 bidId) {
+        Offer storage offer = _offers[offerId];
+        if (offer.seller == address(0)) revert OfferDoesNotExist();
+        if (!offer.isOpen) revert OfferIsClosed();
+        if (offer.seller == msg.sender) revert CannotBidOnOwnOffer();
+
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        (ebool fits, euint64 cost) = _priceOf(amount, offer.price);
+        FHE.allowTransient(cost, address(PAYMENT_TOKEN));
+        euint64 payment = PAYMENT_TOKEN.confidentialTransferFrom(msg.sender, address(this), cost);
+        euint64 funded = FHE.select(FHE.and(fits, FHE.eq(payment, cost)), amount, FHE.asEuint64(0));
+
+        bidId = _nextBidId;
+        ++_nextBidId;
+        Bid storage bid = _bids[bidId];
+        bid.id = bidId;
+        bid.offerId = offerId;
+        bid.buyer = msg.sender;
+        bid.status = BidStatus.OPEN;
+        bid.amount = amount;
+        bid.funded = funded;
+        bid.payment = payment;
+        bid.createdAt = block.timestamp;
+
+        _offerBids[offerId].push(bidId);
+        _userBids[msg.sender].push(bidId);
+
+        FHE.allowThis(amount);
+        FHE.allow(amount, msg.sender);
+        FHE.allow(amount, offer.seller);
+        FHE.allowThis(funded);
+        FHE.allow(funded, msg.sender);
+
+        emit BidPlaced(bidId, offerId, msg.sender, block.timestamp);
+    }
+
+    /// @notice Cancel one of the sender's open bids and refund the escrowed payment
+    /// @param bidId The ID of the bid
+    function cancelBid(uint256 bidId) external {
+        Bid storage bid = _bids[bidId];
+        if (bid.buyer == address(0)) revert BidDoesNotExist();
+        if (bid.buyer != msg.sender) revert NotBidBuyer();
+        if (bid.status != BidStatus.OPEN) revert BidIsClosed();
+
+        bid.status = BidStatus.CANCELLED;
+        _sendTokens(PAYMENT_TOKEN, msg.sender, bid.payment);
+
+        emit BidCancelled(bidId, bid.offerId, msg.sender);
+    }
+
+    /// @notice Accept a bid on one of the sender's offers and settle it
+    /// @dev The buyer receives the smaller of the funded amount and what is left on the offer, so a bid
+    /// larger than the offer is partially filled without revealing either amount. The seller receives the
+    /// price of the settled amount from the escrowed payment and the buyer gets the rest back. The filled
+    /// amount the buyer can read is computed from what the seller listed rather than escrowed: it equals the
+    /// settled amount unless the seller's escrow failed.
+    /// @param bidId The ID of the bid
+    function acceptBid(uint256 bidId) external {
+        Bid storage bid = _bids[bidId];
+        if (bid.buyer == address(0)) revert BidDoesNotExist();
+        if (bid.status != BidStatus.OPEN) revert BidIsClosed();
+        Offer storage offer = _offers[bid.offerId];
+        if (offer.seller != msg.sender) revert NotOfferSeller();
+        if (!offer.isOpen) revert OfferIsClosed();
+
+        // Depends on both escrows, so it is only allowed to this market
+        euint64 settled = FHE.min(bid.funded, offer.remaining);
+        euint64 remaining = FHE.sub(offer.remaining, settled);
+        offer.remaining = remaining;
+        FHE.allowThis(remaining);
+        FHE.allow(remaining, msg.sender);
+
+        euint64 filled = FHE.min(bid.funded, offer.amount);
+        offer.amount = FHE.sub(offer.amount, filled);
+        FHE.allowThis(offer.amount);
+
+        // The escrowed payment is the price of the bid amount, so it covers the price of any smaller amount
+        (, euint64 cost) = _priceOf(settled, offer.price);
+        (, euint64 paid) = _priceOf(filled, offer.price);
+        euint64 refund = FHE.sub(bid.payment, cost);
+
+        bid.status = BidStatus.ACCEPTED;
+        bid.filled = filled;
+        bid.payment = paid;
+        FHE.allowThis(filled);
+        FHE.allow(filled, bid.buyer);
+        FHE.allowThis(paid);
+        FHE.allow(paid, bid.buyer);
+
+        _sendTokens(CREDIT_TOKEN, bid.buyer, settled);
+        _sendTokens(PAYMENT_TOKEN, msg.sender, cost);
+        _sendTokens(PAYMENT_TOKEN, bid.buyer, refund);
+
+        emit BidAccepted(bidId, bid.offerId, bid.buyer, block.timestamp);
+    }
+
+    /// @notice Internal function to compute the price of an amount of credits, rounded up
+    /// @param amount The encrypted amount of credits
+    /// @param price The price in payment base units per whole credit
+    /// @return fits Whether the price fits in a euint64
+    /// @return cost The encrypted price, zero if it does not fit
+    function _priceOf(euint64 amount, uint256 price) internal returns (ebool fits, euint64 cost) {
+        euint128 total = FHE.mul(FHE.asEuint128(amount), uint128(price));
+        total = FHE.div(FHE.add(total, CREDIT_SCALE - 1), CREDIT_SCALE);
+        fits = FHE.le(total, uint128(type(uint64).max));
+        cost = FHE.select(fits, FHE.asEuint64(total), FHE.asEuint64(0));
+    }
+
+    /// @notice Internal function to send escrowed tokens held by this market
+    /// @param token The credit or payment token
+    /// @param to The receiver
+    /// @param amount The encrypted amount, allowed to this market
+    function _sendTokens(IConfidentialToken token, address to, euint64 amount) internal {
+        FHE.allowTransient(amount, address(token));
+        token.confidentialTransfer(to, amount);
+    }
+
+    /// @notice Internal function to remove an offer from the open list (swap and pop)
+    /// @param offerId The ID of the open offer
+    function _closeOffer(uint256 offerId) internal {
+        _offers[offerId].isOpen = false;
+
+        uint256 index = _openOfferIndex[offerId] - 1;
+        uint256 last = _openOfferIds[_openOfferIds.length - 1];
+        _openOfferIds[index] = last;
+        _openOfferIndex[last] = index + 1;
+        _openOfferIds.pop();
+        delete _openOfferIndex[offerId];
+    }
+}
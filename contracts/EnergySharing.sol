@@ -0,0 +1,79 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint64} from "@fhevm/solidity/lib/FHE.sol";
+import {IEnergyVaultErrors} from "./IEnergyVaultErrors.sol";
+import {IndexedAddressList} from "./IndexedAddressList.sol";
+
+/// @title EnergySharing - Record sharing lists of the energy vault
+/// @author Power Key Vault Team
+/// @notice Tracks the addresses each record is shared with, and the records shared with each address
+/// @dev Linked into EnergyVault, its external functions run on the vault's storage and ACL. Record ownership
+/// is checked by the vault before calling in.
+library EnergySharing {
+    /// @notice Sharing state, stored by the vault
+    /// @dev granteeIndex is the position + 1 of a grantee in grantees, sharedRecordIndex the position + 1 of a
+    /// record in sharedRecords (0 means not shared).
+    struct Grants {
+        mapping(uint256 recordId => address[] grantees) grantees;
+        mapping(uint256 recordId => mapping(address grantee => uint256 position)) granteeIndex;
+        mapping(address grantee => uint256[] recordIds) sharedRecords;
+        mapping(address grantee => mapping(uint256 recordId => uint256 position)) sharedRecordIndex;
+    }
+
+    /// @notice Share a record of the sender with an address
+    /// @param self The sharing state
+    /// @param recordId The ID of the record, owned by the sender
+    /// @param value The encrypted value of the record
+    /// @param grantee The address to share the record with
+    function grant(Grants storage self, uint256 recordId, euint64 value, address grantee) external {
+        if (grantee == address(0) || grantee == msg.sender) revert IEnergyVaultErrors.InvalidGrantee();
+        if (self.granteeIndex[recordId][grantee] != 0) revert IEnergyVaultErrors.AccessAlreadyGranted();
+
+        IndexedAddressList.add(self.grantees[recordId], self.granteeIndex[recordId], grantee);
+        self.sharedRecords[grantee].push(recordId);
+        self.sharedRecordIndex[grantee][recordId] = self.sharedRecords[grantee].length;
+
+        FHE.allow(value, grantee);
+    }
+
+    /// @notice Stop sharing a record with an address
+    /// @dev FHE ACL permissions cannot be withdrawn: a handle the grantee already knows stays decryptable by it
+    /// @param self The sharing state
+    /// @param recordId The ID of the shared record
+    /// @param grantee The address to revoke
+    function revoke(Grants storage self, uint256 recordId, address grantee) external {
+        if (self.granteeIndex[recordId][grantee] == 0) revert IEnergyVaultErrors.AccessNotGranted();
+
+        IndexedAddressList.remove(self.grantees[recordId], self.granteeIndex[recordId], grantee);
+
+        uint256[] storage shared = self.sharedRecords[grantee];
+        uint256 index = self.sharedRecordIndex[grantee][recordId] - 1;
+        uint256 last = shared[shared.length - 1];
+
+        shared[index] = last;
+        self.sharedRecordIndex[grantee][last] = index + 1;
+        shared.pop();
+        delete self.sharedRecordIndex[grantee][recordId];
+    }
+
+    /// @notice Allow every grantee of a record on its new value
+    /// @param self The sharing state
+    /// @param recordId The ID of the record
+    /// @param value The new encrypted value of the record
+    function allowGrantees(Grants storage self, uint256 recordId, euint64 value) external {
+        address[] storage grantees = self.grantees[recordId];
+        for (uint256 i = 0; i < grantees.length; ++i) {
+            FHE.allow(value, grantees[i]);
+        }
+    }
+
+    /// @notice Check if a record is shared with an address
+    /// @param self The sharing state
+    /// @param recordId The ID of the record
+    /// @param grantee The address to check
+    /// @return True if the record was shared with the address and not revoked
+    function isGrantee(Grants storage self, uint256 recordId, address grantee) internal view returns (bool) {
+        return self.granteeIndex[recordId][grantee] != 0;
+    }
+}
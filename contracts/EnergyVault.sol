@@ -1,64 +1,367 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, euint32, externalEuint32, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {FHE, euint64, externalEuint64, ebool} from "@fhevm/solidity/lib/FHE.sol";
 import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {EnergyAuditors} from "./EnergyAuditors.sol";
+import {EnergyCommunityPool} from "./EnergyCommunityPool.sol";
+import {EnergyDevices} from "./EnergyDevices.sol";
+import {EnergySharing} from "./EnergySharing.sol";
+import {IEnergyVaultErrors} from "./IEnergyVaultErrors.sol";
+
+/// @title IEnergyCredit - Credit token calls made by the vault
+/// @author Power Key Vault Team
+/// @notice Subset of EnergyCredit used by the vault to mint credits from generation
+interface IEnergyCredit {
+    /// @notice Only address allowed to mint and burn credits
+    /// @return The minter
+    function minter() external view returns (address);
+
+    /// @notice Mint an encrypted amount of credits
+    /// @param to The recipient
+    /// @param amount The encrypted amount
+    function mint(address to, euint64 amount) external;
+
+    /// @notice Burn an encrypted amount of credits
+    /// @param from The holder
+    /// @param amount The encrypted amount
+    function burn(address from, euint64 amount) external;
+}
 
 /// @title EnergyVault - A private energy data management contract
 /// @author Power Key Vault Team
 /// @notice Store and manage encrypted energy generation/consumption records
 /// @dev Uses FHEVM for fully homomorphic encryption of energy data
-contract EnergyVault is SepoliaConfig {
+contract EnergyVault is SepoliaConfig, IEnergyVaultErrors {
+    using EnergyAuditors for EnergyAuditors.Registry;
+    using EnergyCommunityPool for EnergyCommunityPool.Pool;
+    using EnergyDevices for EnergyDevices.Registry;
+    using EnergySharing for EnergySharing.Grants;
+
     /// @notice Enum for energy record types
     enum RecordType {
         GENERATION,
         CONSUMPTION
     }
 
+    /// @notice Granularity of the time-bucketed totals
+    enum Period {
+        DAY,
+        MONTH
+    }
+
+    /// @notice Unit of the energy values stored by a deployment
+    enum EnergyUnit {
+        WH,
+        KWH,
+        MWH
+    }
+
+    /// @notice Maximum number of periods returned by getPeriodTotalsRange
+    uint256 public constant MAX_PERIOD_RANGE = 366;
+
+    /// @notice Minimum number of community pool members before the pooled generation can be published
+    uint256 public constant MIN_COMMUNITY_MEMBERS = EnergyCommunityPool.MIN_MEMBERS;
+
+    /// @notice Minimum time between two publications of the pooled generation
+    uint256 public constant COMMUNITY_PUBLICATION_INTERVAL = EnergyCommunityPool.PUBLICATION_INTERVAL;
+
+    /// @notice Maximum number of decimals of the fixed-point energy values
+    uint8 public constant MAX_VALUE_DECIMALS = 6;
+
+    /// @notice Maximum number of records scanned by a paged query or read by getRecordsMetadata
+    uint256 public constant MAX_PAGE_SIZE = 100;
+
+    /// @notice Unit of every encrypted value, total and balance of this deployment, see valueUnit
+    EnergyUnit private immutable VALUE_UNIT;
+
+    /// @notice Number of decimals of the fixed-point encrypted values, see valueDecimals
+    uint8 private immutable VALUE_DECIMALS;
+
     /// @notice Structure for an encrypted energy record
     struct EnergyRecord {
         uint256 id;
         RecordType recordType;
         string source;
-        euint32 encryptedValue;
+        euint64 encryptedValue;
+        uint256 timestamp;
+        address owner;
+        address device;
+        bool isVoided;
+        uint256 measuredFrom;
+        uint256 measuredTo;
+    }
+
+    /// @notice Structure for the public fields of a record, see getRecordMetadata
+    struct RecordMetadata {
+        uint256 id;
+        RecordType recordType;
+        string source;
         uint256 timestamp;
         address owner;
+        bool isVoided;
+        address device;
+        uint256 measuredFrom;
+        uint256 measuredTo;
+    }
+
+    /// @notice Structure for the encrypted aggregates of a user
+    /// @dev Period totals are keyed by granularity and period index, source totals by keccak256(source); sources
+    /// lists the distinct sources in order of first use. netBalance holds |generation - consumption| and isSurplus
+    /// its sign. totalsOverflowed is set once an addition to any total was clamped at the euint64 maximum, and
+    /// overLimit when the consumption of overLimitMonth exceeds consumptionLimit.
+    struct UserAccount {
+        euint64 totalGeneration;
+        euint64 totalConsumption;
+        mapping(Period period => mapping(uint256 index => euint64 total)) periodGeneration;
+        mapping(Period period => mapping(uint256 index => euint64 total)) periodConsumption;
+        mapping(bytes32 sourceKey => euint64 total) sourceGeneration;
+        mapping(bytes32 sourceKey => euint64 total) sourceConsumption;
+        string[] sources;
+        mapping(bytes32 sourceKey => bool known) hasSource;
+        euint64 netBalance;
+        ebool isSurplus;
+        ebool totalsOverflowed;
+        euint64 consumptionLimit;
+        ebool overLimit;
+        uint256 overLimitMonth;
+        bool generationInitialized;
+        bool consumptionInitialized;
     }
 
     /// @notice Counter for record IDs
     uint256 private _nextRecordId;
 
     /// @notice Mapping from record ID to EnergyRecord
-    mapping(uint256 => EnergyRecord) private _records;
+    mapping(uint256 recordId => EnergyRecord record) private _records;
 
     /// @notice Mapping from user address to their record IDs
-    mapping(address => uint256[]) private _userRecords;
+    mapping(address user => uint256[] recordIds) private _userRecords;
+
+    /// @notice Encrypted totals, sources and consumption alert of each user
+    mapping(address user => UserAccount account) private _accounts;
+
+    /// @notice Community pool of the users who opted in
+    EnergyCommunityPool.Pool private _community;
 
-    /// @notice Encrypted aggregated generation total per user
-    mapping(address => euint32) private _totalGeneration;
+    /// @notice Token minted from generation records, unset until the deployer links it
+    IEnergyCredit public creditToken;
 
-    /// @notice Encrypted aggregated consumption total per user
-    mapping(address => euint32) private _totalConsumption;
+    /// @notice Address allowed to link the credit token
+    address private immutable DEPLOYER;
 
-    /// @notice Track if user has initialized their totals
-    mapping(address => bool) private _generationInitialized;
-    mapping(address => bool) private _consumptionInitialized;
+    /// @notice Addresses each record is shared with, and records shared with each address
+    EnergySharing.Grants private _sharing;
+
+    /// @notice Auditors authorized to read each user's generation and consumption totals, and users of each auditor
+    EnergyAuditors.Registry private _auditors;
+
+    /// @notice Meter devices of each user, with their owners and open proposals
+    EnergyDevices.Registry private _devices;
 
     /// @notice Event emitted when a new energy record is created
+    /// @param id ID of the record
+    /// @param owner Owner of the record
+    /// @param recordType Whether the record is generation or consumption
+    /// @param source Energy source of the record
+    /// @param timestamp Block timestamp of the creation
+    /// @param device Device that submitted the record, address(0) when the owner did
+    /// @param measuredFrom Start of the measurement window
+    /// @param measuredTo End of the measurement window
     event RecordCreated(
         uint256 indexed id,
         address indexed owner,
         RecordType recordType,
         string source,
+        uint256 timestamp,
+        address indexed device,
+        uint256 measuredFrom,
+        uint256 measuredTo
+    );
+
+    /// @notice Event emitted when a record owner replaces the value of a record
+    /// @param id ID of the record
+    /// @param owner Owner of the record
+    /// @param timestamp Block timestamp of the correction
+    event RecordCorrected(
+        uint256 indexed id,
+        address indexed owner,
+        uint256 indexed timestamp
+    );
+
+    /// @notice Event emitted when a record owner voids a record
+    /// @param id ID of the record
+    /// @param owner Owner of the record
+    /// @param timestamp Block timestamp of the voiding
+    event RecordVoided(
+        uint256 indexed id,
+        address indexed owner,
+        uint256 indexed timestamp
+    );
+
+    /// @notice Event emitted when a record owner grants an address access to a record
+    /// @param id ID of the record
+    /// @param owner Owner of the record
+    /// @param grantee Address granted access
+    event AccessGranted(
+        uint256 indexed id,
+        address indexed owner,
+        address indexed grantee
+    );
+
+    /// @notice Event emitted when a record owner revokes an address's access to a record
+    /// @param id ID of the record
+    /// @param owner Owner of the record
+    /// @param grantee Address whose access is revoked
+    event AccessRevoked(
+        uint256 indexed id,
+        address indexed owner,
+        address indexed grantee
+    );
+
+    /// @notice Event emitted when a user authorizes an auditor on their totals
+    /// @param user User whose totals are shared
+    /// @param auditor Auditor authorized
+    event AuditorAuthorized(
+        address indexed user,
+        address indexed auditor
+    );
+
+    /// @notice Event emitted when a user revokes an auditor's access to their totals
+    /// @param user User whose totals were shared
+    /// @param auditor Auditor revoked
+    event AuditorRevoked(
+        address indexed user,
+        address indexed auditor
+    );
+
+    /// @notice Event emitted when a user proposes to register a meter device
+    /// @param user User proposing the device
+    /// @param device Proposed device
+    event DeviceProposed(
+        address indexed user,
+        address indexed device
+    );
+
+    /// @notice Event emitted when a user withdraws a device proposal the device has not accepted
+    /// @param user User who proposed the device
+    /// @param device Device of the withdrawn proposal
+    event DeviceProposalCancelled(
+        address indexed user,
+        address indexed device
+    );
+
+    /// @notice Event emitted when a device accepts a user's proposal and may submit records on their behalf
+    /// @param user User the device submits records for
+    /// @param device Registered device
+    event DeviceRegistered(
+        address indexed user,
+        address indexed device
+    );
+
+    /// @notice Event emitted when a user removes one of their meter devices
+    /// @param user User the device submitted records for
+    /// @param device Removed device
+    event DeviceRemoved(
+        address indexed user,
+        address indexed device
+    );
+
+    /// @notice Event emitted when a user sets or replaces their encrypted consumption limit
+    /// @param user User setting the limit
+    /// @param timestamp Block timestamp of the change
+    event ConsumptionLimitSet(
+        address indexed user,
+        uint256 indexed timestamp
+    );
+
+    /// @notice Event emitted when a user joins the community pool
+    /// @param member Member joining
+    /// @param memberCount Number of members after the change
+    event CommunityPoolJoined(
+        address indexed member,
+        uint256 indexed memberCount
+    );
+
+    /// @notice Event emitted when a user leaves the community pool
+    /// @param member Member leaving
+    /// @param memberCount Number of members after the change
+    event CommunityPoolLeft(
+        address indexed member,
+        uint256 indexed memberCount
+    );
+
+    /// @notice Event emitted when the public decryption of the pooled generation is requested
+    /// @param requestId ID of the decryption request
+    /// @param memberCount Number of members pooled
+    event CommunityDecryptionRequested(
+        uint256 indexed requestId,
+        uint256 indexed memberCount
+    );
+
+    /// @notice Event emitted when the decryption oracle reveals the pooled generation
+    /// @param requestId ID of the decryption request
+    /// @param totalGeneration Decrypted pooled generation
+    /// @param memberCount Number of members pooled
+    /// @param timestamp Block timestamp of the publication
+    event CommunityGenerationPublished(
+        uint256 indexed requestId,
+        uint64 indexed totalGeneration,
+        uint256 indexed memberCount,
         uint256 timestamp
     );
 
+    /// @notice Event emitted when the deployer links the credit token
+    /// @param token The linked credit token
+    event CreditTokenSet(
+        address indexed token
+    );
+
     /// @notice Event emitted when a record is decrypted (for logging purposes)
+    /// @param id ID of the record
+    /// @param requestor Address requesting the decryption
     event RecordDecrypted(
         uint256 indexed id,
         address indexed requestor
     );
 
+    /// @notice Deploy a vault storing energy values in a fixed unit and precision
+    /// @dev Clients encrypt values as value * 10^decimals_ and decode decrypted values accordingly
+    /// @param unit_ The unit of the stored values
+    /// @param decimals_ The number of decimals of the stored values, at most MAX_VALUE_DECIMALS
+    constructor(EnergyUnit unit_, uint8 decimals_) {
+        if (decimals_ > MAX_VALUE_DECIMALS) revert InvalidDecimals();
+        VALUE_UNIT = unit_;
+        VALUE_DECIMALS = decimals_;
+        DEPLOYER = msg.sender;
+    }
+
+    /// @notice Get the unit of every encrypted value, total and balance of this deployment
+    /// @return The energy unit
+    function valueUnit() external view returns (EnergyUnit) {
+        return VALUE_UNIT;
+    }
+
+    /// @notice Get the number of decimals of the fixed-point encrypted values
+    /// @dev A stored value v means v / 10^decimals units
+    /// @return The number of decimals
+    function valueDecimals() external view returns (uint8) {
+        return VALUE_DECIMALS;
+    }
+
+    /// @notice Link the token minted from generation records
+    /// @dev Can only be done once, by the deployer. The token must name this vault as its minter.
+    /// @param token The EnergyCredit address
+    function setCreditToken(address token) external {
+        if (msg.sender != DEPLOYER) revert NotDeployer();
+        if (address(creditToken) != address(0)) revert CreditTokenAlreadySet();
+        if (IEnergyCredit(token).minter() != address(this)) revert VaultIsNotTheMinter();
+
+        creditToken = IEnergyCredit(token);
+
+        emit CreditTokenSet(token);
+    }
+
     /// @notice Get the total number of records
     /// @return The total count of records created
     function getTotalRecords() external view returns (uint256) {
@@ -72,110 +375,752 @@ contract EnergyVault is SepoliaConfig {
         return _userRecords[user];
     }
 
+    /// @notice Get a page of the record IDs of a user, oldest first
+    /// @param user The address of the user
+    /// @param offset The position of the first ID in the user's list
+    /// @param limit The number of IDs, at most MAX_PAGE_SIZE
+    /// @return ids The record IDs, fewer than limit at the end of the list
+    function getUserRecordIdsPaged(
+        address user,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory ids) {
+        return _filterUserRecords(user, offset, limit, false, RecordType.GENERATION, 0, type(uint256).max);
+    }
+
+    /// @notice Get the IDs of the records of one type among a page of a user's records
+    /// @dev Scans positions [offset, offset + limit) of the user's list: a page can hold fewer IDs than limit
+    /// before the end of the list. Continue with offset + limit until getUserRecordCount.
+    /// @param user The address of the user
+    /// @param recordType The type of the records returned
+    /// @param offset The position of the first scanned record in the user's list
+    /// @param limit The number of scanned records, at most MAX_PAGE_SIZE
+    /// @return ids The matching record IDs, oldest first
+    function getUserRecordsByType(
+        address user,
+        RecordType recordType,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory ids) {
+        return _filterUserRecords(user, offset, limit, true, recordType, 0, type(uint256).max);
+    }
+
+    /// @notice Get the IDs of the records whose measurement ended in a time range among a page of a user's records
+    /// @dev Scans positions [offset, offset + limit) of the user's list, like getUserRecordsByType
+    /// @param user The address of the user
+    /// @param from The earliest measurement end, inclusive
+    /// @param to The latest measurement end, inclusive
+    /// @param offset The position of the first scanned record in the user's list
+    /// @param limit The number of scanned records, at most MAX_PAGE_SIZE
+    /// @return ids The matching record IDs, oldest first
+    function getUserRecordsInRange(
+        address user,
+        uint256 from,
+        uint256 to,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory ids) {
+        return _filterUserRecords(user, offset, limit, false, RecordType.GENERATION, from, to);
+    }
+
+    /// @notice Get the metadata of several records in one call
+    /// @param recordIds The IDs of the records, at most MAX_PAGE_SIZE
+    /// @return records The metadata of each record, in input order
+    function getRecordsMetadata(uint256[] calldata recordIds) external view returns (RecordMetadata[] memory records) {
+        if (recordIds.length > MAX_PAGE_SIZE) revert PageTooLarge();
+
+        records = new RecordMetadata[](recordIds.length);
+        for (uint256 i = 0; i < recordIds.length; ++i) {
+            records[i] = _getRecordMetadata(recordIds[i]);
+        }
+    }
+
     /// @notice Get metadata for a specific record (excluding encrypted value)
     /// @param recordId The ID of the record
     /// @return id The record ID
     /// @return recordType The type of record (generation or consumption)
     /// @return source The source description
-    /// @return timestamp The creation timestamp
+    /// @return timestamp The block timestamp of the submission
     /// @return owner The record owner address
+    /// @return isVoided True if the owner voided the record
+    /// @return device The meter device that submitted the record, address(0) if the owner did
+    /// @return measuredFrom The start of the measurement interval
+    /// @return measuredTo The end of the measurement interval
     function getRecordMetadata(uint256 recordId) external view returns (
         uint256 id,
         RecordType recordType,
         string memory source,
         uint256 timestamp,
-        address owner
+        address owner,
+        bool isVoided,
+        address device,
+        uint256 measuredFrom,
+        uint256 measuredTo
     ) {
-        EnergyRecord storage record = _records[recordId];
-        require(record.owner != address(0), "Record does not exist");
-        return (record.id, record.recordType, record.source, record.timestamp, record.owner);
+        RecordMetadata memory metadata = _getRecordMetadata(recordId);
+        return (
+            metadata.id,
+            metadata.recordType,
+            metadata.source,
+            metadata.timestamp,
+            metadata.owner,
+            metadata.isVoided,
+            metadata.device,
+            metadata.measuredFrom,
+            metadata.measuredTo
+        );
     }
 
-    /// @notice Get the encrypted value of a record (only accessible by owner)
+    /// @notice Get the encrypted value of a record (only accessible by owner and grantees)
     /// @param recordId The ID of the record
     /// @return The encrypted energy value
-    function getRecordEncryptedValue(uint256 recordId) external view returns (euint32) {
+    function getRecordEncryptedValue(uint256 recordId) external view returns (euint64) {
         EnergyRecord storage record = _records[recordId];
-        require(record.owner != address(0), "Record does not exist");
-        require(record.owner == msg.sender, "Not record owner");
+        if (record.owner == address(0)) revert RecordDoesNotExist();
+        if (record.owner != msg.sender && !_sharing.isGrantee(recordId, msg.sender)) revert NotRecordOwner();
         return record.encryptedValue;
     }
 
-    /// @notice Get encrypted total generation for a user
+    /// @notice Get the addresses a record is shared with
+    /// @param recordId The ID of the record
+    /// @return Array of grantee addresses
+    function getRecordGrantees(uint256 recordId) external view returns (address[] memory) {
+        if (_records[recordId].owner == address(0)) revert RecordDoesNotExist();
+        return _sharing.grantees[recordId];
+    }
+
+    /// @notice Get the IDs of the records shared with an address
+    /// @param grantee The address records were shared with
+    /// @return Array of record IDs, in no particular order
+    function getRecordsSharedWith(address grantee) external view returns (uint256[] memory) {
+        return _sharing.sharedRecords[grantee];
+    }
+
+    /// @notice Check if an address can read a record's encrypted value
+    /// @param recordId The ID of the record
+    /// @param user The address to check
+    /// @return True if the user owns the record or was granted access to it
+    function hasRecordAccess(uint256 recordId, address user) external view returns (bool) {
+        return _records[recordId].owner == user || _sharing.isGrantee(recordId, user);
+    }
+
+    /// @notice Grant an address decryption rights on one of the sender's records
+    /// @param recordId The ID of the record to share
+    /// @param grantee The address to share the record with
+    function grantAccess(uint256 recordId, address grantee) external {
+        EnergyRecord storage record = _records[recordId];
+        if (record.owner == address(0)) revert RecordDoesNotExist();
+        if (record.owner != msg.sender) revert NotRecordOwner();
+
+        _sharing.grant(recordId, record.encryptedValue, grantee);
+
+        emit AccessGranted(recordId, msg.sender, grantee);
+    }
+
+    /// @notice Revoke an address's access to one of the sender's records
+    /// @dev FHE ACL permissions cannot be withdrawn: the grantee is removed from the sharing lists
+    /// and can no longer fetch the handle through getRecordEncryptedValue, but a handle it already
+    /// knows stays decryptable by it.
+    /// @param recordId The ID of the shared record
+    /// @param grantee The address to revoke
+    function revokeAccess(uint256 recordId, address grantee) external {
+        EnergyRecord storage record = _records[recordId];
+        if (record.owner == address(0)) revert RecordDoesNotExist();
+        if (record.owner != msg.sender) revert NotRecordOwner();
+
+        _sharing.revoke(recordId, grantee);
+
+        emit AccessRevoked(recordId, msg.sender, grantee);
+    }
+
+    /// @notice Get encrypted total generation for a user (accessible by the user and their auditors)
     /// @param user The address of the user
     /// @return The encrypted total generation value
-    function getTotalGeneration(address user) external view returns (euint32) {
-        require(user == msg.sender, "Can only view own totals");
-        return _totalGeneration[user];
+    function getTotalGeneration(address user) external view returns (euint64) {
+        if (user != msg.sender && !_auditors.isAuditor(user, msg.sender)) revert CanOnlyViewOwnTotals();
+        return _accounts[user].totalGeneration;
     }
 
-    /// @notice Get encrypted total consumption for a user
+    /// @notice Get encrypted total consumption for a user (accessible by the user and their auditors)
     /// @param user The address of the user
     /// @return The encrypted total consumption value
-    function getTotalConsumption(address user) external view returns (euint32) {
-        require(user == msg.sender, "Can only view own totals");
-        return _totalConsumption[user];
+    function getTotalConsumption(address user) external view returns (euint64) {
+        if (user != msg.sender && !_auditors.isAuditor(user, msg.sender)) revert CanOnlyViewOwnTotals();
+        return _accounts[user].totalConsumption;
+    }
+
+    /// @notice Get the encrypted overflow flag of a user's totals (accessible by the user and their auditors)
+    /// @dev The handle is uninitialized (read as false) until a value is first added to an existing total.
+    /// Once set the flag stays set, and the clamped totals are only lower bounds.
+    /// @param user The address of the user
+    /// @return True if an addition to a total, period total or source total of the user was clamped
+    function getTotalsOverflowed(address user) external view returns (ebool) {
+        if (user != msg.sender && !_auditors.isAuditor(user, msg.sender)) revert CanOnlyViewOwnTotals();
+        return _accounts[user].totalsOverflowed;
+    }
+
+    /// @notice Get the index of the period containing a timestamp
+    /// @dev Days are counted since the Unix epoch; months since January 1970 (UTC), so March 2025 is
+    /// (2025 - 1970) * 12 + 2
+    /// @param period The period granularity
+    /// @param timestamp The Unix timestamp in seconds
+    /// @return The period index
+    function getPeriodIndex(Period period, uint256 timestamp) public pure returns (uint256) {
+        if (period == Period.DAY) {
+            return timestamp / 1 days;
+        }
+        return _monthIndex(timestamp);
+    }
+
+    /// @notice Get the encrypted generation and consumption totals of a user for one period
+    /// @dev Records count in the period containing the end of their measurement. Periods without any record
+    /// return uninitialized (zero) handles
+    /// @param user The address of the user
+    /// @param period The period granularity
+    /// @param index The period index, see getPeriodIndex
+    /// @return generation The encrypted generation total of the period
+    /// @return consumption The encrypted consumption total of the period
+    function getPeriodTotals(
+        address user,
+        Period period,
+        uint256 index
+    ) external view returns (euint64 generation, euint64 consumption) {
+        if (user != msg.sender && !_auditors.isAuditor(user, msg.sender)) revert CanOnlyViewOwnTotals();
+        return (_accounts[user].periodGeneration[period][index], _accounts[user].periodConsumption[period][index]);
+    }
+
+    /// @notice Get the encrypted totals of a user for consecutive periods
+    /// @param user The address of the user
+    /// @param period The period granularity
+    /// @param fromIndex The first period index
+    /// @param count The number of periods, at most MAX_PERIOD_RANGE
+    /// @return generation The encrypted generation totals, one per period
+    /// @return consumption The encrypted consumption totals, one per period
+    function getPeriodTotalsRange(
+        address user,
+        Period period,
+        uint256 fromIndex,
+        uint256 count
+    ) external view returns (euint64[] memory generation, euint64[] memory consumption) {
+        if (user != msg.sender && !_auditors.isAuditor(user, msg.sender)) revert CanOnlyViewOwnTotals();
+        if (count > MAX_PERIOD_RANGE) revert RangeTooLarge();
+
+        generation = new euint64[](count);
+        consumption = new euint64[](count);
+        for (uint256 i = 0; i < count; ++i) {
+            generation[i] = _accounts[user].periodGeneration[period][fromIndex + i];
+            consumption[i] = _accounts[user].periodConsumption[period][fromIndex + i];
+        }
+    }
+
+    /// @notice Get the distinct sources a user has recorded energy for
+    /// @param user The address of the user
+    /// @return Array of source descriptions, in order of first use
+    function getUserSources(address user) external view returns (string[] memory) {
+        return _accounts[user].sources;
+    }
+
+    /// @notice Get the encrypted generation and consumption totals of a user for one source
+    /// @dev Returns uninitialized (zero) handles for a type the source was never used with
+    /// @param user The address of the user
+    /// @param source The source description, matched exactly
+    /// @return generation The encrypted generation total of the source
+    /// @return consumption The encrypted consumption total of the source
+    function getSourceTotals(
+        address user,
+        string calldata source
+    ) external view returns (euint64 generation, euint64 consumption) {
+        if (user != msg.sender && !_auditors.isAuditor(user, msg.sender)) revert CanOnlyViewOwnTotals();
+        bytes32 sourceKey = keccak256(bytes(source));
+        return (_accounts[user].sourceGeneration[sourceKey], _accounts[user].sourceConsumption[sourceKey]);
+    }
+
+    /// @notice Get the auditors authorized on a user's totals
+    /// @param user The address of the user
+    /// @return Array of auditor addresses
+    function getAuditors(address user) external view returns (address[] memory) {
+        return _auditors.auditors[user];
+    }
+
+    /// @notice Get the users who authorized an auditor on their totals
+    /// @param auditor The address of the auditor
+    /// @return Array of user addresses, in no particular order
+    function getAuditedUsers(address auditor) external view returns (address[] memory) {
+        return _auditors.auditedUsers[auditor];
+    }
+
+    /// @notice Check if an auditor is authorized on a user's totals
+    /// @param user The address of the user
+    /// @param auditor The address to check
+    /// @return True if the auditor can read the user's totals
+    function isAuditor(address user, address auditor) external view returns (bool) {
+        return _auditors.isAuditor(user, auditor);
+    }
+
+    /// @notice Authorize an auditor to read the sender's generation and consumption totals
+    /// @dev The auditor is allowed on the current overall totals and on every later update of any total.
+    /// Period and source totals computed before the authorization are shared page by page with
+    /// allowAuditorPeriodTotals and allowAuditorSourceTotals, so that the gas of each call stays bounded.
+    /// Individual records stay private.
+    /// @param auditor The address of the auditor
+    function authorizeAuditor(address auditor) external {
+        _auditors.authorize(auditor);
+
+        if (_accounts[msg.sender].generationInitialized) {
+            FHE.allow(_accounts[msg.sender].totalGeneration, auditor);
+        }
+        if (_accounts[msg.sender].consumptionInitialized) {
+            FHE.allow(_accounts[msg.sender].totalConsumption, auditor);
+        }
+        if (FHE.isInitialized(_accounts[msg.sender].totalsOverflowed)) {
+            FHE.allow(_accounts[msg.sender].totalsOverflowed, auditor);
+        }
+
+        emit AuditorAuthorized(msg.sender, auditor);
+    }
+
+    /// @notice Allow one of the sender's auditors on the sender's totals of consecutive past periods
+    /// @dev Periods without any record are skipped
+    /// @param auditor The address of an auditor authorized by the sender
+    /// @param period The period granularity
+    /// @param fromIndex The first period index, see getPeriodIndex
+    /// @param count The number of periods, at most MAX_PAGE_SIZE
+    function allowAuditorPeriodTotals(address auditor, Period period, uint256 fromIndex, uint256 count) external {
+        if (!_auditors.isAuditor(msg.sender, auditor)) revert AuditorNotAuthorized();
+        if (count > MAX_PAGE_SIZE) revert PageTooLarge();
+
+        for (uint256 i = fromIndex; i < fromIndex + count; ++i) {
+            _allowIfInitialized(_accounts[msg.sender].periodGeneration[period][i], auditor);
+            _allowIfInitialized(_accounts[msg.sender].periodConsumption[period][i], auditor);
+        }
+    }
+
+    /// @notice Allow one of the sender's auditors on the sender's totals of a page of sources
+    /// @param auditor The address of an auditor authorized by the sender
+    /// @param offset The position of the first source in getUserSources
+    /// @param limit The number of sources, at most MAX_PAGE_SIZE
+    function allowAuditorSourceTotals(address auditor, uint256 offset, uint256 limit) external {
+        if (!_auditors.isAuditor(msg.sender, auditor)) revert AuditorNotAuthorized();
+        if (limit > MAX_PAGE_SIZE) revert PageTooLarge();
+
+        string[] storage sources = _accounts[msg.sender].sources;
+        uint256 end = offset + limit < sources.length ? offset + limit : sources.length;
+        for (uint256 i = offset; i < end; ++i) {
+            bytes32 sourceKey = keccak256(bytes(sources[i]));
+            _allowIfInitialized(_accounts[msg.sender].sourceGeneration[sourceKey], auditor);
+            _allowIfInitialized(_accounts[msg.sender].sourceConsumption[sourceKey], auditor);
+        }
+    }
+
+    /// @notice Revoke an auditor's access to the sender's totals
+    /// @dev Like record grants, ACL permissions on handles the auditor already received cannot be
+    /// withdrawn; the auditor only stops being allowed on future updates.
+    /// @param auditor The address of the auditor
+    function revokeAuditor(address auditor) external {
+        _auditors.revoke(auditor);
+
+        emit AuditorRevoked(msg.sender, auditor);
+    }
+
+    /// @notice Get the meter devices registered by a user
+    /// @param user The address of the user
+    /// @return Array of device addresses, in no particular order
+    function getDevices(address user) external view returns (address[] memory) {
+        return _devices.devices[user];
+    }
+
+    /// @notice Get the owner a meter device submits records for
+    /// @param device The device address
+    /// @return The owner address, address(0) if the device is not registered
+    function getDeviceOwner(address device) external view returns (address) {
+        return _devices.owners[device];
+    }
+
+    /// @notice Check if a user proposed a device that has not accepted yet
+    /// @param device The device address
+    /// @param user The address of the proposing user
+    /// @return True if the proposal is open
+    function isDeviceProposed(address device, address user) external view returns (bool) {
+        return _devices.proposals[device][user];
+    }
+
+    /// @notice Propose a meter device to submit records on behalf of the sender
+    /// @dev The device is registered once it calls acceptDevice from its own key. Proposals do not reserve
+    /// the device, so nobody can block its real owner by proposing it first.
+    /// @param device The device address
+    function proposeDevice(address device) external {
+        _devices.propose(device);
+
+        emit DeviceProposed(msg.sender, device);
+    }
+
+    /// @notice Withdraw a device proposal of the sender the device has not accepted
+    /// @param device The device address
+    function cancelDeviceProposal(address device) external {
+        _devices.cancelProposal(device);
+
+        emit DeviceProposalCancelled(msg.sender, device);
+    }
+
+    /// @notice Accept the proposal of a user, called by the device itself
+    /// @dev A device belongs to a single owner. It can only create records: it cannot read, correct,
+    /// void or share them.
+    /// @param owner The user who proposed the sending device
+    function acceptDevice(address owner) external {
+        _devices.accept(owner);
+
+        emit DeviceRegistered(owner, msg.sender);
+    }
+
+    /// @notice Remove one of the sender's meter devices
+    /// @dev Records the device already submitted are kept
+    /// @param device The device address
+    function removeDevice(address device) external {
+        _devices.remove(device);
+
+        emit DeviceRemoved(msg.sender, device);
+    }
+
+    /// @notice Get the encrypted net balance for a user
+    /// @dev The balance is unsigned: it holds |generation - consumption|, see getIsSurplus for the sign
+    /// @param user The address of the user
+    /// @return The encrypted net balance value
+    function getNetBalance(address user) external view returns (euint64) {
+        if (user != msg.sender) revert CanOnlyViewOwnTotals();
+        return _accounts[user].netBalance;
+    }
+
+    /// @notice Get the encrypted surplus flag for a user
+    /// @param user The address of the user
+    /// @return The encrypted flag, true when generation >= consumption
+    function getIsSurplus(address user) external view returns (ebool) {
+        if (user != msg.sender) revert CanOnlyViewOwnTotals();
+        return _accounts[user].isSurplus;
+    }
+
+    /// @notice Get the encrypted monthly consumption limit of a user
+    /// @param user The address of the user
+    /// @return The encrypted limit, uninitialized until setConsumptionLimit is called
+    function getConsumptionLimit(address user) external view returns (euint64) {
+        if (user != msg.sender) revert CanOnlyViewOwnTotals();
+        return _accounts[user].consumptionLimit;
+    }
+
+    /// @notice Get the encrypted over-limit alert of a user
+    /// @dev The flag is recomputed whenever the limit or the consumption totals change, for the current month
+    /// when the limit is set and for the month a consumption record ends in when the record is written. Records
+    /// of a month before the one the flag was computed for leave it unchanged.
+    /// @param user The address of the user
+    /// @return overLimit The encrypted flag, true when consumption in the month is above the limit
+    /// @return month The month index (see getPeriodIndex) the flag was computed for
+    function getConsumptionAlert(address user) external view returns (ebool overLimit, uint256 month) {
+        if (user != msg.sender) revert CanOnlyViewOwnTotals();
+        return (_accounts[user].overLimit, _accounts[user].overLimitMonth);
+    }
+
+    /// @notice Set the sender's monthly consumption limit
+    /// @dev The limit is compared with the current month's consumption total, neither is revealed
+    /// @param encryptedLimit The encrypted limit, in the same fixed-point unit as the record values
+    /// @param inputProof The input proof for the encrypted limit
+    function setConsumptionLimit(externalEuint64 encryptedLimit, bytes calldata inputProof) external {
+        euint64 limit = FHE.fromExternal(encryptedLimit, inputProof);
+        _accounts[msg.sender].consumptionLimit = limit;
+        FHE.allowThis(limit);
+        FHE.allow(limit, msg.sender);
+
+        _updateOverLimit(msg.sender, _monthIndex(block.timestamp));
+
+        emit ConsumptionLimitSet(msg.sender, block.timestamp);
+    }
+
+    /// @notice Check if a user is in the community pool
+    /// @param user The address to check
+    /// @return True if the user opted into the pool
+    function isCommunityMember(address user) external view returns (bool) {
+        return _community.isMember[user];
+    }
+
+    /// @notice Get the number of community pool members
+    /// @return The member count
+    function getCommunityMemberCount() external view returns (uint256) {
+        return _community.memberCount;
+    }
+
+    /// @notice Get the last pooled generation revealed by the decryption oracle
+    /// @return totalGeneration The clear sum of the members' total generation (0 before the first publication)
+    /// @return memberCount The number of members the sum covers
+    /// @return publishedAt The timestamp of the publication (0 before the first publication)
+    function getPublishedCommunityGeneration() external view returns (
+        uint64 totalGeneration,
+        uint256 memberCount,
+        uint256 publishedAt
+    ) {
+        return (_community.publishedGeneration, _community.publishedMemberCount, _community.publishedAt);
+    }
+
+    /// @notice Check if a public decryption of the pooled generation is in progress
+    /// @return True while the oracle has not answered the last request
+    function isCommunityDecryptionPending() external view returns (bool) {
+        return _community.decryptionPending;
+    }
+
+    /// @notice Add the sender's total generation to the community pool
+    /// @dev The sender's current total is pooled, and every later change to it is mirrored in the pool.
+    /// Only the contract can use the pooled ciphertext; it is never allowed to members.
+    function joinCommunityPool() external {
+        _community.join(_accounts[msg.sender].generationInitialized, _accounts[msg.sender].totalGeneration);
+
+        emit CommunityPoolJoined(msg.sender, _community.memberCount);
+    }
+
+    /// @notice Remove the sender's total generation from the community pool
+    function leaveCommunityPool() external {
+        _community.leave(_accounts[msg.sender].generationInitialized, _accounts[msg.sender].totalGeneration);
+
+        emit CommunityPoolLeft(msg.sender, _community.memberCount);
+    }
+
+    /// @notice Ask the decryption oracle to publish the pooled generation
+    /// @dev Anyone can request once the pool has MIN_COMMUNITY_MEMBERS members, at most once every
+    /// COMMUNITY_PUBLICATION_INTERVAL. Comparing publications around a single join or leave would reveal that
+    /// member's total, so the member set must be unchanged or differ by at least MIN_COMMUNITY_MEMBERS users
+    /// since the previous request.
+    /// @return requestId The ID of the decryption request
+    function requestCommunityDecryption() external returns (uint256 requestId) {
+        requestId = _community.requestDecryption(this.publishCommunityGeneration.selector);
+
+        emit CommunityDecryptionRequested(requestId, _community.memberCount);
+    }
+
+    /// @notice Decryption oracle callback revealing the pooled generation
+    /// @param requestId The ID of the decryption request
+    /// @param cleartexts The ABI-encoded clear pooled generation
+    /// @param decryptionProof The KMS signatures over the cleartexts
+    function publishCommunityGeneration(
+        uint256 requestId,
+        bytes calldata cleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        uint64 totalGeneration = _community.publish(requestId, cleartexts, decryptionProof);
+
+        emit CommunityGenerationPublished(
+            requestId,
+            totalGeneration,
+            _community.publishedMemberCount,
+            block.timestamp
+        );
     }
 
     /// @notice Create a new energy generation record
     /// @param source The source description (e.g., "Solar Panel")
     /// @param encryptedValue The encrypted energy value
     /// @param inputProof The input proof for the encrypted value
+    /// @param measuredFrom The Unix timestamp at which the measurement started
+    /// @param measuredTo The Unix timestamp at which the measurement ended, not in the future
     /// @return recordId The ID of the newly created record
     function createGenerationRecord(
         string calldata source,
-        externalEuint32 encryptedValue,
-        bytes calldata inputProof
+        externalEuint64 encryptedValue,
+        bytes calldata inputProof,
+        uint256 measuredFrom,
+        uint256 measuredTo
     ) external returns (uint256 recordId) {
-        euint32 value = FHE.fromExternal(encryptedValue, inputProof);
-        recordId = _createRecord(RecordType.GENERATION, source, value);
-        
-        // Update total generation
-        if (!_generationInitialized[msg.sender]) {
-            _totalGeneration[msg.sender] = value;
-            _generationInitialized[msg.sender] = true;
-        } else {
-            _totalGeneration[msg.sender] = FHE.add(_totalGeneration[msg.sender], value);
-        }
-        FHE.allowThis(_totalGeneration[msg.sender]);
-        FHE.allow(_totalGeneration[msg.sender], msg.sender);
+        euint64 value = FHE.fromExternal(encryptedValue, inputProof);
+        recordId = _createRecord(
+            msg.sender,
+            address(0),
+            RecordType.GENERATION,
+            source,
+            value,
+            measuredFrom,
+            measuredTo
+        );
+        _addToTotalGeneration(msg.sender, value);
+        _updateNetBalance(msg.sender);
     }
 
     /// @notice Create a new energy consumption record
     /// @param source The source description (e.g., "Home Usage")
     /// @param encryptedValue The encrypted energy value
     /// @param inputProof The input proof for the encrypted value
+    /// @param measuredFrom The Unix timestamp at which the measurement started
+    /// @param measuredTo The Unix timestamp at which the measurement ended, not in the future
     /// @return recordId The ID of the newly created record
     function createConsumptionRecord(
         string calldata source,
-        externalEuint32 encryptedValue,
-        bytes calldata inputProof
+        externalEuint64 encryptedValue,
+        bytes calldata inputProof,
+        uint256 measuredFrom,
+        uint256 measuredTo
     ) external returns (uint256 recordId) {
-        euint32 value = FHE.fromExternal(encryptedValue, inputProof);
-        recordId = _createRecord(RecordType.CONSUMPTION, source, value);
-        
-        // Update total consumption
-        if (!_consumptionInitialized[msg.sender]) {
-            _totalConsumption[msg.sender] = value;
-            _consumptionInitialized[msg.sender] = true;
+        euint64 value = FHE.fromExternal(encryptedValue, inputProof);
+        recordId = _createRecord(
+            msg.sender,
+            address(0),
+            RecordType.CONSUMPTION,
+            source,
+            value,
+            measuredFrom,
+            measuredTo
+        );
+        _addToTotalConsumption(msg.sender, value);
+        _updateNetBalance(msg.sender);
+    }
+
+    /// @notice Create a record on behalf of the owner of the sending meter device
+    /// @dev The value must be encrypted for the device address. The record, its totals and the minted
+    /// credits belong to the owner, and the record keeps the device address.
+    /// @param recordType The type of record
+    /// @param source The source description (e.g., "Smart Meter")
+    /// @param encryptedValue The encrypted energy value
+    /// @param inputProof The input proof for the encrypted value
+    /// @param measuredFrom The Unix timestamp at which the measurement started
+    /// @param measuredTo The Unix timestamp at which the measurement ended, not in the future
+    /// @return recordId The ID of the newly created record
+    function createDeviceRecord(
+        RecordType recordType,
+        string calldata source,
+        externalEuint64 encryptedValue,
+        bytes calldata inputProof,
+        uint256 measuredFrom,
+        uint256 measuredTo
+    ) external returns (uint256 recordId) {
+        address owner = _devices.owners[msg.sender];
+        if (owner == address(0)) revert NotARegisteredDevice();
+
+        euint64 value = FHE.fromExternal(encryptedValue, inputProof);
+        recordId = _createRecord(owner, msg.sender, recordType, source, value, measuredFrom, measuredTo);
+        if (recordType == RecordType.GENERATION) {
+            _addToTotalGeneration(owner, value);
         } else {
-            _totalConsumption[msg.sender] = FHE.add(_totalConsumption[msg.sender], value);
+            _addToTotalConsumption(owner, value);
         }
-        FHE.allowThis(_totalConsumption[msg.sender]);
-        FHE.allow(_totalConsumption[msg.sender], msg.sender);
+        _updateNetBalance(owner);
+    }
+
+    /// @notice Create several energy records in one transaction
+    /// @dev All values must come from a single encrypted input (one add64 per record) sharing one proof.
+    /// Each total is updated once with the sum of the batch values of its type, the period totals once per record.
+    /// @param types The type of each record
+    /// @param sources The source description of each record
+    /// @param encryptedValues The encrypted energy value of each record
+    /// @param inputProof The input proof shared by all the encrypted values
+    /// @param measurements The measurement start and end timestamps of each record
+    /// @return recordIds The IDs of the newly created records, in input order
+    function createRecords(
+        RecordType[] calldata types,
+        string[] calldata sources,
+        externalEuint64[] calldata encryptedValues,
+        bytes calldata inputProof,
+        uint256[2][] calldata measurements
+    ) external returns (uint256[] memory recordIds) {
+        if (types.length == 0) revert EmptyBatch();
+        if (
+            types.length != sources.length ||
+            types.length != encryptedValues.length ||
+            types.length != measurements.length
+        ) {
+            revert BatchLengthMismatch();
+        }
+
+        recordIds = new uint256[](types.length);
+
+        // Both sums stay uninitialized until the batch contains a record of their type
+        euint64 generationSum;
+        euint64 consumptionSum;
+
+        for (uint256 i = 0; i < types.length; ++i) {
+            euint64 value = FHE.fromExternal(encryptedValues[i], inputProof);
+            recordIds[i] = _createBatchRecord(types[i], sources[i], value, measurements[i]);
+
+            if (types[i] == RecordType.GENERATION) {
+                generationSum = FHE.isInitialized(generationSum)
+                    ? _addClamped(msg.sender, generationSum, value)
+                    : value;
+            } else {
+                consumptionSum = FHE.isInitialized(consumptionSum)
+                    ? _addClamped(msg.sender, consumptionSum, value)
+                    : value;
+            }
+        }
+
+        if (FHE.isInitialized(generationSum)) {
+            _addToTotalGeneration(msg.sender, generationSum);
+        }
+        if (FHE.isInitialized(consumptionSum)) {
+            _addToTotalConsumption(msg.sender, consumptionSum);
+        }
+        _updateNetBalance(msg.sender);
+    }
+
+    /// @notice Replace the value of one of the sender's records
+    /// @dev Every aggregate containing the record (totals, period and source totals, net balance) is adjusted
+    /// by subtracting the old value and adding the new one. Grantees keep access to the corrected value.
+    /// @param recordId The ID of the record to correct
+    /// @param newEncryptedValue The new encrypted energy value
+    /// @param inputProof The input proof for the new encrypted value
+    function correctRecord(
+        uint256 recordId,
+        externalEuint64 newEncryptedValue,
+        bytes calldata inputProof
+    ) external {
+        EnergyRecord storage record = _records[recordId];
+        if (record.owner == address(0)) revert RecordDoesNotExist();
+        if (record.owner != msg.sender) revert NotRecordOwner();
+        if (record.isVoided) revert RecordIsVoid();
+
+        euint64 newValue = FHE.fromExternal(newEncryptedValue, inputProof);
+        _replaceInAggregates(record, newValue);
+        record.encryptedValue = newValue;
+
+        FHE.allowThis(newValue);
+        FHE.allow(newValue, msg.sender);
+        _sharing.allowGrantees(recordId, newValue);
+
+        emit RecordCorrected(recordId, msg.sender, block.timestamp);
+    }
+
+    /// @notice Void one of the sender's records
+    /// @dev The record is kept for the audit trail but its value is subtracted from every aggregate.
+    /// A voided record cannot be corrected or voided again.
+    /// @param recordId The ID of the record to void
+    function voidRecord(uint256 recordId) external {
+        EnergyRecord storage record = _records[recordId];
+        if (record.owner == address(0)) revert RecordDoesNotExist();
+        if (record.owner != msg.sender) revert NotRecordOwner();
+        if (record.isVoided) revert RecordIsVoid();
+
+        _replaceInAggregates(record, FHE.asEuint64(0));
+        record.isVoided = true;
+
+        emit RecordVoided(recordId, msg.sender, block.timestamp);
     }
 
     /// @notice Internal function to create a record
+    /// @dev Adds the value to the source total and to the period totals of the measurement end.
+    /// The overall totals are left to the caller.
+    /// @param user The record owner
+    /// @param device The meter device that submitted the record, address(0) if the owner did
     /// @param recordType The type of record
     /// @param source The source description
     /// @param value The encrypted value
+    /// @param measuredFrom The start of the measurement interval
+    /// @param measuredTo The end of the measurement interval
     /// @return recordId The ID of the created record
     function _createRecord(
+        address user,
+        address device,
         RecordType recordType,
         string calldata source,
-        euint32 value
+        euint64 value,
+        uint256 measuredFrom,
+        uint256 measuredTo
     ) internal returns (uint256 recordId) {
-        recordId = _nextRecordId++;
+        if (measuredFrom > measuredTo) revert InvalidMeasurementPeriod();
+        if (measuredTo > block.timestamp) revert MeasurementEndsInTheFuture();
+
+        recordId = _nextRecordId;
+        ++_nextRecordId;
         
         _records[recordId] = EnergyRecord({
             id: recordId,
@@ -183,16 +1128,404 @@ contract EnergyVault is SepoliaConfig {
             source: source,
             encryptedValue: value,
             timestamp: block.timestamp,
-            owner: msg.sender
+            owner: user,
+            device: device,
+            isVoided: false,
+            measuredFrom: measuredFrom,
+            measuredTo: measuredTo
         });
         
-        _userRecords[msg.sender].push(recordId);
+        _userRecords[user].push(recordId);
         
         // Allow contract and owner to access encrypted value
         FHE.allowThis(value);
-        FHE.allow(value, msg.sender);
+        FHE.allow(value, user);
+
+        _addToSourceTotal(user, recordType, source, value);
+        _addToPeriodTotals(
+            user,
+            recordType == RecordType.GENERATION ? _accounts[user].periodGeneration : _accounts[user].periodConsumption,
+            value,
+            measuredTo
+        );
+        if (recordType == RecordType.CONSUMPTION) {
+            _updateOverLimit(user, _monthIndex(measuredTo));
+        }
         
-        emit RecordCreated(recordId, msg.sender, recordType, source, block.timestamp);
+        emit RecordCreated(recordId, user, recordType, source, block.timestamp, device, measuredFrom, measuredTo);
+    }
+
+    /// @notice Internal function to create one record of a sender's batch
+    /// @param recordType The type of record
+    /// @param source The source description
+    /// @param value The encrypted value
+    /// @param measurement The start and end of the measurement interval
+    /// @return recordId The ID of the created record
+    function _createBatchRecord(
+        RecordType recordType,
+        string calldata source,
+        euint64 value,
+        uint256[2] calldata measurement
+    ) internal returns (uint256 recordId) {
+        return _createRecord(msg.sender, address(0), recordType, source, value, measurement[0], measurement[1]);
+    }
+
+    /// @notice Internal function to read the public fields of a record
+    /// @param recordId The ID of the record, must exist
+    /// @return metadata The record fields, without the encrypted value
+    function _getRecordMetadata(uint256 recordId) internal view returns (RecordMetadata memory metadata) {
+        EnergyRecord storage record = _records[recordId];
+        if (record.owner == address(0)) revert RecordDoesNotExist();
+        return
+            RecordMetadata({
+                id: record.id,
+                recordType: record.recordType,
+                source: record.source,
+                timestamp: record.timestamp,
+                owner: record.owner,
+                isVoided: record.isVoided,
+                device: record.device,
+                measuredFrom: record.measuredFrom,
+                measuredTo: record.measuredTo
+            });
+    }
+
+    /// @notice Internal function to select the IDs of a page of a user's records
+    /// @param user The address of the user
+    /// @param offset The position of the first scanned record in the user's list
+    /// @param limit The number of scanned records, at most MAX_PAGE_SIZE
+    /// @param filterType True to only select the records of recordType
+    /// @param recordType The type of the selected records when filterType is set
+    /// @param from The earliest measurement end of the selected records
+    /// @param to The latest measurement end of the selected records
+    /// @return ids The selected record IDs, in list order
+    function _filterUserRecords(
+        address user,
+        uint256 offset,
+        uint256 limit,
+        bool filterType,
+        RecordType recordType,
+        uint256 from,
+        uint256 to
+    ) internal view returns (uint256[] memory ids) {
+        if (limit > MAX_PAGE_SIZE) revert PageTooLarge();
+
+        uint256[] storage userRecords = _userRecords[user];
+        uint256 end = offset + limit < userRecords.length ? offset + limit : userRecords.length;
+        ids = new uint256[](offset < end ? end - offset : 0);
+
+        uint256 count = 0;
+        for (uint256 i = offset; i < end; ++i) {
+            EnergyRecord storage record = _records[userRecords[i]];
+            if (
+                (filterType && record.recordType != recordType) ||
+                record.measuredTo < from ||
+                record.measuredTo > to
+            ) {
+                continue;
+            }
+            ids[count] = record.id;
+            ++count;
+        }
+
+        // Shrink the array to the selected IDs
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            mstore(ids, count)
+        }
+    }
+
+    /// @notice Internal function to add a value to a user's total generation
+    /// @param user The owner of the records and totals
+    /// @param value The encrypted value to add
+    function _addToTotalGeneration(address user, euint64 value) internal {
+        if (!_accounts[user].generationInitialized) {
+            _accounts[user].totalGeneration = value;
+            _accounts[user].generationInitialized = true;
+        } else {
+            _accounts[user].totalGeneration = _addClamped(user, _accounts[user].totalGeneration, value);
+        }
+        _allowTotal(user, _accounts[user].totalGeneration);
+
+        if (_community.isMember[user]) {
+            _community.add(value);
+        }
+
+        _mintCredits(user, value);
+    }
+
+    /// @notice Internal function to mint credits for new generation of a user
+    /// @param user The owner of the records and totals
+    /// @param value The encrypted generation value
+    function _mintCredits(address user, euint64 value) internal {
+        if (address(creditToken) == address(0)) {
+            return;
+        }
+        FHE.allowTransient(value, address(creditToken));
+        creditToken.mint(user, value);
+    }
+
+    /// @notice Internal function to add a value to a user's total consumption
+    /// @param user The owner of the records and totals
+    /// @param value The encrypted value to add
+    function _addToTotalConsumption(address user, euint64 value) internal {
+        if (!_accounts[user].consumptionInitialized) {
+            _accounts[user].totalConsumption = value;
+            _accounts[user].consumptionInitialized = true;
+        } else {
+            _accounts[user].totalConsumption = _addClamped(user, _accounts[user].totalConsumption, value);
+        }
+        _allowTotal(user, _accounts[user].totalConsumption);
+    }
+
+    /// @notice Internal function to add a value to a user's total for a source
+    /// @param user The owner of the records and totals
+    /// @param recordType The type of the record, selects the generation or consumption total
+    /// @param source The source description
+    /// @param value The encrypted value to add
+    function _addToSourceTotal(
+        address user,
+        RecordType recordType,
+        string calldata source,
+        euint64 value
+    ) internal {
+        bytes32 sourceKey = keccak256(bytes(source));
+        if (!_accounts[user].hasSource[sourceKey]) {
+            _accounts[user].hasSource[sourceKey] = true;
+            _accounts[user].sources.push(source);
+        }
+
+        mapping(bytes32 => euint64) storage totals = recordType == RecordType.GENERATION
+            ? _accounts[user].sourceGeneration
+            : _accounts[user].sourceConsumption;
+        euint64 total = FHE.isInitialized(totals[sourceKey]) ? _addClamped(user, totals[sourceKey], value) : value;
+        totals[sourceKey] = total;
+        _allowTotal(user, total);
+    }
+
+    /// @notice Internal function to add a value to the daily and monthly totals containing a timestamp
+    /// @param user The owner of the records and totals
+    /// @param totals The user's period totals of one record type
+    /// @param value The encrypted value to add
+    /// @param timestamp The Unix timestamp used to pick the periods
+    function _addToPeriodTotals(
+        address user,
+        mapping(Period => mapping(uint256 => euint64)) storage totals,
+        euint64 value,
+        uint256 timestamp
+    ) internal {
+        uint256 day = timestamp / 1 days;
+        uint256 month = _monthIndex(timestamp);
+        _addToPeriodTotal(user, totals[Period.DAY], day, value);
+        _addToPeriodTotal(user, totals[Period.MONTH], month, value);
+    }
+
+    /// @notice Internal function to add a value to one period total
+    /// @param user The owner of the records and totals
+    /// @param totals The user's totals of one record type and granularity
+    /// @param index The period index
+    /// @param value The encrypted value to add
+    function _addToPeriodTotal(
+        address user,
+        mapping(uint256 => euint64) storage totals,
+        uint256 index,
+        euint64 value
+    ) internal {
+        euint64 total = FHE.isInitialized(totals[index]) ? _addClamped(user, totals[index], value) : value;
+        totals[index] = total;
+        _allowTotal(user, total);
+    }
+
+    /// @notice Internal function to swap a record's contribution to its owner's aggregates for a new value
+    /// @param record The record being corrected or voided, still holding its current value
+    /// @param newValue The value the record now contributes (zero when voided)
+    function _replaceInAggregates(EnergyRecord storage record, euint64 newValue) internal {
+        address user = record.owner;
+        UserAccount storage account = _accounts[user];
+        euint64 oldValue = record.encryptedValue;
+        bytes32 sourceKey = keccak256(bytes(record.source));
+        uint256 day = record.measuredTo / 1 days;
+        uint256 month = _monthIndex(record.measuredTo);
+
+        if (record.recordType == RecordType.GENERATION) {
+            account.totalGeneration = _replaceInTotal(user, account.totalGeneration, oldValue, newValue);
+            mapping(Period => mapping(uint256 => euint64)) storage periods = account.periodGeneration;
+            periods[Period.DAY][day] = _replaceInTotal(user, periods[Period.DAY][day], oldValue, newValue);
+            periods[Period.MONTH][month] = _replaceInTotal(user, periods[Period.MONTH][month], oldValue, newValue);
+            account.sourceGeneration[sourceKey] = _replaceInTotal(
+                user,
+                account.sourceGeneration[sourceKey],
+                oldValue,
+                newValue
+            );
+            if (_community.isMember[user]) {
+                _community.replace(oldValue, newValue);
+            }
+            _replaceCredits(user, oldValue, newValue);
+        } else {
+            account.totalConsumption = _replaceInTotal(user, account.totalConsumption, oldValue, newValue);
+            mapping(Period => mapping(uint256 => euint64)) storage periods = account.periodConsumption;
+            periods[Period.DAY][day] = _replaceInTotal(user, periods[Period.DAY][day], oldValue, newValue);
+            periods[Period.MONTH][month] = _replaceInTotal(user, periods[Period.MONTH][month], oldValue, newValue);
+            account.sourceConsumption[sourceKey] = _replaceInTotal(
+                user,
+                account.sourceConsumption[sourceKey],
+                oldValue,
+                newValue
+            );
+            _updateOverLimit(user, month);
+        }
+
+        _updateNetBalance(user);
+    }
+
+    /// @notice Internal function to mint or burn the difference between a generation value and its replacement
+    /// @dev Credits the user already transferred away are not burned
+    /// @param user The owner of the records and totals
+    /// @param oldValue The encrypted value replaced
+    /// @param newValue The encrypted replacement
+    function _replaceCredits(address user, euint64 oldValue, euint64 newValue) internal {
+        if (address(creditToken) == address(0)) {
+            return;
+        }
+        ebool increased = FHE.gt(newValue, oldValue);
+        euint64 zero = FHE.asEuint64(0);
+        euint64 minted = FHE.select(increased, FHE.sub(newValue, oldValue), zero);
+        euint64 burned = FHE.select(increased, zero, FHE.sub(oldValue, newValue));
+
+        FHE.allowTransient(minted, address(creditToken));
+        FHE.allowTransient(burned, address(creditToken));
+        creditToken.mint(user, minted);
+        creditToken.burn(user, burned);
+    }
+
+    /// @notice Internal function to compute total - oldValue + newValue
+    /// @dev A clamped total is at least oldValue, so the subtraction cannot wrap
+    /// @param user The owner of the records and totals
+    /// @param total The encrypted total containing oldValue
+    /// @param oldValue The encrypted value to remove
+    /// @param newValue The encrypted value to add
+    /// @return updated The new encrypted total, allowed like any other total
+    function _replaceInTotal(
+        address user,
+        euint64 total,
+        euint64 oldValue,
+        euint64 newValue
+    ) internal returns (euint64 updated) {
+        updated = _addClamped(user, FHE.sub(total, oldValue), newValue);
+        _allowTotal(user, updated);
+    }
+
+    /// @notice Internal function to add two encrypted values without wrapping around
+    /// @dev A wrapped sum is smaller than the first operand. In that case the result is clamped at the
+    /// euint64 maximum and the user's overflow flag is raised.
+    /// @param user The owner of the records and totals
+    /// @param a The encrypted total
+    /// @param b The encrypted value to add
+    /// @return The encrypted sum, clamped at type(uint64).max
+    function _addClamped(address user, euint64 a, euint64 b) internal returns (euint64) {
+        euint64 sum = FHE.add(a, b);
+        ebool wrapped = FHE.lt(sum, a);
+
+        ebool overflowed = _accounts[user].totalsOverflowed;
+        overflowed = FHE.isInitialized(overflowed) ? FHE.or(overflowed, wrapped) : wrapped;
+        _accounts[user].totalsOverflowed = overflowed;
+        _allowTotal(user, overflowed);
+
+        return FHE.select(wrapped, FHE.asEuint64(type(uint64).max), sum);
+    }
+
+    /// @notice Internal function to compute the number of months between January 1970 and a timestamp
+    /// @dev Civil-from-days conversion (proleptic Gregorian calendar, UTC)
+    /// @param timestamp The Unix timestamp in seconds
+    /// @return The month index
+    function _monthIndex(uint256 timestamp) internal pure returns (uint256) {
+        // Shift the epoch to 0000-03-01 so leap days fall at the end of each year
+        uint256 z = timestamp / 1 days + 719468;
+        uint256 era = z / 146097;
+        uint256 doe = z - era * 146097;
+        uint256 yoe = (doe - doe / 1460 + doe / 36524 - doe / 146096) / 365;
+        uint256 doy = doe - (365 * yoe + yoe / 4 - yoe / 100);
+        uint256 mp = (5 * doy + 2) / 153;
+        uint256 month = mp < 10 ? mp + 3 : mp - 9;
+        uint256 year = yoe + era * 400 + (month < 3 ? 1 : 0);
+        return (year - 1970) * 12 + (month - 1);
+    }
+
+    /// @notice Internal function to allow an account on an encrypted total, unless no record counted in it yet
+    /// @param total The encrypted total
+    /// @param account The address to allow
+    function _allowIfInitialized(euint64 total, address account) internal {
+        if (FHE.isInitialized(total)) {
+            FHE.allow(total, account);
+        }
+    }
+
+    /// @notice Internal function to allow the contract, a user and the user's auditors on an updated total
+    /// @param user The owner of the records and totals
+    /// @param total The new encrypted total
+    function _allowTotal(address user, euint64 total) internal {
+        FHE.allowThis(total);
+        FHE.allow(total, user);
+
+        address[] storage auditors = _auditors.auditors[user];
+        for (uint256 i = 0; i < auditors.length; ++i) {
+            FHE.allow(total, auditors[i]);
+        }
+    }
+
+    /// @notice Internal function to allow the contract, a user and the user's auditors on an updated flag
+    /// @param user The owner of the records and totals
+    /// @param flag The new encrypted flag
+    function _allowTotal(address user, ebool flag) internal {
+        FHE.allowThis(flag);
+        FHE.allow(flag, user);
+
+        address[] storage auditors = _auditors.auditors[user];
+        for (uint256 i = 0; i < auditors.length; ++i) {
+            FHE.allow(flag, auditors[i]);
+        }
+    }
+
+    /// @notice Internal function to recompute a user's net balance and surplus flag from the totals
+    /// @param user The owner of the records and totals
+    function _updateNetBalance(address user) internal {
+        euint64 generation = _accounts[user].totalGeneration;
+        euint64 consumption = _accounts[user].totalConsumption;
+
+        ebool isSurplus = FHE.ge(generation, consumption);
+        _accounts[user].isSurplus = isSurplus;
+        _accounts[user].netBalance = FHE.select(
+            isSurplus,
+            FHE.sub(generation, consumption),
+            FHE.sub(consumption, generation)
+        );
+
+        FHE.allowThis(_accounts[user].isSurplus);
+        FHE.allow(_accounts[user].isSurplus, user);
+        FHE.allowThis(_accounts[user].netBalance);
+        FHE.allow(_accounts[user].netBalance, user);
+    }
+
+    /// @notice Internal function to compare a user's consumption in a month with their limit
+    /// @dev No-op until a limit is set, and for months before the one the flag was last computed for, so that
+    /// a back-dated record does not replace the alert of a later month. A month without consumption is never
+    /// over the limit.
+    /// @param user The owner of the records and totals
+    /// @param month The month index (see getPeriodIndex) whose consumption total changed
+    function _updateOverLimit(address user, uint256 month) internal {
+        euint64 limit = _accounts[user].consumptionLimit;
+        if (!FHE.isInitialized(limit) || month < _accounts[user].overLimitMonth) {
+            return;
+        }
+
+        euint64 consumption = _accounts[user].periodConsumption[Period.MONTH][month];
+        ebool overLimit = FHE.isInitialized(consumption) ? FHE.gt(consumption, limit) : FHE.asEbool(false);
+
+        _accounts[user].overLimit = overLimit;
+        _accounts[user].overLimitMonth = month;
+        FHE.allowThis(overLimit);
+        FHE.allow(overLimit, user);
     }
 
     /// @notice Get the count of records for a user
@@ -0,0 +1,107 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title IEnergyVaultErrors - Errors of the energy vault
+/// @author Power Key Vault Team
+/// @notice Errors reverted by EnergyVault and the libraries linked into it
+/// @dev Declared apart so that the libraries can revert them and the vault ABI lists them all
+interface IEnergyVaultErrors {
+    /// @notice The deployment decimals are above MAX_VALUE_DECIMALS
+    error InvalidDecimals();
+
+    /// @notice The caller is not the deployer
+    error NotDeployer();
+
+    /// @notice The credit token was already linked
+    error CreditTokenAlreadySet();
+
+    /// @notice The credit token does not name the vault as its minter
+    error VaultIsNotTheMinter();
+
+    /// @notice A page or batch of IDs is larger than MAX_PAGE_SIZE
+    error PageTooLarge();
+
+    /// @notice A range of periods is larger than MAX_PERIOD_RANGE
+    error RangeTooLarge();
+
+    /// @notice No record has the given ID
+    error RecordDoesNotExist();
+
+    /// @notice The caller does not own the record, or was not granted access to it
+    error NotRecordOwner();
+
+    /// @notice The record was voided
+    error RecordIsVoid();
+
+    /// @notice The caller is neither the user nor, for the totals auditors can read, one of the user's auditors
+    error CanOnlyViewOwnTotals();
+
+    /// @notice The measurement starts after it ends
+    error InvalidMeasurementPeriod();
+
+    /// @notice The measurement ends after the current block
+    error MeasurementEndsInTheFuture();
+
+    /// @notice A batch of records is empty
+    error EmptyBatch();
+
+    /// @notice The arrays of a batch of records have different lengths
+    error BatchLengthMismatch();
+
+    /// @notice A record cannot be shared with the zero address or its owner
+    error InvalidGrantee();
+
+    /// @notice The record is already shared with the grantee
+    error AccessAlreadyGranted();
+
+    /// @notice The record is not shared with the grantee
+    error AccessNotGranted();
+
+    /// @notice An auditor cannot be the zero address or the user
+    error InvalidAuditor();
+
+    /// @notice The auditor is already authorized by the user
+    error AuditorAlreadyAuthorized();
+
+    /// @notice The auditor is not authorized by the user
+    error AuditorNotAuthorized();
+
+    /// @notice A device cannot be the zero address or the proposing user
+    error InvalidDevice();
+
+    /// @notice The device is already registered
+    error DeviceAlreadyRegistered();
+
+    /// @notice The user has no open proposal for the device
+    error NoDeviceProposal();
+
+    /// @notice The caller does not own the device
+    error NotDeviceOwner();
+
+    /// @notice The caller is not a registered device
+    error NotARegisteredDevice();
+
+    /// @notice The caller is already in the community pool
+    error AlreadyAMember();
+
+    /// @notice The caller is not in the community pool
+    error NotAMember();
+
+    /// @notice The community pool has fewer than MIN_COMMUNITY_MEMBERS members
+    error NotEnoughMembers();
+
+    /// @notice A publication of the pooled generation is already pending
+    error DecryptionPending();
+
+    /// @notice No member has any generation yet
+    error PoolIsEmpty();
+
+    /// @notice The previous publication request is less than COMMUNITY_PUBLICATION_INTERVAL old
+    error PublicationTooSoon();
+
+    /// @notice The membership changed by fewer than MIN_COMMUNITY_MEMBERS users since the previous request
+    error TooFewMembershipChanges();
+
+    /// @notice The decryption callback does not answer the pending request
+    error UnknownRequest();
+}
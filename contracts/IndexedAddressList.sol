@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title IndexedAddressList - Address lists with a position index
+/// @author Power Key Vault Team
+/// @notice Helpers for an address array paired with a mapping from each address to its position + 1
+library IndexedAddressList {
+    /// @notice Append an address to an indexed list
+    /// @param list The address list
+    /// @param indexOf The position + 1 of each address in the list
+    /// @param value The address to add, must not be in the list
+    function add(address[] storage list, mapping(address => uint256) storage indexOf, address value) internal {
+        list.push(value);
+        indexOf[value] = list.length;
+    }
+
+    /// @notice Remove an address from an indexed list (swap and pop)
+    /// @param list The address list
+    /// @param indexOf The position + 1 of each address in the list
+    /// @param value The address to remove, must be in the list
+    function remove(address[] storage list, mapping(address => uint256) storage indexOf, address value) internal {
+        uint256 index = indexOf[value] - 1;
+        address last = list[list.length - 1];
+
+        list[index] = last;
+        indexOf[last] = index + 1;
+        list.pop();
+        delete indexOf[value];
+    }
+}
@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {ConfidentialToken} from "./ConfidentialToken.sol";
+
+/// @title PaymentToken - Confidential token buyers pay energy credits with
+/// @author Power Key Vault Team
+/// @notice Encrypted-balance token (ERC-7984 style) issued by a single issuer, used by EnergyMarket to
+/// settle the price of accepted bids
+/// @dev Stands in for a confidential stablecoin on networks where none is deployed
+contract PaymentToken is ConfidentialToken {
+    /// @notice Deploy a payment token
+    /// @param issuer_ The address issuing the tokens
+    /// @param decimals_ The number of decimals of the encrypted amounts
+    constructor(
+        address issuer_,
+        uint8 decimals_
+    ) ConfidentialToken("Energy Payment Token", "EPT", issuer_, decimals_) {}
+
+    /// @notice Issue tokens to an account
+    /// @param to The receiver
+    /// @param encryptedAmount The encrypted amount to issue
+    /// @param inputProof The input proof for the encrypted amount
+    function issue(address to, externalEuint64 encryptedAmount, bytes calldata inputProof) external onlyMinter {
+        _mint(to, FHE.fromExternal(encryptedAmount, inputProof));
+    }
+}
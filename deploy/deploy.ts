@@ -1,10 +1,16 @@
 import { DeployFunction } from "hardhat-deploy/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DEFAULT_VALUE_FORMAT, ENERGY_UNITS, parseEnergyDecimals, parseEnergyUnit } from "../frontend/lib/energyUnits";
 
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
   const { deploy } = hre.deployments;
 
+  // Every EnergyVault value uses the same unit and precision, set with ENERGY_UNIT (Wh, kWh or MWh) and
+  // ENERGY_DECIMALS. Both are immutable: reject invalid values before anything is deployed.
+  const unit = parseEnergyUnit(process.env.ENERGY_UNIT ?? DEFAULT_VALUE_FORMAT.unit);
+  const decimals = parseEnergyDecimals(process.env.ENERGY_DECIMALS ?? String(DEFAULT_VALUE_FORMAT.decimals));
+
   // Deploy FHECounter (legacy)
   const deployedFHECounter = await deploy("FHECounter", {
     from: deployer,
@@ -12,13 +18,60 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   });
   console.log(`FHECounter contract: `, deployedFHECounter.address);
 
-  // Deploy EnergyVault (main contract)
+  // Deploy the libraries holding the device registry, community pool and record sharing of EnergyVault
+  const libraries: Record<string, string> = {};
+  for (const name of ["EnergyAuditors", "EnergyCommunityPool", "EnergyDevices", "EnergySharing"]) {
+    const deployedLibrary = await deploy(name, {
+      from: deployer,
+      log: true,
+    });
+    libraries[name] = deployedLibrary.address;
+  }
+
+  // Deploy EnergyVault (main contract), linked with its libraries
   const deployedEnergyVault = await deploy("EnergyVault", {
     from: deployer,
+    args: [ENERGY_UNITS.indexOf(unit), decimals],
+    libraries,
+    log: true,
+  });
+  console.log(`EnergyVault contract: `, deployedEnergyVault.address, `(${unit}, ${decimals} decimals)`);
+
+  // Deploy EnergyCredit, minted by EnergyVault from generation records, and link it once
+  const deployedEnergyCredit = await deploy("EnergyCredit", {
+    from: deployer,
+    args: [deployedEnergyVault.address, decimals],
+    log: true,
+  });
+  console.log(`EnergyCredit contract: `, deployedEnergyCredit.address);
+
+  const creditToken = await hre.deployments.read("EnergyVault", "creditToken");
+  if (creditToken === hre.ethers.ZeroAddress) {
+    await hre.deployments.execute(
+      "EnergyVault",
+      { from: deployer, log: true },
+      "setCreditToken",
+      deployedEnergyCredit.address,
+    );
+  }
+
+  // Deploy the PaymentToken buyers pay credits with, issued by the deployer. Prices are integers in its base
+  // units per whole credit, so it has no decimals unless PAYMENT_DECIMALS says otherwise.
+  const deployedPaymentToken = await deploy("PaymentToken", {
+    from: deployer,
+    args: [deployer, parseInt(process.env.PAYMENT_DECIMALS ?? "0")],
+    log: true,
+  });
+  console.log(`PaymentToken contract: `, deployedPaymentToken.address);
+
+  // Deploy EnergyMarket, escrowing and settling credits and payments
+  const deployedEnergyMarket = await deploy("EnergyMarket", {
+    from: deployer,
+    args: [deployedEnergyCredit.address, deployedPaymentToken.address],
     log: true,
   });
-  console.log(`EnergyVault contract: `, deployedEnergyVault.address);
+  console.log(`EnergyMarket contract: `, deployedEnergyMarket.address);
 };
 export default func;
 func.id = "deploy_contracts"; // id required to prevent reexecution
-func.tags = ["FHECounter", "EnergyVault"];
+func.tags = ["FHECounter", "EnergyVault", "EnergyCredit", "PaymentToken", "EnergyMarket"];
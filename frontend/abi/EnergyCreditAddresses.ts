@@ -0,0 +1,9 @@
+
+/*
+  This file is auto-generated.
+  Command: 'npm run genabi'
+*/
+export const EnergyCreditAddresses = { 
+  "11155111": { address: "0x0000000000000000000000000000000000000000", chainId: 11155111, chainName: "sepolia" },
+  "31337": { address: "0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0", chainId: 31337, chainName: "hardhat" },
+};
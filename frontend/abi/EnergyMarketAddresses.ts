@@ -0,0 +1,9 @@
+
+/*
+  This file is auto-generated.
+  Command: 'npm run genabi'
+*/
+export const EnergyMarketAddresses = { 
+  "11155111": { address: "0x0000000000000000000000000000000000000000", chainId: 11155111, chainName: "sepolia" },
+  "31337": { address: "0x5FC8d32690cc91D4c39d9d3abcBD16989F875707", chainId: 31337, chainName: "hardhat" },
+};
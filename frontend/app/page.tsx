@@ -5,23 +5,37 @@ import { Button } from "@/components/ui/button";
 import { Lock, Unlock } from "lucide-react";
 import { EnergyMeter } from "@/components/EnergyMeter";
 import { EnergyFooter } from "@/components/EnergyFooter";
-import { CreateEnergyRecord, EnergyRecord } from "@/components/CreateEnergyRecord";
+import { CreateEnergyRecord } from "@/components/CreateEnergyRecord";
 import { EnergyRecordsList } from "@/components/EnergyRecordsList";
 import { EnergyStats } from "@/components/EnergyStats";
+import { ConsumptionLimitForm } from "@/components/ConsumptionLimitForm";
+import { SignatureStorageSettings } from "@/components/SignatureStorageSettings";
+import { AuditorPanel } from "@/components/AuditorPanel";
+import { CommunityPoolCard } from "@/components/CommunityPoolCard";
+import { DevicePanel } from "@/components/DevicePanel";
+import { EnergyCreditCard } from "@/components/EnergyCreditCard";
+import { EnergyOrderBook } from "@/components/EnergyOrderBook";
+import { EnergyPeriodChart } from "@/components/EnergyPeriodChart";
+import { SourceBreakdown } from "@/components/SourceBreakdown";
 import { useFhevm } from "@/fhevm/useFhevm";
-import { useInMemoryStorage } from "@/hooks/useInMemoryStorage";
+import { useDecryptionSignatureStorage } from "@/hooks/useDecryptionSignatureStorage";
 import { useMetaMaskEthersSigner } from "@/hooks/metamask/useMetaMaskEthersSigner";
 import { useEnergyVault } from "@/hooks/useEnergyVault";
+import { useEnergyMarket } from "@/hooks/useEnergyMarket";
+import { useEnergyCredit } from "@/hooks/useEnergyCredit";
+import { EnergyUnit, convertEnergy } from "@/lib/energyUnits";
 import { ConnectButton } from "@rainbow-me/rainbowkit";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import Image from "next/image";
 
 export default function Home() {
   const [isEncrypted, setIsEncrypted] = useState(true);
-  const [energyRecords, setEnergyRecords] = useState<EnergyRecord[]>([]);
 
   // MetaMask and FHEVM setup
-  const { storage: fhevmDecryptionSignatureStorage } = useInMemoryStorage();
+  const {
+    storage: fhevmDecryptionSignatureStorage,
+    durationDays: fhevmDecryptionSignatureDurationDays,
+  } = useDecryptionSignatureStorage();
   const {
     provider,
     chainId,
@@ -46,6 +60,7 @@ export default function Home() {
   const energyVault = useEnergyVault({
     instance: fhevmInstance,
     fhevmDecryptionSignatureStorage,
+    fhevmDecryptionSignatureDurationDays,
     eip1193Provider: provider,
     chainId,
     ethersSigner,
@@ -54,31 +69,77 @@ export default function Home() {
     sameSigner,
   });
 
+  // Credit tokens are minted by the vault, in its unit and precision
+  const energyCredit = useEnergyCredit({
+    instance: fhevmInstance,
+    fhevmDecryptionSignatureStorage,
+    fhevmDecryptionSignatureDurationDays,
+    chainId,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+    valueFormat: energyVault.valueFormat,
+  });
+
+  // Credits are traded in the unit and precision of the vault
+  const energyMarket = useEnergyMarket({
+    instance: fhevmInstance,
+    fhevmDecryptionSignatureStorage,
+    fhevmDecryptionSignatureDurationDays,
+    chainId,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+    valueFormat: energyVault.valueFormat,
+  });
+
   const toggleEncryption = async () => {
     if (!isConnected) {
       return;
     }
+    if (isEncrypted) {
+      // Only reveal once the on-chain balance has been decrypted
+      const balance = await energyVault.decryptBalance();
+      if (!balance) {
+        return;
+      }
+    }
     setIsEncrypted(!isEncrypted);
   };
 
-  const handleRecordCreated = (record: EnergyRecord) => {
-    setEnergyRecords([record, ...energyRecords]);
-  };
+  // Every value of the deployment is in this unit; meters scale to 10,000 kWh
+  const valueUnit = energyVault.valueFormat.unit;
+  const meterMaxValue = convertEnergy(10000, "kWh", valueUnit);
 
-  const handleCreateRecord = async (type: "generation" | "consumption", source: string, value: number): Promise<string | null> => {
-    return await energyVault.createRecord(type, source, value);
+  const handleCreateRecord = async (
+    type: "generation" | "consumption",
+    source: string,
+    value: number,
+    unit: EnergyUnit,
+    measuredFrom?: Date,
+    measuredTo?: Date
+  ): Promise<boolean> => {
+    const submission = await energyVault.createRecord(type, source, value, unit, measuredFrom, measuredTo);
+    if (!submission) {
+      return false;
+    }
+    void submission.mined.then(async (recordIds) => {
+      if (recordIds !== null && !isEncrypted) {
+        // Totals changed on-chain, refresh the decrypted balance
+        await energyVault.decryptBalance();
+      }
+      if (recordIds !== null && type === "generation" && energyCredit.balance !== null) {
+        // The record minted credits
+        await energyCredit.decryptBalance();
+      }
+    });
+    return true;
   };
 
   const handleDecrypt = async (recordId: string): Promise<number | null> => {
-    const decryptedValue = await energyVault.decryptRecord(recordId);
-    if (decryptedValue !== null) {
-      setEnergyRecords(records =>
-        records.map(r =>
-          r.id === recordId ? { ...r, value: decryptedValue, isEncrypted: false } : r
-        )
-      );
-    }
-    return decryptedValue;
+    return await energyVault.decryptRecord(recordId);
   };
 
   return (
@@ -208,6 +269,12 @@ export default function Home() {
                     {isEncrypted ? "Data is secured with FHE encryption" : "Data is visible for trading"}
                   </div>
                 </div>
+                <div className="max-w-2xl mx-auto mt-6 text-left">
+                  <SignatureStorageSettings
+                    userAddress={ethersSigner?.address}
+                    instance={fhevmInstance}
+                  />
+                </div>
               </section>
 
               {/* Enhanced Energy Meters Grid */}
@@ -225,26 +292,30 @@ export default function Home() {
                   <EnergyMeter
                     title="Total Generation"
                     value={energyVault.totalGeneration}
-                    maxValue={10000}
+                    maxValue={meterMaxValue}
                     isEncrypted={isEncrypted}
+                    unit={valueUnit}
                   />
                   <EnergyMeter
                     title="Total Consumption"
                     value={energyVault.totalConsumption}
-                    maxValue={10000}
+                    maxValue={meterMaxValue}
                     isEncrypted={isEncrypted}
+                    unit={valueUnit}
                   />
                   <EnergyMeter
                     title="Net Energy"
-                    value={Math.abs(energyVault.totalGeneration - energyVault.totalConsumption)}
-                    maxValue={10000}
+                    value={Math.abs(energyVault.balance?.netBalance ?? 0)}
+                    maxValue={meterMaxValue}
                     isEncrypted={isEncrypted}
+                    unit={valueUnit}
                   />
                   <EnergyMeter
                     title="Grid Export"
-                    value={Math.max(0, energyVault.totalGeneration - energyVault.totalConsumption)}
-                    maxValue={10000}
+                    value={Math.max(0, energyVault.balance?.netBalance ?? 0)}
+                    maxValue={meterMaxValue}
                     isEncrypted={isEncrypted}
+                    unit={valueUnit}
                   />
                 </div>
 
@@ -253,10 +324,70 @@ export default function Home() {
                   <EnergyStats
                     totalGeneration={energyVault.totalGeneration}
                     totalConsumption={energyVault.totalConsumption}
-                    recordCount={energyRecords.length}
+                    netBalance={energyVault.balance?.netBalance ?? 0}
+                    isSurplus={energyVault.balance?.isSurplus ?? true}
+                    isClamped={energyVault.balance?.isClamped}
+                    consumptionLimit={energyVault.balance?.consumptionLimit}
+                    isOverLimit={energyVault.balance?.isOverLimit}
+                    unit={valueUnit}
+                    recordCount={energyVault.recordCount}
                     isEncrypted={isEncrypted}
                   />
+                  <ConsumptionLimitForm
+                    onSubmit={energyVault.setConsumptionLimit}
+                    disabled={!energyVault.canCreateRecord}
+                    unit={valueUnit}
+                  />
+                </div>
+
+                {/* Per-source totals */}
+                <div className="mb-8 sm:mb-12">
+                  <SourceBreakdown
+                    data={energyVault.sourceTotals}
+                    onDecrypt={energyVault.decryptSourceTotals}
+                    isLoading={energyVault.isDecrypting}
+                    unit={valueUnit}
+                  />
                 </div>
+
+                {/* Monthly / daily history */}
+                <div className="mb-8 sm:mb-12">
+                  <EnergyPeriodChart
+                    data={energyVault.periodTotals}
+                    onLoad={energyVault.decryptPeriodTotals}
+                    isLoading={energyVault.isDecrypting}
+                    unit={valueUnit}
+                  />
+                </div>
+
+                {/* Published community total */}
+                <div className="mb-8 sm:mb-12">
+                  <CommunityPoolCard
+                    pool={energyVault.communityPool}
+                    onJoin={energyVault.joinCommunityPool}
+                    onLeave={energyVault.leaveCommunityPool}
+                    onPublish={energyVault.requestCommunityPublication}
+                    disabled={energyVault.isLoading}
+                    unit={valueUnit}
+                  />
+                </div>
+
+                {/* Credit tokens minted from generation */}
+                {energyCredit.isDeployed && (
+                  <div className="mb-8 sm:mb-12">
+                    <EnergyCreditCard
+                      account={ethersSigner?.address}
+                      balance={energyCredit.balance}
+                      onDecrypt={energyCredit.decryptBalance}
+                      onTransfer={energyCredit.transferCredits}
+                      onApprove={energyCredit.approveCredits}
+                      onDecryptAllowance={energyCredit.decryptAllowance}
+                      isLoading={energyCredit.isLoading}
+                      isDecrypting={energyCredit.isDecrypting}
+                      unit={valueUnit}
+                    />
+                  </div>
+                )}
               </section>
 
               {/* Enhanced Create and Manage Section */}
@@ -273,19 +404,99 @@ export default function Home() {
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 sm:gap-8">
                   <div className="card-enhanced p-8 rounded-3xl">
                     <CreateEnergyRecord
-                      onRecordCreated={handleRecordCreated}
                       isLoading={energyVault.isLoading}
                       onSubmit={handleCreateRecord}
+                      valueFormat={energyVault.valueFormat}
                     />
                   </div>
                   <div className="card-enhanced p-8 rounded-3xl">
                     <EnergyRecordsList
-                      records={energyRecords}
+                      records={energyVault.records}
+                      pendingRecords={energyVault.pendingRecords}
+                      onDismissPending={energyVault.dismissPendingRecord}
+                      totalCount={energyVault.recordCount}
                       onDecrypt={handleDecrypt}
                       decryptingId={energyVault.decryptingId}
+                      onDecryptAll={energyVault.decryptRecords}
+                      decryptProgress={energyVault.decryptProgress}
+                      hasMore={energyVault.hasMoreRecords}
+                      isLoadingMore={energyVault.isLoadingRecords}
+                      onLoadMore={energyVault.loadMoreRecords}
+                      filter={energyVault.recordFilter}
+                      onFilterChange={energyVault.setRecordFilter}
+                      sharedRecords={energyVault.sharedRecords}
+                      isLoadingShared={energyVault.isLoadingSharedRecords}
+                      onLoadGrantees={energyVault.getRecordGrantees}
+                      onGrantAccess={energyVault.grantAccess}
+                      onRevokeAccess={energyVault.revokeAccess}
+                      onLoadHistory={energyVault.getRecordHistory}
+                      onCorrect={energyVault.correctRecord}
+                      onVoid={energyVault.voidRecord}
+                      unit={valueUnit}
                     />
                   </div>
                 </div>
+
+                {/* Meters pushing readings on the user's behalf */}
+                <div className="mt-6 sm:mt-8">
+                  <DevicePanel
+                    devices={energyVault.devices}
+                    onPropose={energyVault.proposeDevice}
+                    onAccept={energyVault.acceptDevice}
+                    onRemove={energyVault.removeDevice}
+                  />
+                </div>
+              </section>
+
+              {/* Trading Section */}
+              {energyMarket.isDeployed && (
+                <section>
+                  <div className="text-center mb-12">
+                    <h2 className="text-4xl font-bold mb-4 bg-gradient-energy bg-clip-text text-transparent">
+                      Trade
+                    </h2>
+                    <p className="text-muted-foreground text-lg">
+                      Sell your surplus generation to other users without revealing amounts
+                    </p>
+                  </div>
+
+                  <EnergyOrderBook
+                    account={ethersSigner?.address}
+                    offers={energyMarket.offers}
+                    bids={energyMarket.bids}
+                    paymentBalance={energyMarket.paymentBalance}
+                    onDecrypt={energyMarket.decryptMarket}
+                    onCreateOffer={energyMarket.createOffer}
+                    onPlaceBid={energyMarket.placeBid}
+                    onAcceptBid={energyMarket.acceptBid}
+                    onCancelOffer={energyMarket.cancelOffer}
+                    onCancelBid={energyMarket.cancelBid}
+                    isLoading={energyMarket.isLoading}
+                    isDecrypting={energyMarket.isDecrypting}
+                    unit={valueUnit}
+                  />
+                </section>
+              )}
+
+              {/* Auditor Access Section */}
+              <section>
+                <div className="text-center mb-12">
+                  <h2 className="text-4xl font-bold mb-4 bg-gradient-energy bg-clip-text text-transparent">
+                    Audit
+                  </h2>
+                  <p className="text-muted-foreground text-lg">
+                    Let regulators verify your totals, or verify the producers who trust you
+                  </p>
+                </div>
+
+                <AuditorPanel
+                  auditors={energyVault.auditors}
+                  auditedProducers={energyVault.auditedProducers}
+                  onAuthorize={energyVault.authorizeAuditor}
+                  onRevoke={energyVault.revokeAuditor}
+                  onDecryptProducer={energyVault.decryptProducerTotals}
+                  unit={valueUnit}
+                />
               </section>
             </div>
           )}
@@ -297,6 +508,7 @@ export default function Home() {
         totalGeneration={energyVault.totalGeneration}
         totalConsumption={energyVault.totalConsumption}
         isEncrypted={isEncrypted}
+        unit={valueUnit}
       />
     </div>
   );
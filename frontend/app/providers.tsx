@@ -5,7 +5,7 @@ import type { ReactNode } from "react";
 import { useState } from "react";
 
 import { MetaMaskProvider } from "@/hooks/metamask/useMetaMaskProvider";
-import { InMemoryStorageProvider } from "@/hooks/useInMemoryStorage";
+import { DecryptionSignatureStorageProvider } from "@/hooks/useDecryptionSignatureStorage";
 import { MetaMaskEthersSignerProvider } from "@/hooks/metamask/useMetaMaskEthersSigner";
 import { RainbowKitProvider } from "@rainbow-me/rainbowkit";
 import { createConfig, http, WagmiProvider } from "wagmi";
@@ -57,7 +57,9 @@ export function Providers({ children }: Props) {
         <RainbowKitProvider>
           <MetaMaskProvider>
             <MetaMaskEthersSignerProvider initialMockChains={readonlyRpcs}>
-              <InMemoryStorageProvider>{children}</InMemoryStorageProvider>
+              <DecryptionSignatureStorageProvider>
+                {children}
+              </DecryptionSignatureStorageProvider>
             </MetaMaskEthersSignerProvider>
           </MetaMaskProvider>
         </RainbowKitProvider>
@@ -0,0 +1,168 @@
+"use client";
+
+import { useState } from "react";
+import { ethers } from "ethers";
+import { Loader2, ShieldCheck, Unlock, UserMinus, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { AuditedProducer } from "@/hooks/useEnergyVault";
+
+interface AuditorPanelProps {
+  auditors: string[];
+  auditedProducers: AuditedProducer[];
+  onAuthorize: (auditor: string) => Promise<boolean>;
+  onRevoke: (auditor: string) => Promise<boolean>;
+  onDecryptProducer: (producer: string) => Promise<AuditedProducer | null>;
+  unit?: string;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export function AuditorPanel({
+  auditors,
+  auditedProducers,
+  onAuthorize,
+  onRevoke,
+  onDecryptProducer,
+  unit = "kWh",
+}: AuditorPanelProps) {
+  const [auditorInput, setAuditorInput] = useState("");
+  const [busyAddress, setBusyAddress] = useState<string | null>(null);
+
+  const isValidInput = ethers.isAddress(auditorInput.trim());
+
+  const run = async (address: string, action: () => Promise<unknown>) => {
+    setBusyAddress(address);
+    try {
+      await action();
+    } finally {
+      setBusyAddress(null);
+    }
+  };
+
+  const handleAuthorize = () => {
+    const auditor = auditorInput.trim();
+    return run(auditor, async () => {
+      if (await onAuthorize(auditor)) {
+        setAuditorInput("");
+      }
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 sm:gap-8">
+      <div className="card-enhanced p-8 rounded-3xl">
+        <div className="flex items-center gap-3 mb-2">
+          <ShieldCheck className="w-6 h-6 text-primary" />
+          <h3 className="text-2xl font-bold text-foreground">Your Auditors</h3>
+        </div>
+        <p className="text-muted-foreground mb-6">
+          Auditors can verify your total generation and consumption, never your individual readings.
+        </p>
+
+        <div className="flex gap-2 mb-4">
+          <Input
+            placeholder="0x... regulator or auditor address"
+            value={auditorInput}
+            onChange={(e) => setAuditorInput(e.target.value)}
+            className="font-mono"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleAuthorize}
+            disabled={!isValidInput || busyAddress !== null}
+          >
+            {busyAddress !== null && busyAddress === auditorInput.trim() ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <UserPlus className="w-4 h-4" />
+            )}
+            Authorize
+          </Button>
+        </div>
+
+        {auditors.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No auditor can read your totals.</div>
+        ) : (
+          <div className="space-y-2">
+            {auditors.map((auditor) => (
+              <div
+                key={auditor}
+                className="flex items-center justify-between rounded-xl bg-muted/50 px-3 py-2 text-sm"
+              >
+                <span className="font-mono" title={auditor}>{shortAddress(auditor)}</span>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => run(auditor, () => onRevoke(auditor))}
+                  disabled={busyAddress !== null}
+                >
+                  {busyAddress === auditor ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <UserMinus className="w-4 h-4" />
+                  )}
+                  Revoke
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="card-enhanced p-8 rounded-3xl">
+        <div className="flex items-center gap-3 mb-2">
+          <ShieldCheck className="w-6 h-6 text-secondary" />
+          <h3 className="text-2xl font-bold text-foreground">Producers You Audit</h3>
+        </div>
+        <p className="text-muted-foreground mb-6">
+          Producers who authorized your address to verify their totals.
+        </p>
+
+        {auditedProducers.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No producer has authorized you yet.</div>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {auditedProducers.map((producer) => (
+              <div
+                key={producer.address}
+                className="flex items-center justify-between rounded-2xl bg-muted/50 px-4 py-3"
+              >
+                <span className="font-mono text-sm" title={producer.address}>
+                  {shortAddress(producer.address)}
+                </span>
+                {producer.isEncrypted ? (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => run(producer.address, () => onDecryptProducer(producer.address))}
+                    disabled={busyAddress !== null}
+                  >
+                    {busyAddress === producer.address ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Unlock className="w-4 h-4" />
+                    )}
+                    Decrypt totals
+                  </Button>
+                ) : (
+                  <div className="text-right text-sm">
+                    <div className="font-semibold text-primary">
+                      ⚡ {producer.totalGeneration.toFixed(1)} {unit} generated
+                    </div>
+                    <div className="font-semibold text-secondary">
+                      🏠 {producer.totalConsumption.toFixed(1)} {unit} consumed
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import { Globe, Loader2, LogIn, LogOut, Megaphone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { CommunityPool } from "@/hooks/useEnergyVault";
+
+interface CommunityPoolCardProps {
+  pool: CommunityPool | null;
+  onJoin: () => Promise<boolean>;
+  onLeave: () => Promise<boolean>;
+  onPublish: () => Promise<boolean>;
+  disabled?: boolean;
+  unit?: string;
+}
+
+// The pooled generation is only ever revealed as a sum, by the decryption oracle
+export function CommunityPoolCard({
+  pool,
+  onJoin,
+  onLeave,
+  onPublish,
+  disabled = false,
+  unit = "kWh",
+}: CommunityPoolCardProps) {
+  const [busyAction, setBusyAction] = useState<"membership" | "publish" | null>(null);
+
+  const run = async (action: "membership" | "publish", submit: () => Promise<boolean>) => {
+    setBusyAction(action);
+    try {
+      await submit();
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const canPublish = !!pool && pool.memberCount >= pool.minMembers && !pool.isPending;
+
+  return (
+    <div className="card-enhanced p-8 rounded-3xl">
+      <div className="flex items-center gap-3 mb-2">
+        <Globe className="w-6 h-6 text-primary" />
+        <h3 className="text-2xl font-bold text-foreground">Community Generation</h3>
+      </div>
+      <p className="text-muted-foreground mb-6">
+        Members add their generation to an encrypted pool. Only the total is published, once at least{" "}
+        {pool?.minMembers ?? "a few"} members joined.
+      </p>
+
+      <div className="rounded-2xl bg-muted/50 p-6 text-center mb-6">
+        {pool?.publishedTotal != null && pool.publishedAt ? (
+          <>
+            <div className="text-4xl font-bold bg-gradient-energy bg-clip-text text-transparent">
+              {pool.publishedTotal.toFixed(1)} {unit}
+            </div>
+            <div className="text-sm text-muted-foreground mt-2">
+              From {pool.publishedMemberCount} members, published {pool.publishedAt.toLocaleDateString()} at{" "}
+              {pool.publishedAt.toLocaleTimeString()}
+            </div>
+          </>
+        ) : (
+          <div className="text-muted-foreground">No community total has been published yet.</div>
+        )}
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="text-sm text-muted-foreground">
+          {pool ? `${pool.memberCount} member${pool.memberCount === 1 ? "" : "s"}` : "Loading pool..."}
+          {pool?.isPending && " · publication pending"}
+        </div>
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => run("membership", pool?.isMember ? onLeave : onJoin)}
+            disabled={!pool || disabled || busyAction !== null}
+            className="rounded-xl"
+          >
+            {busyAction === "membership" ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : pool?.isMember ? (
+              <LogOut className="w-4 h-4" />
+            ) : (
+              <LogIn className="w-4 h-4" />
+            )}
+            {pool?.isMember ? "Leave pool" : "Join pool"}
+          </Button>
+          <Button
+            type="button"
+            onClick={() => run("publish", onPublish)}
+            disabled={!canPublish || disabled || busyAction !== null}
+            className="rounded-xl"
+          >
+            {busyAction === "publish" ? <Loader2 className="w-4 h-4 animate-spin" /> : <Megaphone className="w-4 h-4" />}
+            Publish total
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useState } from "react";
+import { Gauge, Loader2, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface ConsumptionLimitFormProps {
+  onSubmit: (value: number) => Promise<boolean>;
+  disabled?: boolean;
+  unit?: string;
+}
+
+// The limit is encrypted client-side and compared on-chain with the current month's consumption
+export function ConsumptionLimitForm({ onSubmit, disabled = false, unit = "kWh" }: ConsumptionLimitFormProps) {
+  const [limitInput, setLimitInput] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const parsedLimit = parseFloat(limitInput);
+  const isValidInput = limitInput.trim() !== "" && Number.isFinite(parsedLimit) && parsedLimit >= 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      if (await onSubmit(parsedLimit)) {
+        setLimitInput("");
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="card-enhanced p-6 rounded-2xl mt-4 sm:mt-6">
+      <div className="flex items-center gap-3 mb-4">
+        <Gauge className="w-5 h-5 text-primary" />
+        <div>
+          <h3 className="text-lg font-bold text-foreground">Monthly Consumption Limit</h3>
+          <p className="text-sm text-muted-foreground">
+            Neither the limit nor your usage is revealed, only you can decrypt the alert
+          </p>
+        </div>
+      </div>
+      <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="consumption-limit">Limit ({unit})</Label>
+          <Input
+            id="consumption-limit"
+            type="number"
+            step="0.1"
+            min="0"
+            placeholder="e.g. 300"
+            value={limitInput}
+            onChange={(e) => setLimitInput(e.target.value)}
+          />
+        </div>
+        <Button type="submit" disabled={!isValidInput || disabled || isSubmitting} className="rounded-xl">
+          {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Lock className="w-4 h-4" />}
+          Encrypt &amp; set limit
+        </Button>
+      </div>
+    </form>
+  );
+}
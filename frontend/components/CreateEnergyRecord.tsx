@@ -6,28 +6,68 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Plus, Loader2 } from "lucide-react";
 import { toast } from "sonner";
+import {
+  DEFAULT_VALUE_FORMAT,
+  ENERGY_UNITS,
+  EnergyUnit,
+  EnergyValueFormat,
+  convertEnergy,
+  decodeEnergyValue,
+  encodeEnergyValue,
+  formatEnergy,
+} from "@/lib/energyUnits";
+import { PendingTransactionStatus } from "@/lib/pendingTransactions";
 
 export interface EnergyRecord {
   id: string;
   type: "generation" | "consumption";
   source: string;
   value: number;
-  timestamp: Date;
+  timestamp: Date; // Submission time
+  measuredFrom: Date; // Measurement interval, used for display and period totals
+  measuredTo: Date;
   isEncrypted: boolean;
+  owner?: string;
+  isVoided?: boolean;
+  device?: string; // Meter device that submitted the record on behalf of its owner
+  pendingStatus?: PendingTransactionStatus; // Set until the creating transaction is confirmed
+  transactionHash?: string;
 }
 
 interface CreateEnergyRecordProps {
-  onRecordCreated: (record: EnergyRecord) => void;
   isLoading?: boolean;
-  onSubmit?: (type: "generation" | "consumption", source: string, value: number) => Promise<string | null>;
+  onSubmit?: (
+    type: "generation" | "consumption",
+    source: string,
+    value: number,
+    unit: EnergyUnit,
+    measuredFrom?: Date,
+    measuredTo?: Date
+  ) => Promise<boolean>; // Resolves once submitted: the record is listed as pending until mined
+  valueFormat?: EnergyValueFormat;
 }
 
-export function CreateEnergyRecord({ onRecordCreated, isLoading = false, onSubmit }: CreateEnergyRecordProps) {
+// Upper bound of a single reading entered in the form, whatever the unit
+const MAX_VALUE_KWH = 10000;
+
+export function CreateEnergyRecord({
+  isLoading = false,
+  onSubmit,
+  valueFormat = DEFAULT_VALUE_FORMAT,
+}: CreateEnergyRecordProps) {
   const [type, setType] = useState<"generation" | "consumption">("generation");
   const [source, setSource] = useState("");
   const [value, setValue] = useState("");
+  const [inputUnit, setInputUnit] = useState<EnergyUnit>(valueFormat.unit);
+  const [measuredFromInput, setMeasuredFromInput] = useState("");
+  const [measuredToInput, setMeasuredToInput] = useState("");
   const [submitting, setSubmitting] = useState(false);
 
+  // Value as stored by the contract: converted to the deployment unit and rounded to its decimals
+  const toStoredValue = (input: number) => decodeEnergyValue(encodeEnergyValue(input, valueFormat, inputUnit), valueFormat);
+  const parsedValue = parseFloat(value);
+  const exceedsMax = !isNaN(parsedValue) && convertEnergy(parsedValue, inputUnit, "kWh") > MAX_VALUE_KWH;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -42,8 +82,14 @@ export function CreateEnergyRecord({ onRecordCreated, isLoading = false, onSubmi
       return;
     }
 
-    if (numValue > 10000) {
-      toast.error("Energy value cannot exceed 10,000 kWh");
+    if (convertEnergy(numValue, inputUnit, "kWh") > MAX_VALUE_KWH) {
+      toast.error(`Energy value cannot exceed ${MAX_VALUE_KWH.toLocaleString()} kWh`);
+      return;
+    }
+
+    const storedValue = toStoredValue(numValue);
+    if (storedValue <= 0) {
+      toast.error(`Energy value is below the ${formatEnergy(10 ** -valueFormat.decimals, valueFormat)} resolution`);
       return;
     }
 
@@ -52,32 +98,30 @@ export function CreateEnergyRecord({ onRecordCreated, isLoading = false, onSubmi
       return;
     }
 
+    // Without dates the reading is taken now; a start alone measures until now
+    const measuredFrom = measuredFromInput ? new Date(measuredFromInput) : undefined;
+    const measuredTo = measuredToInput ? new Date(measuredToInput) : measuredFrom ? new Date() : undefined;
+    if (measuredFrom && measuredTo && measuredFrom > measuredTo) {
+      toast.error("The measurement cannot start after it ends");
+      return;
+    }
+    if (measuredTo && measuredTo.getTime() > Date.now()) {
+      toast.error("The measurement cannot end in the future");
+      return;
+    }
+
     setSubmitting(true);
 
     try {
-      let recordId: string | null = null;
-      
-      if (onSubmit) {
-        recordId = await onSubmit(type, source, numValue);
-      }
-
-      // Only create local record if contract call succeeded
-      if (recordId) {
-        const newRecord: EnergyRecord = {
-          id: recordId,
-          type,
-          source,
-          value: numValue, // Store the original value user entered
-          timestamp: new Date(),
-          isEncrypted: true,
-        };
-
-        onRecordCreated(newRecord);
-
+      if (onSubmit && (await onSubmit(type, source, numValue, inputUnit, measuredFrom, measuredTo))) {
         // Reset form
         setSource("");
         setValue("");
-        toast.success(`${type === "generation" ? "Generation" : "Consumption"} record created with ${numValue} kWh!`);
+        setMeasuredFromInput("");
+        setMeasuredToInput("");
+        toast.success(
+          `${type === "generation" ? "Generation" : "Consumption"} record of ${formatEnergy(storedValue, valueFormat)} submitted`
+        );
       }
     } catch (error) {
       console.error("CreateEnergyRecord error:", error);
@@ -206,16 +250,32 @@ export function CreateEnergyRecord({ onRecordCreated, isLoading = false, onSubmi
 
         {/* Enhanced Value Input */}
         <div className="space-y-4">
-          <Label htmlFor="value" className="text-lg font-semibold text-foreground">
-            Energy Value
-          </Label>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="value" className="text-lg font-semibold text-foreground">
+              Energy Value
+            </Label>
+            <div className="flex gap-1" role="group" aria-label="Input unit">
+              {ENERGY_UNITS.map((unit) => (
+                <Button
+                  key={unit}
+                  type="button"
+                  size="sm"
+                  variant={inputUnit === unit ? "default" : "outline"}
+                  onClick={() => setInputUnit(unit)}
+                  disabled={loading}
+                  className="rounded-xl"
+                >
+                  {unit}
+                </Button>
+              ))}
+            </div>
+          </div>
           <div className="relative">
             <Input
               id="value"
               type="number"
-              step="0.1"
+              step="any"
               min="0"
-              max="10000"
               placeholder="0.0"
               value={value}
               onChange={(e) => setValue(e.target.value)}
@@ -223,17 +283,55 @@ export function CreateEnergyRecord({ onRecordCreated, isLoading = false, onSubmi
               className="h-14 px-6 text-lg rounded-2xl border-2 border-border focus:border-primary transition-all duration-300"
             />
             <div className="absolute right-4 top-1/2 transform -translate-y-1/2">
-              <span className="text-lg font-semibold text-primary">kWh</span>
+              <span className="text-lg font-semibold text-primary">{inputUnit}</span>
             </div>
           </div>
           <div className="flex items-center justify-between text-sm">
-            <span className="text-muted-foreground">Maximum value: 10,000 kWh</span>
-            <span className={`font-medium ${value && parseFloat(value) > 10000 ? 'text-destructive' : 'text-muted-foreground'}`}>
-              {value ? `${parseFloat(value).toFixed(1)} kWh` : '0.0 kWh'}
+            <span className="text-muted-foreground">Maximum value: {MAX_VALUE_KWH.toLocaleString()} kWh</span>
+            <span className={`font-medium ${exceedsMax ? 'text-destructive' : 'text-muted-foreground'}`}>
+              Stored as {formatEnergy(!isNaN(parsedValue) && parsedValue >= 0 && !exceedsMax ? toStoredValue(parsedValue) : 0, valueFormat)}
             </span>
           </div>
         </div>
 
+        {/* Measurement Period */}
+        <div className="space-y-4">
+          <Label className="text-lg font-semibold text-foreground">Measurement Period</Label>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="measured-from" className="text-sm text-muted-foreground">
+                From
+              </Label>
+              <Input
+                id="measured-from"
+                type="datetime-local"
+                value={measuredFromInput}
+                max={measuredToInput || undefined}
+                onChange={(e) => setMeasuredFromInput(e.target.value)}
+                disabled={loading}
+                className="h-12 px-4 rounded-2xl border-2 border-border focus:border-primary transition-all duration-300"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="measured-to" className="text-sm text-muted-foreground">
+                To
+              </Label>
+              <Input
+                id="measured-to"
+                type="datetime-local"
+                value={measuredToInput}
+                min={measuredFromInput || undefined}
+                onChange={(e) => setMeasuredToInput(e.target.value)}
+                disabled={loading}
+                className="h-12 px-4 rounded-2xl border-2 border-border focus:border-primary transition-all duration-300"
+              />
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Leave empty for a reading taken now. Past readings count in the day and month they ended.
+          </p>
+        </div>
+
         {/* Enhanced Submit Button */}
         <Button
           type="submit"
@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { ethers } from "ethers";
+import { Check, Cpu, Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface DevicePanelProps {
+  devices: string[];
+  onPropose: (device: string) => Promise<boolean>;
+  onAccept: (owner: string) => Promise<boolean>;
+  onRemove: (device: string) => Promise<boolean>;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// Devices can only create records for their owner; they cannot read, correct or share them.
+// A device is registered once it accepts the owner's proposal from its own wallet.
+export function DevicePanel({ devices, onPropose, onAccept, onRemove }: DevicePanelProps) {
+  const [deviceInput, setDeviceInput] = useState("");
+  const [ownerInput, setOwnerInput] = useState("");
+  const [busyAddress, setBusyAddress] = useState<string | null>(null);
+
+  const isValidInput = ethers.isAddress(deviceInput.trim());
+  const isValidOwner = ethers.isAddress(ownerInput.trim());
+
+  const run = async (address: string, action: () => Promise<unknown>) => {
+    setBusyAddress(address);
+    try {
+      await action();
+    } finally {
+      setBusyAddress(null);
+    }
+  };
+
+  const handlePropose = () => {
+    const device = deviceInput.trim();
+    return run(device, async () => {
+      if (await onPropose(device)) {
+        setDeviceInput("");
+      }
+    });
+  };
+
+  const handleAccept = () => {
+    const owner = ownerInput.trim();
+    return run(owner, async () => {
+      if (await onAccept(owner)) {
+        setOwnerInput("");
+      }
+    });
+  };
+
+  return (
+    <div className="card-enhanced p-8 rounded-3xl">
+      <div className="flex items-center gap-3 mb-2">
+        <Cpu className="w-6 h-6 text-primary" />
+        <h3 className="text-2xl font-bold text-foreground">Meter Devices</h3>
+      </div>
+      <p className="text-muted-foreground mb-6">
+        Smart meters and gateways registered here push encrypted readings straight into your records and totals.
+        After you propose a device, it must accept from its own wallet.
+      </p>
+
+      <div className="flex gap-2 mb-4">
+        <Input
+          placeholder="0x... meter or gateway address"
+          value={deviceInput}
+          onChange={(e) => setDeviceInput(e.target.value)}
+          className="font-mono"
+        />
+        <Button type="button" variant="outline" onClick={handlePropose} disabled={!isValidInput || busyAddress !== null}>
+          {busyAddress !== null && busyAddress === deviceInput.trim() ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <Plus className="w-4 h-4" />
+          )}
+          Propose
+        </Button>
+      </div>
+
+      <div className="flex gap-2 mb-4">
+        <Input
+          placeholder="0x... owner to accept, when this wallet is the device"
+          value={ownerInput}
+          onChange={(e) => setOwnerInput(e.target.value)}
+          className="font-mono"
+        />
+        <Button type="button" variant="outline" onClick={handleAccept} disabled={!isValidOwner || busyAddress !== null}>
+          {busyAddress !== null && busyAddress === ownerInput.trim() ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <Check className="w-4 h-4" />
+          )}
+          Accept
+        </Button>
+      </div>
+
+      {devices.length === 0 ? (
+        <div className="text-sm text-muted-foreground">No device submits readings for you.</div>
+      ) : (
+        <div className="space-y-2">
+          {devices.map((device) => (
+            <div key={device} className="flex items-center justify-between rounded-xl bg-muted/50 px-3 py-2 text-sm">
+              <span className="font-mono" title={device}>
+                {shortAddress(device)}
+              </span>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => run(device, () => onRemove(device))}
+                disabled={busyAddress !== null}
+              >
+                {busyAddress === device ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                Remove
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
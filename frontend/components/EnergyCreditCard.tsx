@@ -0,0 +1,159 @@
+"use client";
+
+import { useState } from "react";
+import { Coins, Eye, Loader2, Send, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface EnergyCreditCardProps {
+  account?: string;
+  balance: number | null;
+  onDecrypt: () => Promise<number | null>;
+  onTransfer: (to: string, amount: number) => Promise<boolean>;
+  onApprove: (spender: string, amount: number) => Promise<boolean>;
+  onDecryptAllowance: (owner: string, spender: string) => Promise<number | null>;
+  isLoading?: boolean;
+  isDecrypting?: boolean;
+  unit?: string;
+}
+
+const isAddress = (value: string) => /^0x[0-9a-fA-F]{40}$/.test(value.trim());
+
+// Credits are minted from generation records; amounts and balances stay encrypted end to end
+export function EnergyCreditCard({
+  account,
+  balance,
+  onDecrypt,
+  onTransfer,
+  onApprove,
+  onDecryptAllowance,
+  isLoading = false,
+  isDecrypting = false,
+  unit = "kWh",
+}: EnergyCreditCardProps) {
+  const [recipient, setRecipient] = useState("");
+  const [amountInput, setAmountInput] = useState("");
+  const [allowance, setAllowance] = useState<{ spender: string; value: number } | null>(null);
+  const [isCheckingAllowance, setIsCheckingAllowance] = useState(false);
+
+  const amount = parseFloat(amountInput);
+  const isValidAmount = amountInput.trim() !== "" && Number.isFinite(amount) && amount >= 0;
+  const isValidRecipient = isAddress(recipient);
+
+  const handleTransfer = async () => {
+    if (await onTransfer(recipient.trim(), amount)) {
+      setAmountInput("");
+    }
+  };
+
+  const handleApprove = async () => {
+    if (await onApprove(recipient.trim(), amount)) {
+      setAmountInput("");
+      setAllowance(null);
+    }
+  };
+
+  const handleCheckAllowance = async () => {
+    if (!account) return;
+    setIsCheckingAllowance(true);
+    try {
+      const value = await onDecryptAllowance(account, recipient.trim());
+      setAllowance(value === null ? null : { spender: recipient.trim(), value });
+    } finally {
+      setIsCheckingAllowance(false);
+    }
+  };
+
+  return (
+    <div className="card-enhanced p-8 rounded-3xl">
+      <div className="flex items-center gap-3 mb-2">
+        <Coins className="w-6 h-6 text-primary" />
+        <h3 className="text-2xl font-bold text-foreground">Energy Credit Tokens</h3>
+      </div>
+      <p className="text-muted-foreground mb-6">
+        Every generation record mints the same amount of credits. Send them privately or let another address spend
+        them.
+      </p>
+
+      <div className="rounded-2xl bg-muted/50 p-6 text-center mb-6">
+        <div className="text-4xl font-bold bg-gradient-energy bg-clip-text text-transparent">
+          {balance === null ? "🔒 Encrypted" : `${balance.toFixed(1)} ${unit}`}
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={onDecrypt}
+          disabled={isDecrypting}
+          className="rounded-xl mt-4"
+        >
+          {isDecrypting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+          Decrypt balance
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+        <div className="space-y-2">
+          <Label htmlFor="credit-recipient">Address</Label>
+          <Input
+            id="credit-recipient"
+            placeholder="0x..."
+            value={recipient}
+            onChange={(e) => setRecipient(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="credit-amount">Amount ({unit})</Label>
+          <Input
+            id="credit-amount"
+            type="number"
+            step="0.1"
+            min="0"
+            placeholder="e.g. 25"
+            value={amountInput}
+            onChange={(e) => setAmountInput(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          type="button"
+          onClick={handleTransfer}
+          disabled={!isValidRecipient || !isValidAmount || isLoading}
+          className="rounded-xl"
+        >
+          {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          Send
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleApprove}
+          disabled={!isValidRecipient || !isValidAmount || isLoading}
+          className="rounded-xl"
+        >
+          <ShieldCheck className="w-4 h-4" />
+          Approve
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={handleCheckAllowance}
+          disabled={!isValidRecipient || !account || isCheckingAllowance}
+          className="rounded-xl"
+        >
+          {isCheckingAllowance ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+          Check allowance
+        </Button>
+      </div>
+
+      {allowance && allowance.spender.toLowerCase() === recipient.trim().toLowerCase() && (
+        <div className="text-sm text-muted-foreground mt-4">
+          This address can still spend {allowance.value.toFixed(1)} {unit} of your credits.
+        </div>
+      )}
+    </div>
+  );
+}
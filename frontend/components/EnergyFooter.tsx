@@ -6,9 +6,10 @@ interface EnergyFooterProps {
   totalGeneration: number;
   totalConsumption: number;
   isEncrypted: boolean;
+  unit?: string;
 }
 
-export function EnergyFooter({ totalGeneration, totalConsumption, isEncrypted }: EnergyFooterProps) {
+export function EnergyFooter({ totalGeneration, totalConsumption, isEncrypted, unit = "kWh" }: EnergyFooterProps) {
   const netBalance = totalGeneration - totalConsumption;
   const isPositive = netBalance >= 0;
 
@@ -23,7 +24,7 @@ export function EnergyFooter({ totalGeneration, totalConsumption, isEncrypted }:
             <div>
               <p className="text-sm text-muted-foreground">Total Generation</p>
               <p className="text-2xl font-bold text-foreground">
-                {isEncrypted ? "****" : totalGeneration.toFixed(1)} kWh
+                {isEncrypted ? "****" : totalGeneration.toFixed(1)} {unit}
               </p>
             </div>
           </div>
@@ -35,7 +36,7 @@ export function EnergyFooter({ totalGeneration, totalConsumption, isEncrypted }:
             <div>
               <p className="text-sm text-muted-foreground">Total Consumption</p>
               <p className="text-2xl font-bold text-foreground">
-                {isEncrypted ? "****" : totalConsumption.toFixed(1)} kWh
+                {isEncrypted ? "****" : totalConsumption.toFixed(1)} {unit}
               </p>
             </div>
           </div>
@@ -51,7 +52,7 @@ export function EnergyFooter({ totalGeneration, totalConsumption, isEncrypted }:
               <p className={`text-2xl font-bold ${
                 isPositive ? 'text-primary' : 'text-destructive'
               }`}>
-                {isEncrypted ? "****" : `${isPositive ? '+' : ''}${netBalance.toFixed(1)}`} kWh
+                {isEncrypted ? "****" : `${isPositive ? '+' : ''}${netBalance.toFixed(1)}`} {unit}
               </p>
             </div>
           </div>
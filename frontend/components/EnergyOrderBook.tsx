@@ -0,0 +1,292 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowLeftRight, Check, Eye, Loader2, Tag, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { MarketBid, MarketOffer } from "@/hooks/useEnergyMarket";
+
+interface EnergyOrderBookProps {
+  account?: string;
+  offers: MarketOffer[];
+  bids: MarketBid[];
+  paymentBalance: bigint | null;
+  onDecrypt: () => Promise<boolean>;
+  onCreateOffer: (amount: number, price: bigint) => Promise<boolean>;
+  onPlaceBid: (offerId: string, amount: number) => Promise<boolean>;
+  onAcceptBid: (bidId: string) => Promise<boolean>;
+  onCancelOffer: (offerId: string) => Promise<boolean>;
+  onCancelBid: (bidId: string) => Promise<boolean>;
+  isLoading?: boolean;
+  isDecrypting?: boolean;
+  unit?: string;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const parseAmount = (input: string): number | null => {
+  const value = parseFloat(input);
+  return input.trim() !== "" && Number.isFinite(value) && value > 0 ? value : null;
+};
+
+// Offered and bid amounts stay encrypted: only the two parties of a trade can decrypt them
+export function EnergyOrderBook({
+  account,
+  offers,
+  bids,
+  paymentBalance,
+  onDecrypt,
+  onCreateOffer,
+  onPlaceBid,
+  onAcceptBid,
+  onCancelOffer,
+  onCancelBid,
+  isLoading = false,
+  isDecrypting = false,
+  unit = "kWh",
+}: EnergyOrderBookProps) {
+  const [offerAmount, setOfferAmount] = useState("");
+  const [offerPrice, setOfferPrice] = useState("");
+  const [bidAmounts, setBidAmounts] = useState<Record<string, string>>({});
+
+  const isMine = (address: string) => !!account && address.toLowerCase() === account.toLowerCase();
+  const formatAmount = (value: number | null) => (value === null ? "🔒 Encrypted" : `${value.toFixed(1)} ${unit}`);
+  const formatPayment = (value: bigint | null) => (value === null ? "🔒 Encrypted" : value.toString());
+
+  const parsedOfferAmount = parseAmount(offerAmount);
+  const isValidPrice = /^\d+$/.test(offerPrice.trim());
+
+  const handleCreateOffer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (parsedOfferAmount === null || !isValidPrice) return;
+    if (await onCreateOffer(parsedOfferAmount, BigInt(offerPrice.trim()))) {
+      setOfferAmount("");
+      setOfferPrice("");
+    }
+  };
+
+  const handlePlaceBid = async (offerId: string) => {
+    const amount = parseAmount(bidAmounts[offerId] ?? "");
+    if (amount === null) return;
+    if (await onPlaceBid(offerId, amount)) {
+      setBidAmounts((prev) => ({ ...prev, [offerId]: "" }));
+    }
+  };
+
+  const myBids = bids.filter((b) => isMine(b.buyer));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 sm:gap-8">
+        {/* Payment balance */}
+        <div className="card-enhanced p-8 rounded-3xl">
+          <div className="flex items-center gap-3 mb-2">
+            <ArrowLeftRight className="w-6 h-6 text-primary" />
+            <h3 className="text-2xl font-bold text-foreground">Energy Trading</h3>
+          </div>
+          <p className="text-muted-foreground mb-6">
+            Sell the energy credits earned from your generation for payment tokens. Bids escrow their payment and
+            accepted bids settle credits and payment together. Prices are public, amounts stay private.
+          </p>
+          <div className="rounded-2xl bg-muted/50 p-6 text-center mb-6">
+            <div className="text-4xl font-bold bg-gradient-energy bg-clip-text text-transparent">
+              {formatPayment(paymentBalance)}
+            </div>
+            <div className="text-sm text-muted-foreground mt-2">Payment tokens available to bid</div>
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" onClick={onDecrypt} disabled={isDecrypting} className="rounded-xl">
+              {isDecrypting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+              Decrypt amounts
+            </Button>
+          </div>
+        </div>
+
+        {/* New offer */}
+        <form onSubmit={handleCreateOffer} className="card-enhanced p-8 rounded-3xl">
+          <div className="flex items-center gap-3 mb-2">
+            <Tag className="w-6 h-6 text-primary" />
+            <h3 className="text-2xl font-bold text-foreground">Sell Credits</h3>
+          </div>
+          <p className="text-muted-foreground mb-6">
+            The amount is escrowed from your energy credits. If they are too low the offer is listed empty, without
+            revealing it.
+          </p>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="offer-amount">Amount ({unit})</Label>
+              <Input
+                id="offer-amount"
+                type="number"
+                step="0.1"
+                min="0"
+                placeholder="e.g. 50"
+                value={offerAmount}
+                onChange={(e) => setOfferAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="offer-price">Price per {unit} (payment tokens)</Label>
+              <Input
+                id="offer-price"
+                type="number"
+                step="1"
+                min="0"
+                placeholder="e.g. 25"
+                value={offerPrice}
+                onChange={(e) => setOfferPrice(e.target.value)}
+              />
+            </div>
+            <Button
+              type="submit"
+              disabled={parsedOfferAmount === null || !isValidPrice || isLoading}
+              className="w-full rounded-xl"
+            >
+              {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Tag className="w-4 h-4" />}
+              Encrypt &amp; list offer
+            </Button>
+          </div>
+        </form>
+      </div>
+
+      {/* Order book */}
+      <div className="card-enhanced p-8 rounded-3xl">
+        <h3 className="text-2xl font-bold text-foreground mb-6">Order Book</h3>
+        {offers.length === 0 ? (
+          <div className="text-center text-muted-foreground py-8">No offers yet.</div>
+        ) : (
+          <div className="space-y-4">
+            {offers.map((offer) => {
+              const own = isMine(offer.seller);
+              const offerBids = bids.filter((b) => b.offerId === offer.id);
+              return (
+                <div key={offer.id} className="rounded-2xl border border-border p-4">
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                    <div>
+                      <div className="font-semibold text-foreground">
+                        Offer #{offer.id} · {offer.price.toString()} per {unit}
+                      </div>
+                      <div className="text-sm text-muted-foreground">
+                        {own ? "Your offer" : shortAddress(offer.seller)} · {offer.bidIds.length} bid
+                        {offer.bidIds.length === 1 ? "" : "s"} · listed {offer.createdAt.toLocaleDateString()}
+                        {!offer.isOpen && " · closed"}
+                      </div>
+                      {own && <div className="text-sm text-muted-foreground">Left: {formatAmount(offer.remaining)}</div>}
+                    </div>
+                    {offer.isOpen && own && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onCancelOffer(offer.id)}
+                        disabled={isLoading}
+                        className="rounded-xl"
+                      >
+                        <X className="w-4 h-4" />
+                        Cancel offer
+                      </Button>
+                    )}
+                    {offer.isOpen && !own && (
+                      <div className="flex gap-2">
+                        <Input
+                          type="number"
+                          step="0.1"
+                          min="0"
+                          placeholder={unit}
+                          aria-label={`Bid amount for offer ${offer.id}`}
+                          value={bidAmounts[offer.id] ?? ""}
+                          onChange={(e) => setBidAmounts((prev) => ({ ...prev, [offer.id]: e.target.value }))}
+                          className="w-28"
+                        />
+                        <Button
+                          type="button"
+                          size="sm"
+                          onClick={() => handlePlaceBid(offer.id)}
+                          disabled={parseAmount(bidAmounts[offer.id] ?? "") === null || isLoading}
+                          className="rounded-xl"
+                        >
+                          Bid
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+
+                  {own && offerBids.length > 0 && (
+                    <ul className="mt-4 space-y-2">
+                      {offerBids.map((bid) => (
+                        <li
+                          key={bid.id}
+                          className="flex items-center justify-between gap-2 rounded-xl bg-muted/50 px-3 py-2 text-sm"
+                        >
+                          <span>
+                            Bid #{bid.id} from {shortAddress(bid.buyer)}: {formatAmount(bid.amount)}
+                            {bid.status === "accepted" &&
+                              bid.filled !== null &&
+                              `, filled ${formatAmount(bid.filled)} for ${formatPayment(bid.payment)}`}
+                          </span>
+                          {bid.status === "open" && offer.isOpen ? (
+                            <Button
+                              type="button"
+                              size="sm"
+                              onClick={() => onAcceptBid(bid.id)}
+                              disabled={isLoading}
+                              className="rounded-xl"
+                            >
+                              <Check className="w-4 h-4" />
+                              Accept
+                            </Button>
+                          ) : (
+                            <span className="text-muted-foreground">{bid.status}</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Bids of the signer */}
+      {myBids.length > 0 && (
+        <div className="card-enhanced p-8 rounded-3xl">
+          <h3 className="text-2xl font-bold text-foreground mb-6">Your Bids</h3>
+          <ul className="space-y-2">
+            {myBids.map((bid) => (
+              <li
+                key={bid.id}
+                className="flex items-center justify-between gap-2 rounded-xl bg-muted/50 px-3 py-2 text-sm"
+              >
+                <span>
+                  Bid #{bid.id} on offer #{bid.offerId}: {formatAmount(bid.amount)}
+                  {bid.status === "open" && bid.payment !== null && `, ${formatPayment(bid.payment)} escrowed`}
+                  {bid.status === "accepted" &&
+                    bid.filled !== null &&
+                    `, received ${formatAmount(bid.filled)} for ${formatPayment(bid.payment)}`}
+                </span>
+                {bid.status === "open" ? (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onCancelBid(bid.id)}
+                    disabled={isLoading}
+                    className="rounded-xl"
+                  >
+                    <X className="w-4 h-4" />
+                    Cancel
+                  </Button>
+                ) : (
+                  <span className="text-muted-foreground">{bid.status}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
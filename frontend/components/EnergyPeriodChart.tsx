@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import { BarChart3, Loader2, Unlock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { PeriodTotals } from "@/hooks/useEnergyVault";
+import { EnergyPeriod, formatPeriod, getPeriodIndex } from "@/lib/energyPeriods";
+
+interface EnergyPeriodChartProps {
+  data: PeriodTotals[] | null;
+  onLoad: (period: EnergyPeriod, fromIndex: number, count: number) => Promise<PeriodTotals[] | null>;
+  isLoading?: boolean;
+  unit?: string;
+}
+
+// Number of periods plotted, ending with the current one
+const RANGES: Record<EnergyPeriod, { count: number; label: string }> = {
+  month: { count: 12, label: "Last 12 months" },
+  day: { count: 30, label: "Last 30 days" },
+};
+
+export function EnergyPeriodChart({ data, onLoad, isLoading = false, unit = "kWh" }: EnergyPeriodChartProps) {
+  const [period, setPeriod] = useState<EnergyPeriod>("month");
+
+  const handleLoad = async (selected: EnergyPeriod) => {
+    setPeriod(selected);
+    const { count } = RANGES[selected];
+    const currentIndex = getPeriodIndex(selected, new Date());
+    await onLoad(selected, currentIndex - count + 1, count);
+  };
+
+  const visible = data && data.length > 0 && data[0].period === period ? data : null;
+  const maxValue = Math.max(1, ...(visible ?? []).flatMap((d) => [d.generation, d.consumption]));
+
+  return (
+    <div className="card-enhanced p-8 rounded-3xl">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+        <div className="flex items-center gap-3">
+          <BarChart3 className="w-6 h-6 text-primary" />
+          <div>
+            <h3 className="text-2xl font-bold text-foreground">Generation vs Consumption</h3>
+            <p className="text-sm text-muted-foreground">{RANGES[period].label} by measurement date, decrypted with one signature</p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          {(Object.keys(RANGES) as EnergyPeriod[]).map((option) => (
+            <Button
+              key={option}
+              variant={period === option && visible ? "default" : "outline"}
+              onClick={() => handleLoad(option)}
+              disabled={isLoading}
+              className="rounded-xl"
+            >
+              {isLoading && period === option ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Unlock className="w-4 h-4" />
+              )}
+              {option === "month" ? "Monthly" : "Daily"}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {!visible ? (
+        <div className="h-48 flex items-center justify-center text-muted-foreground text-center">
+          Period totals are encrypted on-chain. Decrypt them to plot your history.
+        </div>
+      ) : (
+        <>
+          <div className="flex items-end gap-1 sm:gap-2 h-48">
+            {visible.map((d) => (
+              <div
+                key={d.index}
+                className="flex-1 flex items-end justify-center gap-0.5 h-full"
+                title={`${formatPeriod(d.period, d.index)}: ${d.generation.toFixed(1)} ${unit} generated, ${d.consumption.toFixed(1)} ${unit} consumed`}
+              >
+                <div
+                  className="w-1/2 bg-gradient-energy rounded-t-md transition-all duration-500"
+                  style={{ height: `${(d.generation / maxValue) * 100}%` }}
+                />
+                <div
+                  className="w-1/2 bg-secondary/60 rounded-t-md transition-all duration-500"
+                  style={{ height: `${(d.consumption / maxValue) * 100}%` }}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-1 sm:gap-2 mt-2">
+            {visible.map((d, i) => (
+              <div key={d.index} className="flex-1 text-center text-xs text-muted-foreground truncate">
+                {/* Label every period for months, every 5th for days */}
+                {period === "month" || i % 5 === 0 ? formatPeriod(d.period, d.index) : ""}
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-center gap-6 mt-6 text-sm">
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded-sm bg-gradient-energy" />
+              <span className="text-muted-foreground">Generation</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded-sm bg-secondary/60" />
+              <span className="text-muted-foreground">Consumption</span>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
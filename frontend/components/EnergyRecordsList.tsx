@@ -1,75 +1,311 @@
 "use client";
 
+import { useEffect, useRef, useState } from "react";
 import { Badge } from "@/components/ui/badge";
-import { Zap, Home, Clock, Unlock, Loader2 } from "lucide-react";
+import { Zap, Home, Clock, Unlock, Loader2, AlertTriangle, Share2, User, History, Cpu, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { DecryptProgress, RecordFilter, RecordHistoryEntry } from "@/hooks/useEnergyVault";
 import { EnergyRecord } from "./CreateEnergyRecord";
+import { LoadingState } from "./LoadingState";
+import { RecordHistoryPanel } from "./RecordHistoryPanel";
+import { RecordSharePanel } from "./RecordSharePanel";
+
+type RecordsTab = "mine" | "shared";
+
+// Records of a creation not mined yet, or failed: shown from the submission, without an on-chain ID
+const isOptimistic = (record: EnergyRecord) => record.pendingStatus === "pending" || record.pendingStatus === "failed";
+
+const formatDateTime = (date: Date) => `${date.toLocaleDateString()} at ${date.toLocaleTimeString()}`;
+
+// A reading at one instant shows its date, an interval its start and end
+function formatMeasurement(record: EnergyRecord): string {
+  const { measuredFrom, measuredTo } = record;
+  if (measuredFrom.getTime() === measuredTo.getTime()) {
+    return formatDateTime(measuredTo);
+  }
+  if (measuredFrom.toDateString() === measuredTo.toDateString()) {
+    return `${formatDateTime(measuredFrom)} – ${measuredTo.toLocaleTimeString()}`;
+  }
+  return `${formatDateTime(measuredFrom)} – ${formatDateTime(measuredTo)}`;
+}
+
+// Value of a date input for a local date, and back: "from" starts and "to" ends the selected day
+const toDateInput = (date?: Date) =>
+  date
+    ? `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+    : "";
+const fromDateInput = (value: string, endOfDay: boolean) =>
+  value ? new Date(`${value}T${endOfDay ? "23:59:59" : "00:00:00"}`) : undefined;
+
+const RECORD_TYPE_FILTERS: { label: string; type?: RecordFilter["type"] }[] = [
+  { label: "All" },
+  { label: "Generation", type: "generation" },
+  { label: "Consumption", type: "consumption" },
+];
 
 interface EnergyRecordsListProps {
   records: EnergyRecord[];
+  pendingRecords?: EnergyRecord[];
+  onDismissPending?: (recordId: string) => void;
+  totalCount?: number;
   onDecrypt?: (recordId: string) => Promise<number | null>;
   decryptingId?: string | null;
+  onDecryptAll?: (recordIds: string[]) => Promise<unknown>;
+  decryptProgress?: DecryptProgress | null;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => Promise<void>;
+  filter?: RecordFilter;
+  onFilterChange?: (filter: RecordFilter) => void;
+  sharedRecords?: EnergyRecord[];
+  isLoadingShared?: boolean;
+  onLoadGrantees?: (recordId: string) => Promise<string[]>;
+  onGrantAccess?: (recordId: string, grantee: string) => Promise<boolean>;
+  onRevokeAccess?: (recordId: string, grantee: string) => Promise<boolean>;
+  onLoadHistory?: (recordId: string) => Promise<RecordHistoryEntry[]>;
+  onCorrect?: (recordId: string, value: number) => Promise<boolean>;
+  onVoid?: (recordId: string) => Promise<boolean>;
+  unit?: string;
 }
 
-export function EnergyRecordsList({ records, onDecrypt, decryptingId }: EnergyRecordsListProps) {
-  if (records.length === 0) {
+export function EnergyRecordsList({
+  records,
+  pendingRecords = [],
+  onDismissPending,
+  totalCount,
+  onDecrypt,
+  decryptingId,
+  onDecryptAll,
+  decryptProgress,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+  filter = {},
+  onFilterChange,
+  sharedRecords,
+  isLoadingShared = false,
+  onLoadGrantees,
+  onGrantAccess,
+  onRevokeAccess,
+  onLoadHistory,
+  onCorrect,
+  onVoid,
+  unit = "kWh",
+}: EnergyRecordsListProps) {
+  const [activeTab, setActiveTab] = useState<RecordsTab>("mine");
+  const [sharingId, setSharingId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const loadMoreSentinelRef = useRef<HTMLDivElement>(null);
+
+  const isSharedTab = activeTab === "shared";
+  const visibleRecords = isSharedTab ? sharedRecords ?? [] : [...pendingRecords, ...records];
+  const isLoadingVisible = isSharedTab ? isLoadingShared : isLoadingMore;
+  const canShare = !isSharedTab && !!onLoadGrantees && !!onGrantAccess && !!onRevokeAccess;
+  const canAmend = !isSharedTab && !!onCorrect && !!onVoid;
+
+  const encryptedIds = visibleRecords.filter((r) => r.isEncrypted && !isOptimistic(r)).map((r) => r.id);
+  const isDecryptingAll = (decryptProgress?.pendingIds.length ?? 0) > 0;
+  const isRecordDecrypting = (recordId: string) =>
+    decryptingId === recordId || (decryptProgress?.pendingIds.includes(recordId) ?? false);
+  const isFiltered = !!(filter.type || filter.from || filter.to);
+  const canLoadMore = !isSharedTab && hasMore && !!onLoadMore;
+
+  // Load older records when the end of the list scrolls into view. The observer is recreated after
+  // each page so that a sentinel still in view (short pages, filtered lists) triggers the next one.
+  useEffect(() => {
+    const sentinel = loadMoreSentinelRef.current;
+    if (!sentinel || !canLoadMore || isLoadingMore) {
+      return;
+    }
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMore?.();
+        }
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [canLoadMore, isLoadingMore, onLoadMore, records.length]);
+
+  const header = (
+    <div className="flex items-center gap-4 mb-8">
+      <div className="w-16 h-16 bg-gradient-energy rounded-3xl flex items-center justify-center energy-glow">
+        <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+        </svg>
+      </div>
+      <div>
+        <h2 className="text-3xl font-bold bg-gradient-energy bg-clip-text text-transparent">
+          Energy Records History
+        </h2>
+        <p className="text-muted-foreground text-lg">
+          {visibleRecords.length === 0 ? (
+            isSharedTab ? (
+              "No records have been shared with you yet."
+            ) : isFiltered ? (
+              hasMore ? "Searching older records..." : "No records match the filter."
+            ) : (
+              "No records yet. Create your first energy record above."
+            )
+          ) : isSharedTab ? (
+            `Records other owners shared with you (${visibleRecords.length} records)`
+          ) : (
+            <>
+              Your recorded energy data entries (
+              {!isFiltered && totalCount !== undefined && totalCount > records.length
+                ? `${records.length} of ${totalCount}`
+                : records.length}{" "}
+              records)
+            </>
+          )}
+        </p>
+      </div>
+      {onDecryptAll && (encryptedIds.length > 0 || isDecryptingAll) && (
+        <Button
+          variant="outline"
+          onClick={() => onDecryptAll(encryptedIds)}
+          disabled={isDecryptingAll || !!decryptingId}
+          className="ml-auto px-4 py-3 rounded-2xl border-2 border-locked/30 hover:border-locked hover:bg-locked/10 transition-all duration-300"
+        >
+          {isDecryptingAll && decryptProgress ? (
+            <div className="flex items-center gap-2">
+              <Loader2 className="w-5 h-5 animate-spin" />
+              <span className="font-semibold">
+                Decrypting {decryptProgress.decrypted}/{decryptProgress.total}
+              </span>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2">
+              <Unlock className="w-5 h-5" />
+              <span className="font-semibold">Decrypt all ({encryptedIds.length})</span>
+            </div>
+          )}
+        </Button>
+      )}
+    </div>
+  );
+
+  const tabs = sharedRecords !== undefined && (
+    <div className="flex gap-2 mb-6">
+      <Button
+        variant={activeTab === "mine" ? "default" : "outline"}
+        onClick={() => setActiveTab("mine")}
+        className="rounded-xl"
+      >
+        My records
+      </Button>
+      <Button
+        variant={activeTab === "shared" ? "default" : "outline"}
+        onClick={() => setActiveTab("shared")}
+        className="rounded-xl"
+      >
+        Shared with me
+        {sharedRecords.length > 0 && (
+          <Badge variant="secondary" className="ml-1 rounded-lg">
+            {sharedRecords.length}
+          </Badge>
+        )}
+      </Button>
+    </div>
+  );
+
+  const filters = !isSharedTab && onFilterChange && (
+    <div className="flex flex-wrap items-center gap-2 mb-6">
+      {RECORD_TYPE_FILTERS.map(({ label, type }) => (
+        <Button
+          key={label}
+          size="sm"
+          variant={filter.type === type ? "default" : "outline"}
+          onClick={() => onFilterChange({ ...filter, type })}
+          className="rounded-xl"
+        >
+          {label}
+        </Button>
+      ))}
+      <div className="flex items-center gap-2 ml-auto text-sm text-muted-foreground">
+        <span>Measured</span>
+        <Input
+          type="date"
+          aria-label="Measured from"
+          value={toDateInput(filter.from)}
+          onChange={(e) => onFilterChange({ ...filter, from: fromDateInput(e.target.value, false) })}
+          className="w-40"
+        />
+        <span>to</span>
+        <Input
+          type="date"
+          aria-label="Measured to"
+          value={toDateInput(filter.to)}
+          onChange={(e) => onFilterChange({ ...filter, to: fromDateInput(e.target.value, true) })}
+          className="w-40"
+        />
+      </div>
+    </div>
+  );
+
+  if (visibleRecords.length === 0) {
     return (
       <div className="h-full">
-        <div className="flex items-center gap-4 mb-8">
-          <div className="w-16 h-16 bg-gradient-energy rounded-3xl flex items-center justify-center energy-glow">
-            <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
-            </svg>
-          </div>
-          <div>
-            <h2 className="text-3xl font-bold bg-gradient-energy bg-clip-text text-transparent">
-              Energy Records History
-            </h2>
-            <p className="text-muted-foreground text-lg">
-              No records yet. Create your first energy record above.
-            </p>
-          </div>
-        </div>
+        {header}
+        {tabs}
+        {filters}
 
-        <div className="card-enhanced p-12 rounded-3xl text-center">
-          <div className="w-24 h-24 bg-muted/50 rounded-3xl flex items-center justify-center mx-auto mb-6">
-            <svg className="w-12 h-12 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2M4 13h2m8-5v2m0 0v2m0-2h2m-2 0h-2" />
-            </svg>
+        {isLoadingVisible ? (
+          <div className="card-enhanced p-12 rounded-3xl">
+            <LoadingState message="Loading your records from chain..." />
+          </div>
+        ) : (
+          <div className="card-enhanced p-12 rounded-3xl text-center">
+            <div className="w-24 h-24 bg-muted/50 rounded-3xl flex items-center justify-center mx-auto mb-6">
+              <svg className="w-12 h-12 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2M4 13h2m8-5v2m0 0v2m0-2h2m-2 0h-2" />
+              </svg>
+            </div>
+            {isSharedTab ? (
+              <>
+                <h3 className="text-2xl font-bold text-foreground mb-4">Nothing Shared Yet</h3>
+                <p className="text-muted-foreground text-lg">
+                  Records appear here once their owner grants your address access.
+                </p>
+              </>
+            ) : isFiltered ? (
+              <>
+                <h3 className="text-2xl font-bold text-foreground mb-4">No Matching Records</h3>
+                <p className="text-muted-foreground text-lg">
+                  None of your records matches this type and measurement period.
+                </p>
+              </>
+            ) : (
+              <>
+                <h3 className="text-2xl font-bold text-foreground mb-4">No Energy Records Yet</h3>
+                <p className="text-muted-foreground text-lg">
+                  Your energy records will appear here once you create them.
+                  Start by adding your first generation or consumption record.
+                </p>
+              </>
+            )}
           </div>
-          <h3 className="text-2xl font-bold text-foreground mb-4">No Energy Records Yet</h3>
-          <p className="text-muted-foreground text-lg">
-            Your energy records will appear here once you create them.
-            Start by adding your first generation or consumption record.
-          </p>
-        </div>
+        )}
       </div>
     );
   }
 
   return (
     <div className="h-full">
-      <div className="flex items-center gap-4 mb-8">
-        <div className="w-16 h-16 bg-gradient-energy rounded-3xl flex items-center justify-center energy-glow">
-          <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
-          </svg>
-        </div>
-        <div>
-          <h2 className="text-3xl font-bold bg-gradient-energy bg-clip-text text-transparent">
-            Energy Records History
-          </h2>
-          <p className="text-muted-foreground text-lg">
-            Your recorded energy data entries ({records.length} records)
-          </p>
-        </div>
-      </div>
+      {header}
+      {tabs}
+      {filters}
 
       <div className="space-y-4 max-h-96 overflow-y-auto">
-        {records.map((record, index) => (
+        {visibleRecords.map((record, index) => (
           <div
             key={record.id}
-            className="card-enhanced p-6 rounded-2xl hover:scale-[1.02] transition-all duration-300 group"
+            className={`card-enhanced p-6 rounded-2xl hover:scale-[1.02] transition-all duration-300 group ${
+              record.isVoided ? "opacity-60" : ""
+            }`}
             style={{ animationDelay: `${index * 100}ms` }}
           >
             <div className="flex items-center justify-between">
@@ -99,61 +335,191 @@ export function EnergyRecordsList({ records, onDecrypt, decryptingId }: EnergyRe
                     >
                       {record.type === "generation" ? "⚡ Generation" : "🏠 Consumption"}
                     </Badge>
+                    {record.isVoided && (
+                      <Badge variant="destructive" className="px-3 py-1 rounded-xl font-semibold">
+                        Voided
+                      </Badge>
+                    )}
+                    {record.pendingStatus === "pending" && (
+                      <Badge variant="outline" className="px-3 py-1 rounded-xl font-semibold" title={record.transactionHash}>
+                        <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                        Pending
+                      </Badge>
+                    )}
+                    {record.pendingStatus === "mined" && (
+                      <Badge variant="outline" className="px-3 py-1 rounded-xl font-semibold" title={record.transactionHash}>
+                        Confirming
+                      </Badge>
+                    )}
+                    {record.pendingStatus === "failed" && (
+                      <Badge variant="destructive" className="px-3 py-1 rounded-xl font-semibold" title={record.transactionHash}>
+                        Failed
+                      </Badge>
+                    )}
                   </div>
 
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
                     <Clock className="w-4 h-4" />
-                    <span className="font-medium">
-                      {record.timestamp.toLocaleDateString()} at {record.timestamp.toLocaleTimeString()}
+                    <span className="font-medium" title={`Submitted ${record.timestamp.toLocaleString()}`}>
+                      {formatMeasurement(record)}
                     </span>
                   </div>
+
+                  {isSharedTab && record.owner && (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground mt-1">
+                      <User className="w-4 h-4" />
+                      <span className="font-mono" title={record.owner}>
+                        {record.owner.slice(0, 6)}...{record.owner.slice(-4)}
+                      </span>
+                    </div>
+                  )}
+
+                  {record.device && (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground mt-1">
+                      <Cpu className="w-4 h-4" />
+                      <span>
+                        Submitted by meter{" "}
+                        <span className="font-mono" title={record.device}>
+                          {record.device.slice(0, 6)}...{record.device.slice(-4)}
+                        </span>
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
 
-              <div className="flex items-center gap-4">
-                {record.isEncrypted ? (
-                  <div className="flex items-center gap-3">
-                    <div className="text-center">
-                      <div className="text-2xl font-black text-locked mb-1">🔒</div>
-                      <div className="text-sm font-bold text-locked">Encrypted</div>
+              {isOptimistic(record) ? (
+                <div className="flex items-center gap-4">
+                  <div className="text-center">
+                    <div className="text-2xl font-black text-locked mb-1">🔒</div>
+                    <div className="text-sm font-bold text-locked">
+                      {record.pendingStatus === "failed" ? "Not recorded" : "Awaiting block"}
                     </div>
-                    {onDecrypt && (
-                      <Button
-                        size="lg"
-                        variant="outline"
-                        onClick={() => onDecrypt(record.id)}
-                        disabled={decryptingId === record.id}
-                        className="px-6 py-3 rounded-2xl border-2 border-locked/30 hover:border-locked hover:bg-locked/10 transition-all duration-300"
-                      >
-                        {decryptingId === record.id ? (
-                          <div className="flex items-center gap-2">
-                            <Loader2 className="w-5 h-5 animate-spin" />
-                            <span className="font-semibold">Decrypting...</span>
-                          </div>
-                        ) : (
-                          <div className="flex items-center gap-2">
-                            <Unlock className="w-5 h-5" />
-                            <span className="font-semibold">Decrypt</span>
+                  </div>
+                  {record.pendingStatus === "failed" && onDismissPending && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => onDismissPending(record.id)}
+                      aria-label="Dismiss"
+                      title="Dismiss"
+                    >
+                      <X className="w-5 h-5" />
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <div className="flex items-center gap-4">
+                  {onLoadHistory && (
+                    <Button
+                      size="icon"
+                      variant={historyId === record.id ? "secondary" : "ghost"}
+                      onClick={() => setHistoryId(historyId === record.id ? null : record.id)}
+                      aria-label="Record history"
+                      title={canAmend && !record.isVoided ? "History, correct or void" : "Record history"}
+                    >
+                      <History className="w-5 h-5" />
+                    </Button>
+                  )}
+                  {canShare && (
+                    <Button
+                      size="icon"
+                      variant={sharingId === record.id ? "secondary" : "ghost"}
+                      onClick={() => setSharingId(sharingId === record.id ? null : record.id)}
+                      aria-label="Share record"
+                      title="Share record"
+                    >
+                      <Share2 className="w-5 h-5" />
+                    </Button>
+                  )}
+                  {record.isEncrypted ? (
+                    <div className="flex items-center gap-3">
+                      <div className="text-center">
+                        <div className="text-2xl font-black text-locked mb-1">🔒</div>
+                        <div className="text-sm font-bold text-locked">Encrypted</div>
+                        {decryptProgress?.failed[record.id] && (
+                          <div
+                            className="text-xs text-destructive flex items-center justify-center gap-1 mt-1"
+                            title={decryptProgress.failed[record.id]}
+                          >
+                            <AlertTriangle className="w-3 h-3" />
+                            Failed
                           </div>
                         )}
-                      </Button>
-                    )}
-                  </div>
-                ) : (
-                  <div className="text-center">
-                    <div className="text-3xl font-black bg-gradient-energy bg-clip-text text-transparent mb-1">
-                      {record.value.toFixed(1)}
+                      </div>
+                      {onDecrypt && (
+                        <Button
+                          size="lg"
+                          variant="outline"
+                          onClick={() => onDecrypt(record.id)}
+                          disabled={isRecordDecrypting(record.id)}
+                          className="px-6 py-3 rounded-2xl border-2 border-locked/30 hover:border-locked hover:bg-locked/10 transition-all duration-300"
+                        >
+                          {isRecordDecrypting(record.id) ? (
+                            <div className="flex items-center gap-2">
+                              <Loader2 className="w-5 h-5 animate-spin" />
+                              <span className="font-semibold">Decrypting...</span>
+                            </div>
+                          ) : (
+                            <div className="flex items-center gap-2">
+                              <Unlock className="w-5 h-5" />
+                              <span className="font-semibold">Decrypt</span>
+                            </div>
+                          )}
+                        </Button>
+                      )}
                     </div>
-                    <div className="text-sm font-bold text-primary flex items-center justify-center gap-1">
-                      <Unlock className="w-4 h-4" />
-                      kWh Verified
+                  ) : (
+                    <div className="text-center">
+                      <div
+                        className={`text-3xl font-black bg-gradient-energy bg-clip-text text-transparent mb-1 ${
+                          record.isVoided ? "line-through" : ""
+                        }`}
+                      >
+                        {record.value.toFixed(1)}
+                      </div>
+                      <div className="text-sm font-bold text-primary flex items-center justify-center gap-1">
+                        <Unlock className="w-4 h-4" />
+                        {unit} Verified
+                      </div>
                     </div>
-                  </div>
-                )}
-              </div>
+                  )}
+                </div>
+              )}
             </div>
+
+            {canShare && sharingId === record.id && (
+              <RecordSharePanel
+                recordId={record.id}
+                onLoadGrantees={onLoadGrantees!}
+                onGrant={onGrantAccess!}
+                onRevoke={onRevokeAccess!}
+              />
+            )}
+
+            {onLoadHistory && historyId === record.id && (
+              <RecordHistoryPanel
+                recordId={record.id}
+                isVoided={record.isVoided}
+                unit={unit}
+                onLoadHistory={onLoadHistory}
+                onCorrect={canAmend ? onCorrect : undefined}
+                onVoid={canAmend ? onVoid : undefined}
+              />
+            )}
           </div>
         ))}
+
+        {canLoadMore && (
+          <div ref={loadMoreSentinelRef} className="flex items-center justify-center gap-2 py-3 text-muted-foreground">
+            {isLoadingMore && (
+              <>
+                <Loader2 className="w-5 h-5 animate-spin" />
+                <span className="font-semibold">Loading older records...</span>
+              </>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
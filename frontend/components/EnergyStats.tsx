@@ -1,16 +1,33 @@
 "use client";
 
-import { TrendingUp, Activity, BarChart3, PieChart } from "lucide-react";
+import { TrendingUp, Activity, BarChart3, PieChart, AlertTriangle, Gauge } from "lucide-react";
 
 interface EnergyStatsProps {
   totalGeneration: number;
   totalConsumption: number;
+  netBalance: number;
+  isSurplus: boolean;
   recordCount: number;
   isEncrypted: boolean;
+  isClamped?: boolean;
+  consumptionLimit?: number | null;
+  isOverLimit?: boolean;
+  unit?: string;
 }
 
-export function EnergyStats({ totalGeneration, totalConsumption, recordCount, isEncrypted }: EnergyStatsProps) {
-  const netEnergy = totalGeneration - totalConsumption;
+// Totals, net balance and surplus flag are decrypted from EnergyVault, so they are hidden while encrypted
+export function EnergyStats({
+  totalGeneration,
+  totalConsumption,
+  netBalance,
+  isSurplus,
+  recordCount,
+  isEncrypted,
+  isClamped = false,
+  consumptionLimit = null,
+  isOverLimit = false,
+  unit = "kWh",
+}: EnergyStatsProps) {
   const efficiency = totalGeneration > 0 ? (totalConsumption / totalGeneration) * 100 : 0;
 
   const stats = [
@@ -24,15 +41,15 @@ export function EnergyStats({ totalGeneration, totalConsumption, recordCount, is
     },
     {
       title: "Net Balance",
-      value: `${netEnergy > 0 ? '+' : ''}${netEnergy.toFixed(1)} kWh`,
+      value: isEncrypted ? `**** ${unit}` : `${netBalance > 0 ? '+' : ''}${netBalance.toFixed(1)} ${unit}`,
       icon: TrendingUp,
-      color: netEnergy >= 0 ? "text-green-500" : "text-red-500",
-      bgColor: netEnergy >= 0 ? "bg-green-500/10" : "bg-red-500/10",
-      description: netEnergy >= 0 ? "Energy surplus" : "Energy deficit"
+      color: isSurplus ? "text-green-500" : "text-red-500",
+      bgColor: isSurplus ? "bg-green-500/10" : "bg-red-500/10",
+      description: isEncrypted ? "Encrypted on-chain" : isSurplus ? "Energy surplus" : "Energy deficit"
     },
     {
       title: "Efficiency Rate",
-      value: `${efficiency.toFixed(1)}%`,
+      value: isEncrypted ? "****%" : `${efficiency.toFixed(1)}%`,
       icon: PieChart,
       color: "text-accent",
       bgColor: "bg-accent/10",
@@ -49,31 +66,55 @@ export function EnergyStats({ totalGeneration, totalConsumption, recordCount, is
   ];
 
   return (
-    <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
-      {stats.map((stat, index) => (
+    <>
+      {!isEncrypted && isClamped && (
+        <div className="flex items-center gap-3 mb-4 p-4 rounded-2xl bg-destructive/10 text-destructive text-sm">
+          <AlertTriangle className="w-5 h-5 shrink-0" />
+          <span>
+            One of your totals reached the maximum the contract can store and was clamped. The values shown are lower bounds.
+          </span>
+        </div>
+      )}
+      {!isEncrypted && consumptionLimit !== null && (
         <div
-          key={stat.title}
-          className="card-enhanced p-4 sm:p-6 rounded-2xl text-center hover-scale"
-          style={{ animationDelay: `${index * 100}ms` }}
+          className={`flex items-center gap-3 mb-4 p-4 rounded-2xl text-sm ${
+            isOverLimit ? "bg-destructive/10 text-destructive" : "bg-green-500/10 text-green-500"
+          }`}
         >
-          <div className={`w-12 h-12 sm:w-14 sm:h-14 ${stat.bgColor} rounded-2xl flex items-center justify-center mx-auto mb-3 sm:mb-4`}>
-            <stat.icon className={`w-6 h-6 sm:w-7 sm:h-7 ${stat.color}`} />
-          </div>
+          {isOverLimit ? <AlertTriangle className="w-5 h-5 shrink-0" /> : <Gauge className="w-5 h-5 shrink-0" />}
+          <span>
+            {isOverLimit
+              ? `This month's consumption is above your limit of ${consumptionLimit.toFixed(1)} ${unit}.`
+              : `This month's consumption is within your limit of ${consumptionLimit.toFixed(1)} ${unit}.`}
+          </span>
+        </div>
+      )}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
+        {stats.map((stat, index) => (
+          <div
+            key={stat.title}
+            className="card-enhanced p-4 sm:p-6 rounded-2xl text-center hover-scale"
+            style={{ animationDelay: `${index * 100}ms` }}
+          >
+            <div className={`w-12 h-12 sm:w-14 sm:h-14 ${stat.bgColor} rounded-2xl flex items-center justify-center mx-auto mb-3 sm:mb-4`}>
+              <stat.icon className={`w-6 h-6 sm:w-7 sm:h-7 ${stat.color}`} />
+            </div>
 
-          <div className="space-y-1 sm:space-y-2">
-            <h3 className="text-sm sm:text-base font-semibold text-muted-foreground">
-              {stat.title}
-            </h3>
-            <p className={`text-xl sm:text-2xl font-bold ${stat.color}`}>
-              {stat.value}
-            </p>
-            <p className="text-xs sm:text-sm text-muted-foreground">
-              {stat.description}
-            </p>
+            <div className="space-y-1 sm:space-y-2">
+              <h3 className="text-sm sm:text-base font-semibold text-muted-foreground">
+                {stat.title}
+              </h3>
+              <p className={`text-xl sm:text-2xl font-bold ${stat.color}`}>
+                {stat.value}
+              </p>
+              <p className="text-xs sm:text-sm text-muted-foreground">
+                {stat.description}
+              </p>
+            </div>
           </div>
-        </div>
-      ))}
-    </div>
+        ))}
+      </div>
+    </>
   );
 }
 
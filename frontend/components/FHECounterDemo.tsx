@@ -1,7 +1,7 @@
 "use client";
 
 import { useFhevm } from "../fhevm/useFhevm";
-import { useInMemoryStorage } from "../hooks/useInMemoryStorage";
+import { useDecryptionSignatureStorage } from "../hooks/useDecryptionSignatureStorage";
 import { useMetaMaskEthersSigner } from "../hooks/metamask/useMetaMaskEthersSigner";
 import { useFHECounter } from "@/hooks/useFHECounter";
 import { errorNotDeployed } from "./ErrorNotDeployed";
@@ -13,7 +13,7 @@ import { errorNotDeployed } from "./ErrorNotDeployed";
  *  - "Decrement" button: allows you to decrement the FHECounter count handle using FHE operations.
  */
 export const FHECounterDemo = () => {
-  const { storage: fhevmDecryptionSignatureStorage } = useInMemoryStorage();
+  const { storage: fhevmDecryptionSignatureStorage } = useDecryptionSignatureStorage();
   const {
     provider,
     chainId,
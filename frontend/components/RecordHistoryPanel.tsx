@@ -0,0 +1,119 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Ban, Loader2, PencilLine } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { RecordHistoryEntry } from "@/hooks/useEnergyVault";
+
+interface RecordHistoryPanelProps {
+  recordId: string;
+  isVoided?: boolean;
+  onLoadHistory: (recordId: string) => Promise<RecordHistoryEntry[]>;
+  onCorrect?: (recordId: string, value: number) => Promise<boolean>;
+  onVoid?: (recordId: string) => Promise<boolean>;
+  unit?: string;
+}
+
+const ACTION_LABELS: Record<RecordHistoryEntry["action"], string> = {
+  created: "Created",
+  corrected: "Value corrected",
+  voided: "Voided",
+};
+
+export function RecordHistoryPanel({
+  recordId,
+  isVoided,
+  onLoadHistory,
+  onCorrect,
+  onVoid,
+  unit = "kWh",
+}: RecordHistoryPanelProps) {
+  const [history, setHistory] = useState<RecordHistoryEntry[] | null>(null);
+  const [valueInput, setValueInput] = useState("");
+  const [busyAction, setBusyAction] = useState<"correct" | "void" | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    onLoadHistory(recordId).then((entries) => {
+      if (!cancelled) setHistory(entries);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [recordId, onLoadHistory]);
+
+  const parsedValue = parseFloat(valueInput);
+  const isValidInput = valueInput.trim() !== "" && Number.isFinite(parsedValue) && parsedValue >= 0;
+  const canAmend = !isVoided && !!onCorrect && !!onVoid;
+
+  const run = async (action: "correct" | "void", submit: () => Promise<boolean>) => {
+    setBusyAction(action);
+    try {
+      if (await submit()) {
+        setValueInput("");
+        setHistory(await onLoadHistory(recordId));
+      }
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-border space-y-3">
+      {canAmend && (
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            step="0.1"
+            min="0"
+            placeholder={`Corrected value (${unit})`}
+            value={valueInput}
+            onChange={(e) => setValueInput(e.target.value)}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => run("correct", () => onCorrect!(recordId, parsedValue))}
+            disabled={!isValidInput || busyAction !== null}
+          >
+            {busyAction === "correct" ? <Loader2 className="w-4 h-4 animate-spin" /> : <PencilLine className="w-4 h-4" />}
+            Correct
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => run("void", () => onVoid!(recordId))}
+            disabled={busyAction !== null}
+            className="text-destructive"
+          >
+            {busyAction === "void" ? <Loader2 className="w-4 h-4 animate-spin" /> : <Ban className="w-4 h-4" />}
+            Void
+          </Button>
+        </div>
+      )}
+
+      {history === null ? (
+        <div className="text-sm text-muted-foreground">Loading audit trail...</div>
+      ) : history.length === 0 ? (
+        <div className="text-sm text-muted-foreground">No events found for this record.</div>
+      ) : (
+        <ol className="space-y-2">
+          {history.map((entry) => (
+            <li
+              key={`${entry.txHash}:${entry.action}`}
+              className="flex items-center justify-between rounded-xl bg-muted/50 px-3 py-2 text-sm"
+            >
+              <span className={`font-semibold ${entry.action === "voided" ? "text-destructive" : "text-foreground"}`}>
+                {ACTION_LABELS[entry.action]}
+              </span>
+              <span className="text-muted-foreground" title={entry.txHash}>
+                {entry.timestamp.toLocaleDateString()} at {entry.timestamp.toLocaleTimeString()}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
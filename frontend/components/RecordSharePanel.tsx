@@ -0,0 +1,115 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, UserMinus, UserPlus } from "lucide-react";
+import { ethers } from "ethers";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface RecordSharePanelProps {
+  recordId: string;
+  onLoadGrantees: (recordId: string) => Promise<string[]>;
+  onGrant: (recordId: string, grantee: string) => Promise<boolean>;
+  onRevoke: (recordId: string, grantee: string) => Promise<boolean>;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export function RecordSharePanel({ recordId, onLoadGrantees, onGrant, onRevoke }: RecordSharePanelProps) {
+  const [grantees, setGrantees] = useState<string[] | null>(null);
+  const [granteeInput, setGranteeInput] = useState("");
+  const [busyAddress, setBusyAddress] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    onLoadGrantees(recordId).then((list) => {
+      if (!cancelled) setGrantees(list);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [recordId, onLoadGrantees]);
+
+  const isValidInput = ethers.isAddress(granteeInput.trim());
+
+  const handleGrant = async () => {
+    const grantee = granteeInput.trim();
+    setBusyAddress(grantee);
+    try {
+      if (await onGrant(recordId, grantee)) {
+        setGranteeInput("");
+        setGrantees(await onLoadGrantees(recordId));
+      }
+    } finally {
+      setBusyAddress(null);
+    }
+  };
+
+  const handleRevoke = async (grantee: string) => {
+    setBusyAddress(grantee);
+    try {
+      if (await onRevoke(recordId, grantee)) {
+        setGrantees(await onLoadGrantees(recordId));
+      }
+    } finally {
+      setBusyAddress(null);
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-border space-y-3">
+      <div className="flex gap-2">
+        <Input
+          placeholder="0x... auditor or utility address"
+          value={granteeInput}
+          onChange={(e) => setGranteeInput(e.target.value)}
+          className="font-mono"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleGrant}
+          disabled={!isValidInput || busyAddress !== null}
+        >
+          {busyAddress !== null && busyAddress === granteeInput.trim() ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <UserPlus className="w-4 h-4" />
+          )}
+          Share
+        </Button>
+      </div>
+
+      {grantees === null ? (
+        <div className="text-sm text-muted-foreground">Loading access list...</div>
+      ) : grantees.length === 0 ? (
+        <div className="text-sm text-muted-foreground">Only you can decrypt this record.</div>
+      ) : (
+        <div className="space-y-2">
+          {grantees.map((grantee) => (
+            <div
+              key={grantee}
+              className="flex items-center justify-between rounded-xl bg-muted/50 px-3 py-2 text-sm"
+            >
+              <span className="font-mono" title={grantee}>{shortAddress(grantee)}</span>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => handleRevoke(grantee)}
+                disabled={busyAddress !== null}
+              >
+                {busyAddress === grantee ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <UserMinus className="w-4 h-4" />
+                )}
+                Revoke
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
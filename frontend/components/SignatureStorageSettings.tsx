@@ -0,0 +1,214 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { KeyRound, Trash2, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  SignatureStorageMode,
+  useDecryptionSignatureStorage,
+} from "@/hooks/useDecryptionSignatureStorage";
+import { FhevmDecryptionSignature } from "@/fhevm/FhevmDecryptionSignature";
+import type { FhevmInstance } from "@/fhevm/fhevmTypes";
+
+const MODES: { mode: SignatureStorageMode; label: string; description: string }[] = [
+  { mode: "memory", label: "This page", description: "Sign again after every reload" },
+  { mode: "session", label: "This tab", description: "Kept until the tab is closed" },
+  { mode: "persistent", label: "This browser", description: "Kept across browser restarts" },
+];
+
+const DURATIONS: { days: number; label: string }[] = [
+  { days: 1, label: "1 day" },
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 365, label: "1 year" },
+];
+
+interface SignatureStorageSettingsProps {
+  userAddress?: string;
+  instance?: FhevmInstance;
+}
+
+export function SignatureStorageSettings({ userAddress, instance }: SignatureStorageSettingsProps) {
+  const {
+    storage,
+    mode,
+    setMode,
+    durationDays,
+    setDurationDays,
+    hasPassphrase,
+    setPassphrase,
+    forgetKeys,
+  } = useDecryptionSignatureStorage();
+  const [passphraseInput, setPassphraseInput] = useState("");
+  const [isForgetting, setIsForgetting] = useState(false);
+  const [signatures, setSignatures] = useState<FhevmDecryptionSignature[]>([]);
+
+  const refreshSignatures = useCallback(async () => {
+    if (!userAddress) {
+      setSignatures([]);
+      return;
+    }
+    try {
+      setSignatures(await FhevmDecryptionSignature.list(storage, userAddress));
+    } catch (error) {
+      console.error("Failed to list decryption signatures:", error);
+      setSignatures([]);
+    }
+  }, [storage, userAddress]);
+
+  useEffect(() => {
+    refreshSignatures();
+  }, [refreshSignatures]);
+
+  const handleRevoke = async (sig: FhevmDecryptionSignature) => {
+    if (!instance) {
+      return;
+    }
+    try {
+      await FhevmDecryptionSignature.revoke(storage, instance, sig.contractAddresses, sig.userAddress);
+      toast.success("Signature revoked");
+    } catch (error) {
+      console.error("Failed to revoke decryption signature:", error);
+      toast.error("Failed to revoke signature");
+    }
+    await refreshSignatures();
+  };
+
+  const handleApplyPassphrase = () => {
+    setPassphrase(passphraseInput);
+    setPassphraseInput("");
+    toast.success(passphraseInput ? "Stored keys will be encrypted with your passphrase" : "Passphrase cleared");
+  };
+
+  const handleForget = async () => {
+    setIsForgetting(true);
+    try {
+      await forgetKeys();
+      toast.success("Decryption keys forgotten", {
+        description: "You will be asked to sign again on the next decryption.",
+      });
+    } catch (error) {
+      console.error("Failed to forget decryption keys:", error);
+      toast.error("Failed to forget decryption keys");
+    } finally {
+      setIsForgetting(false);
+    }
+    await refreshSignatures();
+  };
+
+  return (
+    <div className="card-enhanced p-6 rounded-3xl">
+      <div className="flex items-center gap-3 mb-4">
+        <KeyRound className="w-6 h-6 text-primary" />
+        <div>
+          <h3 className="font-bold text-lg text-foreground">Decryption Keys</h3>
+          <p className="text-sm text-muted-foreground">
+            Choose how long your decryption signature is remembered
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+        {MODES.map((option) => (
+          <Button
+            key={option.mode}
+            type="button"
+            variant={mode === option.mode ? "default" : "outline"}
+            onClick={() => setMode(option.mode)}
+            className="h-auto flex-col items-start px-4 py-3 rounded-2xl"
+          >
+            <span className="font-semibold">{option.label}</span>
+            <span className="text-xs opacity-80">{option.description}</span>
+          </Button>
+        ))}
+      </div>
+
+      <div className="space-y-2 mb-4">
+        <Label>New signatures are valid for</Label>
+        <div className="flex flex-wrap gap-2">
+          {DURATIONS.map((option) => (
+            <Button
+              key={option.days}
+              type="button"
+              size="sm"
+              variant={durationDays === option.days ? "default" : "outline"}
+              onClick={() => setDurationDays(option.days)}
+              className="rounded-xl"
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {mode !== "memory" && (
+        <div className="space-y-2 mb-4">
+          <Label htmlFor="signature-passphrase">
+            Passphrase {hasPassphrase ? "(active)" : "(optional)"}
+          </Label>
+          <div className="flex gap-2">
+            <Input
+              id="signature-passphrase"
+              type="password"
+              autoComplete="off"
+              placeholder={hasPassphrase ? "Enter a new passphrase or leave empty to clear" : "Encrypt stored keys"}
+              value={passphraseInput}
+              onChange={(e) => setPassphraseInput(e.target.value)}
+            />
+            <Button type="button" variant="outline" onClick={handleApplyPassphrase}>
+              Apply
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {signatures.length > 0 && (
+        <div className="space-y-2 mb-4">
+          <Label>Stored signatures</Label>
+          {signatures.map((sig) => (
+            <div
+              key={sig.signature}
+              className="flex items-center justify-between gap-3 rounded-2xl bg-muted/50 px-4 py-2 text-sm"
+            >
+              <div className="min-w-0">
+                <div className="font-mono truncate">
+                  {sig.contractAddresses.map((a) => `${a.slice(0, 6)}…${a.slice(-4)}`).join(", ")}
+                </div>
+                <div className={sig.isValid() ? "text-muted-foreground" : "text-destructive"}>
+                  {sig.isValid() ? "Expires" : "Expired"} {new Date(sig.expiresAt * 1000).toLocaleString()}
+                </div>
+              </div>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => handleRevoke(sig)}
+                disabled={!instance}
+              >
+                Revoke
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Button
+        type="button"
+        variant="outline"
+        onClick={handleForget}
+        disabled={isForgetting}
+        className="w-full rounded-2xl border-destructive/30 hover:border-destructive hover:bg-destructive/10"
+      >
+        {isForgetting ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : (
+          <Trash2 className="w-4 h-4" />
+        )}
+        <span className="font-semibold">Forget my keys</span>
+      </Button>
+    </div>
+  );
+}
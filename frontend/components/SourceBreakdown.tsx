@@ -0,0 +1,78 @@
+"use client";
+
+import { Layers, Loader2, Unlock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { SourceTotals } from "@/hooks/useEnergyVault";
+
+interface SourceBreakdownProps {
+  data: SourceTotals[] | null;
+  onDecrypt: () => Promise<SourceTotals[] | null>;
+  isLoading?: boolean;
+  unit?: string;
+}
+
+// Share of each source in the generation and consumption totals, decrypted from EnergyVault
+export function SourceBreakdown({ data, onDecrypt, isLoading = false, unit = "kWh" }: SourceBreakdownProps) {
+  const totalGeneration = (data ?? []).reduce((sum, d) => sum + d.generation, 0);
+  const totalConsumption = (data ?? []).reduce((sum, d) => sum + d.consumption, 0);
+
+  const rows = (data ?? [])
+    .flatMap((d) => [
+      { source: d.source, type: "generation" as const, value: d.generation, total: totalGeneration },
+      { source: d.source, type: "consumption" as const, value: d.consumption, total: totalConsumption },
+    ])
+    .filter((row) => row.value > 0)
+    .sort((a, b) => (a.type === b.type ? b.value - a.value : a.type === "generation" ? -1 : 1));
+
+  return (
+    <div className="card-enhanced p-8 rounded-3xl">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-3">
+          <Layers className="w-6 h-6 text-primary" />
+          <div>
+            <h3 className="text-2xl font-bold text-foreground">Breakdown by Source</h3>
+            <p className="text-sm text-muted-foreground">Each source&apos;s contribution to your totals</p>
+          </div>
+        </div>
+        <Button variant="outline" onClick={() => onDecrypt()} disabled={isLoading} className="rounded-xl">
+          {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Unlock className="w-4 h-4" />}
+          {data ? "Refresh" : "Decrypt sources"}
+        </Button>
+      </div>
+
+      {data === null ? (
+        <div className="py-8 text-center text-muted-foreground">
+          Per-source totals are encrypted on-chain. Decrypt them to see where your energy comes from.
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="py-8 text-center text-muted-foreground">No records yet.</div>
+      ) : (
+        <div className="space-y-4">
+          {rows.map((row) => {
+            const share = row.total > 0 ? (row.value / row.total) * 100 : 0;
+            return (
+              <div key={`${row.type}:${row.source}`}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="font-semibold text-foreground">
+                    {row.type === "generation" ? "⚡" : "🏠"} {row.source}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {row.value.toFixed(1)} {unit} · {share.toFixed(1)}%
+                  </span>
+                </div>
+                <div className="h-2 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className={`h-full rounded-full transition-all duration-500 ${
+                      row.type === "generation" ? "bg-gradient-energy" : "bg-secondary/60"
+                    }`}
+                    style={{ width: `${share}%` }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
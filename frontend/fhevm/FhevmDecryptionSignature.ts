@@ -10,6 +10,18 @@ function _timestampNow(): number {
   return Math.floor(Date.now() / 1000);
 }
 
+export const DEFAULT_SIGNATURE_DURATION_DAYS = 365;
+// Re-sign when less than this many seconds of validity remain, so a decryption
+// never starts with a signature that expires while the relayer handles it.
+export const DEFAULT_SIGNATURE_RENEW_BEFORE_SECONDS = 60 * 60;
+
+export type FhevmDecryptionSignatureOptions = {
+  // Lifetime of a newly signed authorization, in whole days (>= 1)
+  durationDays?: number;
+  // Renew a cached signature once its remaining validity drops below this
+  renewBeforeSeconds?: number;
+};
+
 class FhevmDecryptionSignatureStorageKey {
   #contractAddresses: `0x${string}`[];
   #userAddress: `0x${string}`;
@@ -123,6 +135,11 @@ export class FhevmDecryptionSignature {
     return this.#userAddress;
   }
 
+  // Unix timestamp in seconds after which the signature is no longer accepted
+  public get expiresAt() {
+    return this.#startTimestamp + this.#durationDays * 24 * 60 * 60;
+  }
+
   static checkIs(s: unknown): s is FhevmDecryptionSignatureType {
     if (!s || typeof s !== "object") {
       return false;
@@ -209,10 +226,11 @@ export class FhevmDecryptionSignature {
     return s.signature === this.#signature;
   }
 
-  isValid(): boolean {
-    return (
-      _timestampNow() < this.#startTimestamp + this.#durationDays * 24 * 60 * 60
-    );
+  /**
+   * @param marginSeconds the signature must remain valid for at least this long
+   */
+  isValid(marginSeconds: number = 0): boolean {
+    return _timestampNow() + marginSeconds < this.expiresAt;
   }
 
   async saveToGenericStringStorage(
@@ -280,17 +298,100 @@ export class FhevmDecryptionSignature {
     }
   }
 
+  /**
+   * Lists every signature stored for `userAddress`, including expired ones.
+   * Entries that cannot be read (corrupted, or encrypted with another
+   * passphrase) are skipped.
+   */
+  static async list(
+    storage: GenericStringStorage,
+    userAddress: string
+  ): Promise<FhevmDecryptionSignature[]> {
+    if (!ethers.isAddress(userAddress)) {
+      throw new TypeError(`Invalid address ${userAddress}`);
+    }
+
+    const prefix = `${userAddress.toLowerCase()}:`;
+    const keys = (await storage.keys()).filter((key) =>
+      key.toLowerCase().startsWith(prefix)
+    );
+
+    const signatures: FhevmDecryptionSignature[] = [];
+    for (const key of keys) {
+      const value = await storage.getItem(key);
+      if (!value) {
+        continue;
+      }
+      try {
+        signatures.push(FhevmDecryptionSignature.fromJSON(value));
+      } catch {
+        console.warn(`Skipping unreadable signature! key=${key}`);
+      }
+    }
+    return signatures;
+  }
+
+  /**
+   * Removes the stored signature (and its private key) for the given
+   * contracts so the next `loadOrSign` asks for a new one. The EIP-712
+   * authorization itself cannot be withdrawn from the relayer: it stays usable
+   * until it expires by anyone holding the private key, which is why short
+   * durations matter.
+   */
+  static async revoke(
+    storage: GenericStringStorage,
+    instance: FhevmInstance,
+    contractAddresses: string[],
+    userAddress: string,
+    publicKey?: string
+  ): Promise<void> {
+    const storageKey = new FhevmDecryptionSignatureStorageKey(
+      instance,
+      [...contractAddresses],
+      userAddress,
+      publicKey
+    );
+    await storage.removeItem(storageKey.key);
+  }
+
+  /**
+   * Removes every signature stored for `userAddress`.
+   * @returns the number of removed entries
+   */
+  static async revokeAll(
+    storage: GenericStringStorage,
+    userAddress: string
+  ): Promise<number> {
+    if (!ethers.isAddress(userAddress)) {
+      throw new TypeError(`Invalid address ${userAddress}`);
+    }
+
+    const prefix = `${userAddress.toLowerCase()}:`;
+    const keys = (await storage.keys()).filter((key) =>
+      key.toLowerCase().startsWith(prefix)
+    );
+    for (const key of keys) {
+      await storage.removeItem(key);
+    }
+    return keys.length;
+  }
+
   static async new(
     instance: FhevmInstance,
     contractAddresses: string[],
     publicKey: string,
     privateKey: string,
-    signer: ethers.Signer
+    signer: ethers.Signer,
+    durationDays: number = DEFAULT_SIGNATURE_DURATION_DAYS
   ): Promise<FhevmDecryptionSignature | null> {
+    if (!Number.isInteger(durationDays) || durationDays < 1) {
+      throw new RangeError(
+        `durationDays must be a positive integer, got ${durationDays}`
+      );
+    }
     try {
       const userAddress = (await signer.getAddress()) as `0x${string}`;
       const startTimestamp = _timestampNow();
-      const durationDays = 365;
       const eip712 = instance.createEIP712(
         publicKey,
         contractAddresses,
@@ -322,8 +423,16 @@ export class FhevmDecryptionSignature {
     contractAddresses: string[],
     signer: ethers.Signer,
     storage: GenericStringStorage,
-    keyPair?: { publicKey: string; privateKey: string }
+    keyPair?: { publicKey: string; privateKey: string },
+    options?: FhevmDecryptionSignatureOptions
   ): Promise<FhevmDecryptionSignature | null> {
+    const durationDays =
+      options?.durationDays ?? DEFAULT_SIGNATURE_DURATION_DAYS;
+    const renewBeforeSeconds = Math.min(
+      options?.renewBeforeSeconds ?? DEFAULT_SIGNATURE_RENEW_BEFORE_SECONDS,
+      // Never renew a fresh signature right away
+      (durationDays * 24 * 60 * 60) / 2
+    );
     const userAddress = (await signer.getAddress()) as `0x${string}`;
 
     const cached: FhevmDecryptionSignature | null =
@@ -336,7 +445,17 @@ export class FhevmDecryptionSignature {
       );
 
     if (cached) {
-      return cached;
+      // Reuse only while the cached signature is not about to expire and
+      // does not outlive the lifetime currently requested
+      if (
+        cached.isValid(renewBeforeSeconds) &&
+        cached.durationDays <= durationDays
+      ) {
+        return cached;
+      }
+      console.log(
+        `renewing signature, expiresAt=${cached.expiresAt} durationDays=${cached.durationDays}`
+      );
     }
 
     const { publicKey, privateKey } = keyPair ?? instance.generateKeypair();
@@ -346,7 +465,8 @@ export class FhevmDecryptionSignature {
       contractAddresses,
       publicKey,
       privateKey,
-      signer
+      signer,
+      durationDays
     );
 
     if (!sig) {
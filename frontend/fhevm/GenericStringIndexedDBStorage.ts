@@ -0,0 +1,75 @@
+import { openDB, DBSchema, IDBPDatabase } from "idb";
+import { GenericStringStorage } from "./GenericStringStorage";
+
+interface GenericStringDB extends DBSchema {
+  stringStore: {
+    key: string;
+    value: string;
+  };
+}
+
+const __dbPromises = new Map<string, Promise<IDBPDatabase<GenericStringDB>>>();
+
+async function _getDB(dbName: string): Promise<IDBPDatabase<GenericStringDB> | undefined> {
+  const existing = __dbPromises.get(dbName);
+  if (existing) {
+    return existing;
+  }
+  if (typeof window === "undefined") {
+    return undefined;
+  }
+  const dbPromise = openDB<GenericStringDB>(dbName, 1, {
+    upgrade(db) {
+      if (!db.objectStoreNames.contains("stringStore")) {
+        db.createObjectStore("stringStore");
+      }
+    },
+  });
+  __dbPromises.set(dbName, dbPromise);
+  return dbPromise;
+}
+
+/**
+ * Persists entries in IndexedDB so they survive page reloads and browser
+ * restarts. Values are stored as-is; wrap the storage with
+ * `GenericStringPassphraseStorage` to keep them encrypted at rest.
+ */
+export class GenericStringIndexedDBStorage implements GenericStringStorage {
+  #dbName: string;
+
+  constructor(dbName: string = "fhevm-decryption-signatures") {
+    this.#dbName = dbName;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const db = await _getDB(this.#dbName);
+    if (!db) {
+      return null;
+    }
+    return (await db.get("stringStore", key)) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const db = await _getDB(this.#dbName);
+    if (!db) {
+      return;
+    }
+    await db.put("stringStore", value, key);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    const db = await _getDB(this.#dbName);
+    if (!db) {
+      return;
+    }
+    await db.delete("stringStore", key);
+  }
+
+  async keys(): Promise<string[]> {
+    const db = await _getDB(this.#dbName);
+    if (!db) {
+      return [];
+    }
+    return db.getAllKeys("stringStore");
+  }
+}
@@ -0,0 +1,109 @@
+import { GenericStringStorage } from "./GenericStringStorage";
+
+const ENCRYPTED_PREFIX = "enc:v1:";
+const PBKDF2_ITERATIONS = 210_000;
+
+function _toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) {
+    binary += String.fromCharCode(b);
+  }
+  return btoa(binary);
+}
+
+function _fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+/**
+ * Encrypts every value with AES-GCM before handing it to the wrapped storage.
+ * The key is derived from a user passphrase with PBKDF2, so the decryption
+ * private key held in a stored signature is never written in clear text.
+ *
+ * Values that cannot be decrypted (wrong passphrase, or written without one)
+ * read back as `null`, which makes `FhevmDecryptionSignature.loadOrSign` ask
+ * for a fresh signature instead of failing.
+ */
+export class GenericStringPassphraseStorage implements GenericStringStorage {
+  #inner: GenericStringStorage;
+  #passphrase: string;
+  #salt: Uint8Array<ArrayBuffer>;
+  #keys = new Map<string, Promise<CryptoKey>>();
+
+  constructor(inner: GenericStringStorage, passphrase: string) {
+    if (passphrase.length === 0) {
+      throw new TypeError("Passphrase must not be empty");
+    }
+    this.#inner = inner;
+    this.#passphrase = passphrase;
+    this.#salt = crypto.getRandomValues(new Uint8Array(16));
+  }
+
+  #deriveKey(salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+    const cacheKey = _toBase64(salt);
+    let key = this.#keys.get(cacheKey);
+    if (!key) {
+      key = crypto.subtle
+        .importKey("raw", new TextEncoder().encode(this.#passphrase), "PBKDF2", false, ["deriveKey"])
+        .then((baseKey) =>
+          crypto.subtle.deriveKey(
+            {
+              name: "PBKDF2",
+              salt,
+              iterations: PBKDF2_ITERATIONS,
+              hash: "SHA-256",
+            },
+            baseKey,
+            { name: "AES-GCM", length: 256 },
+            false,
+            ["encrypt", "decrypt"],
+          ),
+        );
+      this.#keys.set(cacheKey, key);
+    }
+    return key;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const stored = await this.#inner.getItem(key);
+    if (!stored || !stored.startsWith(ENCRYPTED_PREFIX)) {
+      return null;
+    }
+
+    const [salt, iv, ciphertext] = stored.slice(ENCRYPTED_PREFIX.length).split(":");
+    if (!salt || !iv || !ciphertext) {
+      return null;
+    }
+
+    try {
+      const cryptoKey = await this.#deriveKey(_fromBase64(salt));
+      const plaintext = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: _fromBase64(iv) },
+        cryptoKey,
+        _fromBase64(ciphertext),
+      );
+      return new TextDecoder().decode(plaintext);
+    } catch {
+      console.warn(`Could not decrypt stored value! key=${key}`);
+      return null;
+    }
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const cryptoKey = await this.#deriveKey(this.#salt);
+    const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, cryptoKey, new TextEncoder().encode(value));
+    await this.#inner.setItem(
+      key,
+      `${ENCRYPTED_PREFIX}${_toBase64(this.#salt)}:${_toBase64(iv)}:${_toBase64(new Uint8Array(ciphertext))}`,
+    );
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.#inner.removeItem(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return this.#inner.keys();
+  }
+}
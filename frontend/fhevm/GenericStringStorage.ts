@@ -2,6 +2,7 @@ export interface GenericStringStorage {
   getItem(key: string): string | Promise<string | null> | null;
   setItem(key: string, value: string): void | Promise<void>;
   removeItem(key: string): void | Promise<void>;
+  keys(): string[] | Promise<string[]>;
 }
 
 export class GenericStringInMemoryStorage implements GenericStringStorage {
@@ -16,4 +17,48 @@ export class GenericStringInMemoryStorage implements GenericStringStorage {
   removeItem(key: string): void | Promise<void> {
     this.#store.delete(key);
   }
+  keys(): string[] | Promise<string[]> {
+    return Array.from(this.#store.keys());
+  }
+}
+
+/**
+ * Backed by `window.sessionStorage`: entries survive page reloads but are
+ * dropped when the browser tab is closed. Keys are namespaced with `prefix`
+ * so unrelated session entries are never listed or removed.
+ */
+export class GenericStringSessionStorage implements GenericStringStorage {
+  #prefix: string;
+
+  constructor(prefix: string = "fhevm.sig:") {
+    this.#prefix = prefix;
+  }
+
+  #session(): Storage | undefined {
+    return typeof window === "undefined" ? undefined : window.sessionStorage;
+  }
+
+  getItem(key: string): string | Promise<string | null> | null {
+    return this.#session()?.getItem(this.#prefix + key) ?? null;
+  }
+  setItem(key: string, value: string): void | Promise<void> {
+    this.#session()?.setItem(this.#prefix + key, value);
+  }
+  removeItem(key: string): void | Promise<void> {
+    this.#session()?.removeItem(this.#prefix + key);
+  }
+  keys(): string[] | Promise<string[]> {
+    const session = this.#session();
+    if (!session) {
+      return [];
+    }
+    const keys: string[] = [];
+    for (let i = 0; i < session.length; i++) {
+      const key = session.key(i);
+      if (key !== null && key.startsWith(this.#prefix)) {
+        keys.push(key.slice(this.#prefix.length));
+      }
+    }
+    return keys;
+  }
 }
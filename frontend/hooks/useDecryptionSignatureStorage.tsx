@@ -0,0 +1,143 @@
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import {
+  GenericStringInMemoryStorage,
+  GenericStringSessionStorage,
+  GenericStringStorage,
+} from "@/fhevm/GenericStringStorage";
+import { GenericStringIndexedDBStorage } from "@/fhevm/GenericStringIndexedDBStorage";
+import { GenericStringPassphraseStorage } from "@/fhevm/GenericStringPassphraseStorage";
+import { DEFAULT_SIGNATURE_DURATION_DAYS } from "@/fhevm/FhevmDecryptionSignature";
+
+/**
+ * Where decryption signatures (and their private keys) are kept:
+ *  - "memory": lost on page reload, a new signature is requested every visit.
+ *  - "session": kept until the browser tab is closed.
+ *  - "persistent": kept in IndexedDB across browser restarts.
+ */
+export type SignatureStorageMode = "memory" | "session" | "persistent";
+
+const MODE_STORAGE_KEY = "fhevm.signatureStorageMode";
+const DURATION_STORAGE_KEY = "fhevm.signatureDurationDays";
+
+function isSignatureStorageMode(value: unknown): value is SignatureStorageMode {
+  return value === "memory" || value === "session" || value === "persistent";
+}
+
+interface UseDecryptionSignatureStorageState {
+  storage: GenericStringStorage;
+  mode: SignatureStorageMode;
+  setMode: (mode: SignatureStorageMode) => void;
+  durationDays: number;
+  setDurationDays: (durationDays: number) => void;
+  hasPassphrase: boolean;
+  setPassphrase: (passphrase: string | null) => void;
+  forgetKeys: () => Promise<void>;
+}
+
+interface DecryptionSignatureStorageProviderProps {
+  children: ReactNode;
+  defaultMode?: SignatureStorageMode;
+  defaultDurationDays?: number;
+}
+
+const DecryptionSignatureStorageContext = createContext<
+  UseDecryptionSignatureStorageState | undefined
+>(undefined);
+
+export const useDecryptionSignatureStorage = () => {
+  const context = useContext(DecryptionSignatureStorageContext);
+  if (!context) {
+    throw new Error(
+      "useDecryptionSignatureStorage must be used within a DecryptionSignatureStorageProvider"
+    );
+  }
+  return context;
+};
+
+export const DecryptionSignatureStorageProvider: React.FC<
+  DecryptionSignatureStorageProviderProps
+> = ({
+  children,
+  defaultMode = "session",
+  defaultDurationDays = DEFAULT_SIGNATURE_DURATION_DAYS,
+}) => {
+  const [backends] = useState(() => ({
+    memory: new GenericStringInMemoryStorage(),
+    session: new GenericStringSessionStorage(),
+    persistent: new GenericStringIndexedDBStorage(),
+  }));
+  const [mode, setModeState] = useState<SignatureStorageMode>(defaultMode);
+  const [durationDays, setDurationDaysState] =
+    useState<number>(defaultDurationDays);
+  // The passphrase is deliberately kept in memory only
+  const [passphrase, setPassphraseState] = useState<string | null>(null);
+
+  useEffect(() => {
+    const saved = window.localStorage.getItem(MODE_STORAGE_KEY);
+    if (isSignatureStorageMode(saved)) {
+      setModeState(saved);
+    }
+    const savedDays = Number(window.localStorage.getItem(DURATION_STORAGE_KEY));
+    if (Number.isInteger(savedDays) && savedDays >= 1) {
+      setDurationDaysState(savedDays);
+    }
+  }, []);
+
+  const setMode = useCallback((newMode: SignatureStorageMode) => {
+    setModeState(newMode);
+    window.localStorage.setItem(MODE_STORAGE_KEY, newMode);
+  }, []);
+
+  const setDurationDays = useCallback((newDurationDays: number) => {
+    setDurationDaysState(newDurationDays);
+    window.localStorage.setItem(DURATION_STORAGE_KEY, String(newDurationDays));
+  }, []);
+
+  const setPassphrase = useCallback((newPassphrase: string | null) => {
+    setPassphraseState(newPassphrase ? newPassphrase : null);
+  }, []);
+
+  const storage = useMemo<GenericStringStorage>(() => {
+    const backend = backends[mode];
+    if (mode === "memory" || !passphrase) {
+      return backend;
+    }
+    return new GenericStringPassphraseStorage(backend, passphrase);
+  }, [backends, mode, passphrase]);
+
+  const forgetKeys = useCallback(async () => {
+    // Wipe every backend, not only the active one, so switching modes
+    // never leaves an older signature behind
+    for (const backend of Object.values(backends)) {
+      const keys = await backend.keys();
+      for (const key of keys) {
+        await backend.removeItem(key);
+      }
+    }
+  }, [backends]);
+
+  return (
+    <DecryptionSignatureStorageContext.Provider
+      value={{
+        storage,
+        mode,
+        setMode,
+        durationDays,
+        setDurationDays,
+        hasPassphrase: passphrase !== null,
+        setPassphrase,
+        forgetKeys,
+      }}
+    >
+      {children}
+    </DecryptionSignatureStorageContext.Provider>
+  );
+};
@@ -0,0 +1,361 @@
+"use client";
+
+import { ethers } from "ethers";
+import { RefObject, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+
+import { FhevmInstance } from "@/fhevm/fhevmTypes";
+import { FhevmDecryptionSignature } from "@/fhevm/FhevmDecryptionSignature";
+import { GenericStringStorage } from "@/fhevm/GenericStringStorage";
+import { EnergyValueFormat, decodeEnergyValue, encodeEnergyValue } from "@/lib/energyUnits";
+
+import { EnergyCreditABI } from "@/abi/EnergyCreditABI";
+import { EnergyCreditAddresses } from "@/abi/EnergyCreditAddresses";
+
+type EnergyCreditInfo = {
+  abi: typeof EnergyCreditABI.abi;
+  address?: `0x${string}`;
+  chainId?: number;
+  chainName?: string;
+};
+
+function getEnergyCreditByChainId(chainId: number | undefined): EnergyCreditInfo {
+  if (!chainId) {
+    return { abi: EnergyCreditABI.abi };
+  }
+
+  const entry = EnergyCreditAddresses[chainId.toString() as keyof typeof EnergyCreditAddresses];
+
+  if (!entry || !("address" in entry) || entry.address === ethers.ZeroAddress) {
+    return { abi: EnergyCreditABI.abi, chainId };
+  }
+
+  return {
+    address: entry.address as `0x${string}`,
+    chainId: entry.chainId ?? chainId,
+    chainName: entry.chainName,
+    abi: EnergyCreditABI.abi,
+  };
+}
+
+export const useEnergyCredit = (parameters: {
+  instance: FhevmInstance | undefined;
+  fhevmDecryptionSignatureStorage: GenericStringStorage;
+  fhevmDecryptionSignatureDurationDays?: number;
+  chainId: number | undefined;
+  ethersSigner: ethers.JsonRpcSigner | undefined;
+  ethersReadonlyProvider: ethers.ContractRunner | undefined;
+  sameChain: RefObject<(chainId: number | undefined) => boolean>;
+  sameSigner: RefObject<(ethersSigner: ethers.JsonRpcSigner | undefined) => boolean>;
+  valueFormat: EnergyValueFormat;
+}) => {
+  const {
+    instance,
+    fhevmDecryptionSignatureStorage,
+    fhevmDecryptionSignatureDurationDays,
+    chainId,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+    valueFormat,
+  } = parameters;
+
+  const [balance, setBalance] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const energyCreditRef = useRef<EnergyCreditInfo | undefined>(undefined);
+  const isLoadingRef = useRef<boolean>(isLoading);
+  const isDecryptingRef = useRef<boolean>(isDecrypting);
+
+  const energyCredit = useMemo(() => {
+    const c = getEnergyCreditByChainId(chainId);
+    energyCreditRef.current = c;
+    return c;
+  }, [chainId]);
+
+  const isDeployed = useMemo(() => {
+    return Boolean(energyCredit.address) && energyCredit.address !== ethers.ZeroAddress;
+  }, [energyCredit]);
+
+  // A decrypted balance belongs to one signer on one chain
+  useEffect(() => {
+    setBalance(null);
+  }, [energyCredit.address, ethersSigner]);
+
+  // Decrypt handles of the token with the cached or a new signature
+  const decryptHandles = useCallback(
+    async (handles: string[], isStale: () => boolean): Promise<Record<string, bigint> | null> => {
+      if (!energyCredit.address || !instance || !ethersSigner) {
+        return null;
+      }
+
+      // Uninitialized handles (never held credits, never approved) are bytes32(0) and cannot be sent to the relayer
+      const toDecrypt = [...new Set(handles.filter((h) => h !== ethers.ZeroHash))];
+      const clearValues: Record<string, bigint> = { [ethers.ZeroHash]: BigInt(0) };
+      if (toDecrypt.length === 0) {
+        return clearValues;
+      }
+
+      const sig: FhevmDecryptionSignature | null = await FhevmDecryptionSignature.loadOrSign(
+        instance,
+        [energyCredit.address],
+        ethersSigner,
+        fhevmDecryptionSignatureStorage,
+        undefined,
+        { durationDays: fhevmDecryptionSignatureDurationDays }
+      );
+
+      if (!sig) {
+        setMessage("Unable to build FHEVM decryption signature");
+        toast.error("Unable to build decryption signature");
+        return null;
+      }
+
+      if (isStale()) {
+        return null;
+      }
+
+      const res = await instance.userDecrypt(
+        toDecrypt.map((handle) => ({ handle, contractAddress: energyCredit.address! })),
+        sig.privateKey,
+        sig.publicKey,
+        sig.signature,
+        sig.contractAddresses,
+        sig.userAddress,
+        sig.startTimestamp,
+        sig.durationDays
+      );
+
+      for (const handle of toDecrypt) {
+        clearValues[handle] = res[handle] as bigint;
+      }
+      return clearValues;
+    },
+    [
+      energyCredit.address,
+      instance,
+      ethersSigner,
+      fhevmDecryptionSignatureStorage,
+      fhevmDecryptionSignatureDurationDays,
+    ]
+  );
+
+  const decryptBalance = useCallback(async (): Promise<number | null> => {
+    if (isDecryptingRef.current) return null;
+    if (!energyCredit.address || !instance || !ethersSigner || !ethersReadonlyProvider) {
+      toast.error("Wallet not connected or credit token not deployed");
+      return null;
+    }
+
+    const thisChainId = chainId;
+    const thisAddress = energyCredit.address;
+    const thisSigner = ethersSigner;
+    const contract = new ethers.Contract(thisAddress, energyCredit.abi, ethersReadonlyProvider);
+
+    const isStale = () =>
+      thisAddress !== energyCreditRef.current?.address ||
+      !sameChain.current(thisChainId) ||
+      !sameSigner.current(thisSigner);
+
+    isDecryptingRef.current = true;
+    setIsDecrypting(true);
+    setMessage("Decrypting credit balance...");
+
+    try {
+      const handle: string = await contract.confidentialBalanceOf(thisSigner.address);
+      const clearValues = await decryptHandles([handle], isStale);
+
+      if (!clearValues || isStale()) {
+        setMessage("Ignore decryptBalance - stale");
+        return null;
+      }
+
+      const clearBalance = decodeEnergyValue(clearValues[handle], valueFormat);
+      setBalance(clearBalance);
+      setMessage("Credit balance decrypted");
+      return clearBalance;
+    } catch (e: unknown) {
+      console.error("[useEnergyCredit] Decrypt balance error:", e);
+      const errorMessage = e instanceof Error ? e.message : String(e ?? "Unknown error");
+      if (errorMessage.includes("user rejected")) {
+        setMessage("Decryption cancelled by user");
+        toast.error("Decryption was cancelled");
+      } else {
+        setMessage("Decrypt balance failed: " + errorMessage);
+        toast.error("Failed to decrypt credit balance: " + errorMessage);
+      }
+      return null;
+    } finally {
+      isDecryptingRef.current = false;
+      setIsDecrypting(false);
+    }
+  }, [
+    energyCredit.address,
+    energyCredit.abi,
+    instance,
+    ethersSigner,
+    ethersReadonlyProvider,
+    chainId,
+    sameChain,
+    sameSigner,
+    decryptHandles,
+    valueFormat,
+  ]);
+
+  // Decrypt the allowance between the signer and another address, in either direction
+  const decryptAllowance = useCallback(
+    async (owner: string, spender: string): Promise<number | null> => {
+      if (!energyCredit.address || !ethersSigner || !ethersReadonlyProvider) {
+        return null;
+      }
+
+      const thisChainId = chainId;
+      const thisAddress = energyCredit.address;
+      const thisSigner = ethersSigner;
+      const contract = new ethers.Contract(thisAddress, energyCredit.abi, ethersReadonlyProvider);
+
+      const isStale = () =>
+        thisAddress !== energyCreditRef.current?.address ||
+        !sameChain.current(thisChainId) ||
+        !sameSigner.current(thisSigner);
+
+      try {
+        const handle: string = await contract.allowance(owner, spender);
+        const clearValues = await decryptHandles([handle], isStale);
+        if (!clearValues || isStale()) {
+          return null;
+        }
+        return decodeEnergyValue(clearValues[handle], valueFormat);
+      } catch (e: unknown) {
+        console.error("[useEnergyCredit] Decrypt allowance error:", e);
+        toast.error("Failed to decrypt allowance: " + (e instanceof Error ? e.message : String(e)));
+        return null;
+      }
+    },
+    [
+      energyCredit.address,
+      energyCredit.abi,
+      ethersSigner,
+      ethersReadonlyProvider,
+      chainId,
+      sameChain,
+      sameSigner,
+      decryptHandles,
+      valueFormat,
+    ]
+  );
+
+  // Encrypt an amount and send a transfer or an approval to another address
+  const updateCredits = useCallback(
+    async (action: "transfer" | "approve", to: string, amount: number): Promise<boolean> => {
+      if (isLoadingRef.current) return false;
+      if (!energyCredit.address || !instance || !ethersSigner) {
+        toast.error("Wallet not connected or credit token not deployed");
+        return false;
+      }
+      if (!ethers.isAddress(to)) {
+        toast.error("Invalid address");
+        return false;
+      }
+      if (to.toLowerCase() === ethersSigner.address.toLowerCase()) {
+        toast.error(action === "transfer" ? "You cannot send credits to yourself" : "You cannot approve yourself");
+        return false;
+      }
+      let encodedAmount: bigint;
+      try {
+        encodedAmount = encodeEnergyValue(amount, valueFormat);
+      } catch (e) {
+        toast.error((e as Error).message);
+        return false;
+      }
+
+      const thisChainId = chainId;
+      const thisAddress = energyCredit.address;
+      const thisSigner = ethersSigner;
+      const contract = new ethers.Contract(thisAddress, energyCredit.abi, thisSigner);
+      const label = action === "transfer" ? "Transfer" : "Approve";
+
+      const isStale = () =>
+        thisAddress !== energyCreditRef.current?.address ||
+        !sameChain.current(thisChainId) ||
+        !sameSigner.current(thisSigner);
+
+      isLoadingRef.current = true;
+      setIsLoading(true);
+      setMessage(`${label}...`);
+
+      try {
+        const input = instance.createEncryptedInput(thisAddress, thisSigner.address);
+        input.add64(encodedAmount);
+        const enc = await input.encrypt();
+
+        if (isStale()) {
+          setMessage(`Ignore ${action} - stale`);
+          return false;
+        }
+
+        const tx: ethers.TransactionResponse =
+          action === "transfer"
+            ? await contract.confidentialTransfer(to, enc.handles[0], enc.inputProof)
+            : await contract.approve(to, enc.handles[0], enc.inputProof);
+        toast.info("Transaction submitted, waiting for confirmation...");
+        await tx.wait();
+
+        if (isStale()) {
+          setMessage(`Ignore ${action} - stale`);
+          return false;
+        }
+
+        // A too low balance moves zero without reverting, so the decrypted balance tells what happened
+        const successMessage =
+          action === "transfer" ? "Transfer sent, decrypt your balance to confirm it" : "Allowance updated";
+        if (action === "transfer") {
+          setBalance(null);
+        }
+        setMessage(successMessage);
+        toast.success(successMessage);
+        return true;
+      } catch (e: unknown) {
+        console.error(`[useEnergyCredit] ${label} error:`, e);
+        const errorMessage = e instanceof Error ? e.message : String(e ?? "Unknown error");
+        if (errorMessage.includes("user rejected")) {
+          toast.error("Transaction was cancelled");
+        } else {
+          toast.error(`${label} failed: ` + errorMessage);
+        }
+        setMessage(`${label} failed: ` + errorMessage);
+        return false;
+      } finally {
+        isLoadingRef.current = false;
+        setIsLoading(false);
+      }
+    },
+    [energyCredit.address, energyCredit.abi, instance, ethersSigner, chainId, sameChain, sameSigner, valueFormat]
+  );
+
+  const transferCredits = useCallback(
+    (to: string, amount: number) => updateCredits("transfer", to, amount),
+    [updateCredits]
+  );
+
+  const approveCredits = useCallback(
+    (spender: string, amount: number) => updateCredits("approve", spender, amount),
+    [updateCredits]
+  );
+
+  return {
+    contractAddress: energyCredit.address,
+    isDeployed,
+    isLoading,
+    isDecrypting,
+    message,
+    balance,
+    decryptBalance,
+    decryptAllowance,
+    transferCredits,
+    approveCredits,
+  };
+};
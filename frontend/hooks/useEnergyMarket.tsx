@@ -0,0 +1,560 @@
+"use client";
+
+import { ethers } from "ethers";
+import { RefObject, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+
+import { DecryptedResults, FhevmInstance } from "@/fhevm/fhevmTypes";
+import { FhevmDecryptionSignature } from "@/fhevm/FhevmDecryptionSignature";
+import { GenericStringStorage } from "@/fhevm/GenericStringStorage";
+import { EnergyValueFormat, decodeEnergyValue, encodeEnergyValue } from "@/lib/energyUnits";
+
+import { EnergyMarketABI } from "@/abi/EnergyMarketABI";
+import { EnergyMarketAddresses } from "@/abi/EnergyMarketAddresses";
+import { EnergyCreditABI } from "@/abi/EnergyCreditABI";
+import { PaymentTokenABI } from "@/abi/PaymentTokenABI";
+
+export type BidStatus = "open" | "accepted" | "cancelled";
+
+// Values of the EnergyMarket.BidStatus enum
+const BID_STATUSES: BidStatus[] = ["open", "accepted", "cancelled"];
+
+export interface MarketOffer {
+  id: string;
+  seller: string;
+  price: bigint; // Public asking price, in payment token base units per unit of energy
+  createdAt: Date;
+  isOpen: boolean;
+  bidIds: string[];
+  remaining: number | null; // Decrypted amount left, only for the signer's own offers
+}
+
+export interface MarketBid {
+  id: string;
+  offerId: string;
+  buyer: string;
+  createdAt: Date;
+  status: BidStatus;
+  amount: number | null; // Requested amount, decrypted by the buyer and by the seller of the offer
+  filled: number | null; // Filled amount once accepted, only decrypted by the buyer
+  payment: bigint | null; // Escrowed payment while open, price paid once accepted, only decrypted by the buyer
+}
+
+// The relayer decrypts at most 2048 bits per userDecrypt request, i.e. 32 euint64 handles
+const DECRYPT_CHUNK_SIZE = 32;
+
+// Payment escrowed for an encoded amount of credits, rounded up like EnergyMarket does
+const priceOf = (encodedAmount: bigint, price: bigint, valueFormat: EnergyValueFormat) => {
+  const scale = BigInt(10) ** BigInt(valueFormat.decimals);
+  return (encodedAmount * price + scale - BigInt(1)) / scale;
+};
+
+// Token the market escrows before an offer or a bid, and the allowance it needs for an encoded amount
+type MarketApproval = (encodedAmount: bigint) => { token: "creditToken" | "paymentToken"; allowance: bigint };
+
+type EnergyMarketInfo = {
+  abi: typeof EnergyMarketABI.abi;
+  address?: `0x${string}`;
+  chainId?: number;
+  chainName?: string;
+};
+
+function getEnergyMarketByChainId(chainId: number | undefined): EnergyMarketInfo {
+  if (!chainId) {
+    return { abi: EnergyMarketABI.abi };
+  }
+
+  const entry = EnergyMarketAddresses[chainId.toString() as keyof typeof EnergyMarketAddresses];
+
+  if (!entry || !("address" in entry) || entry.address === ethers.ZeroAddress) {
+    return { abi: EnergyMarketABI.abi, chainId };
+  }
+
+  return {
+    address: entry.address as `0x${string}`,
+    chainId: entry.chainId ?? chainId,
+    chainName: entry.chainName,
+    abi: EnergyMarketABI.abi,
+  };
+}
+
+export const useEnergyMarket = (parameters: {
+  instance: FhevmInstance | undefined;
+  fhevmDecryptionSignatureStorage: GenericStringStorage;
+  fhevmDecryptionSignatureDurationDays?: number;
+  chainId: number | undefined;
+  ethersSigner: ethers.JsonRpcSigner | undefined;
+  ethersReadonlyProvider: ethers.ContractRunner | undefined;
+  sameChain: RefObject<(chainId: number | undefined) => boolean>;
+  sameSigner: RefObject<(ethersSigner: ethers.JsonRpcSigner | undefined) => boolean>;
+  valueFormat: EnergyValueFormat;
+}) => {
+  const {
+    instance,
+    fhevmDecryptionSignatureStorage,
+    fhevmDecryptionSignatureDurationDays,
+    chainId,
+    ethersSigner,
+    ethersReadonlyProvider,
+    sameChain,
+    sameSigner,
+    valueFormat,
+  } = parameters;
+
+  const [offers, setOffers] = useState<MarketOffer[]>([]);
+  const [bids, setBids] = useState<MarketBid[]>([]);
+  const [paymentBalance, setPaymentBalance] = useState<bigint | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const energyMarketRef = useRef<EnergyMarketInfo | undefined>(undefined);
+  const isLoadingRef = useRef<boolean>(isLoading);
+  const isDecryptingRef = useRef<boolean>(isDecrypting);
+
+  const energyMarket = useMemo(() => {
+    const c = getEnergyMarketByChainId(chainId);
+    energyMarketRef.current = c;
+    return c;
+  }, [chainId]);
+
+  const isDeployed = useMemo(() => {
+    return Boolean(energyMarket.address) && energyMarket.address !== ethers.ZeroAddress;
+  }, [energyMarket]);
+
+  // Load the open offers, the signer's own offers and every bid the signer is part of
+  const loadOrderBook = useCallback(async () => {
+    if (!energyMarket.address || !ethersReadonlyProvider || !ethersSigner) {
+      return;
+    }
+
+    const thisChainId = chainId;
+    const thisAddress = energyMarket.address;
+    const thisSigner = ethersSigner;
+    const contract = new ethers.Contract(thisAddress, energyMarket.abi, ethersReadonlyProvider);
+
+    const isStale = () =>
+      thisAddress !== energyMarketRef.current?.address ||
+      !sameChain.current(thisChainId) ||
+      !sameSigner.current(thisSigner);
+
+    try {
+      const [openIds, myOfferIds, myBidIds]: bigint[][] = await Promise.all([
+        contract.getOpenOfferIds(),
+        contract.getUserOfferIds(thisSigner.address),
+        contract.getUserBidIds(thisSigner.address),
+      ]);
+      const offerIds = [...new Set([...openIds, ...myOfferIds].map((id) => id.toString()))];
+
+      const loadedOffers = await Promise.all(
+        offerIds.map(async (id): Promise<MarketOffer> => {
+          const [[offerId, seller, price, createdAt, isOpen], bidIds] = await Promise.all([
+            contract.getOffer(BigInt(id)),
+            contract.getOfferBidIds(BigInt(id)),
+          ]);
+          return {
+            id: offerId.toString(),
+            seller,
+            price,
+            createdAt: new Date(Number(createdAt) * 1000),
+            isOpen,
+            bidIds: (bidIds as bigint[]).map((bidId) => bidId.toString()),
+            remaining: null,
+          };
+        })
+      );
+
+      // Bids placed by the signer, and bids received on the signer's offers
+      const ownOffers = loadedOffers.filter((o) => o.seller.toLowerCase() === thisSigner.address.toLowerCase());
+      const bidIds = [
+        ...new Set([...myBidIds.map((id) => id.toString()), ...ownOffers.flatMap((o) => o.bidIds)]),
+      ];
+      const loadedBids = await Promise.all(
+        bidIds.map(async (id): Promise<MarketBid> => {
+          const [bidId, offerId, buyer, createdAt, status] = await contract.getBid(BigInt(id));
+          return {
+            id: bidId.toString(),
+            offerId: offerId.toString(),
+            buyer,
+            createdAt: new Date(Number(createdAt) * 1000),
+            status: BID_STATUSES[Number(status)],
+            amount: null,
+            filled: null,
+            payment: null,
+          };
+        })
+      );
+
+      if (isStale()) {
+        return;
+      }
+
+      // Keep the amounts that were already decrypted
+      setOffers((prev) => {
+        const byId = new Map(prev.map((o) => [o.id, o]));
+        return loadedOffers
+          .map((o) => ({ ...o, remaining: byId.get(o.id)?.remaining ?? null }))
+          .sort((a, b) => Number(b.id) - Number(a.id));
+      });
+      setBids((prev) => {
+        const byId = new Map(prev.map((b) => [b.id, b]));
+        return loadedBids
+          .map((b) => ({
+            ...b,
+            amount: byId.get(b.id)?.amount ?? null,
+            filled: b.status === "accepted" ? (byId.get(b.id)?.filled ?? null) : null,
+            payment: b.status === byId.get(b.id)?.status ? (byId.get(b.id)?.payment ?? null) : null,
+          }))
+          .sort((a, b) => Number(b.id) - Number(a.id));
+      });
+    } catch (e: unknown) {
+      console.error("[useEnergyMarket] Load order book error:", e);
+      setMessage("loadOrderBook failed: " + String(e ?? ""));
+    }
+  }, [energyMarket.address, energyMarket.abi, ethersReadonlyProvider, ethersSigner, chainId, sameChain, sameSigner]);
+
+  useEffect(() => {
+    setOffers([]);
+    setBids([]);
+    setPaymentBalance(null);
+    loadOrderBook();
+  }, [loadOrderBook]);
+
+  // Send a market transaction, optionally with one encrypted amount the market escrows after approving it,
+  // then reload the order book
+  const submit = useCallback(
+    async (
+      label: string,
+      send: (contract: ethers.Contract, encrypted?: { handle: Uint8Array; inputProof: Uint8Array }) => Promise<ethers.TransactionResponse>,
+      successMessage: string,
+      amount?: number,
+      approval?: MarketApproval
+    ): Promise<boolean> => {
+      if (isLoadingRef.current) return false;
+      if (!energyMarket.address || !ethersSigner || (amount !== undefined && !instance)) {
+        toast.error("Wallet not connected or market not deployed");
+        return false;
+      }
+      let encodedAmount = BigInt(0);
+      if (amount !== undefined) {
+        try {
+          encodedAmount = encodeEnergyValue(amount, valueFormat);
+        } catch (e) {
+          toast.error((e as Error).message);
+          return false;
+        }
+      }
+
+      const thisChainId = chainId;
+      const thisAddress = energyMarket.address;
+      const thisSigner = ethersSigner;
+      const contract = new ethers.Contract(thisAddress, energyMarket.abi, thisSigner);
+
+      const isStale = () =>
+        thisAddress !== energyMarketRef.current?.address ||
+        !sameChain.current(thisChainId) ||
+        !sameSigner.current(thisSigner);
+
+      isLoadingRef.current = true;
+      setIsLoading(true);
+      setMessage(`${label}...`);
+
+      try {
+        if (approval) {
+          const { token, allowance } = approval(encodedAmount);
+          const tokenAddress: string = await contract[token]();
+          const tokenAbi = token === "creditToken" ? EnergyCreditABI.abi : PaymentTokenABI.abi;
+          const tokenContract = new ethers.Contract(tokenAddress, tokenAbi, thisSigner);
+          const input = instance!.createEncryptedInput(tokenAddress, thisSigner.address);
+          input.add64(allowance);
+          const enc = await input.encrypt();
+
+          toast.info(`Approve the market on the ${token === "creditToken" ? "offered credits" : "bid payment"}`);
+          const approveTx: ethers.TransactionResponse = await tokenContract.approve(
+            thisAddress,
+            enc.handles[0],
+            enc.inputProof
+          );
+          await approveTx.wait();
+
+          if (isStale()) {
+            setMessage(`Ignore ${label} - stale`);
+            return false;
+          }
+        }
+
+        let encrypted: { handle: Uint8Array; inputProof: Uint8Array } | undefined;
+        if (amount !== undefined) {
+          const input = instance!.createEncryptedInput(thisAddress, thisSigner.address);
+          input.add64(encodedAmount);
+          const enc = await input.encrypt();
+          encrypted = { handle: enc.handles[0], inputProof: enc.inputProof };
+
+          if (isStale()) {
+            setMessage(`Ignore ${label} - stale`);
+            return false;
+          }
+        }
+
+        const tx = await send(contract, encrypted);
+        toast.info("Transaction submitted, waiting for confirmation...");
+        await tx.wait();
+
+        if (isStale()) {
+          setMessage(`Ignore ${label} - stale`);
+          return false;
+        }
+
+        // Balances changed on-chain, the decrypted one is outdated
+        setPaymentBalance(null);
+        setMessage(successMessage);
+        toast.success(successMessage);
+        await loadOrderBook();
+        return true;
+      } catch (e: unknown) {
+        console.error(`[useEnergyMarket] ${label} error:`, e);
+        const errorMessage = e instanceof Error ? e.message : String(e ?? "Unknown error");
+        if (errorMessage.includes("user rejected")) {
+          toast.error("Transaction was cancelled");
+        } else if (errorMessage.includes("InvalidPrice")) {
+          toast.error("The price must be a positive integer below 2^64");
+        } else if (errorMessage.includes("CannotBidOnOwnOffer")) {
+          toast.error("You cannot bid on your own offer");
+        } else if (errorMessage.includes("OfferIsClosed") || errorMessage.includes("BidIsClosed")) {
+          toast.error("This order is no longer open");
+        } else {
+          toast.error(`${label} failed: ` + errorMessage);
+        }
+        setMessage(`${label} failed: ` + errorMessage);
+        return false;
+      } finally {
+        isLoadingRef.current = false;
+        setIsLoading(false);
+      }
+    },
+    [
+      energyMarket.address,
+      energyMarket.abi,
+      ethersSigner,
+      instance,
+      chainId,
+      sameChain,
+      sameSigner,
+      valueFormat,
+      loadOrderBook,
+    ]
+  );
+
+  // The offered credits are escrowed from the signer's EnergyCredit balance
+  const createOffer = useCallback(
+    (amount: number, price: bigint) =>
+      submit(
+        "Create offer",
+        (contract, encrypted) => contract.createOffer(encrypted!.handle, encrypted!.inputProof, price),
+        "Offer listed",
+        amount,
+        (encodedAmount) => ({ token: "creditToken", allowance: encodedAmount })
+      ),
+    [submit]
+  );
+
+  // The price of the amount at the offer price is escrowed from the signer's payment tokens
+  const placeBid = useCallback(
+    (offerId: string, amount: number) => {
+      const offer = offers.find((o) => o.id === offerId);
+      if (!offer) {
+        toast.error("Unknown offer");
+        return Promise.resolve(false);
+      }
+      return submit(
+        "Place bid",
+        (contract, encrypted) => contract.placeBid(BigInt(offerId), encrypted!.handle, encrypted!.inputProof),
+        `Bid placed on offer #${offerId}`,
+        amount,
+        (encodedAmount) => ({ token: "paymentToken", allowance: priceOf(encodedAmount, offer.price, valueFormat) })
+      );
+    },
+    [submit, offers, valueFormat]
+  );
+
+  const acceptBid = useCallback(
+    (bidId: string) => submit("Accept bid", (contract) => contract.acceptBid(BigInt(bidId)), `Bid #${bidId} settled`),
+    [submit]
+  );
+
+  const cancelOffer = useCallback(
+    (offerId: string) =>
+      submit("Cancel offer", (contract) => contract.cancelOffer(BigInt(offerId)), `Offer #${offerId} cancelled`),
+    [submit]
+  );
+
+  const cancelBid = useCallback(
+    (bidId: string) => submit("Cancel bid", (contract) => contract.cancelBid(BigInt(bidId)), `Bid #${bidId} cancelled`),
+    [submit]
+  );
+
+  // Decrypt the payment balance, the amounts left on the signer's offers and the amounts of their bids with one
+  // signature
+  const decryptMarket = useCallback(async (): Promise<boolean> => {
+    if (isDecryptingRef.current) return false;
+    if (!energyMarket.address || !instance || !ethersSigner) {
+      toast.error("Wallet not connected or market not deployed");
+      return false;
+    }
+
+    const thisChainId = chainId;
+    const thisAddress = energyMarket.address;
+    const thisSigner = ethersSigner;
+    // The getters check the caller, so reads must go through the signer
+    const contract = new ethers.Contract(thisAddress, energyMarket.abi, thisSigner);
+
+    const isStale = () =>
+      thisAddress !== energyMarketRef.current?.address ||
+      !sameChain.current(thisChainId) ||
+      !sameSigner.current(thisSigner);
+
+    isDecryptingRef.current = true;
+    setIsDecrypting(true);
+    setMessage("Decrypting market amounts...");
+
+    try {
+      const paymentAddress: string = await contract.paymentToken();
+      const paymentToken = new ethers.Contract(paymentAddress, PaymentTokenABI.abi, thisSigner);
+      const ownOffers = offers.filter((o) => o.seller.toLowerCase() === thisSigner.address.toLowerCase());
+      const [balanceHandle, remainingHandles, bidHandles]: [string, string[], [string, string, string][]] =
+        await Promise.all([
+          paymentToken.confidentialBalanceOf(thisSigner.address),
+          Promise.all(ownOffers.map((o) => contract.getOfferRemaining(BigInt(o.id)))),
+          Promise.all(bids.map((b) => contract.getBidAmounts(BigInt(b.id)))),
+        ]);
+
+      if (isStale()) {
+        setMessage("Ignore decryptMarket - stale");
+        return false;
+      }
+
+      // The seller of an offer can only decrypt the requested amount of the bids it received
+      const readableBidHandles = bidHandles.map((amounts, i) =>
+        bids[i].buyer.toLowerCase() === thisSigner.address.toLowerCase() ? amounts : amounts.slice(0, 1)
+      );
+      // Uninitialized handles (no payment token yet, unsettled bids) are bytes32(0) and cannot be sent to the relayer
+      const handles: { handle: string; contractAddress: string }[] = [
+        ...new Set([...remainingHandles, ...readableBidHandles.flat()].filter((h) => h !== ethers.ZeroHash)),
+      ].map((handle) => ({ handle, contractAddress: thisAddress }));
+      if (balanceHandle !== ethers.ZeroHash) {
+        handles.push({ handle: balanceHandle, contractAddress: paymentAddress });
+      }
+
+      const res: DecryptedResults = {};
+      if (handles.length > 0) {
+        const sig: FhevmDecryptionSignature | null = await FhevmDecryptionSignature.loadOrSign(
+          instance,
+          [thisAddress, paymentAddress],
+          thisSigner,
+          fhevmDecryptionSignatureStorage,
+          undefined,
+          { durationDays: fhevmDecryptionSignatureDurationDays }
+        );
+
+        if (!sig) {
+          setMessage("Unable to build FHEVM decryption signature");
+          toast.error("Unable to build decryption signature");
+          return false;
+        }
+
+        for (let i = 0; i < handles.length; i += DECRYPT_CHUNK_SIZE) {
+          if (isStale()) {
+            setMessage("Ignore decryptMarket - stale");
+            return false;
+          }
+
+          const chunk = await instance.userDecrypt(
+            handles.slice(i, i + DECRYPT_CHUNK_SIZE),
+            sig.privateKey,
+            sig.publicKey,
+            sig.signature,
+            sig.contractAddresses,
+            sig.userAddress,
+            sig.startTimestamp,
+            sig.durationDays
+          );
+          Object.assign(res, chunk);
+        }
+
+        if (isStale()) {
+          setMessage("Ignore decryptMarket - stale");
+          return false;
+        }
+      }
+
+      const clearValue = (handle: string) =>
+        handle === ethers.ZeroHash ? 0 : decodeEnergyValue(res[handle] as bigint, valueFormat);
+
+      setPaymentBalance(balanceHandle === ethers.ZeroHash ? BigInt(0) : (res[balanceHandle] as bigint));
+      const remainingById = new Map(ownOffers.map((o, i) => [o.id, clearValue(remainingHandles[i])]));
+      setOffers((prev) => prev.map((o) => (remainingById.has(o.id) ? { ...o, remaining: remainingById.get(o.id)! } : o)));
+      const amountsById = new Map(bids.map((b, i) => [b.id, readableBidHandles[i]]));
+      setBids((prev) =>
+        prev.map((b) => {
+          const amounts = amountsById.get(b.id);
+          if (!amounts) return b;
+          const [amount, filled, payment] = amounts;
+          return {
+            ...b,
+            amount: clearValue(amount),
+            filled: filled === undefined || filled === ethers.ZeroHash ? null : clearValue(filled),
+            payment: payment === undefined ? null : (res[payment] as bigint),
+          };
+        })
+      );
+
+      setMessage("Market amounts decrypted");
+      return true;
+    } catch (e: unknown) {
+      console.error("[useEnergyMarket] Decrypt market error:", e);
+      const errorMessage = e instanceof Error ? e.message : String(e ?? "Unknown error");
+      if (errorMessage.includes("user rejected")) {
+        setMessage("Decryption cancelled by user");
+        toast.error("Decryption was cancelled");
+      } else {
+        setMessage("Decrypt market failed: " + errorMessage);
+        toast.error("Failed to decrypt market amounts: " + errorMessage);
+      }
+      return false;
+    } finally {
+      isDecryptingRef.current = false;
+      setIsDecrypting(false);
+    }
+  }, [
+    fhevmDecryptionSignatureStorage,
+    fhevmDecryptionSignatureDurationDays,
+    energyMarket.address,
+    energyMarket.abi,
+    instance,
+    ethersSigner,
+    chainId,
+    sameChain,
+    sameSigner,
+    offers,
+    bids,
+    valueFormat,
+  ]);
+
+  return {
+    contractAddress: energyMarket.address,
+    isDeployed,
+    isLoading,
+    isDecrypting,
+    message,
+    offers,
+    bids,
+    paymentBalance,
+    loadOrderBook,
+    createOffer,
+    placeBid,
+    acceptBid,
+    cancelOffer,
+    cancelBid,
+    decryptMarket,
+  };
+};
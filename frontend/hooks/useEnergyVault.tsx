@@ -1,12 +1,34 @@
 "use client";
 
 import { ethers } from "ethers";
-import { RefObject, useCallback, useMemo, useRef, useState } from "react";
+import { RefObject, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { toast } from "sonner";
 
-import { FhevmInstance } from "@/fhevm/fhevmTypes";
+import { DecryptedResults, FhevmInstance } from "@/fhevm/fhevmTypes";
 import { FhevmDecryptionSignature } from "@/fhevm/FhevmDecryptionSignature";
 import { GenericStringStorage } from "@/fhevm/GenericStringStorage";
+import { EnergyPeriod, PERIOD_IDS, getPeriodIndex } from "@/lib/energyPeriods";
+import {
+  DEFAULT_VALUE_FORMAT,
+  EnergyUnit,
+  EnergyValueFormat,
+  decodeEnergyTotal,
+  decodeEnergyValue,
+  encodeEnergyValue,
+  formatEnergy,
+  toEnergyValueFormat,
+} from "@/lib/energyUnits";
+import { EventSubscriptionManager } from "@/lib/eventSubscription";
+import {
+  PendingRecordDraft,
+  PendingTransaction,
+  PendingTransactionStatus,
+  PENDING_TRANSACTIONS_STORAGE_KEY,
+  PendingTransactionStore,
+  checkTransaction,
+  isFinalStatus,
+  isPendingFor,
+} from "@/lib/pendingTransactions";
 
 import { EnergyVaultABI } from "@/abi/EnergyVaultABI";
 import { EnergyVaultAddresses } from "@/abi/EnergyVaultAddresses";
@@ -16,10 +38,170 @@ export interface EnergyRecord {
   type: "generation" | "consumption";
   source: string;
   value: number;
+  timestamp: Date; // Submission time
+  measuredFrom: Date; // Measurement interval, used for display and period totals
+  measuredTo: Date;
+  isEncrypted: boolean;
+  owner?: string;
+  isVoided?: boolean;
+  device?: string; // Meter device that submitted the record on behalf of its owner
+  pendingStatus?: PendingTransactionStatus; // Set until the creating transaction is confirmed
+  transactionHash?: string;
+}
+
+// A submitted record creation; `mined` resolves with the record IDs, or null if the transaction failed
+export interface RecordSubmission {
+  hash: string;
+  mined: Promise<string[] | null>;
+}
+
+// One entry of a record's audit trail, read from RecordCreated/RecordCorrected/RecordVoided events
+export interface RecordHistoryEntry {
+  action: "created" | "corrected" | "voided";
   timestamp: Date;
+  txHash: string;
+}
+
+// Narrows the signer's record list; the date range applies to the end of the measurement
+export interface RecordFilter {
+  type?: "generation" | "consumption";
+  from?: Date;
+  to?: Date;
+}
+
+export interface EnergyRecordInput {
+  type: "generation" | "consumption";
+  source: string;
+  value: number;
+  unit?: EnergyUnit; // Defaults to the unit of the deployment
+  measuredFrom?: Date; // Defaults to measuredTo
+  measuredTo?: Date; // Defaults to the latest block
+}
+
+export interface DecryptProgress {
+  total: number;
+  decrypted: number;
+  pendingIds: string[];
+  failed: Record<string, string>; // recordId -> error message
+}
+
+export interface EnergyBalance {
+  totalGeneration: number;
+  totalConsumption: number;
+  netBalance: number; // Signed: positive for a surplus, negative for a deficit
+  isSurplus: boolean;
+  isClamped: boolean; // A total reached the euint64 maximum, so the values are lower bounds
+  consumptionLimit: number | null; // Monthly consumption budget, null until one is set
+  isOverLimit: boolean; // This month's consumption is above the budget
+}
+
+export interface PeriodTotals {
+  period: EnergyPeriod;
+  index: number;
+  generation: number;
+  consumption: number;
+}
+
+export interface SourceTotals {
+  source: string;
+  generation: number;
+  consumption: number;
+}
+
+// A producer who authorized the signer as auditor on their totals
+export interface AuditedProducer {
+  address: string;
+  totalGeneration: number;
+  totalConsumption: number;
   isEncrypted: boolean;
 }
 
+// Opt-in community pool whose summed generation is publicly decrypted by the oracle
+export interface CommunityPool {
+  memberCount: number;
+  minMembers: number;
+  isMember: boolean;
+  isPending: boolean; // A decryption request awaits the oracle
+  publishedTotal: number | null; // null until the first publication
+  publishedMemberCount: number;
+  publishedAt: Date | null;
+}
+
+// A single encrypted input carries at most 2048 bits, i.e. 32 euint64 values
+const MAX_BATCH_SIZE = 32;
+
+// The relayer decrypts at most 2048 bits per userDecrypt request, i.e. 32 euint64 handles
+const DECRYPT_CHUNK_SIZE = 32;
+
+// Number of records scanned per page when rehydrating from chain, at most MAX_PAGE_SIZE of the contract
+const RECORDS_PAGE_SIZE = 50;
+
+// Blocks on top of a record creation before its pending entry is cleared; the local node only mines on demand
+const confirmationsFor = (chainId: number) => (chainId === 31337 ? 1 : 3);
+
+// How often pending record creations are checked against the chain
+const PENDING_POLL_INTERVAL_MS = 4000;
+
+// Each period has a generation and a consumption handle, decrypted in at most two requests
+export const MAX_PERIOD_RANGE = DECRYPT_CHUNK_SIZE;
+
+function toEnergyRecord(
+  id: bigint,
+  recordType: bigint | number,
+  source: string,
+  timestamp: bigint | number,
+  measuredFrom: bigint | number,
+  measuredTo: bigint | number,
+  owner?: string,
+  isVoided?: boolean,
+  device?: string
+): EnergyRecord {
+  return {
+    id: id.toString(),
+    type: Number(recordType) === 0 ? "generation" : "consumption",
+    source,
+    value: 0, // Will be decrypted later if needed
+    timestamp: new Date(Number(timestamp) * 1000),
+    measuredFrom: new Date(Number(measuredFrom) * 1000),
+    measuredTo: new Date(Number(measuredTo) * 1000),
+    isEncrypted: true,
+    owner,
+    isVoided,
+    device: device && device !== ethers.ZeroAddress ? device : undefined,
+  };
+}
+
+// Unix seconds of a measurement interval; without an end the measurement is a point in time at the latest block
+async function toMeasurement(
+  provider: ethers.Provider,
+  measuredFrom?: Date,
+  measuredTo?: Date
+): Promise<[number, number]> {
+  const toSeconds = (date: Date) => Math.floor(date.getTime() / 1000);
+  const latest = (await provider.getBlock("latest"))?.timestamp ?? toSeconds(new Date());
+  const to = measuredTo ? toSeconds(measuredTo) : latest;
+  const from = measuredFrom ? toSeconds(measuredFrom) : to;
+  if (!Number.isFinite(from) || !Number.isFinite(to) || from < 0) {
+    throw new Error("Invalid measurement date");
+  }
+  if (from > to) {
+    throw new Error("The measurement cannot start after it ends");
+  }
+  // The record is mined in a later block, never before the wall clock time
+  if (to > Math.max(latest, toSeconds(new Date()))) {
+    throw new Error("The measurement cannot end in the future");
+  }
+  return [from, to];
+}
+
+function matchesRecordFilter(record: EnergyRecord, filter: RecordFilter): boolean {
+  return (
+    (!filter.type || record.type === filter.type) &&
+    (!filter.from || record.measuredTo >= filter.from) &&
+    (!filter.to || record.measuredTo <= filter.to)
+  );
+}
+
 type EnergyVaultInfo = {
   abi: typeof EnergyVaultABI.abi;
   address?: `0x${string}`;
@@ -47,9 +229,24 @@ function getEnergyVaultByChainId(chainId: number | undefined): EnergyVaultInfo {
   };
 }
 
+// Builds, at the start of an async call, the check that the vault, chain or signer changed since: the call then
+// drops its result instead of writing it into the state of another deployment or wallet
+function useIsStale(
+  energyVaultRef: RefObject<EnergyVaultInfo | undefined>,
+  sameChain: RefObject<(chainId: number | undefined) => boolean>,
+  sameSigner: RefObject<(ethersSigner: ethers.JsonRpcSigner | undefined) => boolean>
+) {
+  return useCallback(
+    (address: string | undefined, chainId: number | undefined, signer: ethers.JsonRpcSigner | undefined) => () =>
+      address !== energyVaultRef.current?.address || !sameChain.current(chainId) || !sameSigner.current(signer),
+    [energyVaultRef, sameChain, sameSigner]
+  );
+}
+
 export const useEnergyVault = (parameters: {
   instance: FhevmInstance | undefined;
   fhevmDecryptionSignatureStorage: GenericStringStorage;
+  fhevmDecryptionSignatureDurationDays?: number;
   eip1193Provider: ethers.Eip1193Provider | undefined;
   chainId: number | undefined;
   ethersSigner: ethers.JsonRpcSigner | undefined;
@@ -60,6 +257,7 @@ export const useEnergyVault = (parameters: {
   const {
     instance,
     fhevmDecryptionSignatureStorage,
+    fhevmDecryptionSignatureDurationDays,
     chainId,
     ethersSigner,
     ethersReadonlyProvider,
@@ -69,17 +267,45 @@ export const useEnergyVault = (parameters: {
 
   const [isLoading, setIsLoading] = useState(false);
   const [records, setRecords] = useState<EnergyRecord[]>([]);
+  const [sharedRecords, setSharedRecords] = useState<EnergyRecord[]>([]);
+  const [isLoadingSharedRecords, setIsLoadingSharedRecords] = useState(false);
+  const [recordCount, setRecordCount] = useState(0);
+  const [recordFilter, setRecordFilter] = useState<RecordFilter>({});
+  const [hasMoreRecords, setHasMoreRecords] = useState(false);
+  const [isLoadingRecords, setIsLoadingRecords] = useState(false);
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [decryptingId, setDecryptingId] = useState<string | null>(null);
-  const [totalGeneration, setTotalGeneration] = useState(0);
-  const [totalConsumption, setTotalConsumption] = useState(0);
+  const [decryptProgress, setDecryptProgress] = useState<DecryptProgress | null>(null);
+  const [balance, setBalance] = useState<EnergyBalance | undefined>(undefined);
+  const [periodTotals, setPeriodTotals] = useState<PeriodTotals[] | null>(null);
+  const [sourceTotals, setSourceTotals] = useState<SourceTotals[] | null>(null);
+  const [auditors, setAuditors] = useState<string[]>([]);
+  const [auditedProducers, setAuditedProducers] = useState<AuditedProducer[]>([]);
+  const [devices, setDevices] = useState<string[]>([]);
+  const [communityPool, setCommunityPool] = useState<CommunityPool | null>(null);
+  const [valueFormat, setValueFormat] = useState<EnergyValueFormat>(DEFAULT_VALUE_FORMAT);
   const [message, setMessage] = useState("");
   const [isListening, setIsListening] = useState(false);
+  // Record creations awaiting confirmation, kept in localStorage across reloads
+  const [pendingStore] = useState(
+    () => new PendingTransactionStore(typeof window === "undefined" ? undefined : window.localStorage)
+  );
+  const [pendingTransactions, setPendingTransactions] = useState<PendingTransaction[]>([]);
 
   const energyVaultRef = useRef<EnergyVaultInfo | undefined>(undefined);
+  const isStaleFor = useIsStale(energyVaultRef, sameChain, sameSigner);
   const isLoadingRef = useRef<boolean>(isLoading);
   const isDecryptingRef = useRef<boolean>(isDecrypting);
-  const contractRef = useRef<ethers.Contract | null>(null);
+  // Last block whose events were delivered, per chain, contract and account
+  const lastEventBlocksRef = useRef<Map<string, number>>(new Map());
+  // Resolvers of the `mined` promises returned by createRecord, by pending transaction ID
+  const minedResolversRef = useRef<Map<string, (recordIds: string[] | null) => void>>(new Map());
+  // Record IDs of the signer seen so far, and the position in their list where the next (older) page ends
+  const knownRecordIdsRef = useRef<Set<string>>(new Set());
+  const nextPageEndRef = useRef<number>(0);
+  const recordFilterRef = useRef<RecordFilter>(recordFilter);
+  recordFilterRef.current = recordFilter;
+  const isLoadingRecordsRef = useRef<boolean>(isLoadingRecords);
 
   const energyVault = useMemo(() => {
     const c = getEnergyVaultByChainId(chainId);
@@ -95,333 +321,2213 @@ export const useEnergyVault = (parameters: {
     return Boolean(energyVault.address) && energyVault.address !== ethers.ZeroAddress;
   }, [energyVault]);
 
-  const canCreateRecord = useMemo(() => {
-    return (
-      !!energyVault.address &&
-      !!instance &&
-      !!ethersSigner &&
-      !isLoading
-    );
-  }, [energyVault.address, instance, ethersSigner, isLoading]);
+  // Read the unit and precision of the deployment, which every encoded and decoded value depends on
+  useEffect(() => {
+    if (!energyVault.address || !ethersReadonlyProvider) {
+      return;
+    }
+    let cancelled = false;
+    const contract = new ethers.Contract(energyVault.address, energyVault.abi, ethersReadonlyProvider);
+    Promise.all([contract.valueUnit(), contract.valueDecimals()])
+      .then(([unitId, decimals]) => {
+        if (!cancelled) setValueFormat(toEnergyValueFormat(unitId, decimals));
+      })
+      .catch((e: unknown) => {
+        console.error("[useEnergyVault] Read value format error:", e);
+        if (!cancelled) setValueFormat(DEFAULT_VALUE_FORMAT);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [energyVault.address, energyVault.abi, ethersReadonlyProvider]);
 
-  // Create a new energy record - returns record ID on success
-  const createRecord = useCallback(
-    async (type: "generation" | "consumption", source: string, value: number): Promise<string | null> => {
-      if (isLoadingRef.current) return null;
-      if (!energyVault.address || !instance || !ethersSigner) {
-        toast.error("Wallet not connected or contract not deployed");
-        return null;
-      }
-      if (!Number.isFinite(value) || value < 0) {
-        toast.error("Invalid value");
-        return null;
-      }
-      if (value > 0xffffffff) {
-        toast.error("Value must fit in uint32");
-        return null;
+  // Loaded after mount, localStorage does not exist during server rendering. Other tabs sharing the
+  // wallet update the same entries.
+  useEffect(() => {
+    const unsubscribe = pendingStore.subscribe(() => setPendingTransactions(pendingStore.list()));
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === null || event.key === PENDING_TRANSACTIONS_STORAGE_KEY) pendingStore.load();
+    };
+    pendingStore.load();
+    window.addEventListener("storage", onStorage);
+    return () => {
+      unsubscribe();
+      window.removeEventListener("storage", onStorage);
+    };
+  }, [pendingStore]);
+
+  // Merge records into the list (newest first), keeping values that were already decrypted.
+  // Records outside the active filter are left out.
+  const mergeRecords = useCallback((incoming: EnergyRecord[]) => {
+    const matching = incoming.filter((record) => matchesRecordFilter(record, recordFilterRef.current));
+    setRecords((prev) => {
+      const byId = new Map(prev.map((r) => [r.id, r]));
+      for (const record of matching) {
+        const existing = byId.get(record.id);
+        byId.set(
+          record.id,
+          existing && !existing.isEncrypted
+            ? { ...record, value: existing.value, isEncrypted: false }
+            : record
+        );
       }
+      return [...byId.values()].sort((a, b) => Number(BigInt(b.id) - BigInt(a.id)));
+    });
+  }, []);
 
-      const thisChainId = chainId;
-      const thisAddress = energyVault.address;
-      const thisSigner = ethersSigner;
-      const contract = new ethers.Contract(thisAddress, energyVault.abi, thisSigner);
+  // Store decrypted values in both the own and the shared record lists
+  const applyDecryptedValues = useCallback((values: Record<string, number>) => {
+    const apply = (prev: EnergyRecord[]) =>
+      prev.map((r) =>
+        values[r.id] !== undefined ? { ...r, value: values[r.id], isEncrypted: false } : r
+      );
+    setRecords(apply);
+    setSharedRecords(apply);
+  }, []);
 
-      isLoadingRef.current = true;
-      setIsLoading(true);
-      setMessage("Encrypting and submitting record...");
+  // Apply a change to a record in both the own and the shared record lists
+  const patchRecord = useCallback((recordId: string, patch: Partial<EnergyRecord>) => {
+    const apply = (prev: EnergyRecord[]) => prev.map((r) => (r.id === recordId ? { ...r, ...patch } : r));
+    setRecords(apply);
+    setSharedRecords(apply);
+  }, []);
 
-      await new Promise((r) => setTimeout(r, 100));
+  // Keep the record count in sync with records created after the initial load
+  const trackRecordIds = useCallback((ids: string[]) => {
+    const added = ids.filter((id) => !knownRecordIdsRef.current.has(id));
+    if (added.length > 0) {
+      added.forEach((id) => knownRecordIdsRef.current.add(id));
+      setRecordCount((count) => count + added.length);
+    }
+  }, []);
 
-      const isStale = () =>
-        thisAddress !== energyVaultRef.current?.address ||
-        !sameChain.current(thisChainId) ||
-        !sameSigner.current(thisSigner);
+  // Fetch the metadata of record IDs with one getRecordsMetadata call per page
+  const readRecordsMetadata = useCallback(
+    async (contract: ethers.Contract, ids: string[]): Promise<EnergyRecord[]> => {
+      const pages: string[][] = [];
+      for (let i = 0; i < ids.length; i += RECORDS_PAGE_SIZE) {
+        pages.push(ids.slice(i, i + RECORDS_PAGE_SIZE));
+      }
+      const results = await Promise.all(
+        pages.map(async (page) => {
+          const metadata: ethers.Result[] = await contract.getRecordsMetadata(page.map((id) => BigInt(id)));
+          return metadata.map((m) =>
+            toEnergyRecord(
+              m.id,
+              m.recordType,
+              m.source,
+              m.timestamp,
+              m.measuredFrom,
+              m.measuredTo,
+              m.owner,
+              m.isVoided,
+              m.device
+            )
+          );
+        })
+      );
+      return results.flat();
+    },
+    []
+  );
 
-      try {
-        const input = instance.createEncryptedInput(thisAddress, thisSigner.address);
-        input.add32(Math.round(value * 10)); // Store with 1 decimal precision
-        const enc = await input.encrypt();
+  // Read the records matching a filter among positions [end - RECORDS_PAGE_SIZE, end) of the signer's list.
+  // The contract filters by date range or by type; a type combined with a range is applied here.
+  const readRecordsPage = useCallback(
+    async (
+      contract: ethers.Contract,
+      user: string,
+      end: number,
+      filter: RecordFilter
+    ): Promise<{ start: number; records: EnergyRecord[] }> => {
+      const start = Math.max(0, end - RECORDS_PAGE_SIZE);
+      const limit = end - start;
 
-        if (isStale()) {
-          setMessage("Ignore createRecord - stale");
-          return null;
-        }
+      let ids: bigint[];
+      if (filter.from || filter.to) {
+        const from = filter.from ? Math.floor(filter.from.getTime() / 1000) : 0;
+        const to = filter.to ? Math.floor(filter.to.getTime() / 1000) : ethers.MaxUint256;
+        ids = await contract.getUserRecordsInRange(user, from, to, start, limit);
+      } else if (filter.type) {
+        ids = await contract.getUserRecordsByType(user, filter.type === "generation" ? 0 : 1, start, limit);
+      } else {
+        ids = await contract.getUserRecordIdsPaged(user, start, limit);
+      }
 
-        const method = type === "generation" ? "createGenerationRecord" : "createConsumptionRecord";
-        const tx: ethers.TransactionResponse = await contract[method](
-          source,
-          enc.handles[0],
-          enc.inputProof
-        );
-        setMessage(`Waiting tx ${tx.hash}...`);
-        toast.info("Transaction submitted, waiting for confirmation...");
-        const receipt = await tx.wait();
+      const pageIds = ids.map((id) => id.toString());
+      pageIds.forEach((id) => knownRecordIdsRef.current.add(id));
+      const records = await readRecordsMetadata(contract, pageIds);
+      return { start, records: records.filter((record) => matchesRecordFilter(record, filter)) };
+    },
+    [readRecordsMetadata]
+  );
 
+  // Read pages, older and older, until one holds a record matching the filter or the list is exhausted
+  const readNextRecords = useCallback(
+    async (
+      contract: ethers.Contract,
+      user: string,
+      end: number,
+      filter: RecordFilter,
+      isStale: () => boolean
+    ): Promise<{ start: number; records: EnergyRecord[] } | null> => {
+      let page = { start: end, records: [] as EnergyRecord[] };
+      while (page.records.length === 0 && page.start > 0) {
+        page = await readRecordsPage(contract, user, page.start, filter);
         if (isStale()) {
-          setMessage("Ignore createRecord - stale");
           return null;
         }
+      }
+      return page;
+    },
+    [readRecordsPage]
+  );
 
-        // Parse RecordCreated event to get the record ID
-        let recordId: string | null = null;
-        if (receipt && receipt.logs) {
-          console.log("[useEnergyVault] Parsing logs for RecordCreated event, logs count:", receipt.logs.length);
-          for (const log of receipt.logs) {
-            try {
-              const parsed = contract.interface.parseLog({
-                topics: log.topics as string[],
-                data: log.data,
-              });
-              console.log("[useEnergyVault] Parsed log:", parsed?.name, parsed?.args);
-              if (parsed && parsed.name === "RecordCreated") {
-                recordId = parsed.args.id.toString();
-                console.log("[useEnergyVault] Found RecordCreated event, recordId:", recordId);
-                break;
-              }
-            } catch {
-              // Not our event, skip
-            }
-          }
-        }
-        
-        if (!recordId) {
-          console.warn("[useEnergyVault] RecordCreated event not found in logs");
-        }
+  // Load the signer's record history from chain, newest page first
+  const loadRecords = useCallback(async () => {
+    if (!energyVault.address || !ethersReadonlyProvider || !ethersSigner) {
+      return;
+    }
 
-        setMessage("Record created successfully");
-        toast.success(`${type === "generation" ? "Generation" : "Consumption"} record created!`);
+    const thisChainId = chainId;
+    const thisAddress = energyVault.address;
+    const thisSigner = ethersSigner;
+    const contract = new ethers.Contract(thisAddress, energyVault.abi, ethersReadonlyProvider);
 
-        // Update local totals
-        if (type === "generation") {
-          setTotalGeneration((prev) => prev + value);
-        } else {
-          setTotalConsumption((prev) => prev + value);
-        }
+    const isStale = isStaleFor(thisAddress, thisChainId, thisSigner);
+
+    const thisFilter = recordFilter;
+    const isStaleFilter = () => isStale() || thisFilter !== recordFilterRef.current;
+
+    isLoadingRecordsRef.current = true;
+    setIsLoadingRecords(true);
+
+    try {
+      const count = Number(await contract.getUserRecordCount(thisSigner.address));
+      if (isStaleFilter()) {
+        return;
+      }
+
+      knownRecordIdsRef.current = new Set();
+      nextPageEndRef.current = count;
+      setRecordCount(count);
+      setRecords([]);
+      setHasMoreRecords(count > 0);
+
+      const page = await readNextRecords(contract, thisSigner.address, count, thisFilter, isStaleFilter);
+      if (!page) {
+        return;
+      }
+
+      nextPageEndRef.current = page.start;
+      setHasMoreRecords(page.start > 0);
+      mergeRecords(page.records);
+    } catch (e: unknown) {
+      console.error("[useEnergyVault] Load records error:", e);
+      setMessage("loadRecords failed: " + String(e ?? ""));
+    } finally {
+      isLoadingRecordsRef.current = false;
+      setIsLoadingRecords(false);
+    }
+  }, [
+    energyVault.address,
+    energyVault.abi,
+    ethersReadonlyProvider,
+    ethersSigner,
+    chainId,
+    isStaleFor,
+    recordFilter,
+    mergeRecords,
+    readNextRecords,
+  ]);
+
+  // Load the next (older) page of records
+  const loadMoreRecords = useCallback(async () => {
+    if (isLoadingRecordsRef.current || nextPageEndRef.current === 0) return;
+    if (!energyVault.address || !ethersReadonlyProvider || !ethersSigner) return;
+
+    const thisChainId = chainId;
+    const thisAddress = energyVault.address;
+    const thisSigner = ethersSigner;
+    const contract = new ethers.Contract(thisAddress, energyVault.abi, ethersReadonlyProvider);
+
+    const isStale = isStaleFor(thisAddress, thisChainId, thisSigner);
+
+    const thisFilter = recordFilterRef.current;
+    const isStaleFilter = () => isStale() || thisFilter !== recordFilterRef.current;
+
+    isLoadingRecordsRef.current = true;
+    setIsLoadingRecords(true);
+
+    try {
+      const page = await readNextRecords(
+        contract,
+        thisSigner.address,
+        nextPageEndRef.current,
+        thisFilter,
+        isStaleFilter
+      );
+      if (!page) {
+        return;
+      }
+
+      nextPageEndRef.current = page.start;
+      setHasMoreRecords(page.start > 0);
+      mergeRecords(page.records);
+    } catch (e: unknown) {
+      console.error("[useEnergyVault] Load more records error:", e);
+      setMessage("loadMoreRecords failed: " + String(e ?? ""));
+    } finally {
+      isLoadingRecordsRef.current = false;
+      setIsLoadingRecords(false);
+    }
+  }, [
+    energyVault.address,
+    energyVault.abi,
+    ethersReadonlyProvider,
+    ethersSigner,
+    chainId,
+    isStaleFor,
+    mergeRecords,
+    readNextRecords,
+  ]);
+
+  // Load the records other owners shared with the signer
+  const loadSharedRecords = useCallback(async () => {
+    if (!energyVault.address || !ethersReadonlyProvider || !ethersSigner) {
+      return;
+    }
+
+    const thisChainId = chainId;
+    const thisAddress = energyVault.address;
+    const thisSigner = ethersSigner;
+    const contract = new ethers.Contract(thisAddress, energyVault.abi, ethersReadonlyProvider);
+
+    const isStale = isStaleFor(thisAddress, thisChainId, thisSigner);
+
+    setIsLoadingSharedRecords(true);
+
+    try {
+      const ids: bigint[] = await contract.getRecordsSharedWith(thisSigner.address);
+      if (isStale()) {
+        return;
+      }
+
+      const shared = await readRecordsMetadata(
+        contract,
+        ids.map((id) => id.toString())
+      );
+      if (isStale()) {
+        return;
+      }
+
+      setSharedRecords((prev) => {
+        const decryptedById = new Map(prev.filter((r) => !r.isEncrypted).map((r) => [r.id, r.value]));
+        return shared
+          .map((r) =>
+            decryptedById.has(r.id) ? { ...r, value: decryptedById.get(r.id)!, isEncrypted: false } : r
+          )
+          .sort((a, b) => Number(BigInt(b.id) - BigInt(a.id)));
+      });
+    } catch (e: unknown) {
+      console.error("[useEnergyVault] Load shared records error:", e);
+      setMessage("loadSharedRecords failed: " + String(e ?? ""));
+    } finally {
+      setIsLoadingSharedRecords(false);
+    }
+  }, [
+    energyVault.address,
+    energyVault.abi,
+    ethersReadonlyProvider,
+    ethersSigner,
+    chainId,
+    isStaleFor,
+    readRecordsMetadata,
+  ]);
+
+  // Auto rehydrate when the contract, the signer or the record filter changes
+  useEffect(() => {
+    loadRecords();
+  }, [loadRecords]);
 
-        return recordId;
+  useEffect(() => {
+    loadSharedRecords();
+  }, [loadSharedRecords]);
+
+  // Read the addresses a record is shared with
+  const getRecordGrantees = useCallback(
+    async (recordId: string): Promise<string[]> => {
+      if (!energyVault.address || !ethersReadonlyProvider) {
+        return [];
+      }
+      const contract = new ethers.Contract(energyVault.address, energyVault.abi, ethersReadonlyProvider);
+      try {
+        const grantees: string[] = await contract.getRecordGrantees(BigInt(recordId));
+        return [...grantees];
       } catch (e: unknown) {
-        const s = String(e ?? "");
-        if (s.includes("Failed to fetch") || s.includes("code\": -32603")) {
-          setMessage("createRecord failed: Wallet RPC unreachable.");
-          toast.error("Wallet RPC unreachable. Please check your network.");
+        console.error("[useEnergyVault] Get grantees error:", e);
+        return [];
+      }
+    },
+    [energyVault.address, energyVault.abi, ethersReadonlyProvider]
+  );
+
+  // Grant or revoke another address's decryption rights on one of the signer's records
+  const updateRecordAccess = useCallback(
+    async (action: "grant" | "revoke", recordId: string, grantee: string): Promise<boolean> => {
+      if (isLoadingRef.current) return false;
+      if (!energyVault.address || !ethersSigner) {
+        toast.error("Wallet not connected or contract not deployed");
+        return false;
+      }
+      if (!ethers.isAddress(grantee)) {
+        toast.error("Invalid address");
+        return false;
+      }
+
+      const contract = new ethers.Contract(energyVault.address, energyVault.abi, ethersSigner);
+
+      isLoadingRef.current = true;
+      setIsLoading(true);
+      setMessage(action === "grant" ? "Sharing record..." : "Revoking access...");
+
+      try {
+        const tx: ethers.TransactionResponse =
+          action === "grant"
+            ? await contract.grantAccess(BigInt(recordId), grantee)
+            : await contract.revokeAccess(BigInt(recordId), grantee);
+        toast.info("Transaction submitted, waiting for confirmation...");
+        await tx.wait();
+
+        setMessage(action === "grant" ? "Record shared" : "Access revoked");
+        toast.success(
+          action === "grant"
+            ? `Record #${recordId} shared with ${grantee.slice(0, 6)}...${grantee.slice(-4)}`
+            : `Access to record #${recordId} revoked`
+        );
+        return true;
+      } catch (e: unknown) {
+        console.error("[useEnergyVault] Update record access error:", e);
+        const errorMessage = e instanceof Error ? e.message : String(e ?? "Unknown error");
+        if (errorMessage.includes("user rejected")) {
+          toast.error("Transaction was cancelled");
+        } else if (errorMessage.includes("AccessAlreadyGranted")) {
+          toast.error("This address already has access");
+        } else if (errorMessage.includes("InvalidGrantee")) {
+          toast.error("You cannot share a record with yourself");
         } else {
-          setMessage("createRecord failed: " + s);
-          toast.error("Failed to create record: " + s);
+          toast.error("Failed to update access: " + errorMessage);
         }
-        return null;
+        setMessage("Update record access failed: " + errorMessage);
+        return false;
       } finally {
         isLoadingRef.current = false;
         setIsLoading(false);
       }
     },
-    [ethersSigner, energyVault.address, energyVault.abi, instance, chainId, sameChain, sameSigner]
+    [energyVault.address, energyVault.abi, ethersSigner]
   );
 
-  const canDecrypt = useMemo(() => {
-    return (
-      !!energyVault.address &&
-      !!instance &&
-      !!ethersSigner &&
-      !isLoading &&
-      !isDecrypting
-    );
-  }, [energyVault.address, instance, ethersSigner, isLoading, isDecrypting]);
+  const grantAccess = useCallback(
+    (recordId: string, grantee: string) => updateRecordAccess("grant", recordId, grantee),
+    [updateRecordAccess]
+  );
 
-  // Decrypt a record value
-  const decryptRecord = useCallback(
-    async (recordId: string): Promise<number | null> => {
-      if (isDecryptingRef.current) return null;
-      if (!energyVault.address || !instance || !ethersSigner) {
+  const revokeAccess = useCallback(
+    (recordId: string, grantee: string) => updateRecordAccess("revoke", recordId, grantee),
+    [updateRecordAccess]
+  );
+
+  // Read the audit trail of a record (creation, corrections, voiding), oldest first
+  const getRecordHistory = useCallback(
+    async (recordId: string): Promise<RecordHistoryEntry[]> => {
+      if (!energyVault.address || !ethersReadonlyProvider) {
+        return [];
+      }
+      const contract = new ethers.Contract(energyVault.address, energyVault.abi, ethersReadonlyProvider);
+      const id = BigInt(recordId);
+      const actions = [
+        ["RecordCreated", "created"],
+        ["RecordCorrected", "corrected"],
+        ["RecordVoided", "voided"],
+      ] as const;
+      try {
+        const logs = await Promise.all(
+          actions.map(([eventName]) => contract.queryFilter(contract.filters[eventName](id)))
+        );
+        return logs
+          .flatMap((eventLogs, i) =>
+            eventLogs.filter((log): log is ethers.EventLog => "args" in log).map((log) => ({
+              action: actions[i][1],
+              timestamp: new Date(Number(log.args.timestamp) * 1000),
+              txHash: log.transactionHash,
+              blockNumber: log.blockNumber,
+              logIndex: log.index,
+            }))
+          )
+          .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+          .map(({ action, timestamp, txHash }) => ({ action, timestamp, txHash }));
+      } catch (e: unknown) {
+        console.error("[useEnergyVault] Get record history error:", e);
+        return [];
+      }
+    },
+    [energyVault.address, energyVault.abi, ethersReadonlyProvider]
+  );
+
+  // Correct the value of one of the signer's records, or void it. The contract adjusts every
+  // encrypted aggregate, so previously decrypted totals are cleared.
+  const amendRecord = useCallback(
+    async (action: "correct" | "void", recordId: string, value?: number, unit?: EnergyUnit): Promise<boolean> => {
+      if (isLoadingRef.current) return false;
+      if (!energyVault.address || !ethersSigner || (action === "correct" && !instance)) {
         toast.error("Wallet not connected or contract not deployed");
-        return null;
+        return false;
+      }
+      let encodedValue = BigInt(0);
+      if (action === "correct") {
+        try {
+          encodedValue = encodeEnergyValue(value ?? NaN, valueFormat, unit);
+        } catch (e) {
+          toast.error((e as Error).message);
+          return false;
+        }
       }
 
       const thisChainId = chainId;
       const thisAddress = energyVault.address;
       const thisSigner = ethersSigner;
-      // IMPORTANT: Must use signer (not readonly provider) for getRecordEncryptedValue
-      // because the contract checks msg.sender == record.owner
       const contract = new ethers.Contract(thisAddress, energyVault.abi, thisSigner);
 
-      isDecryptingRef.current = true;
-      setIsDecrypting(true);
-      setDecryptingId(recordId);
-      setMessage("Decrypting record...");
+      const isStale = isStaleFor(thisAddress, thisChainId, thisSigner);
 
-      console.log("[useEnergyVault] Decrypting record:", recordId, "from address:", thisSigner.address);
+      isLoadingRef.current = true;
+      setIsLoading(true);
+      setMessage(action === "correct" ? "Encrypting and submitting correction..." : "Voiding record...");
 
       try {
-        const isStale = () =>
-          thisAddress !== energyVaultRef.current?.address ||
-          !sameChain.current(thisChainId) ||
-          !sameSigner.current(thisSigner);
-
-        // Get the encrypted handle from contract
-        // Convert recordId to BigInt for the contract call
-        const recordIdBigInt = BigInt(recordId);
-        console.log("[useEnergyVault] Calling getRecordEncryptedValue with recordId:", recordIdBigInt);
-        const encryptedHandle = await contract.getRecordEncryptedValue(recordIdBigInt);
-
-        if (isStale()) {
-          setMessage("Ignore decrypt - stale");
-          return null;
-        }
+        let tx: ethers.TransactionResponse;
+        if (action === "correct") {
+          const input = instance!.createEncryptedInput(thisAddress, thisSigner.address);
+          input.add64(encodedValue);
+          const enc = await input.encrypt();
 
-        const sig: FhevmDecryptionSignature | null =
-          await FhevmDecryptionSignature.loadOrSign(
-            instance,
-            [thisAddress],
-            thisSigner,
-            fhevmDecryptionSignatureStorage
-          );
+          if (isStale()) {
+            setMessage("Ignore correctRecord - stale");
+            return false;
+          }
 
-        if (!sig) {
-          setMessage("Unable to build FHEVM decryption signature");
-          toast.error("Unable to build decryption signature");
-          return null;
+          tx = await contract.correctRecord(BigInt(recordId), enc.handles[0], enc.inputProof);
+        } else {
+          tx = await contract.voidRecord(BigInt(recordId));
         }
+        toast.info("Transaction submitted, waiting for confirmation...");
+        await tx.wait();
 
         if (isStale()) {
-          setMessage("Ignore decrypt - stale");
-          return null;
+          setMessage(`Ignore ${action}Record - stale`);
+          return false;
         }
 
-        const res = await instance.userDecrypt(
-          [{ handle: encryptedHandle, contractAddress: thisAddress }],
-          sig.privateKey,
-          sig.publicKey,
-          sig.signature,
-          sig.contractAddresses,
-          sig.userAddress,
-          sig.startTimestamp,
-          sig.durationDays
+        patchRecord(
+          recordId,
+          action === "correct" ? { value: 0, isEncrypted: true } : { isVoided: true }
         );
+        setBalance(undefined);
+        setPeriodTotals(null);
+        setSourceTotals(null);
 
-        if (isStale()) {
-          setMessage("Ignore decrypt - stale");
-          return null;
-        }
+        setMessage(action === "correct" ? "Record corrected" : "Record voided");
+        toast.success(action === "correct" ? `Record #${recordId} corrected` : `Record #${recordId} voided`);
+        return true;
+      } catch (e: unknown) {
+        console.error("[useEnergyVault] Amend record error:", e);
+        const errorMessage = e instanceof Error ? e.message : String(e ?? "Unknown error");
+        if (errorMessage.includes("user rejected")) {
+          toast.error("Transaction was cancelled");
+        } else if (errorMessage.includes("RecordIsVoid")) {
+          toast.error("This record has been voided");
+        } else if (errorMessage.includes("NotRecordOwner")) {
+          toast.error("Only the record owner can change it");
+        } else {
+          toast.error(`Failed to ${action} record: ` + errorMessage);
+        }
+        setMessage(`${action}Record failed: ` + errorMessage);
+        return false;
+      } finally {
+        isLoadingRef.current = false;
+        setIsLoading(false);
+      }
+    },
+    [
+      ethersSigner,
+      energyVault.address,
+      energyVault.abi,
+      instance,
+      chainId,
+      isStaleFor,
+      patchRecord,
+      valueFormat,
+    ]
+  );
+
+  const correctRecord = useCallback(
+    (recordId: string, value: number, unit?: EnergyUnit) => amendRecord("correct", recordId, value, unit),
+    [amendRecord]
+  );
+
+  const voidRecord = useCallback((recordId: string) => amendRecord("void", recordId), [amendRecord]);
+
+  // Encrypt and store a monthly consumption budget - returns true on success
+  const setConsumptionLimit = useCallback(
+    async (value: number, unit?: EnergyUnit): Promise<boolean> => {
+      if (isLoadingRef.current) return false;
+      if (!energyVault.address || !instance || !ethersSigner) {
+        toast.error("Wallet not connected or contract not deployed");
+        return false;
+      }
+      let encodedValue: bigint;
+      try {
+        encodedValue = encodeEnergyValue(value, valueFormat, unit);
+      } catch (e) {
+        toast.error((e as Error).message);
+        return false;
+      }
+
+      const thisChainId = chainId;
+      const thisAddress = energyVault.address;
+      const thisSigner = ethersSigner;
+      const contract = new ethers.Contract(thisAddress, energyVault.abi, thisSigner);
+
+      const isStale = isStaleFor(thisAddress, thisChainId, thisSigner);
+
+      isLoadingRef.current = true;
+      setIsLoading(true);
+      setMessage("Encrypting consumption limit...");
+
+      try {
+        const input = instance.createEncryptedInput(thisAddress, thisSigner.address);
+        input.add64(encodedValue);
+        const enc = await input.encrypt();
+
+        if (isStale()) {
+          setMessage("Ignore setConsumptionLimit - stale");
+          return false;
+        }
+
+        const tx: ethers.TransactionResponse = await contract.setConsumptionLimit(enc.handles[0], enc.inputProof);
+        toast.info("Transaction submitted, waiting for confirmation...");
+        await tx.wait();
+
+        if (isStale()) {
+          setMessage("Ignore setConsumptionLimit - stale");
+          return false;
+        }
+
+        // The alert is recomputed on-chain, the decrypted one is outdated
+        setBalance(undefined);
+        setMessage("Consumption limit set");
+        toast.success("Monthly consumption limit saved");
+        return true;
+      } catch (e: unknown) {
+        console.error("[useEnergyVault] Set consumption limit error:", e);
+        const errorMessage = e instanceof Error ? e.message : String(e ?? "Unknown error");
+        if (errorMessage.includes("user rejected")) {
+          toast.error("Transaction was cancelled");
+        } else {
+          toast.error("Failed to set consumption limit: " + errorMessage);
+        }
+        setMessage("setConsumptionLimit failed: " + errorMessage);
+        return false;
+      } finally {
+        isLoadingRef.current = false;
+        setIsLoading(false);
+      }
+    },
+    [ethersSigner, energyVault.address, energyVault.abi, instance, chainId, isStaleFor, valueFormat]
+  );
+
+  const canCreateRecord = useMemo(() => {
+    return (
+      !!energyVault.address &&
+      !!instance &&
+      !!ethersSigner &&
+      !isLoading
+    );
+  }, [energyVault.address, instance, ethersSigner, isLoading]);
+
+  // Follow a submitted record creation in the pending store; its records show as pending until mined
+  const trackSubmission = useCallback(
+    (
+      tx: ethers.TransactionResponse,
+      contractAddress: string,
+      from: string,
+      searchFromBlock: number,
+      records: PendingRecordDraft[]
+    ): RecordSubmission => {
+      const mined = new Promise<string[] | null>((resolve) => minedResolversRef.current.set(tx.hash, resolve));
+      pendingStore.add({
+        id: tx.hash,
+        hash: tx.hash,
+        chainId: Number(tx.chainId),
+        contract: contractAddress,
+        from,
+        nonce: tx.nonce,
+        to: tx.to ?? contractAddress,
+        data: tx.data,
+        submittedAt: Date.now(),
+        searchFromBlock,
+        status: "pending",
+        records,
+      });
+      return { hash: tx.hash, mined };
+    },
+    [pendingStore]
+  );
+
+  // Create a new energy record - returns once submitted, the record shows as pending until mined
+  const createRecord = useCallback(
+    async (
+      type: "generation" | "consumption",
+      source: string,
+      value: number,
+      unit?: EnergyUnit,
+      measuredFrom?: Date,
+      measuredTo?: Date
+    ): Promise<RecordSubmission | null> => {
+      if (isLoadingRef.current) return null;
+      if (!energyVault.address || !instance || !ethersSigner) {
+        toast.error("Wallet not connected or contract not deployed");
+        return null;
+      }
+      let encodedValue: bigint;
+      let measurement: [number, number];
+      try {
+        encodedValue = encodeEnergyValue(value, valueFormat, unit);
+        measurement = await toMeasurement(ethersSigner.provider, measuredFrom, measuredTo);
+      } catch (e) {
+        toast.error((e as Error).message);
+        return null;
+      }
+
+      const thisChainId = chainId;
+      const thisAddress = energyVault.address;
+      const thisSigner = ethersSigner;
+      const contract = new ethers.Contract(thisAddress, energyVault.abi, thisSigner);
+
+      isLoadingRef.current = true;
+      setIsLoading(true);
+      setMessage("Encrypting and submitting record...");
+
+      await new Promise((r) => setTimeout(r, 100));
+
+      const isStale = isStaleFor(thisAddress, thisChainId, thisSigner);
+
+      try {
+        const input = instance.createEncryptedInput(thisAddress, thisSigner.address);
+        input.add64(encodedValue);
+        const enc = await input.encrypt();
+
+        if (isStale()) {
+          setMessage("Ignore createRecord - stale");
+          return null;
+        }
+
+        // The nonce of the transaction is unused up to this block, replacements are searched after it
+        const searchFromBlock = await thisSigner.provider.getBlockNumber();
+        const method = type === "generation" ? "createGenerationRecord" : "createConsumptionRecord";
+        const tx: ethers.TransactionResponse = await contract[method](
+          source,
+          enc.handles[0],
+          enc.inputProof,
+          ...measurement
+        );
+
+        const submission = trackSubmission(tx, thisAddress, thisSigner.address, searchFromBlock, [
+          { type, source, measuredFrom: measurement[0], measuredTo: measurement[1] },
+        ]);
+        setMessage(`Pending tx ${tx.hash}...`);
+        toast.info("Transaction submitted, the record is pending until mined");
+
+        return submission;
+      } catch (e: unknown) {
+        const s = String(e ?? "");
+        if (s.includes("Failed to fetch") || s.includes("code\": -32603")) {
+          setMessage("createRecord failed: Wallet RPC unreachable.");
+          toast.error("Wallet RPC unreachable. Please check your network.");
+        } else {
+          setMessage("createRecord failed: " + s);
+          toast.error("Failed to create record: " + s);
+        }
+        return null;
+      } finally {
+        isLoadingRef.current = false;
+        setIsLoading(false);
+      }
+    },
+    [
+      ethersSigner,
+      energyVault.address,
+      energyVault.abi,
+      instance,
+      chainId,
+      isStaleFor,
+      trackSubmission,
+      valueFormat,
+    ]
+  );
+
+  // Create several records with a single encrypted input and transaction - returns once submitted, the
+  // records show as pending until mined
+  const createRecordsBatch = useCallback(
+    async (entries: EnergyRecordInput[]): Promise<RecordSubmission | null> => {
+      if (isLoadingRef.current) return null;
+      if (!energyVault.address || !instance || !ethersSigner) {
+        toast.error("Wallet not connected or contract not deployed");
+        return null;
+      }
+      if (entries.length === 0) {
+        toast.error("Nothing to submit");
+        return null;
+      }
+      if (entries.length > MAX_BATCH_SIZE) {
+        toast.error(`A batch cannot hold more than ${MAX_BATCH_SIZE} records`);
+        return null;
+      }
+      let encodedValues: bigint[];
+      let measurements: [number, number][];
+      try {
+        encodedValues = entries.map((entry) => encodeEnergyValue(entry.value, valueFormat, entry.unit));
+        measurements = await Promise.all(
+          entries.map((entry) => toMeasurement(ethersSigner.provider, entry.measuredFrom, entry.measuredTo))
+        );
+      } catch (e) {
+        toast.error((e as Error).message);
+        return null;
+      }
+
+      const thisChainId = chainId;
+      const thisAddress = energyVault.address;
+      const thisSigner = ethersSigner;
+      const contract = new ethers.Contract(thisAddress, energyVault.abi, thisSigner);
+
+      isLoadingRef.current = true;
+      setIsLoading(true);
+      setMessage(`Encrypting and submitting ${entries.length} records...`);
+
+      await new Promise((r) => setTimeout(r, 100));
+
+      const isStale = isStaleFor(thisAddress, thisChainId, thisSigner);
+
+      try {
+        // One input, one proof: each add64 produces one handle, in order
+        const input = instance.createEncryptedInput(thisAddress, thisSigner.address);
+        for (const encodedValue of encodedValues) {
+          input.add64(encodedValue);
+        }
+        const enc = await input.encrypt();
+
+        if (isStale()) {
+          setMessage("Ignore createRecordsBatch - stale");
+          return null;
+        }
+
+        // The nonce of the transaction is unused up to this block, replacements are searched after it
+        const searchFromBlock = await thisSigner.provider.getBlockNumber();
+        const tx: ethers.TransactionResponse = await contract.createRecords(
+          entries.map((entry) => (entry.type === "generation" ? 0 : 1)),
+          entries.map((entry) => entry.source),
+          enc.handles,
+          enc.inputProof,
+          measurements
+        );
+
+        const submission = trackSubmission(
+          tx,
+          thisAddress,
+          thisSigner.address,
+          searchFromBlock,
+          entries.map((entry, i) => ({
+            type: entry.type,
+            source: entry.source,
+            measuredFrom: measurements[i][0],
+            measuredTo: measurements[i][1],
+          }))
+        );
+        setMessage(`Pending tx ${tx.hash}...`);
+        toast.info(`Transaction submitted, the ${entries.length} records are pending until mined`);
+
+        return submission;
+      } catch (e: unknown) {
+        const s = String(e ?? "");
+        if (s.includes("Failed to fetch") || s.includes("code\": -32603")) {
+          setMessage("createRecordsBatch failed: Wallet RPC unreachable.");
+          toast.error("Wallet RPC unreachable. Please check your network.");
+        } else {
+          setMessage("createRecordsBatch failed: " + s);
+          toast.error("Failed to create records: " + s);
+        }
+        return null;
+      } finally {
+        isLoadingRef.current = false;
+        setIsLoading(false);
+      }
+    },
+    [
+      ethersSigner,
+      energyVault.address,
+      energyVault.abi,
+      instance,
+      chainId,
+      isStaleFor,
+      trackSubmission,
+      valueFormat,
+    ]
+  );
+
+  const canDecrypt = useMemo(() => {
+    return (
+      !!energyVault.address &&
+      !!instance &&
+      !!ethersSigner &&
+      !isLoading &&
+      !isDecrypting
+    );
+  }, [energyVault.address, instance, ethersSigner, isLoading, isDecrypting]);
+
+  // Decrypt handles of the vault with the signer's decryption signature, built once then loaded from storage,
+  // in requests the relayer accepts. Uninitialized handles are left out. Returns null when no signature
+  // could be built or the call went stale.
+  const userDecryptHandles = useCallback(
+    async (
+      handles: string[],
+      contractAddress: string,
+      signer: ethers.JsonRpcSigner,
+      isStale: () => boolean
+    ): Promise<DecryptedResults | null> => {
+      // Uninitialized handles are bytes32(0) and cannot be sent to the relayer
+      const initialized = [...new Set(handles)].filter((handle) => handle !== ethers.ZeroHash);
+      if (initialized.length === 0) return {};
+      if (!instance) throw new Error("FHEVM instance not ready");
+
+      const sig: FhevmDecryptionSignature | null =
+        await FhevmDecryptionSignature.loadOrSign(
+          instance,
+          [contractAddress],
+          signer,
+          fhevmDecryptionSignatureStorage,
+          undefined,
+          { durationDays: fhevmDecryptionSignatureDurationDays }
+        );
+
+      if (!sig) {
+        setMessage("Unable to build FHEVM decryption signature");
+        toast.error("Unable to build decryption signature");
+        return null;
+      }
+
+      let res: DecryptedResults = {};
+      for (let i = 0; i < initialized.length; i += DECRYPT_CHUNK_SIZE) {
+        if (isStale()) {
+          setMessage("Ignore decrypt - stale");
+          return null;
+        }
+
+        const chunk = await instance.userDecrypt(
+          initialized.slice(i, i + DECRYPT_CHUNK_SIZE).map((handle) => ({ handle, contractAddress })),
+          sig.privateKey,
+          sig.publicKey,
+          sig.signature,
+          sig.contractAddresses,
+          sig.userAddress,
+          sig.startTimestamp,
+          sig.durationDays
+        );
+        res = { ...res, ...chunk };
+      }
+
+      if (isStale()) {
+        setMessage("Ignore decrypt - stale");
+        return null;
+      }
+      return res;
+    },
+    [instance, fhevmDecryptionSignatureStorage, fhevmDecryptionSignatureDurationDays]
+  );
+
+  // Decrypt a record value
+  const decryptRecord = useCallback(
+    async (recordId: string): Promise<number | null> => {
+      if (isDecryptingRef.current) return null;
+      if (!energyVault.address || !instance || !ethersSigner) {
+        toast.error("Wallet not connected or contract not deployed");
+        return null;
+      }
+
+      const thisChainId = chainId;
+      const thisAddress = energyVault.address;
+      const thisSigner = ethersSigner;
+      // IMPORTANT: Must use signer (not readonly provider) for getRecordEncryptedValue
+      // because the contract checks msg.sender is the record owner or a grantee
+      const contract = new ethers.Contract(thisAddress, energyVault.abi, thisSigner);
+
+      isDecryptingRef.current = true;
+      setIsDecrypting(true);
+      setDecryptingId(recordId);
+      setMessage("Decrypting record...");
+
+      console.log("[useEnergyVault] Decrypting record:", recordId, "from address:", thisSigner.address);
+
+      try {
+        const isStale = isStaleFor(thisAddress, thisChainId, thisSigner);
+
+        // Get the encrypted handle from contract
+        // Convert recordId to BigInt for the contract call
+        const recordIdBigInt = BigInt(recordId);
+        console.log("[useEnergyVault] Calling getRecordEncryptedValue with recordId:", recordIdBigInt);
+        const encryptedHandle = await contract.getRecordEncryptedValue(recordIdBigInt);
+
+        if (isStale()) {
+          setMessage("Ignore decrypt - stale");
+          return null;
+        }
+
+        const res = await userDecryptHandles([encryptedHandle], thisAddress, thisSigner, isStale);
+        if (!res) return null;
+
+        const rawValue = res[encryptedHandle];
+        if (rawValue === undefined || rawValue === null) {
+          throw new Error("Decryption returned undefined value");
+        }
+        
+        const decryptedValue = decodeEnergyValue(rawValue as bigint, valueFormat);
+        if (isNaN(decryptedValue) || decryptedValue < 0) {
+          throw new Error("Invalid decrypted value");
+        }
+        
+        applyDecryptedValues({ [recordId]: decryptedValue });
+
+        setMessage(`Record decrypted: ${formatEnergy(decryptedValue, valueFormat)}`);
+        toast.success("Record decrypted successfully!");
+        return decryptedValue;
+      } catch (e: unknown) {
+        console.error("[useEnergyVault] Decrypt error:", e);
+        const errorMessage = e instanceof Error ? e.message : String(e ?? "Unknown error");
+        
+        if (errorMessage.includes("user rejected")) {
+          setMessage("Decryption cancelled by user");
+          toast.error("Decryption was cancelled");
+        } else if (errorMessage.includes("NotRecordOwner")) {
+          setMessage("Access denied - not record owner");
+          toast.error("You don't have permission to decrypt this record");
+        } else if (errorMessage.includes("RecordDoesNotExist")) {
+          setMessage("Record not found");
+          toast.error("The requested record does not exist");
+        } else {
+          setMessage("Decrypt failed: " + errorMessage);
+          toast.error("Failed to decrypt: " + errorMessage);
+        }
+        return null;
+      } finally {
+        isDecryptingRef.current = false;
+        setIsDecrypting(false);
+        setDecryptingId(null);
+      }
+    },
+    [
+      userDecryptHandles,
+      ethersSigner,
+      energyVault.address,
+      energyVault.abi,
+      instance,
+      chainId,
+      isStaleFor,
+      applyDecryptedValues,
+      valueFormat,
+    ]
+  );
+
+  // Decrypt many records with one signature and as few userDecrypt requests as the relayer allows
+  const decryptRecords = useCallback(
+    async (recordIds: string[]): Promise<Record<string, number> | null> => {
+      if (isDecryptingRef.current) return null;
+      if (!energyVault.address || !instance || !ethersSigner) {
+        toast.error("Wallet not connected or contract not deployed");
+        return null;
+      }
+      if (recordIds.length === 0) {
+        return {};
+      }
+
+      const thisChainId = chainId;
+      const thisAddress = energyVault.address;
+      const thisSigner = ethersSigner;
+      // IMPORTANT: Must use signer (not readonly provider) for getRecordEncryptedValue
+      // because the contract checks msg.sender is the record owner or a grantee
+      const contract = new ethers.Contract(thisAddress, energyVault.abi, thisSigner);
+
+      const failed: Record<string, string> = {};
+      const decrypted: Record<string, number> = {};
+      let pendingIds = [...recordIds];
+
+      const reportProgress = () =>
+        setDecryptProgress({
+          total: recordIds.length,
+          decrypted: Object.keys(decrypted).length,
+          pendingIds,
+          failed: { ...failed },
+        });
+      const fail = (ids: string[], error: string) => {
+        for (const id of ids) {
+          failed[id] = error;
+        }
+        pendingIds = pendingIds.filter((id) => !ids.includes(id));
+        reportProgress();
+      };
+
+      isDecryptingRef.current = true;
+      setIsDecrypting(true);
+      setMessage(`Decrypting ${recordIds.length} records...`);
+      reportProgress();
+
+      try {
+        const isStale = isStaleFor(thisAddress, thisChainId, thisSigner);
+
+        // Gather handles; a failing record must not abort the whole batch
+        const handleById = new Map<string, string>();
+        await Promise.all(
+          recordIds.map(async (id) => {
+            try {
+              handleById.set(id, await contract.getRecordEncryptedValue(BigInt(id)));
+            } catch (e: unknown) {
+              const errorMessage = e instanceof Error ? e.message : String(e ?? "Unknown error");
+              fail([id], errorMessage.includes("NotRecordOwner") ? "Not record owner" : errorMessage);
+            }
+          })
+        );
+
+        if (isStale()) {
+          setMessage("Ignore decryptRecords - stale");
+          return null;
+        }
+
+        const decryptableIds = recordIds.filter((id) => handleById.has(id));
+        if (decryptableIds.length === 0) {
+          setMessage("No record could be decrypted");
+          return decrypted;
+        }
+
+        // Chunk by chunk so that the progress and failures are reported per chunk; the signature is built once
+        for (let i = 0; i < decryptableIds.length; i += DECRYPT_CHUNK_SIZE) {
+          const chunkIds = decryptableIds.slice(i, i + DECRYPT_CHUNK_SIZE);
+
+          try {
+            const res = await userDecryptHandles(
+              chunkIds.map((id) => handleById.get(id)!),
+              thisAddress,
+              thisSigner,
+              isStale
+            );
+            if (!res) {
+              if (!isStale()) fail(pendingIds, "Unable to build decryption signature");
+              return null;
+            }
+
+            for (const id of chunkIds) {
+              const rawValue = res[handleById.get(id)!];
+              if (rawValue === undefined || rawValue === null) {
+                failed[id] = "Decryption returned undefined value";
+              } else {
+                decrypted[id] = decodeEnergyValue(rawValue as bigint, valueFormat);
+              }
+            }
+            pendingIds = pendingIds.filter((id) => !chunkIds.includes(id));
+            reportProgress();
+
+            applyDecryptedValues(decrypted);
+          } catch (e: unknown) {
+            const errorMessage = e instanceof Error ? e.message : String(e ?? "Unknown error");
+            if (errorMessage.includes("user rejected")) {
+              fail(pendingIds, "Decryption cancelled by user");
+              setMessage("Decryption cancelled by user");
+              toast.error("Decryption was cancelled");
+              return decrypted;
+            }
+            fail(chunkIds, errorMessage);
+          }
+        }
+
+        const failedCount = Object.keys(failed).length;
+        const decryptedCount = Object.keys(decrypted).length;
+        setMessage(`${decryptedCount} records decrypted, ${failedCount} failed`);
+        if (failedCount > 0) {
+          toast.warning(`${decryptedCount} records decrypted, ${failedCount} failed`);
+        } else {
+          toast.success(`${decryptedCount} records decrypted!`);
+        }
+        return decrypted;
+      } catch (e: unknown) {
+        console.error("[useEnergyVault] Decrypt records error:", e);
+        const errorMessage = e instanceof Error ? e.message : String(e ?? "Unknown error");
+        fail(pendingIds, errorMessage);
+        setMessage("Decrypt failed: " + errorMessage);
+        toast.error("Failed to decrypt: " + errorMessage);
+        return null;
+      } finally {
+        isDecryptingRef.current = false;
+        setIsDecrypting(false);
+        setDecryptProgress((prev) => (prev ? { ...prev, pendingIds: [] } : prev));
+      }
+    },
+    [
+      userDecryptHandles,
+      ethersSigner,
+      energyVault.address,
+      energyVault.abi,
+      instance,
+      chainId,
+      isStaleFor,
+      applyDecryptedValues,
+      valueFormat,
+    ]
+  );
+
+  // Decrypt the on-chain totals, net balance and surplus flag in a single userDecrypt call
+  const decryptBalance = useCallback(async (): Promise<EnergyBalance | null> => {
+    if (isDecryptingRef.current) return null;
+    if (!energyVault.address || !instance || !ethersSigner) {
+      toast.error("Wallet not connected or contract not deployed");
+      return null;
+    }
+
+    const thisChainId = chainId;
+    const thisAddress = energyVault.address;
+    const thisSigner = ethersSigner;
+    // The totals getters check user == msg.sender, so reads must go through the signer
+    const contract = new ethers.Contract(thisAddress, energyVault.abi, thisSigner);
+
+    isDecryptingRef.current = true;
+    setIsDecrypting(true);
+    setMessage("Decrypting balance...");
+
+    try {
+      const isStale = isStaleFor(thisAddress, thisChainId, thisSigner);
+
+      const [
+        generationHandle,
+        consumptionHandle,
+        netBalanceHandle,
+        isSurplusHandle,
+        overflowedHandle,
+        limitHandle,
+        [overLimitHandle, alertMonth],
+      ]: [string, string, string, string, string, string, [string, bigint]] = await Promise.all([
+        contract.getTotalGeneration(thisSigner.address),
+        contract.getTotalConsumption(thisSigner.address),
+        contract.getNetBalance(thisSigner.address),
+        contract.getIsSurplus(thisSigner.address),
+        contract.getTotalsOverflowed(thisSigner.address),
+        contract.getConsumptionLimit(thisSigner.address),
+        contract.getConsumptionAlert(thisSigner.address),
+      ]);
+      // The alert is only recomputed on new consumption: a flag from an earlier month no longer applies
+      const alertHandle =
+        Number(alertMonth) === getPeriodIndex("month", new Date()) ? overLimitHandle : ethers.ZeroHash;
+
+      if (isStale()) {
+        setMessage("Ignore decryptBalance - stale");
+        return null;
+      }
+
+      // Handles of totals without any record yet are uninitialized and read as 0
+      const res = await userDecryptHandles(
+        [
+          generationHandle,
+          consumptionHandle,
+          netBalanceHandle,
+          isSurplusHandle,
+          overflowedHandle,
+          limitHandle,
+          alertHandle,
+        ],
+        thisAddress,
+        thisSigner,
+        isStale
+      );
+      if (!res) return null;
+
+      const decodeTotal = (handle: string) => decodeEnergyTotal(res[handle] as bigint | undefined, valueFormat);
+      const isSurplus = isSurplusHandle === ethers.ZeroHash ? true : Boolean(res[isSurplusHandle]);
+      const netMagnitude = decodeTotal(netBalanceHandle);
+
+      const decrypted: EnergyBalance = {
+        totalGeneration: decodeTotal(generationHandle),
+        totalConsumption: decodeTotal(consumptionHandle),
+        netBalance: isSurplus ? netMagnitude : -netMagnitude,
+        isSurplus,
+        isClamped: overflowedHandle !== ethers.ZeroHash && Boolean(res[overflowedHandle]),
+        consumptionLimit: limitHandle === ethers.ZeroHash ? null : decodeTotal(limitHandle),
+        isOverLimit: alertHandle !== ethers.ZeroHash && Boolean(res[alertHandle]),
+      };
+
+      setBalance(decrypted);
+      setMessage("Balance decrypted");
+      return decrypted;
+    } catch (e: unknown) {
+      console.error("[useEnergyVault] Decrypt balance error:", e);
+      const errorMessage = e instanceof Error ? e.message : String(e ?? "Unknown error");
+      if (errorMessage.includes("user rejected")) {
+        setMessage("Decryption cancelled by user");
+        toast.error("Decryption was cancelled");
+      } else {
+        setMessage("Decrypt balance failed: " + errorMessage);
+        toast.error("Failed to decrypt balance: " + errorMessage);
+      }
+      return null;
+    } finally {
+      isDecryptingRef.current = false;
+      setIsDecrypting(false);
+    }
+  }, [
+    userDecryptHandles,
+    ethersSigner,
+    energyVault.address,
+    energyVault.abi,
+    instance,
+    chainId,
+    isStaleFor,
+    valueFormat,
+  ]);
+
+  // Decrypt the generation and consumption totals of consecutive periods with a single signature
+  const decryptPeriodTotals = useCallback(
+    async (period: EnergyPeriod, fromIndex: number, count: number): Promise<PeriodTotals[] | null> => {
+      if (isDecryptingRef.current) return null;
+      if (!energyVault.address || !instance || !ethersSigner) {
+        toast.error("Wallet not connected or contract not deployed");
+        return null;
+      }
+      if (!Number.isInteger(count) || count < 1 || count > MAX_PERIOD_RANGE) {
+        toast.error(`Select between 1 and ${MAX_PERIOD_RANGE} periods`);
+        return null;
+      }
+
+      const thisChainId = chainId;
+      const thisAddress = energyVault.address;
+      const thisSigner = ethersSigner;
+      // The period getters check user == msg.sender, so reads must go through the signer
+      const contract = new ethers.Contract(thisAddress, energyVault.abi, thisSigner);
+
+      isDecryptingRef.current = true;
+      setIsDecrypting(true);
+      setMessage("Decrypting period totals...");
+
+      try {
+        const isStale = isStaleFor(thisAddress, thisChainId, thisSigner);
+
+        const [generationHandles, consumptionHandles]: string[][] = await contract.getPeriodTotalsRange(
+          thisSigner.address,
+          PERIOD_IDS[period],
+          fromIndex,
+          count
+        );
+
+        if (isStale()) {
+          setMessage("Ignore decryptPeriodTotals - stale");
+          return null;
+        }
+
+        // Periods without records have uninitialized handles, read as 0
+        const res = await userDecryptHandles(
+          [...generationHandles, ...consumptionHandles],
+          thisAddress,
+          thisSigner,
+          isStale
+        );
+        if (!res) return null;
+
+        const decodeTotal = (handle: string) => decodeEnergyTotal(res[handle] as bigint | undefined, valueFormat);
+        const totals: PeriodTotals[] = generationHandles.map((generationHandle, i) => ({
+          period,
+          index: fromIndex + i,
+          generation: decodeTotal(generationHandle),
+          consumption: decodeTotal(consumptionHandles[i]),
+        }));
+
+        setPeriodTotals(totals);
+        setMessage(`${count} period totals decrypted`);
+        return totals;
+      } catch (e: unknown) {
+        console.error("[useEnergyVault] Decrypt period totals error:", e);
+        const errorMessage = e instanceof Error ? e.message : String(e ?? "Unknown error");
+        if (errorMessage.includes("user rejected")) {
+          setMessage("Decryption cancelled by user");
+          toast.error("Decryption was cancelled");
+        } else {
+          setMessage("Decrypt period totals failed: " + errorMessage);
+          toast.error("Failed to decrypt period totals: " + errorMessage);
+        }
+        return null;
+      } finally {
+        isDecryptingRef.current = false;
+        setIsDecrypting(false);
+      }
+    },
+    [
+      userDecryptHandles,
+      ethersSigner,
+      energyVault.address,
+      energyVault.abi,
+      instance,
+      chainId,
+      isStaleFor,
+      valueFormat,
+    ]
+  );
 
-        const rawValue = res[encryptedHandle];
-        if (rawValue === undefined || rawValue === null) {
-          throw new Error("Decryption returned undefined value");
+  // Decrypt the generation and consumption totals of every source the signer has used
+  const decryptSourceTotals = useCallback(async (): Promise<SourceTotals[] | null> => {
+    if (isDecryptingRef.current) return null;
+    if (!energyVault.address || !instance || !ethersSigner) {
+      toast.error("Wallet not connected or contract not deployed");
+      return null;
+    }
+
+    const thisChainId = chainId;
+    const thisAddress = energyVault.address;
+    const thisSigner = ethersSigner;
+    // The source getters check user == msg.sender, so reads must go through the signer
+    const contract = new ethers.Contract(thisAddress, energyVault.abi, thisSigner);
+
+    isDecryptingRef.current = true;
+    setIsDecrypting(true);
+    setMessage("Decrypting source totals...");
+
+    try {
+      const isStale = isStaleFor(thisAddress, thisChainId, thisSigner);
+
+      const sources: string[] = [...(await contract.getUserSources(thisSigner.address))];
+      const sourceHandles: string[][] = await Promise.all(
+        sources.map(async (source) => {
+          const [generation, consumption] = await contract.getSourceTotals(thisSigner.address, source);
+          return [generation, consumption];
+        })
+      );
+
+      if (isStale()) {
+        setMessage("Ignore decryptSourceTotals - stale");
+        return null;
+      }
+
+      // A source used with a single record type has one uninitialized handle, read as 0
+      const res = await userDecryptHandles(sourceHandles.flat(), thisAddress, thisSigner, isStale);
+      if (!res) return null;
+
+      const decodeTotal = (handle: string) => decodeEnergyTotal(res[handle] as bigint | undefined, valueFormat);
+      const totals: SourceTotals[] = sources.map((source, i) => ({
+        source,
+        generation: decodeTotal(sourceHandles[i][0]),
+        consumption: decodeTotal(sourceHandles[i][1]),
+      }));
+
+      setSourceTotals(totals);
+      setMessage(`${sources.length} source totals decrypted`);
+      return totals;
+    } catch (e: unknown) {
+      console.error("[useEnergyVault] Decrypt source totals error:", e);
+      const errorMessage = e instanceof Error ? e.message : String(e ?? "Unknown error");
+      if (errorMessage.includes("user rejected")) {
+        setMessage("Decryption cancelled by user");
+        toast.error("Decryption was cancelled");
+      } else {
+        setMessage("Decrypt source totals failed: " + errorMessage);
+        toast.error("Failed to decrypt source totals: " + errorMessage);
+      }
+      return null;
+    } finally {
+      isDecryptingRef.current = false;
+      setIsDecrypting(false);
+    }
+  }, [
+    userDecryptHandles,
+    ethersSigner,
+    energyVault.address,
+    energyVault.abi,
+    instance,
+    chainId,
+    isStaleFor,
+    valueFormat,
+  ]);
+
+  // Load both sides of the auditor relationship: who audits the signer, and whom the signer audits
+  const loadAuditors = useCallback(async () => {
+    if (!energyVault.address || !ethersReadonlyProvider || !ethersSigner) {
+      return;
+    }
+
+    const thisChainId = chainId;
+    const thisAddress = energyVault.address;
+    const thisSigner = ethersSigner;
+    const contract = new ethers.Contract(thisAddress, energyVault.abi, ethersReadonlyProvider);
+
+    const isStale = isStaleFor(thisAddress, thisChainId, thisSigner);
+
+    try {
+      const [myAuditors, producers]: string[][] = await Promise.all([
+        contract.getAuditors(thisSigner.address),
+        contract.getAuditedUsers(thisSigner.address),
+      ]);
+      if (isStale()) {
+        return;
+      }
+
+      setAuditors([...myAuditors]);
+      setAuditedProducers((prev) => {
+        const byAddress = new Map(prev.map((p) => [p.address, p]));
+        return producers.map(
+          (address) =>
+            byAddress.get(address) ?? {
+              address,
+              totalGeneration: 0,
+              totalConsumption: 0,
+              isEncrypted: true,
+            }
+        );
+      });
+    } catch (e: unknown) {
+      console.error("[useEnergyVault] Load auditors error:", e);
+      setMessage("loadAuditors failed: " + String(e ?? ""));
+    }
+  }, [
+    energyVault.address,
+    energyVault.abi,
+    ethersReadonlyProvider,
+    ethersSigner,
+    chainId,
+    isStaleFor,
+  ]);
+
+  useEffect(() => {
+    loadAuditors();
+  }, [loadAuditors]);
+
+  // Authorize or revoke an auditor on the signer's totals
+  const updateAuditor = useCallback(
+    async (action: "authorize" | "revoke", auditor: string): Promise<boolean> => {
+      if (isLoadingRef.current) return false;
+      if (!energyVault.address || !ethersSigner) {
+        toast.error("Wallet not connected or contract not deployed");
+        return false;
+      }
+      if (!ethers.isAddress(auditor)) {
+        toast.error("Invalid address");
+        return false;
+      }
+
+      const contract = new ethers.Contract(energyVault.address, energyVault.abi, ethersSigner);
+
+      isLoadingRef.current = true;
+      setIsLoading(true);
+      setMessage(action === "authorize" ? "Authorizing auditor..." : "Revoking auditor...");
+
+      try {
+        const tx: ethers.TransactionResponse =
+          action === "authorize"
+            ? await contract.authorizeAuditor(auditor)
+            : await contract.revokeAuditor(auditor);
+        toast.info("Transaction submitted, waiting for confirmation...");
+        await tx.wait();
+
+        setMessage(action === "authorize" ? "Auditor authorized" : "Auditor revoked");
+        toast.success(
+          action === "authorize"
+            ? `${auditor.slice(0, 6)}...${auditor.slice(-4)} can now verify your totals`
+            : "Auditor revoked"
+        );
+        await loadAuditors();
+        return true;
+      } catch (e: unknown) {
+        console.error("[useEnergyVault] Update auditor error:", e);
+        const errorMessage = e instanceof Error ? e.message : String(e ?? "Unknown error");
+        if (errorMessage.includes("user rejected")) {
+          toast.error("Transaction was cancelled");
+        } else if (errorMessage.includes("AuditorAlreadyAuthorized")) {
+          toast.error("This address is already your auditor");
+        } else if (errorMessage.includes("InvalidAuditor")) {
+          toast.error("You cannot audit yourself");
+        } else {
+          toast.error("Failed to update auditor: " + errorMessage);
         }
-        
-        const decryptedValue = Number(rawValue as bigint) / 10;
-        if (isNaN(decryptedValue) || decryptedValue < 0) {
-          throw new Error("Invalid decrypted value");
+        setMessage("Update auditor failed: " + errorMessage);
+        return false;
+      } finally {
+        isLoadingRef.current = false;
+        setIsLoading(false);
+      }
+    },
+    [energyVault.address, energyVault.abi, ethersSigner, loadAuditors]
+  );
+
+  const authorizeAuditor = useCallback(
+    (auditor: string) => updateAuditor("authorize", auditor),
+    [updateAuditor]
+  );
+
+  const revokeAuditor = useCallback(
+    (auditor: string) => updateAuditor("revoke", auditor),
+    [updateAuditor]
+  );
+
+  // Load the meter devices allowed to submit records on behalf of the signer
+  const loadDevices = useCallback(async () => {
+    if (!energyVault.address || !ethersReadonlyProvider || !ethersSigner) {
+      return;
+    }
+
+    const thisChainId = chainId;
+    const thisAddress = energyVault.address;
+    const thisSigner = ethersSigner;
+    const contract = new ethers.Contract(thisAddress, energyVault.abi, ethersReadonlyProvider);
+
+    const isStale = isStaleFor(thisAddress, thisChainId, thisSigner);
+
+    try {
+      const myDevices: string[] = await contract.getDevices(thisSigner.address);
+      if (isStale()) {
+        return;
+      }
+      setDevices([...myDevices]);
+    } catch (e: unknown) {
+      console.error("[useEnergyVault] Load devices error:", e);
+      setMessage("loadDevices failed: " + String(e ?? ""));
+    }
+  }, [
+    energyVault.address,
+    energyVault.abi,
+    ethersReadonlyProvider,
+    ethersSigner,
+    chainId,
+    isStaleFor,
+  ]);
+
+  useEffect(() => {
+    loadDevices();
+  }, [loadDevices]);
+
+  // Propose or remove a meter device of the signer, or accept an owner's proposal when the signer is the device
+  const updateDevice = useCallback(
+    async (action: "propose" | "accept" | "remove", address: string): Promise<boolean> => {
+      if (isLoadingRef.current) return false;
+      if (!energyVault.address || !ethersSigner) {
+        toast.error("Wallet not connected or contract not deployed");
+        return false;
+      }
+      if (!ethers.isAddress(address)) {
+        toast.error("Invalid address");
+        return false;
+      }
+
+      const contract = new ethers.Contract(energyVault.address, energyVault.abi, ethersSigner);
+
+      isLoadingRef.current = true;
+      setIsLoading(true);
+      setMessage(
+        action === "propose"
+          ? "Proposing device..."
+          : action === "accept"
+            ? "Accepting owner..."
+            : "Removing device..."
+      );
+
+      try {
+        const tx: ethers.TransactionResponse =
+          action === "propose"
+            ? await contract.proposeDevice(address)
+            : action === "accept"
+              ? await contract.acceptDevice(address)
+              : await contract.removeDevice(address);
+        toast.info("Transaction submitted, waiting for confirmation...");
+        await tx.wait();
+
+        const shortAddress = `${address.slice(0, 6)}...${address.slice(-4)}`;
+        setMessage(
+          action === "propose" ? "Device proposed" : action === "accept" ? "Device registered" : "Device removed"
+        );
+        toast.success(
+          action === "propose"
+            ? `${shortAddress} can submit readings for you once it accepts from its own wallet`
+            : action === "accept"
+              ? `This wallet now submits readings for ${shortAddress}`
+              : "Device removed"
+        );
+        await loadDevices();
+        return true;
+      } catch (e: unknown) {
+        console.error("[useEnergyVault] Update device error:", e);
+        const errorMessage = e instanceof Error ? e.message : String(e ?? "Unknown error");
+        if (errorMessage.includes("user rejected")) {
+          toast.error("Transaction was cancelled");
+        } else if (errorMessage.includes("DeviceAlreadyRegistered")) {
+          toast.error("This device is already registered");
+        } else if (errorMessage.includes("NoDeviceProposal")) {
+          toast.error("This owner has not proposed this wallet as a device");
+        } else if (errorMessage.includes("InvalidDevice")) {
+          toast.error("Your own wallet cannot be a device");
+        } else {
+          toast.error("Failed to update device: " + errorMessage);
         }
-        
-        setMessage(`Record decrypted: ${decryptedValue} kWh`);
-        toast.success("Record decrypted successfully!");
-        return decryptedValue;
+        setMessage("Update device failed: " + errorMessage);
+        return false;
+      } finally {
+        isLoadingRef.current = false;
+        setIsLoading(false);
+      }
+    },
+    [energyVault.address, energyVault.abi, ethersSigner, loadDevices]
+  );
+
+  const proposeDevice = useCallback(
+    (device: string) => updateDevice("propose", device),
+    [updateDevice]
+  );
+
+  const acceptDevice = useCallback(
+    (owner: string) => updateDevice("accept", owner),
+    [updateDevice]
+  );
+
+  const removeDevice = useCallback(
+    (device: string) => updateDevice("remove", device),
+    [updateDevice]
+  );
+
+  // Read the community pool status and the last published total; these are public values
+  const loadCommunityPool = useCallback(async () => {
+    if (!energyVault.address || !ethersReadonlyProvider) {
+      return;
+    }
+
+    const thisChainId = chainId;
+    const thisAddress = energyVault.address;
+    const thisSigner = ethersSigner;
+    const contract = new ethers.Contract(thisAddress, energyVault.abi, ethersReadonlyProvider);
+
+    const isStale = isStaleFor(thisAddress, thisChainId, thisSigner);
+
+    try {
+      const [memberCount, minMembers, isMember, isPending, [publishedTotal, publishedMemberCount, publishedAt]] =
+        await Promise.all([
+          contract.getCommunityMemberCount(),
+          contract.MIN_COMMUNITY_MEMBERS(),
+          thisSigner ? contract.isCommunityMember(thisSigner.address) : false,
+          contract.isCommunityDecryptionPending(),
+          contract.getPublishedCommunityGeneration(),
+        ]);
+      if (isStale()) {
+        return;
+      }
+
+      const isPublished = publishedAt !== BigInt(0);
+      setCommunityPool({
+        memberCount: Number(memberCount),
+        minMembers: Number(minMembers),
+        isMember,
+        isPending,
+        publishedTotal: isPublished ? decodeEnergyValue(publishedTotal, valueFormat) : null,
+        publishedMemberCount: Number(publishedMemberCount),
+        publishedAt: isPublished ? new Date(Number(publishedAt) * 1000) : null,
+      });
+    } catch (e: unknown) {
+      console.error("[useEnergyVault] Load community pool error:", e);
+      setMessage("loadCommunityPool failed: " + String(e ?? ""));
+    }
+  }, [
+    energyVault.address,
+    energyVault.abi,
+    ethersReadonlyProvider,
+    ethersSigner,
+    chainId,
+    isStaleFor,
+    valueFormat,
+  ]);
+
+  useEffect(() => {
+    loadCommunityPool();
+  }, [loadCommunityPool]);
+
+  // Join or leave the community pool, or ask the oracle to publish the pooled generation
+  const updateCommunityPool = useCallback(
+    async (action: "join" | "leave" | "publish"): Promise<boolean> => {
+      if (isLoadingRef.current) return false;
+      if (!energyVault.address || !ethersSigner) {
+        toast.error("Wallet not connected or contract not deployed");
+        return false;
+      }
+
+      const contract = new ethers.Contract(energyVault.address, energyVault.abi, ethersSigner);
+
+      isLoadingRef.current = true;
+      setIsLoading(true);
+      setMessage(
+        action === "join"
+          ? "Joining community pool..."
+          : action === "leave"
+            ? "Leaving community pool..."
+            : "Requesting publication..."
+      );
+
+      try {
+        const tx: ethers.TransactionResponse =
+          action === "join"
+            ? await contract.joinCommunityPool()
+            : action === "leave"
+              ? await contract.leaveCommunityPool()
+              : await contract.requestCommunityDecryption();
+        toast.info("Transaction submitted, waiting for confirmation...");
+        await tx.wait();
+
+        setMessage(action === "publish" ? "Publication requested" : `Community pool ${action} confirmed`);
+        toast.success(
+          action === "join"
+            ? "Your generation now counts towards the community total"
+            : action === "leave"
+              ? "You left the community pool"
+              : "Publication requested, the total appears once the oracle answers"
+        );
+        await loadCommunityPool();
+        return true;
       } catch (e: unknown) {
-        console.error("[useEnergyVault] Decrypt error:", e);
+        console.error("[useEnergyVault] Update community pool error:", e);
+        const errorMessage = e instanceof Error ? e.message : String(e ?? "Unknown error");
+        if (errorMessage.includes("user rejected")) {
+          toast.error("Transaction was cancelled");
+        } else if (errorMessage.includes("NotEnoughMembers")) {
+          toast.error("Not enough members yet to publish the total");
+        } else if (errorMessage.includes("DecryptionPending")) {
+          toast.error("A publication is already in progress");
+        } else if (errorMessage.includes("PoolIsEmpty")) {
+          toast.error("No member has recorded any generation yet");
+        } else if (errorMessage.includes("PublicationTooSoon")) {
+          toast.error("The total was published recently, try again later");
+        } else if (errorMessage.includes("TooFewMembershipChanges")) {
+          toast.error("Wait until more members join or leave before publishing again");
+        } else {
+          toast.error("Failed to update community pool: " + errorMessage);
+        }
+        setMessage("Update community pool failed: " + errorMessage);
+        return false;
+      } finally {
+        isLoadingRef.current = false;
+        setIsLoading(false);
+      }
+    },
+    [energyVault.address, energyVault.abi, ethersSigner, loadCommunityPool]
+  );
+
+  const joinCommunityPool = useCallback(() => updateCommunityPool("join"), [updateCommunityPool]);
+
+  const leaveCommunityPool = useCallback(() => updateCommunityPool("leave"), [updateCommunityPool]);
+
+  const requestCommunityPublication = useCallback(
+    () => updateCommunityPool("publish"),
+    [updateCommunityPool]
+  );
+
+  // Decrypt, as an auditor, the generation and consumption totals of a producer
+  const decryptProducerTotals = useCallback(
+    async (producer: string): Promise<AuditedProducer | null> => {
+      if (isDecryptingRef.current) return null;
+      if (!energyVault.address || !instance || !ethersSigner) {
+        toast.error("Wallet not connected or contract not deployed");
+        return null;
+      }
+
+      const thisChainId = chainId;
+      const thisAddress = energyVault.address;
+      const thisSigner = ethersSigner;
+      // The totals getters check the auditor authorization on msg.sender
+      const contract = new ethers.Contract(thisAddress, energyVault.abi, thisSigner);
+
+      isDecryptingRef.current = true;
+      setIsDecrypting(true);
+      setMessage("Decrypting producer totals...");
+
+      try {
+        const isStale = isStaleFor(thisAddress, thisChainId, thisSigner);
+
+        const [generationHandle, consumptionHandle]: string[] = await Promise.all([
+          contract.getTotalGeneration(producer),
+          contract.getTotalConsumption(producer),
+        ]);
+
+        if (isStale()) {
+          setMessage("Ignore decryptProducerTotals - stale");
+          return null;
+        }
+
+        const res = await userDecryptHandles(
+          [generationHandle, consumptionHandle],
+          thisAddress,
+          thisSigner,
+          isStale
+        );
+        if (!res) return null;
+
+        const decodeTotal = (handle: string) => decodeEnergyTotal(res[handle] as bigint | undefined, valueFormat);
+        const decrypted: AuditedProducer = {
+          address: producer,
+          totalGeneration: decodeTotal(generationHandle),
+          totalConsumption: decodeTotal(consumptionHandle),
+          isEncrypted: false,
+        };
+
+        setAuditedProducers((prev) => prev.map((p) => (p.address === producer ? decrypted : p)));
+        setMessage("Producer totals decrypted");
+        return decrypted;
+      } catch (e: unknown) {
+        console.error("[useEnergyVault] Decrypt producer totals error:", e);
         const errorMessage = e instanceof Error ? e.message : String(e ?? "Unknown error");
-        
         if (errorMessage.includes("user rejected")) {
           setMessage("Decryption cancelled by user");
           toast.error("Decryption was cancelled");
-        } else if (errorMessage.includes("Not record owner")) {
-          setMessage("Access denied - not record owner");
-          toast.error("You don't have permission to decrypt this record");
-        } else if (errorMessage.includes("Record does not exist")) {
-          setMessage("Record not found");
-          toast.error("The requested record does not exist");
+        } else if (errorMessage.includes("CanOnlyViewOwnTotals")) {
+          setMessage("Access denied - not an authorized auditor");
+          toast.error("This producer no longer authorizes you");
         } else {
-          setMessage("Decrypt failed: " + errorMessage);
-          toast.error("Failed to decrypt: " + errorMessage);
+          setMessage("Decrypt producer totals failed: " + errorMessage);
+          toast.error("Failed to decrypt totals: " + errorMessage);
         }
         return null;
       } finally {
         isDecryptingRef.current = false;
         setIsDecrypting(false);
-        setDecryptingId(null);
       }
     },
     [
-      fhevmDecryptionSignatureStorage,
+      userDecryptHandles,
       ethersSigner,
       energyVault.address,
       energyVault.abi,
       instance,
       chainId,
-      sameChain,
-      sameSigner,
+      isStaleFor,
+      valueFormat,
     ]
   );
 
-  // Event listener setup
-  const setupEventListeners = useCallback(() => {
-    if (!energyVault.address || !ethersReadonlyProvider || isListening) {
+  const loadCommunityPoolRef = useRef(loadCommunityPool);
+  loadCommunityPoolRef.current = loadCommunityPool;
+
+  // Owners of the records shared with the signer, whose corrections and voids are followed too
+  const sharedRecordOwners = useMemo(
+    () => [...new Set(sharedRecords.flatMap((r) => (r.owner ? [r.owner.toLowerCase()] : [])))].sort().join(","),
+    [sharedRecords]
+  );
+
+  // Follow the signer's record creations until confirmed, including those submitted before a reload
+  useEffect(() => {
+    const provider = ethersReadonlyProvider?.provider;
+    if (!energyVault.address || !provider || !ethersSigner || chainId === undefined) {
       return;
     }
 
-    const contract = new ethers.Contract(
-      energyVault.address,
-      energyVault.abi,
-      ethersReadonlyProvider
-    );
+    const thisAddress = energyVault.address;
+    const account = ethersSigner.address;
+    const vault = new ethers.Interface(energyVault.abi);
+    const contract = new ethers.Contract(thisAddress, energyVault.abi, ethersReadonlyProvider);
+    const options = {
+      confirmations: confirmationsFor(chainId),
+      getRecordIds: (receipt: ethers.TransactionReceipt) =>
+        receipt.logs
+          .filter((log) => log.address.toLowerCase() === thisAddress.toLowerCase())
+          .map((log) => vault.parseLog(log))
+          .filter((event) => event?.name === "RecordCreated")
+          .map((event) => event!.args.id.toString()),
+    };
+    let cancelled = false;
+    let checking = false;
 
-    contractRef.current = contract;
-    setIsListening(true);
+    const settle = (id: string, recordIds: string[] | null) => {
+      minedResolversRef.current.get(id)?.(recordIds);
+      minedResolversRef.current.delete(id);
+    };
 
-    // Listen for RecordCreated events
-    contract.on("RecordCreated", (id, owner, recordType, source, timestamp) => {
-      console.log("[useEnergyVault] RecordCreated event:", { id, owner, recordType, source, timestamp });
-      
-      // Only add records for the current user
-      if (ethersSigner && owner.toLowerCase() === ethersSigner.address.toLowerCase()) {
-        const newRecord: EnergyRecord = {
-          id: id.toString(),
-          type: recordType === 0 ? "generation" : "consumption",
-          source,
-          value: 0, // Will be decrypted later if needed
-          timestamp: new Date(Number(timestamp) * 1000),
-          isEncrypted: true,
-        };
-        
-        setRecords(prev => {
-          // Avoid duplicates
-          if (prev.some(r => r.id === newRecord.id)) {
-            return prev;
-          }
-          return [...prev, newRecord];
-        });
+    const apply = async (tx: PendingTransaction, next: PendingTransaction) => {
+      if (next.hash !== tx.hash) {
+        toast.info(`Record transaction sped up, now ${next.hash}`);
       }
-    });
+      if (next.recordIds && !tx.recordIds) {
+        // The record from chain takes the place of the optimistic one
+        const created = await readRecordsMetadata(contract, next.recordIds);
+        if (cancelled) return;
+        trackRecordIds(next.recordIds);
+        mergeRecords(created);
+        settle(next.id, next.recordIds);
+        toast.success(`Record #${next.recordIds.join(", #")} created!`);
+      } else if (tx.recordIds && !next.recordIds) {
+        // Its block was reorged away, the record is optimistic again until mined anew
+        const dropped = tx.recordIds;
+        setRecords((prev) => prev.filter((r) => !dropped.includes(r.id)));
+        const known = dropped.filter((id) => knownRecordIdsRef.current.delete(id));
+        setRecordCount((count) => count - known.length);
+      }
+
+      if (next.status === "failed") {
+        toast.error(`Record transaction failed: ${next.error}`);
+        settle(next.id, null);
+      } else if (next.status === "replaced") {
+        toast.warning("Record transaction was cancelled in the wallet");
+        settle(next.id, null);
+      }
+
+      if (next.status === "confirmed" || next.status === "replaced") {
+        pendingStore.remove(next.id);
+      } else {
+        pendingStore.update(next);
+      }
+    };
+
+    const check = async () => {
+      if (checking) return;
+      checking = true;
+      try {
+        const pending = pendingStore
+          .list()
+          .filter((tx) => isPendingFor(tx, chainId, thisAddress, account) && !isFinalStatus(tx.status));
+        for (const tx of pending) {
+          const next = await checkTransaction(provider, tx, options);
+          if (cancelled) return;
+          if (next !== tx) await apply(tx, next);
+        }
+      } catch (e) {
+        console.error("[useEnergyVault] Pending transaction check error:", e);
+      } finally {
+        checking = false;
+      }
+    };
 
+    void check();
+    const interval = setInterval(() => void check(), PENDING_POLL_INTERVAL_MS);
     return () => {
-      contract.removeAllListeners();
-      setIsListening(false);
+      cancelled = true;
+      clearInterval(interval);
     };
-  }, [energyVault.address, energyVault.abi, ethersReadonlyProvider, ethersSigner, isListening]);
+  }, [
+    energyVault.address,
+    energyVault.abi,
+    ethersReadonlyProvider,
+    ethersSigner,
+    chainId,
+    pendingStore,
+    readRecordsMetadata,
+    trackRecordIds,
+    mergeRecords,
+  ]);
 
-  // Cleanup event listeners on unmount
-  const cleanupEventListeners = useCallback(() => {
-    if (contractRef.current) {
-      contractRef.current.removeAllListeners();
-      contractRef.current = null;
-      setIsListening(false);
+  const signerPendingTransactions = useMemo(
+    () =>
+      energyVault.address && ethersSigner
+        ? pendingTransactions.filter((tx) => isPendingFor(tx, chainId, energyVault.address!, ethersSigner.address))
+        : [],
+    [pendingTransactions, chainId, energyVault.address, ethersSigner]
+  );
+
+  // Optimistic records of creations not mined yet, or failed, newest first. Values are not kept,
+  // and IDs are `<pending transaction ID>:<index in the transaction>`.
+  const pendingRecords = useMemo<EnergyRecord[]>(
+    () =>
+      signerPendingTransactions
+        .filter((tx) => tx.status === "pending" || tx.status === "failed")
+        .flatMap((tx) =>
+          tx.records.map((draft, index) => ({
+            id: `${tx.id}:${index}`,
+            type: draft.type,
+            source: draft.source,
+            value: 0,
+            timestamp: new Date(tx.submittedAt),
+            measuredFrom: new Date(draft.measuredFrom * 1000),
+            measuredTo: new Date(draft.measuredTo * 1000),
+            isEncrypted: true,
+            owner: tx.from,
+            pendingStatus: tx.status,
+            transactionHash: tx.hash,
+          }))
+        )
+        .reverse(),
+    [signerPendingTransactions]
+  );
+
+  // Records mined but still awaiting confirmations are flagged
+  const recordsWithStatus = useMemo(() => {
+    const minedIn = new Map<string, string>();
+    for (const tx of signerPendingTransactions) {
+      if (tx.status === "mined") tx.recordIds?.forEach((id) => minedIn.set(id, tx.hash));
     }
-  }, []);
+    if (minedIn.size === 0) return records;
+    return records.map((r) =>
+      minedIn.has(r.id) ? { ...r, pendingStatus: "mined" as const, transactionHash: minedIn.get(r.id) } : r
+    );
+  }, [records, signerPendingTransactions]);
+
+  // Forget the pending creation of an optimistic record, e.g. a failed one the user has seen
+  const dismissPendingRecord = useCallback(
+    (recordId: string) => {
+      const id = recordId.split(":")[0];
+      pendingStore.remove(id);
+      minedResolversRef.current.get(id)?.(null);
+      minedResolversRef.current.delete(id);
+    },
+    [pendingStore]
+  );
+
+  // Live updates. Logs are filtered by owner on the node, and the blocks missed while the connection
+  // was down, or while another account was selected, are backfilled from the last delivered block.
+  useEffect(() => {
+    const provider = ethersReadonlyProvider?.provider;
+    if (!energyVault.address || !provider || !ethersSigner) {
+      return;
+    }
+
+    const key = `${chainId}:${energyVault.address}:${ethersSigner.address.toLowerCase()}`;
+    const lastEventBlocks = lastEventBlocksRef.current;
+    const lastEventBlock = lastEventBlocks.get(key);
+    const vault = new ethers.Interface(energyVault.abi);
+    const topic = (name: string) => vault.getEvent(name)!.topicHash;
+    const ownerTopic = ethers.zeroPadValue(ethersSigner.address, 32);
+    const sharedOwnerTopics = sharedRecordOwners
+      ? sharedRecordOwners.split(",").map((owner) => ethers.zeroPadValue(owner, 32))
+      : [];
+
+    const manager = new EventSubscriptionManager(provider, {
+      address: energyVault.address,
+      fromBlock: lastEventBlock !== undefined ? lastEventBlock + 1 : undefined,
+      subscriptions: [
+        {
+          // Records of the signer, including those pushed by their meter devices
+          topics: [topic("RecordCreated"), null, ownerTopic],
+          onLog: (log) => {
+            const { id, recordType, source, timestamp, device, measuredFrom, measuredTo } = vault.parseLog(log)!.args;
+            // mergeRecords dedupes by ID against the records loaded from chain
+            trackRecordIds([id.toString()]);
+            mergeRecords([
+              toEnergyRecord(id, recordType, source, timestamp, measuredFrom, measuredTo, undefined, undefined, device),
+            ]);
+          },
+        },
+        {
+          // Corrections and voids can come from another tab or, for shared records, from their owner
+          topics: [[topic("RecordCorrected"), topic("RecordVoided")], null, [ownerTopic, ...sharedOwnerTopics]],
+          onLog: (log) => {
+            const event = vault.parseLog(log)!;
+            patchRecord(
+              event.args.id.toString(),
+              event.name === "RecordVoided" ? { isVoided: true } : { value: 0, isEncrypted: true }
+            );
+          },
+        },
+        {
+          // The oracle answers a publication request a few blocks after it was sent
+          topics: [topic("CommunityGenerationPublished")],
+          onLog: () => {
+            loadCommunityPoolRef.current();
+          },
+        },
+      ],
+    });
+
+    // Browsers throttle or drop connections of hidden tabs: catch up when the page is back
+    const resync = () => {
+      if (document.visibilityState === "visible") {
+        void manager.resync();
+      }
+    };
+    window.addEventListener("online", resync);
+    document.addEventListener("visibilitychange", resync);
+
+    setIsListening(true);
+    void manager.start();
+
+    return () => {
+      window.removeEventListener("online", resync);
+      document.removeEventListener("visibilitychange", resync);
+      manager.stop();
+      if (manager.lastProcessedBlock !== null) {
+        lastEventBlocks.set(key, manager.lastProcessedBlock);
+      }
+      setIsListening(false);
+    };
+  }, [
+    energyVault.address,
+    energyVault.abi,
+    ethersReadonlyProvider,
+    ethersSigner,
+    chainId,
+    sharedRecordOwners,
+    trackRecordIds,
+    mergeRecords,
+    patchRecord,
+  ]);
 
   return {
     contractAddress: energyVault.address,
     isDeployed,
+    valueFormat,
     isLoading,
     isDecrypting,
     decryptingId,
     canCreateRecord,
     canDecrypt,
     createRecord,
+    createRecordsBatch,
     decryptRecord,
-    totalGeneration,
-    totalConsumption,
+    decryptRecords,
+    decryptProgress,
+    decryptBalance,
+    balance,
+    decryptPeriodTotals,
+    periodTotals,
+    decryptSourceTotals,
+    sourceTotals,
+    totalGeneration: balance?.totalGeneration ?? 0,
+    totalConsumption: balance?.totalConsumption ?? 0,
     message,
-    records,
-    setupEventListeners,
-    cleanupEventListeners,
+    records: recordsWithStatus,
+    pendingRecords,
+    dismissPendingRecord,
+    recordCount,
+    recordFilter,
+    setRecordFilter,
+    hasMoreRecords,
+    isLoadingRecords,
+    loadRecords,
+    loadMoreRecords,
+    mergeRecords,
+    sharedRecords,
+    isLoadingSharedRecords,
+    loadSharedRecords,
+    getRecordGrantees,
+    grantAccess,
+    revokeAccess,
+    getRecordHistory,
+    correctRecord,
+    voidRecord,
+    setConsumptionLimit,
+    auditors,
+    auditedProducers,
+    loadAuditors,
+    authorizeAuditor,
+    revokeAuditor,
+    decryptProducerTotals,
+    devices,
+    loadDevices,
+    proposeDevice,
+    acceptDevice,
+    removeDevice,
+    communityPool,
+    loadCommunityPool,
+    joinCommunityPool,
+    leaveCommunityPool,
+    requestCommunityPublication,
     isListening,
   };
 };
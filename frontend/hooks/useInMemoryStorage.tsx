@@ -1,40 +0,0 @@
-import { createContext, ReactNode, useContext, useState } from "react";
-import {
-  GenericStringInMemoryStorage,
-  GenericStringStorage,
-} from "@/fhevm/GenericStringStorage";
-
-interface UseInMemoryStorageState {
-  storage: GenericStringStorage;
-}
-
-interface InMemoryStorageProviderProps {
-  children: ReactNode;
-}
-
-const InMemoryStorageContext = createContext<
-  UseInMemoryStorageState | undefined
->(undefined);
-
-export const useInMemoryStorage = () => {
-  const context = useContext(InMemoryStorageContext);
-  if (!context) {
-    throw new Error(
-      "useInMemoryStorage must be used within a InMemoryStorageProvider"
-    );
-  }
-  return context;
-};
-
-export const InMemoryStorageProvider: React.FC<
-  InMemoryStorageProviderProps
-> = ({ children }) => {
-  const [storage] = useState<GenericStringStorage>(
-    new GenericStringInMemoryStorage()
-  );
-  return (
-    <InMemoryStorageContext.Provider value={{ storage }}>
-      {children}
-    </InMemoryStorageContext.Provider>
-  );
-};
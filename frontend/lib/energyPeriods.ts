@@ -0,0 +1,33 @@
+// Period indexes mirror EnergyVault.getPeriodIndex: days since the Unix epoch and
+// months since January 1970, both in UTC.
+
+export type EnergyPeriod = "day" | "month";
+
+// Values of the EnergyVault.Period enum
+export const PERIOD_IDS: Record<EnergyPeriod, number> = {
+  day: 0,
+  month: 1,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getPeriodIndex(period: EnergyPeriod, date: Date): number {
+  if (period === "day") {
+    return Math.floor(date.getTime() / DAY_MS);
+  }
+  return (date.getUTCFullYear() - 1970) * 12 + date.getUTCMonth();
+}
+
+export function getPeriodStart(period: EnergyPeriod, index: number): Date {
+  if (period === "day") {
+    return new Date(index * DAY_MS);
+  }
+  return new Date(Date.UTC(1970 + Math.floor(index / 12), index % 12, 1));
+}
+
+export function formatPeriod(period: EnergyPeriod, index: number): string {
+  const start = getPeriodStart(period, index);
+  return period === "day"
+    ? start.toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" })
+    : start.toLocaleDateString(undefined, { month: "short", year: "2-digit", timeZone: "UTC" });
+}
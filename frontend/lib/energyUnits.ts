@@ -0,0 +1,95 @@
+// Fixed-point encoding of energy values. Each EnergyVault deployment stores values as unsigned
+// integers counting 10^-decimals of its unit, e.g. 0.1 kWh steps for kWh with 1 decimal.
+// Shared by the frontend, the Hardhat tasks and the contract tests, so it must stay free of
+// browser and Node specific imports.
+
+export type EnergyUnit = "Wh" | "kWh" | "MWh";
+
+// Values of the EnergyVault.EnergyUnit enum, by index
+export const ENERGY_UNITS: EnergyUnit[] = ["Wh", "kWh", "MWh"];
+
+// Mirrors EnergyVault.MAX_VALUE_DECIMALS
+export const MAX_VALUE_DECIMALS = 6;
+
+export interface EnergyValueFormat {
+  unit: EnergyUnit;
+  decimals: number;
+}
+
+// Format of deployments predating configurable units
+export const DEFAULT_VALUE_FORMAT: EnergyValueFormat = { unit: "kWh", decimals: 1 };
+
+const WH_PER_UNIT: Record<EnergyUnit, number> = {
+  Wh: 1,
+  kWh: 1_000,
+  MWh: 1_000_000,
+};
+
+export function toEnergyValueFormat(unitId: bigint | number, decimals: bigint | number): EnergyValueFormat {
+  const unit = ENERGY_UNITS[Number(unitId)];
+  if (!unit) {
+    throw new RangeError(`Unknown energy unit id ${unitId}`);
+  }
+  if (Number(decimals) < 0 || Number(decimals) > MAX_VALUE_DECIMALS) {
+    throw new RangeError(`Energy value decimals must be between 0 and ${MAX_VALUE_DECIMALS}`);
+  }
+  return { unit, decimals: Number(decimals) };
+}
+
+export function parseEnergyUnit(name: string): EnergyUnit {
+  const unit = ENERGY_UNITS.find((u) => u.toLowerCase() === name.trim().toLowerCase());
+  if (!unit) {
+    throw new RangeError(`Unknown energy unit '${name}', expected one of ${ENERGY_UNITS.join(", ")}`);
+  }
+  return unit;
+}
+
+// Parse a number of decimals given as text, e.g. in a deployment variable
+export function parseEnergyDecimals(text: string): number {
+  const decimals = Number(text.trim());
+  if (text.trim() === "" || !Number.isInteger(decimals) || decimals < 0 || decimals > MAX_VALUE_DECIMALS) {
+    throw new RangeError(`Energy value decimals must be an integer between 0 and ${MAX_VALUE_DECIMALS}, got '${text}'`);
+  }
+  return decimals;
+}
+
+export function convertEnergy(value: number, from: EnergyUnit, to: EnergyUnit): number {
+  return from === to ? value : (value * WH_PER_UNIT[from]) / WH_PER_UNIT[to];
+}
+
+// Convert a value expressed in inputUnit into the integer encrypted by the contract
+export function encodeEnergyValue(
+  value: number,
+  format: EnergyValueFormat,
+  inputUnit: EnergyUnit = format.unit,
+): bigint {
+  if (!Number.isFinite(value) || value < 0) {
+    throw new RangeError("Energy value must be a non-negative number");
+  }
+  const scaled = Math.round(convertEnergy(value, inputUnit, format.unit) * 10 ** format.decimals);
+  // Beyond 2^53 the scaled number is no longer exact (and still far below the euint64 maximum)
+  if (scaled > Number.MAX_SAFE_INTEGER) {
+    throw new RangeError(`Energy value is too large for ${format.decimals} decimals of ${format.unit}`);
+  }
+  return BigInt(scaled);
+}
+
+// Convert a decrypted integer back into a value in the deployment's unit
+export function decodeEnergyValue(raw: bigint, format: EnergyValueFormat): number {
+  return Number(raw) / 10 ** format.decimals;
+}
+
+// Convert a decrypted total into a value in the deployment's unit. Totals no record counted in yet have
+// uninitialized handles, which are not decrypted: a missing result reads as 0.
+export function decodeEnergyTotal(raw: bigint | undefined, format: EnergyValueFormat): number {
+  return raw === undefined ? 0 : decodeEnergyValue(raw, format);
+}
+
+// Smallest step a deployment can represent, in its unit
+export function energyValueStep(format: EnergyValueFormat): number {
+  return 1 / 10 ** format.decimals;
+}
+
+export function formatEnergy(value: number, format: EnergyValueFormat): string {
+  return `${value.toFixed(format.decimals)} ${format.unit}`;
+}
@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ethers } from "ethers";
+import { EventSubscriptionManager, LogSubscription } from "./eventSubscription";
+
+const ADDRESS = "0x00000000000000000000000000000000000000aa";
+const CREATED = ethers.id("RecordCreated(uint256,address,uint8,string,uint256,address,uint256,uint256)");
+const ALICE = ethers.zeroPadValue("0x00000000000000000000000000000000000000a1", 32);
+const BOB = ethers.zeroPadValue("0x00000000000000000000000000000000000000b0", 32);
+
+// In-memory chain answering getLogs like a node, with a block subscription that can be dropped
+class FakeProvider {
+  head = 0;
+  logs: ethers.Log[] = [];
+  listeners = new Set<(blockNumber: number) => void>();
+  getLogsCalls = 0;
+  failGetLogs = false;
+
+  async getBlockNumber() {
+    return this.head;
+  }
+
+  async getLogs(filter: ethers.Filter) {
+    this.getLogsCalls++;
+    if (this.failGetLogs) throw new Error("connection lost");
+    const topics = filter.topics ?? [];
+    return this.logs.filter(
+      (log) =>
+        log.address === filter.address &&
+        log.blockNumber >= Number(filter.fromBlock) &&
+        log.blockNumber <= Number(filter.toBlock) &&
+        topics.every((topic, i) => topic === null || (Array.isArray(topic) ? topic : [topic]).includes(log.topics[i])),
+    );
+  }
+
+  async on(_event: string, listener: (blockNumber: number) => void) {
+    this.listeners.add(listener);
+    return this;
+  }
+
+  async off(_event: string, listener: (blockNumber: number) => void) {
+    this.listeners.delete(listener);
+    return this;
+  }
+
+  // Mine a block holding one RecordCreated log per owner topic
+  mine(...owners: string[]) {
+    this.head++;
+    owners.forEach((owner, index) => {
+      this.logs.push({
+        address: ADDRESS,
+        blockNumber: this.head,
+        index,
+        transactionHash: ethers.id(`tx-${this.head}-${index}`),
+        topics: [CREATED, ethers.zeroPadValue(ethers.toBeHex(this.logs.length), 32), owner],
+        removed: false,
+      } as unknown as ethers.Log);
+    });
+    this.listeners.forEach((listener) => listener(this.head));
+  }
+
+  // A websocket that silently stops delivering blocks
+  drop() {
+    this.listeners.clear();
+  }
+}
+
+describe("EventSubscriptionManager", () => {
+  let provider: FakeProvider;
+  let received: ethers.Log[];
+  let managers: EventSubscriptionManager[];
+
+  const aliceCreated: () => LogSubscription = () => ({
+    topics: [CREATED, null, ALICE],
+    onLog: (log) => received.push(log),
+  });
+
+  const createManager = (options: { fromBlock?: number; subscriptions?: LogSubscription[] } = {}) => {
+    const manager = new EventSubscriptionManager(provider, {
+      address: ADDRESS,
+      subscriptions: options.subscriptions ?? [aliceCreated()],
+      fromBlock: options.fromBlock,
+      maxBlockRange: 2,
+      staleAfterMs: 10_000,
+      onError: () => {},
+    });
+    managers.push(manager);
+    return manager;
+  };
+
+  // Let queued syncs settle
+  const flush = () => vi.advanceTimersByTimeAsync(0);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    provider = new FakeProvider();
+    received = [];
+    managers = [];
+    provider.mine(ALICE);
+  });
+
+  afterEach(() => {
+    managers.forEach((manager) => manager.stop());
+    vi.useRealTimers();
+  });
+
+  it("delivers the logs of the filtered owner mined after start, in chain order", async () => {
+    const manager = createManager();
+    await manager.start();
+    expect(manager.lastProcessedBlock).toBe(1);
+
+    provider.mine(BOB, ALICE, ALICE);
+    provider.mine(ALICE);
+    await flush();
+
+    expect(received.map((log) => [log.blockNumber, log.index])).toEqual([
+      [2, 1],
+      [2, 2],
+      [3, 0],
+    ]);
+    expect(manager.lastProcessedBlock).toBe(3);
+  });
+
+  it("backfills the blocks missed while the block subscription was down", async () => {
+    const manager = createManager();
+    await manager.start();
+
+    provider.drop();
+    provider.mine(ALICE);
+    provider.mine();
+    provider.mine(ALICE);
+    provider.mine(ALICE);
+    await flush();
+    expect(received).toHaveLength(0);
+
+    // The watchdog notices no block arrived and subscribes again
+    await vi.advanceTimersByTimeAsync(15_000);
+    expect(received.map((log) => log.blockNumber)).toEqual([2, 4, 5]);
+    expect(provider.listeners.size).toBe(1);
+
+    provider.mine(ALICE);
+    await flush();
+    expect(received.map((log) => log.blockNumber)).toEqual([2, 4, 5, 6]);
+  });
+
+  it("retries a range whose getLogs failed on the next block", async () => {
+    const manager = createManager();
+    await manager.start();
+
+    provider.failGetLogs = true;
+    provider.mine(ALICE);
+    await flush();
+    expect(manager.lastProcessedBlock).toBe(1);
+
+    provider.failGetLogs = false;
+    provider.mine(ALICE);
+    await flush();
+    expect(received.map((log) => log.blockNumber)).toEqual([2, 3]);
+  });
+
+  it("delivers each log once when a resync scans recent blocks again", async () => {
+    const manager = createManager();
+    await manager.start();
+    provider.mine(ALICE);
+    provider.mine(ALICE);
+    await flush();
+
+    await manager.resync();
+    await manager.resync();
+    expect(received.map((log) => log.blockNumber)).toEqual([2, 3]);
+
+    // Two subscriptions matching the same log deliver it once too
+    const other = createManager({
+      fromBlock: 2,
+      subscriptions: [aliceCreated(), { topics: [CREATED], onLog: (log) => received.push(log) }],
+    });
+    received = [];
+    await other.start();
+    expect(received.map((log) => log.blockNumber)).toEqual([2, 3]);
+  });
+
+  it("backfills from the last block processed for an account when it is selected again", async () => {
+    const manager = createManager();
+    await manager.start();
+    manager.stop();
+    const resumeFrom = manager.lastProcessedBlock! + 1;
+
+    // Another account was selected meanwhile
+    provider.mine(ALICE);
+    provider.mine(BOB);
+    provider.mine(ALICE);
+    await flush();
+    expect(received).toHaveLength(0);
+
+    const resumed = createManager({ fromBlock: resumeFrom });
+    await resumed.start();
+    expect(received.map((log) => log.blockNumber)).toEqual([2, 4]);
+    // Backfilled in ranges of maxBlockRange blocks
+    expect(provider.getLogsCalls).toBe(2);
+  });
+
+  it("delivers nothing after stop", async () => {
+    const manager = createManager();
+    await manager.start();
+    manager.stop();
+
+    provider.mine(ALICE);
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(received).toHaveLength(0);
+    expect(provider.listeners.size).toBe(0);
+  });
+});
@@ -0,0 +1,184 @@
+import { ethers } from "ethers";
+
+// The provider calls the manager relies on, all implemented by ethers providers
+export interface SubscriptionProvider {
+  getBlockNumber(): Promise<number>;
+  getLogs(filter: ethers.Filter): Promise<ethers.Log[]>;
+  on(event: "block", listener: (blockNumber: number) => void): Promise<unknown>;
+  off(event: "block", listener: (blockNumber: number) => void): Promise<unknown>;
+}
+
+export interface LogSubscription {
+  // Evaluated by the node: topic0 selects the event, the next ones its indexed arguments (e.g. the owner)
+  topics: ethers.TopicFilter;
+  onLog: (log: ethers.Log) => void;
+}
+
+export interface EventSubscriptionOptions {
+  address: string;
+  subscriptions: LogSubscription[];
+  // First block to deliver; by default only blocks mined after start()
+  fromBlock?: number;
+  // Blocks requested per eth_getLogs call when backfilling
+  maxBlockRange?: number;
+  // Without a new block for that long the block listener is registered again and the gap backfilled
+  staleAfterMs?: number;
+  // Recent blocks scanned again on resync, for nodes that answered getLogs before indexing the head
+  resyncOverlap?: number;
+  onError?: (error: unknown) => void;
+}
+
+const logKey = (log: ethers.Log) => `${log.transactionHash}:${log.index}`;
+
+/**
+ * Delivers contract logs to subscriptions without ever skipping a block.
+ *
+ * New blocks only trigger a getLogs from the last processed block to the head, so logs mined
+ * while the block subscription was down (dropped websocket, sleeping tab, failed request) are
+ * backfilled on the next block or resync(). Logs are delivered once, in chain order.
+ */
+export class EventSubscriptionManager {
+  private readonly address: string;
+  private readonly subscriptions: LogSubscription[];
+  private readonly maxBlockRange: number;
+  private readonly staleAfterMs: number;
+  private readonly resyncOverlap: number;
+  private readonly onError: (error: unknown) => void;
+
+  private lastProcessed: number | null;
+  // Block before the first one delivered, which a resync never rewinds past
+  private startedAfter: number | null;
+  private delivered = new Map<string, number>();
+  private queue: Promise<void> = Promise.resolve();
+  private running = false;
+  private lastBlockAt = 0;
+  private watchdog: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly provider: SubscriptionProvider,
+    options: EventSubscriptionOptions,
+  ) {
+    this.address = options.address;
+    this.subscriptions = options.subscriptions;
+    this.maxBlockRange = options.maxBlockRange ?? 1000;
+    this.staleAfterMs = options.staleAfterMs ?? 30_000;
+    this.resyncOverlap = options.resyncOverlap ?? 5;
+    this.onError = options.onError ?? ((error) => console.error("[EventSubscriptionManager]", error));
+    this.lastProcessed = options.fromBlock !== undefined ? options.fromBlock - 1 : null;
+    this.startedAfter = this.lastProcessed;
+  }
+
+  // Last block whose logs were all delivered, null until the first sync
+  get lastProcessedBlock(): number | null {
+    return this.lastProcessed;
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    this.lastBlockAt = Date.now();
+
+    await this.provider.on("block", this.handleBlock);
+    this.watchdog = setInterval(
+      () => {
+        if (Date.now() - this.lastBlockAt > this.staleAfterMs) {
+          void this.resync();
+        }
+      },
+      Math.max(1000, this.staleAfterMs / 2),
+    );
+
+    return this.sync();
+  }
+
+  stop() {
+    if (!this.running) return;
+    this.running = false;
+    void this.provider.off("block", this.handleBlock);
+    if (this.watchdog) {
+      clearInterval(this.watchdog);
+      this.watchdog = null;
+    }
+  }
+
+  // Register the block listener again and backfill from slightly before the last processed block
+  async resync(): Promise<void> {
+    if (!this.running) return;
+    this.lastBlockAt = Date.now();
+
+    await this.provider.off("block", this.handleBlock);
+    await this.provider.on("block", this.handleBlock);
+    if (this.lastProcessed !== null && this.startedAfter !== null) {
+      this.lastProcessed = Math.max(this.startedAfter, this.lastProcessed - this.resyncOverlap);
+    }
+    return this.sync();
+  }
+
+  private handleBlock = (blockNumber: number) => {
+    this.lastBlockAt = Date.now();
+    void this.sync(blockNumber);
+  };
+
+  // Syncs run one after the other; a failed one leaves the range to the next
+  private sync(head?: number): Promise<void> {
+    this.queue = this.queue
+      .then(() => this.processUpTo(head))
+      .catch((error) => {
+        if (this.running) this.onError(error);
+      });
+    return this.queue;
+  }
+
+  private async processUpTo(head?: number) {
+    if (!this.running) return;
+    const toBlock = head ?? (await this.provider.getBlockNumber());
+    if (this.lastProcessed === null) {
+      this.lastProcessed = this.startedAfter = toBlock;
+      return;
+    }
+
+    while (this.running && this.lastProcessed < toBlock) {
+      const fromBlock = this.lastProcessed + 1;
+      const rangeEnd = Math.min(toBlock, fromBlock + this.maxBlockRange - 1);
+
+      const results = await Promise.all(
+        this.subscriptions.map(async (subscription) => {
+          const logs = await this.provider.getLogs({
+            address: this.address,
+            topics: subscription.topics,
+            fromBlock,
+            toBlock: rangeEnd,
+          });
+          return logs.map((log) => ({ log, subscription }));
+        }),
+      );
+      if (!this.running) return;
+
+      const matches = results
+        .flat()
+        .filter(({ log }) => !log.removed)
+        .sort((a, b) => a.log.blockNumber - b.log.blockNumber || a.log.index - b.log.index);
+      for (const { log, subscription } of matches) {
+        const key = logKey(log);
+        if (this.delivered.has(key)) continue;
+        this.delivered.set(key, log.blockNumber);
+        subscription.onLog(log);
+      }
+
+      this.lastProcessed = rangeEnd;
+      this.pruneDelivered();
+    }
+  }
+
+  // Only logs a resync can fetch again need to be remembered
+  private pruneDelivered() {
+    const oldest = (this.lastProcessed ?? 0) - this.resyncOverlap;
+    for (const [key, blockNumber] of this.delivered) {
+      if (blockNumber < oldest) this.delivered.delete(key);
+    }
+  }
+}
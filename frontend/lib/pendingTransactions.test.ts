@@ -0,0 +1,223 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { ethers } from "ethers";
+import { PendingTransaction, PendingTransactionStore, checkTransaction } from "./pendingTransactions";
+
+const VAULT = "0x00000000000000000000000000000000000000aa";
+const ALICE = "0x00000000000000000000000000000000000000a1";
+const CREATE_CALL = "0x1234";
+
+type FakeTransaction = { hash: string; from: string; nonce: number; to: string; data: string; status: number };
+
+// In-memory chain with a mempool, where the wallet can speed up or cancel a transaction
+class FakeProvider {
+  blocks: FakeTransaction[][] = [[]];
+  mempool: FakeTransaction[] = [];
+
+  get head() {
+    return this.blocks.length - 1;
+  }
+
+  async getBlockNumber() {
+    return this.head;
+  }
+
+  async getTransactionReceipt(hash: string) {
+    const blockNumber = this.blocks.findIndex((txs) => txs.some((tx) => tx.hash === hash));
+    if (blockNumber < 0) return null;
+    const tx = this.blocks[blockNumber].find((t) => t.hash === hash)!;
+    return { hash, blockNumber, status: tx.status, logs: [] } as unknown as ethers.TransactionReceipt;
+  }
+
+  getBlockCalls: number[] = [];
+
+  async getTransactionCount(address: string, blockTag: number | "latest") {
+    const blocks = blockTag === "latest" ? this.blocks : this.blocks.slice(0, blockTag + 1);
+    return blocks.flat().filter((tx) => tx.from === address).length;
+  }
+
+  async getBlock(blockNumber: number) {
+    this.getBlockCalls.push(blockNumber);
+    const txs = this.blocks[blockNumber];
+    return txs ? ({ prefetchedTransactions: txs } as unknown as ethers.Block) : null;
+  }
+
+  send(tx: Omit<FakeTransaction, "hash" | "status">, status = 1) {
+    const sent = { ...tx, hash: ethers.id(`${tx.nonce}-${this.mempool.length}-${tx.data}`), status };
+    this.mempool.push(sent);
+    return sent;
+  }
+
+  // Mine the mempool transactions matching `include`, dropping the others that reuse their nonce
+  mine(include: (tx: FakeTransaction) => boolean = () => true) {
+    const mined = this.mempool.filter(include);
+    this.mempool = this.mempool.filter((tx) => !mined.some((m) => m.from === tx.from && m.nonce === tx.nonce));
+    this.blocks.push(mined);
+  }
+
+  reorg(depth: number) {
+    this.blocks = this.blocks.slice(0, this.blocks.length - depth);
+  }
+}
+
+describe("checkTransaction", () => {
+  let provider: FakeProvider;
+  const options = { confirmations: 2, getRecordIds: () => ["7"] };
+
+  // Submit a record creation and return its pending entry
+  const submit = (): PendingTransaction => {
+    const sent = provider.send({ from: ALICE, nonce: 0, to: VAULT, data: CREATE_CALL });
+    return {
+      id: sent.hash,
+      hash: sent.hash,
+      chainId: 31337,
+      contract: VAULT,
+      from: ALICE,
+      nonce: 0,
+      to: VAULT,
+      data: CREATE_CALL,
+      submittedAt: 0,
+      searchFromBlock: provider.head,
+      status: "pending",
+      records: [{ type: "generation", source: "Solar", measuredFrom: 0, measuredTo: 0 }],
+    };
+  };
+
+  beforeEach(() => {
+    provider = new FakeProvider();
+    provider.mine();
+  });
+
+  it("follows a transaction from pending to mined to confirmed", async () => {
+    let tx = submit();
+    const unchanged = await checkTransaction(provider, tx, options);
+    expect(unchanged).toBe(tx);
+
+    provider.mine();
+    tx = await checkTransaction(provider, tx, options);
+    expect(tx).toMatchObject({ status: "mined", blockNumber: 2, recordIds: ["7"] });
+
+    provider.mine();
+    tx = await checkTransaction(provider, tx, options);
+    expect(tx.status).toBe("confirmed");
+  });
+
+  it("goes back to pending when the block that mined it is reorged away", async () => {
+    let tx = submit();
+    const [pendingTx] = provider.mempool;
+    provider.mine();
+    tx = await checkTransaction(provider, tx, options);
+    expect(tx.status).toBe("mined");
+
+    provider.reorg(1);
+    provider.mempool.push(pendingTx);
+    provider.mine(() => false);
+    tx = await checkTransaction(provider, tx, options);
+    expect(tx).toMatchObject({ status: "pending", recordIds: undefined, searchFromBlock: 2 });
+  });
+
+  it("marks a reverted transaction as failed", async () => {
+    provider.mempool = [];
+    const sent = provider.send({ from: ALICE, nonce: 0, to: VAULT, data: CREATE_CALL }, 0);
+    provider.mine();
+    const tx = await checkTransaction(provider, { ...submit(), id: sent.hash, hash: sent.hash }, options);
+    expect(tx).toMatchObject({ status: "failed", error: "Transaction reverted" });
+  });
+
+  it("follows the new hash when the wallet speeds the transaction up", async () => {
+    const tx = submit();
+    const faster = provider.send({ from: ALICE, nonce: 0, to: VAULT, data: CREATE_CALL });
+    provider.mine((t) => t.hash === faster.hash);
+    provider.mine();
+
+    const checked = await checkTransaction(provider, tx, options);
+    expect(checked).toMatchObject({ id: tx.id, hash: faster.hash, status: "confirmed", recordIds: ["7"] });
+  });
+
+  it("marks a transaction cancelled in the wallet as replaced", async () => {
+    const tx = submit();
+    const cancel = provider.send({ from: ALICE, nonce: 0, to: ALICE, data: "0x" });
+    provider.mine((t) => t.hash === cancel.hash);
+
+    const checked = await checkTransaction(provider, tx, options);
+    expect(checked).toMatchObject({ status: "replaced", replacedBy: cancel.hash });
+  });
+
+  it("only fetches the block that used the nonce when looking for a replacement", async () => {
+    const tx = submit();
+    for (let i = 0; i < 6; i++) provider.mine(() => false);
+    const cancel = provider.send({ from: ALICE, nonce: 0, to: ALICE, data: "0x" });
+    provider.mine((t) => t.hash === cancel.hash);
+    for (let i = 0; i < 5; i++) provider.mine(() => false);
+
+    const checked = await checkTransaction(provider, tx, options);
+    expect(checked).toMatchObject({ status: "replaced", replacedBy: cancel.hash });
+    expect(provider.getBlockCalls).toEqual([8]);
+  });
+});
+
+describe("PendingTransactionStore", () => {
+  const createStorage = () => {
+    const items = new Map<string, string>();
+    return {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+    };
+  };
+
+  const entry = (id: string): PendingTransaction => ({
+    id,
+    hash: id,
+    chainId: 31337,
+    contract: VAULT,
+    from: ALICE,
+    nonce: 0,
+    to: VAULT,
+    data: CREATE_CALL,
+    submittedAt: 0,
+    searchFromBlock: 0,
+    status: "pending",
+    records: [],
+  });
+
+  it("persists entries across instances and notifies subscribers", () => {
+    const storage = createStorage();
+    const store = new PendingTransactionStore(storage);
+    let notified = 0;
+    store.subscribe(() => notified++);
+
+    store.add(entry("0x01"));
+    store.add(entry("0x02"));
+    store.update({ ...entry("0x01"), status: "mined" });
+    store.remove("0x02");
+    expect(notified).toBe(4);
+
+    const reloaded = new PendingTransactionStore(storage);
+    expect(reloaded.list()).toEqual([]);
+    reloaded.load();
+    expect(reloaded.list()).toEqual([{ ...entry("0x01"), status: "mined" }]);
+  });
+
+  it("picks up entries another instance saved when loaded again", () => {
+    const storage = createStorage();
+    const store = new PendingTransactionStore(storage);
+    store.load();
+    let notified = 0;
+    store.subscribe(() => notified++);
+
+    new PendingTransactionStore(storage).add(entry("0x01"));
+    store.load();
+    expect(store.list()).toEqual([entry("0x01")]);
+    expect(notified).toBe(1);
+  });
+
+  it("starts empty when the saved entries cannot be read", () => {
+    const storage = createStorage();
+    storage.setItem("energyVault.pendingTransactions", "{not json");
+    const store = new PendingTransactionStore(storage);
+    store.load();
+    expect(store.list()).toEqual([]);
+    const noStorage = new PendingTransactionStore(undefined);
+    noStorage.load();
+    expect(noStorage.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,178 @@
+import { ethers } from "ethers";
+
+// mined: included in a block, waiting for confirmations. replaced: the wallet cancelled it or sent
+// another call with its nonce. A speed-up (same call, higher fee) keeps the entry and follows the new hash.
+export type PendingTransactionStatus = "pending" | "mined" | "confirmed" | "failed" | "replaced";
+
+// Metadata of a record the transaction creates; values are never persisted in clear
+export interface PendingRecordDraft {
+  type: "generation" | "consumption";
+  source: string;
+  measuredFrom: number; // Unix seconds
+  measuredTo: number;
+}
+
+export interface PendingTransaction {
+  id: string; // Hash of the submitted transaction, kept when the wallet speeds it up
+  hash: string; // Hash currently followed
+  chainId: number;
+  contract: string;
+  from: string;
+  nonce: number;
+  to: string;
+  data: string;
+  submittedAt: number; // Unix milliseconds
+  // Replacements are searched from this block on: the nonce was still unused before it
+  searchFromBlock: number;
+  status: PendingTransactionStatus;
+  records: PendingRecordDraft[];
+  recordIds?: string[];
+  blockNumber?: number;
+  replacedBy?: string;
+  error?: string;
+}
+
+// The provider calls the lifecycle checks rely on, all implemented by ethers providers
+export interface TransactionStatusProvider {
+  getBlockNumber(): Promise<number>;
+  getTransactionReceipt(hash: string): Promise<ethers.TransactionReceipt | null>;
+  getTransactionCount(address: string, blockTag: number | "latest"): Promise<number>;
+  getBlock(blockNumber: number, prefetchTxs: true): Promise<ethers.Block | null>;
+}
+
+export interface CheckTransactionOptions {
+  confirmations: number;
+  getRecordIds: (receipt: ethers.TransactionReceipt) => string[];
+}
+
+const sameAddress = (a: string | null | undefined, b: string | null | undefined) =>
+  !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+// Entries of a chain, contract and account, the only ones the connected wallet can follow
+export const isPendingFor = (tx: PendingTransaction, chainId: number | undefined, contract: string, account: string) =>
+  tx.chainId === chainId && sameAddress(tx.contract, contract) && sameAddress(tx.from, account);
+
+export const isFinalStatus = (status: PendingTransactionStatus) =>
+  status === "confirmed" || status === "failed" || status === "replaced";
+
+// The transaction mined with the nonce of `tx`, if it is in a block from searchFromBlock to head. The nonce
+// was unused before searchFromBlock, so the block is the first one after which the account nonce exceeds it.
+async function findNonceTransaction(
+  provider: TransactionStatusProvider,
+  tx: PendingTransaction,
+  head: number,
+): Promise<ethers.TransactionResponse | null> {
+  let low = tx.searchFromBlock;
+  let high = head;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if ((await provider.getTransactionCount(tx.from, middle)) > tx.nonce) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+  const block = await provider.getBlock(low, true);
+  return (
+    block?.prefetchedTransactions.find(
+      (candidate) => sameAddress(candidate.from, tx.from) && candidate.nonce === tx.nonce,
+    ) ?? null
+  );
+}
+
+/**
+ * Move a transaction one step further in its lifecycle. Returns the same object when nothing
+ * changed, so callers can compare by reference.
+ */
+export async function checkTransaction(
+  provider: TransactionStatusProvider,
+  tx: PendingTransaction,
+  options: CheckTransactionOptions,
+): Promise<PendingTransaction> {
+  if (isFinalStatus(tx.status)) return tx;
+
+  const head = await provider.getBlockNumber();
+  const receipt = await provider.getTransactionReceipt(tx.hash);
+  if (receipt) {
+    if (receipt.status === 0) {
+      return { ...tx, status: "failed", blockNumber: receipt.blockNumber, error: "Transaction reverted" };
+    }
+    const status = head - receipt.blockNumber + 1 >= options.confirmations ? "confirmed" : "mined";
+    if (status === tx.status && receipt.blockNumber === tx.blockNumber) return tx;
+    return { ...tx, status, blockNumber: receipt.blockNumber, recordIds: options.getRecordIds(receipt) };
+  }
+
+  const usedNonces = await provider.getTransactionCount(tx.from, "latest");
+  if (usedNonces <= tx.nonce) {
+    // Not mined yet, or mined in a block a reorg dropped
+    if (tx.status === "pending" && tx.searchFromBlock === head) return tx;
+    return { ...tx, status: "pending", blockNumber: undefined, recordIds: undefined, searchFromBlock: head };
+  }
+
+  // Another transaction used the nonce
+  const replacement = await findNonceTransaction(provider, tx, head);
+  if (!replacement) {
+    // Mined between the receipt and the nonce queries, the next check sees its receipt
+    if (await provider.getTransactionReceipt(tx.hash)) return tx;
+    return { ...tx, status: "failed", error: "Transaction dropped" };
+  }
+  if (replacement.hash === tx.hash) return tx;
+  if (sameAddress(replacement.to, tx.to) && replacement.data === tx.data) {
+    return checkTransaction(provider, { ...tx, hash: replacement.hash }, options);
+  }
+  return { ...tx, status: "replaced", replacedBy: replacement.hash, error: "Cancelled or replaced in the wallet" };
+}
+
+export const PENDING_TRANSACTIONS_STORAGE_KEY = "energyVault.pendingTransactions";
+
+/**
+ * Transactions awaiting confirmation, persisted so their optimistic records survive a reload.
+ * Confirmed, cancelled and dismissed entries are removed. The store starts empty and reads the
+ * saved entries on load(), so that server and first client render agree.
+ */
+export class PendingTransactionStore {
+  private entries: PendingTransaction[] = [];
+  private listeners = new Set<() => void>();
+
+  constructor(private readonly storage: Pick<Storage, "getItem" | "setItem"> | undefined) {}
+
+  // Read the saved entries, again whenever another tab changed them
+  load() {
+    try {
+      const saved = this.storage?.getItem(PENDING_TRANSACTIONS_STORAGE_KEY);
+      this.entries = saved ? (JSON.parse(saved) as PendingTransaction[]) : [];
+    } catch {
+      this.entries = [];
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+
+  list(): PendingTransaction[] {
+    return this.entries;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  add(entry: PendingTransaction) {
+    this.save([...this.entries.filter((e) => e.id !== entry.id), entry]);
+  }
+
+  update(entry: PendingTransaction) {
+    this.save(this.entries.map((e) => (e.id === entry.id ? entry : e)));
+  }
+
+  remove(id: string) {
+    this.save(this.entries.filter((e) => e.id !== id));
+  }
+
+  private save(entries: PendingTransaction[]) {
+    this.entries = entries;
+    this.storage?.setItem(PENDING_TRANSACTIONS_STORAGE_KEY, JSON.stringify(entries));
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -2,7 +2,7 @@ import { execSync } from "child_process";
 import * as fs from "fs";
 import * as path from "path";
 
-const CONTRACT_NAMES = ["FHECounter", "EnergyVault"];
+const CONTRACT_NAMES = ["FHECounter", "EnergyVault", "EnergyCredit", "PaymentToken", "EnergyMarket"];
 
 // <root>/packages/fhevm-hardhat-template
 const rel = "..";
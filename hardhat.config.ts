@@ -12,19 +12,23 @@ import "dotenv/config";
 import "solidity-coverage";
 
 import "./tasks/accounts";
+import "./tasks/EnergyCredit";
+import "./tasks/EnergyMarket";
+import "./tasks/EnergyVault";
 import "./tasks/FHECounter";
 
 // Run 'npx hardhat vars setup' to see the list of variables that need to be set
 
 // Provide a safe fallback for Hardhat <2.22 where `vars` is not available
 // Configuration optimized for FHE development
-const vars = (_vars as any) ?? { get: (_name: string, fallback = "") => fallback };
+const vars: Pick<typeof _vars, "get"> = _vars ?? { get: (_name: string, fallback = "") => fallback };
 
 // Prefer environment variables first; fallback to hardhat vars when useful
 const MNEMONIC: string = vars.get("MNEMONIC", "test test test test test test test test test test test junk");
 const INFURA_API_KEY: string = process.env.INFURA_API_KEY ?? vars.get("INFURA_API_KEY", "");
 const SEPOLIA_RPC_URL: string =
-  process.env.SEPOLIA_RPC_URL ?? (INFURA_API_KEY ? `https://sepolia.infura.io/v3/${INFURA_API_KEY}` : "https://rpc.sepolia.org");
+  process.env.SEPOLIA_RPC_URL ??
+  (INFURA_API_KEY ? `https://sepolia.infura.io/v3/${INFURA_API_KEY}` : "https://rpc.sepolia.org");
 const ETHERSCAN_API_KEY: string = process.env.ETHERSCAN_API_KEY ?? vars.get("ETHERSCAN_API_KEY", "");
 const RAW_PRIVATE_KEY: string | undefined = process.env.PRIVATE_KEY || process.env.SEPOLIA_PRIVATE_KEY || undefined;
 const PRIVATE_KEY: string | undefined = RAW_PRIVATE_KEY
@@ -42,9 +46,7 @@ const LOCAL_PRIVATE_KEY: string | undefined = RAW_LOCAL_PRIVATE_KEY
 // Optional EIP-1559 gas overrides for live networks (in gwei)
 const MAX_FEE_PER_GAS_GWEI = process.env.MAX_FEE_PER_GAS_GWEI;
 const MAX_PRIORITY_FEE_PER_GAS_GWEI = process.env.MAX_PRIORITY_FEE_PER_GAS_GWEI;
-const maxFeePerGas = MAX_FEE_PER_GAS_GWEI
-  ? parseUnits(String(MAX_FEE_PER_GAS_GWEI), "gwei")
-  : undefined;
+const maxFeePerGas = MAX_FEE_PER_GAS_GWEI ? parseUnits(String(MAX_FEE_PER_GAS_GWEI), "gwei") : undefined;
 const maxPriorityFeePerGas = MAX_PRIORITY_FEE_PER_GAS_GWEI
   ? parseUnits(String(MAX_PRIORITY_FEE_PER_GAS_GWEI), "gwei")
   : undefined;
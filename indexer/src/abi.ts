@@ -0,0 +1,17 @@
+import { ethers } from "ethers";
+
+/**
+ * EnergyVault events the indexer stores. Every event listed here is kept in the events table;
+ * adding a fragment is enough to index a new event, projections such as records are optional.
+ */
+export const ENERGY_VAULT_EVENTS = [
+  "event RecordCreated(uint256 indexed id, address indexed owner, uint8 recordType, string source, uint256 timestamp, address indexed device, uint256 measuredFrom, uint256 measuredTo)",
+  "event RecordCorrected(uint256 indexed id, address indexed owner, uint256 indexed timestamp)",
+  "event RecordVoided(uint256 indexed id, address indexed owner, uint256 indexed timestamp)",
+  "event AccessGranted(uint256 indexed id, address indexed owner, address indexed grantee)",
+  "event AccessRevoked(uint256 indexed id, address indexed owner, address indexed grantee)",
+  "event DeviceRegistered(address indexed user, address indexed device)",
+  "event DeviceRemoved(address indexed user, address indexed device)",
+];
+
+export const energyVaultInterface = new ethers.Interface(ENERGY_VAULT_EVENTS);
@@ -0,0 +1,6 @@
+export { ENERGY_VAULT_EVENTS, energyVaultInterface } from "./abi";
+export { EnergyVaultIndexer, toIndexedEvent } from "./indexer";
+export type { IndexerOptions } from "./indexer";
+export { createIndexerServer, MAX_PAGE_SIZE } from "./server";
+export { IndexerStore } from "./store";
+export type { BlockRef, IndexedEvent, IndexedRecord, RecordQuery, RecordType } from "./store";
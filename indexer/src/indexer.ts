@@ -0,0 +1,237 @@
+import { ethers } from "ethers";
+import { energyVaultInterface } from "./abi";
+import { BlockRef, IndexedEvent, IndexerStore } from "./store";
+
+export interface IndexerOptions {
+  /** EnergyVault address */
+  address: string;
+  /** Block the contract was deployed in; nothing before it is scanned */
+  startBlock: number;
+  /** Number of blocks requested per eth_getLogs call */
+  batchSize?: number;
+  /** Recent blocks whose hashes are checked again on every sync */
+  reorgDepth?: number;
+  /** Delay between two syncs once started */
+  pollIntervalMs?: number;
+  onError?: (error: unknown) => void;
+}
+
+// Uint256 values beyond 2^53 (never the case for ids, types and timestamps) are kept as strings
+function toJsonValue(value: unknown): string | number | boolean {
+  if (typeof value === "bigint") {
+    return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value.toString();
+  }
+  return value as string | boolean;
+}
+
+export function toIndexedEvent(log: ethers.Log): IndexedEvent | null {
+  const parsed = energyVaultInterface.parseLog(log);
+  if (!parsed) {
+    return null;
+  }
+
+  const args: IndexedEvent["args"] = {};
+  parsed.fragment.inputs.forEach((input, i) => {
+    args[input.name] = toJsonValue(parsed.args[i]);
+  });
+
+  return {
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    logIndex: log.index,
+    transactionHash: log.transactionHash,
+    name: parsed.name,
+    recordId: "id" in args ? Number(args.id) : null,
+    account: ((args.owner ?? args.user) as string | undefined) ?? null,
+    args,
+  };
+}
+
+/**
+ * Backfills EnergyVault events into an IndexerStore and follows the chain head.
+ *
+ * Every sync first compares the stored hashes of recent blocks with the chain. When they differ,
+ * the indexer walks back to the newest stored block that is still canonical and indexes everything
+ * after it again, so records of an abandoned fork disappear and those of the new fork are added.
+ */
+export class EnergyVaultIndexer {
+  readonly address: string;
+  readonly startBlock: number;
+  private readonly batchSize: number;
+  private readonly reorgDepth: number;
+  private readonly pollIntervalMs: number;
+  private readonly onError: (error: unknown) => void;
+
+  private initialized = false;
+  private syncing: Promise<number> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+
+  constructor(
+    private readonly provider: ethers.Provider,
+    private readonly store: IndexerStore,
+    options: IndexerOptions,
+  ) {
+    this.address = ethers.getAddress(options.address);
+    this.startBlock = options.startBlock;
+    this.batchSize = options.batchSize ?? 2000;
+    this.reorgDepth = options.reorgDepth ?? 12;
+    this.pollIntervalMs = options.pollIntervalMs ?? 4000;
+    this.onError = options.onError ?? ((error) => console.error("[indexer] Sync error:", error));
+  }
+
+  /** Index up to the current head. Returns the number of events stored. */
+  sync(): Promise<number> {
+    // Concurrent callers share the running sync instead of indexing the same blocks twice
+    if (!this.syncing) {
+      this.syncing = this.doSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  /** Sync now, then again every pollIntervalMs until stop() */
+  start() {
+    if (this.running) return;
+    this.running = true;
+
+    const tick = async () => {
+      try {
+        await this.sync();
+      } catch (e) {
+        this.onError(e);
+      }
+      if (this.running) {
+        this.timer = setTimeout(tick, this.pollIntervalMs);
+      }
+    };
+    void tick();
+  }
+
+  stop() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async doSync(): Promise<number> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    const forkBlock = await this.findForkBlock();
+    if (forkBlock !== null) {
+      await this.rollback(forkBlock);
+    }
+
+    const head = await this.provider.getBlockNumber();
+    let fromBlock = (this.store.getCheckpoint()?.number ?? this.startBlock - 1) + 1;
+    let indexed = 0;
+
+    while (fromBlock <= head) {
+      const toBlock = Math.min(fromBlock + this.batchSize - 1, head);
+
+      // The checkpoint hash is read before the logs: if a reorg happens in between, the next sync
+      // sees the checkpoint is no longer canonical and indexes the range again
+      const checkpoint = await this.getBlockRef(toBlock);
+      const logs = await this.provider.getLogs({ address: this.address, fromBlock, toBlock });
+      const events = logs
+        .filter((log) => !log.removed)
+        .map(toIndexedEvent)
+        .filter((event): event is IndexedEvent => event !== null);
+
+      this.store.addEvents(events, checkpoint);
+      this.store.pruneBlocks(toBlock - this.reorgDepth);
+      indexed += events.length;
+      fromBlock = toBlock + 1;
+    }
+
+    return indexed;
+  }
+
+  // A database built for another chain, contract or start block is dropped and rebuilt
+  private async initialize() {
+    const { chainId } = await this.provider.getNetwork();
+    const expected: Record<string, string> = {
+      chainId: chainId.toString(),
+      address: this.address,
+      startBlock: this.startBlock.toString(),
+    };
+
+    if (Object.entries(expected).some(([key, value]) => this.store.getMeta(key) !== value)) {
+      this.store.reset();
+      Object.entries(expected).forEach(([key, value]) => this.store.setMeta(key, value));
+    }
+    this.initialized = true;
+  }
+
+  private async getBlockRef(blockNumber: number): Promise<BlockRef> {
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block?.hash) {
+      throw new Error(`Block ${blockNumber} is not available`);
+    }
+    return { number: block.number, hash: block.hash };
+  }
+
+  private async isCanonical(block: BlockRef): Promise<boolean> {
+    const onChain = await this.provider.getBlock(block.number);
+    return onChain?.hash === block.hash;
+  }
+
+  /**
+   * The first block to index again, or null when the stored blocks are still canonical.
+   * Stored blocks within reorgDepth of the checkpoint are all checked, which also catches logs
+   * read from another fork than their checkpoint; older ones only while looking for the newest
+   * canonical block below a fork.
+   */
+  private async findForkBlock(): Promise<number | null> {
+    const checkpoint = this.store.getCheckpoint();
+    if (!checkpoint) {
+      return null;
+    }
+
+    // The checkpoint is the newest stored block
+    const windowStart = checkpoint.number - this.reorgDepth;
+    let forkBlock: number | null = null;
+    let canonicalBelowFork: BlockRef | null = null;
+    for (const block of this.store.getBlocks(checkpoint.number, this.reorgDepth)) {
+      if (block.number <= windowStart) break;
+      if (!(await this.isCanonical(block))) {
+        forkBlock = block.number;
+        canonicalBelowFork = null;
+      } else if (forkBlock !== null && canonicalBelowFork === null) {
+        canonicalBelowFork = block;
+      }
+    }
+    if (forkBlock === null) {
+      return null;
+    }
+    if (canonicalBelowFork !== null) {
+      return canonicalBelowFork.number + 1;
+    }
+
+    // Walk further back until a stored block is canonical; without one, index from the start again
+    let below = windowStart;
+    for (;;) {
+      const stored = this.store.getBlocks(below, 100);
+      if (stored.length === 0) {
+        return this.startBlock;
+      }
+      for (const block of stored) {
+        if (await this.isCanonical(block)) {
+          return block.number + 1;
+        }
+      }
+      below = stored[stored.length - 1].number - 1;
+    }
+  }
+
+  private async rollback(fromBlock: number) {
+    console.warn(`[indexer] Reorg detected, indexing again from block ${fromBlock}`);
+    const checkpoint = fromBlock > this.startBlock ? await this.getBlockRef(fromBlock - 1) : null;
+    this.store.rollback(fromBlock, checkpoint);
+  }
+}
@@ -0,0 +1,80 @@
+import fs from "node:fs";
+import path from "node:path";
+import { ethers } from "ethers";
+import { EnergyVaultIndexer } from "./indexer";
+import { createIndexerServer } from "./server";
+import { IndexerStore } from "./store";
+
+/**
+ * Runs the indexer and its HTTP API. Configuration comes from the environment:
+ *
+ *   INDEXER_RPC_URL           JSON-RPC endpoint (default http://127.0.0.1:8545, the hardhat node)
+ *   INDEXER_NETWORK           hardhat-deploy network the contract is read from (default localhost)
+ *   INDEXER_CONTRACT_ADDRESS  EnergyVault address, instead of the deployment
+ *   INDEXER_START_BLOCK       first block to scan (default the deployment block, else 0)
+ *   INDEXER_DATABASE          SQLite file (default indexer.sqlite)
+ *   INDEXER_PORT              HTTP port (default 4000)
+ *   INDEXER_POLL_INTERVAL_MS  delay between syncs (default 4000)
+ *   INDEXER_REORG_DEPTH       recent blocks checked for reorgs on every sync (default 12)
+ */
+function readDeployment(network: string): { address: string; blockNumber?: number } | undefined {
+  const file = path.resolve(__dirname, "..", "..", "deployments", network, "EnergyVault.json");
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  const deployment = JSON.parse(fs.readFileSync(file, "utf-8"));
+  return { address: deployment.address, blockNumber: deployment.receipt?.blockNumber };
+}
+
+function readInteger(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative integer`);
+  }
+  return parsed;
+}
+
+async function main() {
+  const network = process.env.INDEXER_NETWORK ?? "localhost";
+  const deployment = readDeployment(network);
+  const address = process.env.INDEXER_CONTRACT_ADDRESS ?? deployment?.address;
+  if (!address) {
+    throw new Error(`No EnergyVault deployment for ${network}: deploy it or set INDEXER_CONTRACT_ADDRESS`);
+  }
+
+  const provider = new ethers.JsonRpcProvider(process.env.INDEXER_RPC_URL ?? "http://127.0.0.1:8545");
+  const store = new IndexerStore(process.env.INDEXER_DATABASE ?? "indexer.sqlite");
+  const indexer = new EnergyVaultIndexer(provider, store, {
+    address,
+    startBlock: readInteger("INDEXER_START_BLOCK", deployment?.address === address ? (deployment.blockNumber ?? 0) : 0),
+    pollIntervalMs: readInteger("INDEXER_POLL_INTERVAL_MS", 4000),
+    reorgDepth: readInteger("INDEXER_REORG_DEPTH", 12),
+  });
+
+  console.log(`Indexing EnergyVault ${indexer.address} from block ${indexer.startBlock}...`);
+  await indexer.sync();
+  indexer.start();
+
+  const port = readInteger("INDEXER_PORT", 4000);
+  const server = createIndexerServer(store);
+  server.listen(port, () => console.log(`Indexer API listening on http://localhost:${port}`));
+
+  const shutdown = () => {
+    indexer.stop();
+    server.close(() => {
+      store.close();
+      provider.destroy();
+    });
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
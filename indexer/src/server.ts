@@ -0,0 +1,135 @@
+import http from "node:http";
+import { ethers } from "ethers";
+import { IndexerStore, RecordQuery } from "./store";
+
+// Same bound as EnergyVault.MAX_PAGE_SIZE
+export const MAX_PAGE_SIZE = 100;
+const DEFAULT_PAGE_SIZE = 50;
+
+class BadRequestError extends Error {}
+
+function parseInteger(params: URLSearchParams, name: string, fallback?: number): number | undefined {
+  const value = params.get(name);
+  if (value === null || value === "") {
+    return fallback;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new BadRequestError(`Invalid ${name}: ${value}`);
+  }
+  return Number(value);
+}
+
+function parseRecordQuery(params: URLSearchParams): RecordQuery {
+  const type = params.get("type") ?? undefined;
+  if (type !== undefined && type !== "generation" && type !== "consumption") {
+    throw new BadRequestError(`Invalid type: ${type}`);
+  }
+
+  const limit = parseInteger(params, "limit", DEFAULT_PAGE_SIZE)!;
+  if (limit === 0 || limit > MAX_PAGE_SIZE) {
+    throw new BadRequestError(`Invalid limit: must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  return {
+    type,
+    from: parseInteger(params, "from"),
+    to: parseInteger(params, "to"),
+    offset: parseInteger(params, "offset", 0)!,
+    limit,
+  };
+}
+
+function parseRecordId(value: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new BadRequestError(`Invalid record id: ${value}`);
+  }
+  return Number(value);
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    // The frontend queries the indexer from the browser, on another origin
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Read-only JSON API over the indexed data:
+ *
+ *   GET /status                        chain, contract and last indexed block
+ *   GET /users/:address/records        records of an owner, newest first
+ *                                      (?type=generation|consumption&from=&to=&offset=&limit=)
+ *   GET /records/:id                   metadata of one record
+ *   GET /records/:id/events            events about one record, oldest first
+ *
+ * Timestamps are unix seconds; from/to filter on the end of the measurement interval.
+ */
+export function createIndexerServer(store: IndexerStore): http.Server {
+  const routes: [RegExp, (match: RegExpMatchArray, params: URLSearchParams) => [number, unknown]][] = [
+    [
+      /^\/status$/,
+      () => [
+        200,
+        {
+          chainId: store.getMeta("chainId") ?? null,
+          address: store.getMeta("address") ?? null,
+          startBlock: Number(store.getMeta("startBlock") ?? 0),
+          lastBlock: store.getCheckpoint()?.number ?? null,
+        },
+      ],
+    ],
+    [
+      /^\/users\/([^/]+)\/records$/,
+      ([, address], params) => {
+        if (!ethers.isAddress(address)) {
+          throw new BadRequestError(`Invalid address: ${address}`);
+        }
+        const query = parseRecordQuery(params);
+        const { total, records } = store.getUserRecords(ethers.getAddress(address), query);
+        return [200, { total, offset: query.offset, limit: query.limit, records }];
+      },
+    ],
+    [
+      /^\/records\/([^/]+)$/,
+      ([, id]) => {
+        const record = store.getRecord(parseRecordId(id));
+        return record ? [200, record] : [404, { error: "Record not found" }];
+      },
+    ],
+    [/^\/records\/([^/]+)\/events$/, ([, id]) => [200, { events: store.getRecordEvents(parseRecordId(id)) }]],
+  ];
+
+  return http.createServer((req, res) => {
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, { "Access-Control-Allow-Origin": "*", "Access-Control-Allow-Methods": "GET" });
+      res.end();
+      return;
+    }
+    if (req.method !== "GET") {
+      sendJson(res, 405, { error: "Method not allowed" });
+      return;
+    }
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+    try {
+      for (const [pattern, handler] of routes) {
+        const match = url.pathname.match(pattern);
+        if (match) {
+          const [status, body] = handler(match, url.searchParams);
+          sendJson(res, status, body);
+          return;
+        }
+      }
+      sendJson(res, 404, { error: "Not found" });
+    } catch (e) {
+      if (e instanceof BadRequestError) {
+        sendJson(res, 400, { error: e.message });
+      } else {
+        console.error("[indexer] Request error:", e);
+        sendJson(res, 500, { error: "Internal error" });
+      }
+    }
+  });
+}
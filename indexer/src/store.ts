@@ -0,0 +1,296 @@
+import Database from "better-sqlite3";
+
+export type RecordType = "generation" | "consumption";
+
+/** An EnergyVault event decoded from a log, with its arguments in JSON-safe form */
+export interface IndexedEvent {
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  transactionHash: string;
+  name: string;
+  recordId: number | null;
+  account: string | null;
+  args: Record<string, string | number | boolean>;
+}
+
+export interface BlockRef {
+  number: number;
+  hash: string;
+}
+
+/** Record metadata as returned by EnergyVault.getRecordsMetadata, plus where it was indexed from */
+export interface IndexedRecord {
+  id: string;
+  recordType: RecordType;
+  source: string;
+  timestamp: number;
+  owner: string;
+  device: string;
+  measuredFrom: number;
+  measuredTo: number;
+  isVoided: boolean;
+  corrections: number;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface RecordQuery {
+  type?: RecordType;
+  from?: number;
+  to?: number;
+  offset: number;
+  limit: number;
+}
+
+type RecordRow = {
+  id: number;
+  owner: string;
+  record_type: number;
+  source: string;
+  timestamp: number;
+  device: string;
+  measured_from: number;
+  measured_to: number;
+  block_number: number;
+  transaction_hash: string;
+  is_voided: number;
+  corrections: number;
+};
+
+type EventRow = {
+  block_number: number;
+  log_index: number;
+  transaction_hash: string;
+  name: string;
+  args: string;
+};
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  -- Hashes of the blocks events were indexed from and of recent checkpoints, compared with the chain
+  -- to find where a reorg forked
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    name TEXT NOT NULL,
+    record_id INTEGER,
+    account TEXT,
+    args TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_record ON events (record_id, name);
+  CREATE INDEX IF NOT EXISTS events_by_account ON events (account, name);
+
+  -- Projection of RecordCreated; voids and corrections are read from the events table
+  CREATE TABLE IF NOT EXISTS records (
+    id INTEGER PRIMARY KEY,
+    owner TEXT NOT NULL,
+    record_type INTEGER NOT NULL,
+    source TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    device TEXT NOT NULL,
+    measured_from INTEGER NOT NULL,
+    measured_to INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS records_by_owner ON records (owner, id);
+`;
+
+const RECORD_COLUMNS = `
+  records.*,
+  EXISTS (SELECT 1 FROM events WHERE events.record_id = records.id AND events.name = 'RecordVoided') AS is_voided,
+  (SELECT COUNT(*) FROM events WHERE events.record_id = records.id AND events.name = 'RecordCorrected') AS corrections
+`;
+
+function toIndexedRecord(row: RecordRow): IndexedRecord {
+  return {
+    id: row.id.toString(),
+    recordType: row.record_type === 0 ? "generation" : "consumption",
+    source: row.source,
+    timestamp: row.timestamp,
+    owner: row.owner,
+    device: row.device,
+    measuredFrom: row.measured_from,
+    measuredTo: row.measured_to,
+    isVoided: row.is_voided === 1,
+    corrections: row.corrections,
+    blockNumber: row.block_number,
+    transactionHash: row.transaction_hash,
+  };
+}
+
+/**
+ * SQLite storage of the indexed events. Everything derived from a block is deleted together
+ * when the block is rolled back, so a reorg never leaves records of an abandoned fork behind.
+ */
+export class IndexerStore {
+  private readonly db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  getMeta(key: string): string | undefined {
+    const row = this.db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | undefined;
+    return row?.value;
+  }
+
+  setMeta(key: string, value: string) {
+    this.db
+      .prepare("INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value")
+      .run(key, value);
+  }
+
+  /** Drop every indexed block, e.g. when the indexer is pointed at another chain or contract */
+  reset() {
+    this.db.exec("DELETE FROM records; DELETE FROM events; DELETE FROM blocks; DELETE FROM meta;");
+  }
+
+  /** The last block indexed, up to which the events table is complete */
+  getCheckpoint(): BlockRef | null {
+    const number = this.getMeta("checkpointNumber");
+    const hash = this.getMeta("checkpointHash");
+    return number !== undefined && hash !== undefined ? { number: Number(number), hash } : null;
+  }
+
+  /** Stored block hashes at or below a block, newest first */
+  getBlocks(toBlock: number, limit: number): BlockRef[] {
+    return this.db
+      .prepare("SELECT number, hash FROM blocks WHERE number <= ? ORDER BY number DESC LIMIT ?")
+      .all(toBlock, limit) as BlockRef[];
+  }
+
+  /** Store the events of a range of blocks and move the checkpoint to its last block, atomically */
+  addEvents(events: IndexedEvent[], checkpoint: BlockRef) {
+    const insertBlock = this.db.prepare("INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)");
+    const insertEvent = this.db.prepare(
+      `INSERT OR REPLACE INTO events (block_number, log_index, transaction_hash, name, record_id, account, args)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    );
+    const insertRecord = this.db.prepare(
+      `INSERT OR REPLACE INTO records
+         (id, owner, record_type, source, timestamp, device, measured_from, measured_to, block_number, transaction_hash)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+
+    this.db.transaction(() => {
+      for (const event of events) {
+        insertBlock.run(event.blockNumber, event.blockHash);
+        insertEvent.run(
+          event.blockNumber,
+          event.logIndex,
+          event.transactionHash,
+          event.name,
+          event.recordId,
+          event.account,
+          JSON.stringify(event.args),
+        );
+        if (event.name === "RecordCreated") {
+          const { args } = event;
+          insertRecord.run(
+            event.recordId,
+            args.owner,
+            args.recordType,
+            args.source,
+            args.timestamp,
+            args.device,
+            args.measuredFrom,
+            args.measuredTo,
+            event.blockNumber,
+            event.transactionHash,
+          );
+        }
+      }
+      insertBlock.run(checkpoint.number, checkpoint.hash);
+      this.setMeta("checkpointNumber", checkpoint.number.toString());
+      this.setMeta("checkpointHash", checkpoint.hash);
+    })();
+  }
+
+  /** Forget the hashes of old checkpoints; those of blocks with events are kept */
+  pruneBlocks(belowBlock: number) {
+    this.db
+      .prepare("DELETE FROM blocks WHERE number < ? AND number NOT IN (SELECT block_number FROM events)")
+      .run(belowBlock);
+  }
+
+  /** Forget everything indexed from a block on; the next sync indexes these blocks again */
+  rollback(fromBlock: number, checkpoint: BlockRef | null) {
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM records WHERE block_number >= ?").run(fromBlock);
+      this.db.prepare("DELETE FROM events WHERE block_number >= ?").run(fromBlock);
+      this.db.prepare("DELETE FROM blocks WHERE number >= ?").run(fromBlock);
+      if (checkpoint) {
+        this.setMeta("checkpointNumber", checkpoint.number.toString());
+        this.setMeta("checkpointHash", checkpoint.hash);
+      } else {
+        this.db.prepare("DELETE FROM meta WHERE key IN ('checkpointNumber', 'checkpointHash')").run();
+      }
+    })();
+  }
+
+  getRecord(id: number): IndexedRecord | null {
+    const row = this.db.prepare(`SELECT ${RECORD_COLUMNS} FROM records WHERE id = ?`).get(id) as RecordRow | undefined;
+    return row ? toIndexedRecord(row) : null;
+  }
+
+  /**
+   * Records of an owner, newest first. Like EnergyVault.getUserRecordsInRange, the date range
+   * applies to the end of the measurement interval and is inclusive.
+   */
+  getUserRecords(owner: string, query: RecordQuery): { total: number; records: IndexedRecord[] } {
+    const conditions = ["owner = @owner"];
+    if (query.type !== undefined) conditions.push("record_type = @recordType");
+    if (query.from !== undefined) conditions.push("measured_to >= @from");
+    if (query.to !== undefined) conditions.push("measured_to <= @to");
+    const where = conditions.join(" AND ");
+    const params = {
+      owner,
+      recordType: query.type === "consumption" ? 1 : 0,
+      from: query.from ?? 0,
+      to: query.to ?? 0,
+      offset: query.offset,
+      limit: query.limit,
+    };
+
+    const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM records WHERE ${where}`).get(params) as {
+      total: number;
+    };
+    const rows = this.db
+      .prepare(`SELECT ${RECORD_COLUMNS} FROM records WHERE ${where} ORDER BY id DESC LIMIT @limit OFFSET @offset`)
+      .all(params) as RecordRow[];
+    return { total, records: rows.map(toIndexedRecord) };
+  }
+
+  /** Every indexed event about a record, oldest first */
+  getRecordEvents(id: number) {
+    const rows = this.db
+      .prepare("SELECT * FROM events WHERE record_id = ? ORDER BY block_number, log_index")
+      .all(id) as EventRow[];
+    return rows.map((row) => ({
+      name: row.name,
+      blockNumber: row.block_number,
+      logIndex: row.log_index,
+      transactionHash: row.transaction_hash,
+      args: JSON.parse(row.args) as IndexedEvent["args"],
+    }));
+  }
+}
@@ -0,0 +1,136 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import {
+  EnergyValueFormat,
+  decodeEnergyValue,
+  encodeEnergyValue,
+  formatEnergy,
+  toEnergyValueFormat,
+} from "../frontend/lib/energyUnits";
+
+/**
+ * Tutorial: Earn and transfer energy credits locally (--network localhost)
+ * ========================================================================
+ *
+ * 1. Deploy EnergyVault and EnergyCredit, then record some generation as signer #0
+ *
+ *   npx hardhat --network localhost deploy
+ *   npx hardhat --network localhost task:vault-create-generation --source "Solar Panel" --value 120
+ *
+ * 2. Check the minted credits and send some of them to signer #1
+ *
+ *   npx hardhat --network localhost task:credit-balance
+ *   npx hardhat --network localhost task:credit-transfer --to 1 --value 40
+ *   npx hardhat --network localhost task:credit-balance --signer-index 1
+ *
+ */
+
+async function getEnergyCredit(hre: HardhatRuntimeEnvironment, taskArguments: TaskArguments) {
+  const { ethers, deployments } = hre;
+
+  const EnergyCreditDeployement = taskArguments.address
+    ? { address: taskArguments.address }
+    : await deployments.get("EnergyCredit");
+  console.log(`EnergyCredit: ${EnergyCreditDeployement.address}`);
+
+  const signers = await ethers.getSigners();
+  const signerIndex = parseInt(taskArguments.signerIndex ?? "0");
+  if (!Number.isInteger(signerIndex) || signerIndex < 0 || signerIndex >= signers.length) {
+    throw new Error(`Argument --signer-index is out of range (${signers.length} signers available)`);
+  }
+  const signer = signers[signerIndex];
+
+  const energyCreditContract = await ethers.getContractAt("EnergyCredit", EnergyCreditDeployement.address);
+  const energyVaultContract = await ethers.getContractAt("EnergyVault", await energyCreditContract.minter());
+
+  // Credits use the unit and precision of the minting vault
+  const format: EnergyValueFormat = toEnergyValueFormat(
+    await energyVaultContract.valueUnit(),
+    await energyVaultContract.valueDecimals(),
+  );
+
+  return { energyCreditAddress: EnergyCreditDeployement.address, energyCreditContract, signers, signer, format };
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:credit-balance
+ */
+task("task:credit-balance", "Decrypts the EnergyCredit balance of a signer")
+  .addOptionalParam("address", "Optionally specify the EnergyCredit contract address")
+  .addOptionalParam("signerIndex", "Index of the signer whose balance is decrypted", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { energyCreditAddress, energyCreditContract, signer, format } = await getEnergyCredit(hre, taskArguments);
+
+    const encryptedBalance = await energyCreditContract.confidentialBalanceOf(signer.address);
+    const balance =
+      encryptedBalance === ethers.ZeroHash
+        ? 0n
+        : await fhevm.userDecryptEuint(FhevmType.euint64, encryptedBalance, energyCreditAddress, signer);
+    console.log(`Credit balance of ${signer.address}: ${formatEnergy(decodeEnergyValue(balance, format), format)}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:credit-transfer --to 1 --value 40
+ */
+task("task:credit-transfer", "Calls the confidentialTransfer() function of EnergyCredit Contract")
+  .addOptionalParam("address", "Optionally specify the EnergyCredit contract address")
+  .addOptionalParam("signerIndex", "Index of the sending signer", "0")
+  .addParam("to", "The receiver address, or the index of a signer")
+  .addParam("value", "The amount of credits to send, in the unit of the vault")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { energyCreditAddress, energyCreditContract, signers, signer, format } = await getEnergyCredit(
+      hre,
+      taskArguments,
+    );
+
+    const to: string = ethers.isAddress(taskArguments.to)
+      ? taskArguments.to
+      : signers[parseInt(taskArguments.to)]?.address;
+    if (!to) {
+      throw new Error(`Argument --to is neither an address nor a signer index`);
+    }
+
+    let amount: bigint;
+    try {
+      amount = encodeEnergyValue(Number(taskArguments.value), format);
+    } catch (e) {
+      throw new Error(`Argument --value is invalid: ${(e as Error).message}`);
+    }
+
+    const encryptedAmount = await fhevm
+      .createEncryptedInput(energyCreditAddress, signer.address)
+      .add64(amount)
+      .encrypt();
+
+    const tx = await energyCreditContract
+      .connect(signer)
+      ["confidentialTransfer(address,bytes32,bytes)"](to, encryptedAmount.handles[0], encryptedAmount.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    // A too low balance is not revealed: the transfer then moves zero
+    for (const log of receipt?.logs ?? []) {
+      const parsed = energyCreditContract.interface.parseLog(log);
+      if (parsed?.name === "ConfidentialTransfer") {
+        const transferred = await fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          parsed.args.amount,
+          energyCreditAddress,
+          signer,
+        );
+        console.log(`Transferred ${formatEnergy(decodeEnergyValue(transferred, format), format)} to ${to}`);
+      }
+    }
+  });
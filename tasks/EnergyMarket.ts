@@ -0,0 +1,347 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import {
+  EnergyValueFormat,
+  decodeEnergyValue,
+  encodeEnergyValue,
+  formatEnergy,
+  toEnergyValueFormat,
+} from "../frontend/lib/energyUnits";
+
+/**
+ * Tutorial: Trade energy credits locally (--network localhost)
+ * ============================================================
+ *
+ * 1. Deploy the contracts, record some generation as signer #0 to earn credits, and issue payment
+ *    tokens to signer #1
+ *
+ *   npx hardhat --network localhost deploy
+ *   npx hardhat --network localhost task:vault-create-generation --source "Solar Panel" --value 120
+ *   npx hardhat --network localhost task:market-issue --to 1 --value 5000
+ *
+ * 2. Approve the market on some credits and sell them
+ *
+ *   npx hardhat --network localhost task:market-approve --token credit --value 50
+ *   npx hardhat --network localhost task:market-offer --value 50 --price 25
+ *
+ * 3. Approve the market on the payment and bid as signer #1, then accept as signer #0
+ *
+ *   npx hardhat --network localhost task:market-approve --token payment --value 500 --signer-index 1
+ *   npx hardhat --network localhost task:market-bid --offer 0 --value 20 --signer-index 1
+ *   npx hardhat --network localhost task:market-accept --bid 0
+ *   npx hardhat --network localhost task:market-book --signer-index 1
+ *
+ */
+
+const BID_STATUS_NAMES = ["OPEN", "ACCEPTED", "CANCELLED"];
+
+function parseId(name: string, value: string | undefined): number {
+  const id = parseInt(value ?? "");
+  if (!Number.isInteger(id) || id < 0) {
+    throw new Error(`Argument --${name} is not a positive integer`);
+  }
+  return id;
+}
+
+async function getEnergyMarket(hre: HardhatRuntimeEnvironment, taskArguments: TaskArguments) {
+  const { ethers, deployments } = hre;
+
+  const EnergyMarketDeployement = taskArguments.address
+    ? { address: taskArguments.address }
+    : await deployments.get("EnergyMarket");
+  console.log(`EnergyMarket: ${EnergyMarketDeployement.address}`);
+
+  const signers = await ethers.getSigners();
+  const signerIndex = parseInt(taskArguments.signerIndex ?? "0");
+  if (!Number.isInteger(signerIndex) || signerIndex < 0 || signerIndex >= signers.length) {
+    throw new Error(`Argument --signer-index is out of range (${signers.length} signers available)`);
+  }
+  const signer = signers[signerIndex];
+
+  const energyMarketContract = await ethers.getContractAt("EnergyMarket", EnergyMarketDeployement.address);
+  const energyCreditContract = await ethers.getContractAt("EnergyCredit", await energyMarketContract.creditToken());
+  const paymentTokenContract = await ethers.getContractAt("PaymentToken", await energyMarketContract.paymentToken());
+  const energyVaultContract = await ethers.getContractAt("EnergyVault", await energyCreditContract.minter());
+
+  // Credits use the unit and precision of the vault
+  const format: EnergyValueFormat = toEnergyValueFormat(
+    await energyVaultContract.valueUnit(),
+    await energyVaultContract.valueDecimals(),
+  );
+
+  return {
+    energyMarketAddress: EnergyMarketDeployement.address,
+    energyMarketContract,
+    energyCreditContract,
+    paymentTokenContract,
+    signers,
+    signer,
+    format,
+  };
+}
+
+function parseAmount(taskArguments: TaskArguments, format: EnergyValueFormat): bigint {
+  try {
+    return encodeEnergyValue(Number(taskArguments.value), format);
+  } catch (e) {
+    throw new Error(`Argument --value is invalid: ${(e as Error).message}`);
+  }
+}
+
+// Payment amounts are integers in base units of the payment token
+function parsePayment(value: string | undefined): bigint {
+  if (!/^\d+$/.test(value ?? "")) {
+    throw new Error(`Argument --value is not a positive integer`);
+  }
+  return BigInt(value!);
+}
+
+async function decryptBalance(
+  hre: HardhatRuntimeEnvironment,
+  token: { confidentialBalanceOf(account: string): Promise<string>; getAddress(): Promise<string> },
+  signer: HardhatEthersSigner,
+): Promise<bigint> {
+  const encryptedBalance = await token.confidentialBalanceOf(signer.address);
+  if (encryptedBalance === hre.ethers.ZeroHash) {
+    return 0n;
+  }
+  return hre.fhevm.userDecryptEuint(FhevmType.euint64, encryptedBalance, await token.getAddress(), signer);
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:market-issue --to 1 --value 5000
+ */
+task("task:market-issue", "Calls the issue() function of the PaymentToken Contract used by EnergyMarket")
+  .addOptionalParam("address", "Optionally specify the EnergyMarket contract address")
+  .addOptionalParam("signerIndex", "Index of the signer issuing the tokens (the deployer)", "0")
+  .addParam("to", "Index of the signer receiving the tokens")
+  .addParam("value", "The amount of payment tokens, in base units")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    const amount = parsePayment(taskArguments.value);
+
+    await fhevm.initializeCLIApi();
+
+    const { paymentTokenContract, signers, signer } = await getEnergyMarket(hre, taskArguments);
+    const to = signers[parseId("to", taskArguments.to)];
+    if (!to) {
+      throw new Error(`Argument --to is out of range (${signers.length} signers available)`);
+    }
+
+    const encryptedAmount = await fhevm
+      .createEncryptedInput(await paymentTokenContract.getAddress(), signer.address)
+      .add64(amount)
+      .encrypt();
+
+    const tx = await paymentTokenContract
+      .connect(signer)
+      .issue(to.address, encryptedAmount.handles[0], encryptedAmount.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`Payment balance of ${to.address}: ${await decryptBalance(hre, paymentTokenContract, to)}`);
+  });
+
+/**
+ * Offers escrow approved credits and bids escrow approved payment tokens, so approve the market first.
+ * An approval replaces the previous one.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:market-approve --token credit --value 50
+ *   - npx hardhat --network localhost task:market-approve --token payment --value 500 --signer-index 1
+ */
+task("task:market-approve", "Calls the approve() function of EnergyCredit or of the PaymentToken for EnergyMarket")
+  .addOptionalParam("address", "Optionally specify the EnergyMarket contract address")
+  .addOptionalParam("signerIndex", "Index of the approving signer", "0")
+  .addParam("token", "The token to approve: credit or payment")
+  .addParam("value", "The allowance, in the unit of the vault for credits and in base units for payments")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    if (taskArguments.token !== "credit" && taskArguments.token !== "payment") {
+      throw new Error(`Argument --token must be credit or payment`);
+    }
+
+    await fhevm.initializeCLIApi();
+
+    const { energyMarketAddress, energyCreditContract, paymentTokenContract, signer, format } = await getEnergyMarket(
+      hre,
+      taskArguments,
+    );
+    const isCredit = taskArguments.token === "credit";
+    const token = isCredit ? energyCreditContract : paymentTokenContract;
+    const amount = isCredit ? parseAmount(taskArguments, format) : parsePayment(taskArguments.value);
+
+    const encryptedAmount = await fhevm
+      .createEncryptedInput(await token.getAddress(), signer.address)
+      .add64(amount)
+      .encrypt();
+
+    const tx = await token
+      .connect(signer)
+      .approve(energyMarketAddress, encryptedAmount.handles[0], encryptedAmount.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:market-offer --value 50 --price 25
+ */
+task("task:market-offer", "Calls the createOffer() function of EnergyMarket Contract")
+  .addOptionalParam("address", "Optionally specify the EnergyMarket contract address")
+  .addOptionalParam("signerIndex", "Index of the selling signer", "0")
+  .addParam("value", "The amount of credits offered, in the unit of the vault")
+  .addParam("price", "The public asking price per unit, in payment token base units")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { energyMarketAddress, energyMarketContract, signer, format } = await getEnergyMarket(hre, taskArguments);
+    const amount = parseAmount(taskArguments, format);
+    const price = BigInt(taskArguments.price);
+
+    const encryptedAmount = await fhevm
+      .createEncryptedInput(energyMarketAddress, signer.address)
+      .add64(amount)
+      .encrypt();
+
+    const tx = await energyMarketContract
+      .connect(signer)
+      .createOffer(encryptedAmount.handles[0], encryptedAmount.inputProof, price);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    for (const log of receipt?.logs ?? []) {
+      const parsed = energyMarketContract.interface.parseLog(log);
+      if (parsed?.name === "OfferCreated") {
+        console.log(`Offer id: ${parsed.args.id}`);
+      }
+    }
+    // An insufficient balance or allowance is not revealed: the offer is then listed empty
+    console.log(`Offered ${formatEnergy(decodeEnergyValue(amount, format), format)} at ${price} per ${format.unit}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:market-bid --offer 0 --value 20 --signer-index 1
+ */
+task("task:market-bid", "Calls the placeBid() function of EnergyMarket Contract")
+  .addOptionalParam("address", "Optionally specify the EnergyMarket contract address")
+  .addOptionalParam("signerIndex", "Index of the buying signer", "0")
+  .addParam("offer", "The offer id")
+  .addParam("value", "The amount of credits wanted, in the unit of the vault")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    const offerId = parseId("offer", taskArguments.offer);
+
+    await fhevm.initializeCLIApi();
+
+    const { energyMarketAddress, energyMarketContract, signer, format } = await getEnergyMarket(hre, taskArguments);
+    const amount = parseAmount(taskArguments, format);
+
+    const encryptedAmount = await fhevm
+      .createEncryptedInput(energyMarketAddress, signer.address)
+      .add64(amount)
+      .encrypt();
+
+    const tx = await energyMarketContract
+      .connect(signer)
+      .placeBid(offerId, encryptedAmount.handles[0], encryptedAmount.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    for (const log of receipt?.logs ?? []) {
+      const parsed = energyMarketContract.interface.parseLog(log);
+      if (parsed?.name === "BidPlaced") {
+        console.log(`Bid id: ${parsed.args.id}`);
+      }
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:market-accept --bid 0
+ */
+task("task:market-accept", "Calls the acceptBid() function of EnergyMarket Contract")
+  .addOptionalParam("address", "Optionally specify the EnergyMarket contract address")
+  .addOptionalParam("signerIndex", "Index of the selling signer", "0")
+  .addParam("bid", "The bid id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    const bidId = parseId("bid", taskArguments.bid);
+
+    await fhevm.initializeCLIApi();
+
+    const { energyMarketAddress, energyMarketContract, signer, format } = await getEnergyMarket(hre, taskArguments);
+
+    const tx = await energyMarketContract.connect(signer).acceptBid(bidId);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    // The settled amounts are only readable by the buyer: the seller sees what is left on the offer
+    const [, offerId] = await energyMarketContract.getBid(bidId);
+    const remainingHandle = await energyMarketContract.connect(signer).getOfferRemaining(offerId);
+    const remaining = await fhevm.userDecryptEuint(FhevmType.euint64, remainingHandle, energyMarketAddress, signer);
+    console.log(
+      `Bid #${bidId} settled, ${formatEnergy(decodeEnergyValue(remaining, format), format)} left on offer #${offerId}`,
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:market-book
+ */
+task("task:market-book", "Lists the open EnergyMarket offers and the bids of a signer")
+  .addOptionalParam("address", "Optionally specify the EnergyMarket contract address")
+  .addOptionalParam("signerIndex", "Index of the signer whose balances and bids are decrypted", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { energyMarketAddress, energyMarketContract, energyCreditContract, paymentTokenContract, signer, format } =
+      await getEnergyMarket(hre, taskArguments);
+
+    const offerIds = await energyMarketContract.getOpenOfferIds();
+    console.log(`${offerIds.length} open offer(s)`);
+    for (const offerId of [...offerIds].sort((a, b) => Number(a - b))) {
+      const [, seller, price, createdAt] = await energyMarketContract.getOffer(offerId);
+      const bidCount = (await energyMarketContract.getOfferBidIds(offerId)).length;
+      const listed = new Date(Number(createdAt) * 1000).toISOString();
+      console.log(`  #${offerId} ${seller} ${price} per ${format.unit}, ${bidCount} bid(s), listed ${listed}`);
+    }
+
+    const credits = await decryptBalance(hre, energyCreditContract, signer);
+    const payments = await decryptBalance(hre, paymentTokenContract, signer);
+    console.log(
+      `Balances of ${signer.address}: ${formatEnergy(decodeEnergyValue(credits, format), format)} of credits, ` +
+        `${payments} payment tokens`,
+    );
+
+    for (const bidId of await energyMarketContract.getUserBidIds(signer.address)) {
+      const [, offerId, , , status] = await energyMarketContract.getBid(bidId);
+      const [amountHandle, filledHandle] = await energyMarketContract.connect(signer).getBidAmounts(bidId);
+      const amount = await fhevm.userDecryptEuint(FhevmType.euint64, amountHandle, energyMarketAddress, signer);
+      const filled =
+        filledHandle === ethers.ZeroHash
+          ? 0n
+          : await fhevm.userDecryptEuint(FhevmType.euint64, filledHandle, energyMarketAddress, signer);
+      console.log(
+        `  bid #${bidId} on offer #${offerId}: ${formatEnergy(decodeEnergyValue(amount, format), format)} ` +
+          `${BID_STATUS_NAMES[Number(status)]}, filled ${formatEnergy(decodeEnergyValue(filled, format), format)}`,
+      );
+    }
+  });
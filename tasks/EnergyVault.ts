@@ -0,0 +1,1293 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { type TransactionReceipt, type TransactionResponse, isError } from "ethers";
+import * as fs from "fs";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import {
+  EnergyValueFormat,
+  decodeEnergyValue,
+  encodeEnergyValue,
+  formatEnergy,
+  parseEnergyUnit,
+  toEnergyValueFormat,
+} from "../frontend/lib/energyUnits";
+
+/**
+ * Tutorial: Deploy and Interact Locally (--network localhost)
+ * ===========================================================
+ *
+ * 1. From a separate terminal window:
+ *
+ *   npx hardhat node
+ *
+ * 2. Deploy the EnergyVault contract
+ *
+ *   npx hardhat --network localhost deploy
+ *
+ * 3. Interact with the EnergyVault contract
+ *
+ *   npx hardhat --network localhost task:vault-create-generation --source "Solar Panel" --value 120
+ *   npx hardhat --network localhost task:vault-create-consumption --source "Home Usage" --value 45
+ *   npx hardhat --network localhost task:vault-create-generation --source "Wind" --value 30 --from 2025-03-01 --to 2025-03-02
+ *   npx hardhat --network localhost task:vault-list
+ *   npx hardhat --network localhost task:vault-decrypt --id 0
+ *   npx hardhat --network localhost task:vault-correct --id 0 --value 95
+ *   npx hardhat --network localhost task:vault-set-limit --value 300
+ *   npx hardhat --network localhost task:vault-totals
+ *
+ * 4. Let an auditor (signer #1) verify the totals of a producer (signer #0)
+ *
+ *   npx hardhat --network localhost task:vault-authorize-auditor --auditor <signer #1 address>
+ *   npx hardhat --network localhost task:vault-share-auditor-history --auditor <signer #1 address> --from 2025-01-01
+ *   npx hardhat --network localhost task:vault-audit --signer-index 1
+ *
+ * 5. Publish the pooled generation of a cooperative once 3 members joined
+ *
+ *   npx hardhat --network localhost task:vault-community-join --signer-index 1
+ *   npx hardhat --network localhost task:vault-community-publish
+ *
+ * 6. Bulk import meter readings (CSV or JSON, see task:vault-import below)
+ *
+ *   npx hardhat --network localhost task:vault-import --file readings.csv
+ *
+ * 7. Let a smart meter (signer #2) push readings for signer #0 every 10 seconds
+ *
+ *   npx hardhat --network localhost task:vault-device --device <signer #2 address>
+ *   npx hardhat --network localhost task:vault-meter-simulate --signer-index 2 --interval 10 --count 6
+ *
+ *
+ * Tutorial: Deploy and Interact on Sepolia (--network sepolia)
+ * ===========================================================
+ *
+ * 1. Deploy the EnergyVault contract
+ *
+ *   npx hardhat --network sepolia deploy
+ *
+ * 2. Interact with the EnergyVault contract
+ *
+ *   npx hardhat --network sepolia task:vault-create-generation --source "Solar Panel" --value 120
+ *   npx hardhat --network sepolia task:vault-list
+ *   npx hardhat --network sepolia task:vault-totals
+ *
+ */
+
+const RECORD_TYPE_NAMES = ["GENERATION", "CONSUMPTION"];
+
+const MAX_UINT64 = 2n ** 64n - 1n;
+
+// Encodes --value, given in --unit or else in the unit of the deployment
+function parseValue(taskArguments: TaskArguments, format: EnergyValueFormat): bigint {
+  const value = Number(taskArguments.value);
+  const unit = taskArguments.unit ? parseEnergyUnit(taskArguments.unit) : format.unit;
+  try {
+    return encodeEnergyValue(value, format, unit);
+  } catch (e) {
+    throw new Error(`Argument --value is invalid: ${(e as Error).message}`);
+  }
+}
+
+async function getValueFormat(energyVaultContract: {
+  valueUnit(): Promise<bigint>;
+  valueDecimals(): Promise<bigint>;
+}): Promise<EnergyValueFormat> {
+  const format = toEnergyValueFormat(await energyVaultContract.valueUnit(), await energyVaultContract.valueDecimals());
+  console.log(`Values in ${format.unit} with ${format.decimals} decimal(s)`);
+  return format;
+}
+
+// Parses a Unix timestamp in seconds or an ISO date, NaN when it is neither
+function parseTimestamp(value: unknown): number {
+  const raw = String(value ?? "").trim();
+  return /^\d+$/.test(raw) ? parseInt(raw) : Math.floor(new Date(raw).getTime() / 1000);
+}
+
+async function getLatestBlockTimestamp(hre: HardhatRuntimeEnvironment): Promise<number> {
+  const block = await hre.ethers.provider.getBlock("latest");
+  return block!.timestamp;
+}
+
+// Measurement interval from --from and --to. Without --to the measurement ends at the latest block,
+// without --from it is a point in time.
+async function parseMeasurement(
+  taskArguments: TaskArguments,
+  hre: HardhatRuntimeEnvironment,
+): Promise<[number, number]> {
+  const latest = await getLatestBlockTimestamp(hre);
+  const measuredTo = taskArguments.to !== undefined ? parseTimestamp(taskArguments.to) : latest;
+  const measuredFrom = taskArguments.from !== undefined ? parseTimestamp(taskArguments.from) : measuredTo;
+  if (!Number.isInteger(measuredFrom) || !Number.isInteger(measuredTo) || measuredFrom < 0) {
+    throw new Error(`Arguments --from and --to must be unix timestamps or ISO dates`);
+  }
+  if (measuredFrom > measuredTo) {
+    throw new Error(`Argument --from must not be after --to`);
+  }
+  if (measuredTo > latest) {
+    throw new Error(`Argument --to is in the future (latest block at ${new Date(latest * 1000).toISOString()})`);
+  }
+  return [measuredFrom, measuredTo];
+}
+
+function parseSignerIndex(value: string | undefined): number {
+  const signerIndex = parseInt(value ?? "0");
+  if (!Number.isInteger(signerIndex) || signerIndex < 0) {
+    throw new Error(`Argument --signer-index is not a positive integer`);
+  }
+  return signerIndex;
+}
+
+async function getEnergyVault(hre: HardhatRuntimeEnvironment, taskArguments: TaskArguments) {
+  const { ethers, deployments } = hre;
+
+  const EnergyVaultDeployement = taskArguments.address
+    ? { address: taskArguments.address }
+    : await deployments.get("EnergyVault");
+  console.log(`EnergyVault: ${EnergyVaultDeployement.address}`);
+
+  const signers = await ethers.getSigners();
+  const signerIndex = parseSignerIndex(taskArguments.signerIndex);
+  if (signerIndex >= signers.length) {
+    throw new Error(`Argument --signer-index is out of range (${signers.length} signers available)`);
+  }
+  const signer = signers[signerIndex];
+
+  const energyVaultContract = await ethers.getContractAt("EnergyVault", EnergyVaultDeployement.address);
+
+  return { energyVaultAddress: EnergyVaultDeployement.address, energyVaultContract, signer };
+}
+
+async function createRecord(
+  recordType: "generation" | "consumption",
+  taskArguments: TaskArguments,
+  hre: HardhatRuntimeEnvironment,
+) {
+  const { fhevm } = hre;
+
+  await fhevm.initializeCLIApi();
+
+  const { energyVaultAddress, energyVaultContract, signer } = await getEnergyVault(hre, taskArguments);
+  const format = await getValueFormat(energyVaultContract);
+  const value = parseValue(taskArguments, format);
+  const [measuredFrom, measuredTo] = await parseMeasurement(taskArguments, hre);
+
+  // Encrypt the value passed as argument
+  const encryptedValue = await fhevm.createEncryptedInput(energyVaultAddress, signer.address).add64(value).encrypt();
+
+  const tx =
+    recordType === "generation"
+      ? await energyVaultContract
+          .connect(signer)
+          .createGenerationRecord(
+            taskArguments.source,
+            encryptedValue.handles[0],
+            encryptedValue.inputProof,
+            measuredFrom,
+            measuredTo,
+          )
+      : await energyVaultContract
+          .connect(signer)
+          .createConsumptionRecord(
+            taskArguments.source,
+            encryptedValue.handles[0],
+            encryptedValue.inputProof,
+            measuredFrom,
+            measuredTo,
+          );
+  console.log(`Wait for tx:${tx.hash}...`);
+
+  const receipt = await tx.wait();
+  console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+  for (const log of receipt?.logs ?? []) {
+    const parsed = energyVaultContract.interface.parseLog(log);
+    if (parsed?.name === "RecordCreated") {
+      console.log(`Record id    : ${parsed.args.id}`);
+    }
+  }
+
+  console.log(
+    `EnergyVault ${recordType} record (${taskArguments.source}, ${formatEnergy(decodeEnergyValue(value, format), format)}) succeeded!`,
+  );
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-address
+ *   - npx hardhat --network sepolia task:vault-address
+ */
+task("task:vault-address", "Prints the EnergyVault address").setAction(async function (
+  _taskArguments: TaskArguments,
+  hre,
+) {
+  const { deployments } = hre;
+
+  const energyVault = await deployments.get("EnergyVault");
+
+  console.log("EnergyVault address is " + energyVault.address);
+});
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-create-generation --source "Solar Panel" --value 120
+ *   - npx hardhat --network sepolia task:vault-create-generation --source "Wind Turbine" --value 80 --signer-index 1
+ */
+task("task:vault-create-generation", "Calls the createGenerationRecord() function of EnergyVault Contract")
+  .addOptionalParam("address", "Optionally specify the EnergyVault contract address")
+  .addOptionalParam("signerIndex", "Index of the signer creating the record", "0")
+  .addParam("source", "The source description (e.g. Solar Panel)")
+  .addParam("value", "The energy value, in --unit or in the unit of the deployment")
+  .addOptionalParam("unit", "Unit of --value (Wh, kWh or MWh), converted to the unit of the deployment")
+  .addOptionalParam("from", "Start of the measurement, unix timestamp or ISO date (defaults to --to)")
+  .addOptionalParam("to", "End of the measurement, unix timestamp or ISO date (defaults to the latest block)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await createRecord("generation", taskArguments, hre);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-create-consumption --source "Home Usage" --value 45
+ *   - npx hardhat --network sepolia task:vault-create-consumption --source "EV Charger" --value 30 --signer-index 1
+ */
+task("task:vault-create-consumption", "Calls the createConsumptionRecord() function of EnergyVault Contract")
+  .addOptionalParam("address", "Optionally specify the EnergyVault contract address")
+  .addOptionalParam("signerIndex", "Index of the signer creating the record", "0")
+  .addParam("source", "The source description (e.g. Home Usage)")
+  .addParam("value", "The energy value, in --unit or in the unit of the deployment")
+  .addOptionalParam("unit", "Unit of --value (Wh, kWh or MWh), converted to the unit of the deployment")
+  .addOptionalParam("from", "Start of the measurement, unix timestamp or ISO date (defaults to --to)")
+  .addOptionalParam("to", "End of the measurement, unix timestamp or ISO date (defaults to the latest block)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await createRecord("consumption", taskArguments, hre);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-list
+ *   - npx hardhat --network sepolia task:vault-list --signer-index 1 --type consumption
+ */
+task("task:vault-list", "Lists the EnergyVault records of a signer")
+  .addOptionalParam("address", "Optionally specify the EnergyVault contract address")
+  .addOptionalParam("signerIndex", "Index of the signer whose records are listed", "0")
+  .addOptionalParam("type", "Only list generation or consumption records")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const recordType =
+      taskArguments.type === undefined ? -1 : RECORD_TYPE_NAMES.indexOf(String(taskArguments.type).toUpperCase());
+    if (taskArguments.type !== undefined && recordType < 0) {
+      throw new Error(`Argument --type must be generation or consumption`);
+    }
+
+    const { energyVaultContract, signer } = await getEnergyVault(hre, taskArguments);
+
+    const count = await energyVaultContract.getUserRecordCount(signer.address);
+    const pageSize = await energyVaultContract.MAX_PAGE_SIZE();
+    console.log(`${count} record(s) for ${signer.address}`);
+
+    const toDate = (timestamp: bigint) => new Date(Number(timestamp) * 1000).toISOString();
+    for (let offset = 0n; offset < count; offset += pageSize) {
+      const recordIds =
+        recordType < 0
+          ? await energyVaultContract.getUserRecordIdsPaged(signer.address, offset, pageSize)
+          : await energyVaultContract.getUserRecordsByType(signer.address, recordType, offset, pageSize);
+      if (recordIds.length === 0) {
+        continue;
+      }
+
+      for (const metadata of await energyVaultContract.getRecordsMetadata([...recordIds])) {
+        const measured =
+          metadata.measuredFrom === metadata.measuredTo
+            ? toDate(metadata.measuredTo)
+            : `${toDate(metadata.measuredFrom)}/${toDate(metadata.measuredTo)}`;
+        console.log(
+          `#${metadata.id} ${RECORD_TYPE_NAMES[Number(metadata.recordType)]} source="${metadata.source}" measured=${measured}` +
+            (metadata.device !== ethers.ZeroAddress ? ` device=${metadata.device}` : "") +
+            (metadata.isVoided ? " VOID" : ""),
+        );
+      }
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-decrypt --id 0
+ *   - npx hardhat --network sepolia task:vault-decrypt --id 0
+ */
+task("task:vault-decrypt", "Calls the getRecordEncryptedValue() function of EnergyVault Contract and decrypts it")
+  .addOptionalParam("address", "Optionally specify the EnergyVault contract address")
+  .addOptionalParam("signerIndex", "Index of the signer owning the record", "0")
+  .addParam("id", "The record id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    const recordId = parseInt(taskArguments.id);
+    if (!Number.isInteger(recordId) || recordId < 0) {
+      throw new Error(`Argument --id is not a positive integer`);
+    }
+
+    await fhevm.initializeCLIApi();
+
+    const { energyVaultAddress, energyVaultContract, signer } = await getEnergyVault(hre, taskArguments);
+
+    const format = await getValueFormat(energyVaultContract);
+
+    const encryptedValue = await energyVaultContract.connect(signer).getRecordEncryptedValue(recordId);
+    const clearValue = await fhevm.userDecryptEuint(FhevmType.euint64, encryptedValue, energyVaultAddress, signer);
+    console.log(`Encrypted value: ${encryptedValue}`);
+    console.log(`Clear value    : ${formatEnergy(decodeEnergyValue(clearValue, format), format)}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-totals
+ *   - npx hardhat --network sepolia task:vault-totals --signer-index 1
+ */
+task("task:vault-totals", "Decrypts the generation, consumption and net balance totals of a signer")
+  .addOptionalParam("address", "Optionally specify the EnergyVault contract address")
+  .addOptionalParam("signerIndex", "Index of the signer whose totals are decrypted", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { energyVaultAddress, energyVaultContract, signer } = await getEnergyVault(hre, taskArguments);
+    const format = await getValueFormat(energyVaultContract);
+
+    const totals = [
+      { label: "generation ", handle: await energyVaultContract.connect(signer).getTotalGeneration(signer.address) },
+      { label: "consumption", handle: await energyVaultContract.connect(signer).getTotalConsumption(signer.address) },
+    ];
+
+    for (const { label, handle } of totals) {
+      // An uninitialized total (no record of that type yet) is bytes32(0)
+      const clearValue =
+        handle === ethers.ZeroHash
+          ? 0n
+          : await fhevm.userDecryptEuint(FhevmType.euint64, handle, energyVaultAddress, signer);
+      console.log(`Encrypted total ${label}: ${handle}`);
+      console.log(`Clear total ${label}    : ${formatEnergy(decodeEnergyValue(clearValue, format), format)}`);
+    }
+
+    const overflowedHandle = await energyVaultContract.connect(signer).getTotalsOverflowed(signer.address);
+    if (
+      overflowedHandle !== ethers.ZeroHash &&
+      (await fhevm.userDecryptEbool(overflowedHandle, energyVaultAddress, signer))
+    ) {
+      console.log(`Warning: a total reached the uint64 maximum (${MAX_UINT64}) and was clamped`);
+    }
+
+    const [overLimitHandle, alertMonth] = await energyVaultContract.connect(signer).getConsumptionAlert(signer.address);
+    if (overLimitHandle !== ethers.ZeroHash) {
+      const currentMonth = await energyVaultContract.getPeriodIndex(1, Math.floor(Date.now() / 1000));
+      // A flag computed in an earlier month is stale: nothing was consumed since the month changed
+      const overLimit =
+        alertMonth === currentMonth && (await fhevm.userDecryptEbool(overLimitHandle, energyVaultAddress, signer));
+      console.log(`Over monthly limit     : ${overLimit ? "yes" : "no"}`);
+    }
+
+    const netBalanceHandle = await energyVaultContract.connect(signer).getNetBalance(signer.address);
+    const isSurplusHandle = await energyVaultContract.connect(signer).getIsSurplus(signer.address);
+    if (netBalanceHandle === ethers.ZeroHash) {
+      console.log("Clear net balance      : 0");
+      return;
+    }
+    const netBalance = await fhevm.userDecryptEuint(FhevmType.euint64, netBalanceHandle, energyVaultAddress, signer);
+    const isSurplus = await fhevm.userDecryptEbool(isSurplusHandle, energyVaultAddress, signer);
+    console.log(`Encrypted net balance  : ${netBalanceHandle}`);
+    console.log(`Encrypted is surplus   : ${isSurplusHandle}`);
+    console.log(
+      `Clear net balance      : ${isSurplus ? "+" : "-"}${formatEnergy(decodeEnergyValue(netBalance, format), format)}`,
+    );
+  });
+
+function parseRecordId(value: string | undefined): number {
+  const recordId = parseInt(value ?? "");
+  if (!Number.isInteger(recordId) || recordId < 0) {
+    throw new Error(`Argument --id is not a positive integer`);
+  }
+  return recordId;
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-correct --id 0 --value 95
+ *   - npx hardhat --network sepolia task:vault-correct --id 0 --value 95
+ */
+task("task:vault-correct", "Calls the correctRecord() function of EnergyVault Contract")
+  .addOptionalParam("address", "Optionally specify the EnergyVault contract address")
+  .addOptionalParam("signerIndex", "Index of the signer owning the record", "0")
+  .addParam("id", "The record id")
+  .addParam("value", "The corrected energy value, in --unit or in the unit of the deployment")
+  .addOptionalParam("unit", "Unit of --value (Wh, kWh or MWh), converted to the unit of the deployment")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    const recordId = parseRecordId(taskArguments.id);
+
+    await fhevm.initializeCLIApi();
+
+    const { energyVaultAddress, energyVaultContract, signer } = await getEnergyVault(hre, taskArguments);
+    const format = await getValueFormat(energyVaultContract);
+    const value = parseValue(taskArguments, format);
+
+    const encryptedValue = await fhevm.createEncryptedInput(energyVaultAddress, signer.address).add64(value).encrypt();
+
+    const tx = await energyVaultContract
+      .connect(signer)
+      .correctRecord(recordId, encryptedValue.handles[0], encryptedValue.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(
+      `EnergyVault record #${recordId} corrected to ${formatEnergy(decodeEnergyValue(value, format), format)}`,
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-void --id 0
+ */
+task("task:vault-void", "Calls the voidRecord() function of EnergyVault Contract")
+  .addOptionalParam("address", "Optionally specify the EnergyVault contract address")
+  .addOptionalParam("signerIndex", "Index of the signer owning the record", "0")
+  .addParam("id", "The record id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const recordId = parseRecordId(taskArguments.id);
+
+    const { energyVaultContract, signer } = await getEnergyVault(hre, taskArguments);
+
+    const tx = await energyVaultContract.connect(signer).voidRecord(recordId);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`EnergyVault record #${recordId} voided`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-set-limit --value 300
+ *   - npx hardhat --network sepolia task:vault-set-limit --value 300 --unit kWh
+ */
+task("task:vault-set-limit", "Calls the setConsumptionLimit() function of EnergyVault Contract")
+  .addOptionalParam("address", "Optionally specify the EnergyVault contract address")
+  .addOptionalParam("signerIndex", "Index of the signer setting the limit", "0")
+  .addParam("value", "The monthly consumption limit, in --unit or in the unit of the deployment")
+  .addOptionalParam("unit", "Unit of --value (Wh, kWh or MWh), converted to the unit of the deployment")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { energyVaultAddress, energyVaultContract, signer } = await getEnergyVault(hre, taskArguments);
+    const format = await getValueFormat(energyVaultContract);
+    const value = parseValue(taskArguments, format);
+
+    const encryptedValue = await fhevm.createEncryptedInput(energyVaultAddress, signer.address).add64(value).encrypt();
+
+    const tx = await energyVaultContract
+      .connect(signer)
+      .setConsumptionLimit(encryptedValue.handles[0], encryptedValue.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(
+      `EnergyVault monthly consumption limit set to ${formatEnergy(decodeEnergyValue(value, format), format)}`,
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-authorize-auditor --auditor 0x70997970C51812dc3A010C7d01b50e0d17dc79C8
+ *   - npx hardhat --network sepolia task:vault-authorize-auditor --auditor 0x... --signer-index 1
+ */
+task("task:vault-authorize-auditor", "Calls the authorizeAuditor() function of EnergyVault Contract")
+  .addOptionalParam("address", "Optionally specify the EnergyVault contract address")
+  .addOptionalParam("signerIndex", "Index of the signer whose totals are shared", "0")
+  .addParam("auditor", "The auditor address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    if (!ethers.isAddress(taskArguments.auditor)) {
+      throw new Error(`Argument --auditor is not a valid address`);
+    }
+
+    const { energyVaultContract, signer } = await getEnergyVault(hre, taskArguments);
+
+    const tx = await energyVaultContract.connect(signer).authorizeAuditor(taskArguments.auditor);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`${taskArguments.auditor} can now read the totals of ${signer.address}`);
+  });
+
+/**
+ * Shares the period totals computed before the auditor was authorized, one transaction per page of
+ * MAX_PAGE_SIZE periods, and with --sources the totals of every source.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:vault-share-auditor-history --auditor 0x7099...79C8 --from 2025-01-01
+ *   - npx hardhat --network localhost task:vault-share-auditor-history --auditor 0x... --period day --from 2025-03-01 --to 2025-03-31 --sources
+ */
+task(
+  "task:vault-share-auditor-history",
+  "Calls allowAuditorPeriodTotals() and allowAuditorSourceTotals() of EnergyVault",
+)
+  .addOptionalParam("address", "Optionally specify the EnergyVault contract address")
+  .addOptionalParam("signerIndex", "Index of the signer whose totals are shared", "0")
+  .addParam("auditor", "The auditor address")
+  .addOptionalParam("period", "Granularity of the shared totals: day or month", "month")
+  .addParam("from", "First day or month to share, unix timestamp or ISO date")
+  .addOptionalParam("to", "Last day or month to share, unix timestamp or ISO date (default: latest block)")
+  .addFlag("sources", "Also share the totals of every source")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    if (!ethers.isAddress(taskArguments.auditor)) {
+      throw new Error(`Argument --auditor is not a valid address`);
+    }
+    const period = ["day", "month"].indexOf(taskArguments.period);
+    if (period < 0) {
+      throw new Error(`Argument --period must be day or month`);
+    }
+    const [from, to] = await parseMeasurement(taskArguments, hre);
+
+    const { energyVaultContract, signer } = await getEnergyVault(hre, taskArguments);
+    const pageSize = await energyVaultContract.MAX_PAGE_SIZE();
+
+    const fromIndex = await energyVaultContract.getPeriodIndex(period, from);
+    const toIndex = await energyVaultContract.getPeriodIndex(period, to);
+    for (let index = fromIndex; index <= toIndex; index += pageSize) {
+      const count = toIndex - index + 1n < pageSize ? toIndex - index + 1n : pageSize;
+      const tx = await energyVaultContract
+        .connect(signer)
+        .allowAuditorPeriodTotals(taskArguments.auditor, period, index, count);
+      console.log(`Wait for tx:${tx.hash}...`);
+      const receipt = await tx.wait();
+      console.log(
+        `tx:${tx.hash} status=${receipt?.status} (${taskArguments.period}s ${index} to ${index + count - 1n})`,
+      );
+    }
+
+    if (taskArguments.sources) {
+      const sourceCount = BigInt((await energyVaultContract.getUserSources(signer.address)).length);
+      for (let offset = 0n; offset < sourceCount; offset += pageSize) {
+        const tx = await energyVaultContract
+          .connect(signer)
+          .allowAuditorSourceTotals(taskArguments.auditor, offset, pageSize);
+        console.log(`Wait for tx:${tx.hash}...`);
+        const receipt = await tx.wait();
+        console.log(`tx:${tx.hash} status=${receipt?.status} (sources ${offset} to ${offset + pageSize - 1n})`);
+      }
+    }
+    console.log(`${taskArguments.auditor} can now read the past totals of ${signer.address}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-revoke-auditor --auditor 0x70997970C51812dc3A010C7d01b50e0d17dc79C8
+ */
+task("task:vault-revoke-auditor", "Calls the revokeAuditor() function of EnergyVault Contract")
+  .addOptionalParam("address", "Optionally specify the EnergyVault contract address")
+  .addOptionalParam("signerIndex", "Index of the signer whose totals were shared", "0")
+  .addParam("auditor", "The auditor address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    if (!ethers.isAddress(taskArguments.auditor)) {
+      throw new Error(`Argument --auditor is not a valid address`);
+    }
+
+    const { energyVaultContract, signer } = await getEnergyVault(hre, taskArguments);
+
+    const tx = await energyVaultContract.connect(signer).revokeAuditor(taskArguments.auditor);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+/**
+ * Proposes a meter device for the signer; the device must then run task:vault-device-accept.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:vault-device --device 0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC
+ *   - npx hardhat --network localhost task:vault-device --device 0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC --cancel
+ *   - npx hardhat --network localhost task:vault-device --device 0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC --remove
+ */
+task(
+  "task:vault-device",
+  "Calls the proposeDevice(), cancelDeviceProposal() or removeDevice() function of EnergyVault Contract",
+)
+  .addOptionalParam("address", "Optionally specify the EnergyVault contract address")
+  .addOptionalParam("signerIndex", "Index of the signer owning the device", "0")
+  .addParam("device", "The meter device address")
+  .addFlag("cancel", "Withdraw a proposal the device has not accepted")
+  .addFlag("remove", "Remove the device instead")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    if (!ethers.isAddress(taskArguments.device)) {
+      throw new Error(`Argument --device is not a valid address`);
+    }
+
+    const { energyVaultContract, signer } = await getEnergyVault(hre, taskArguments);
+    const contract = energyVaultContract.connect(signer);
+
+    const tx = taskArguments.remove
+      ? await contract.removeDevice(taskArguments.device)
+      : taskArguments.cancel
+        ? await contract.cancelDeviceProposal(taskArguments.device)
+        : await contract.proposeDevice(taskArguments.device);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const devices = await energyVaultContract.getDevices(signer.address);
+    console.log(`${devices.length} device(s) submit records for ${signer.address}: ${devices.join(", ")}`);
+    if (await energyVaultContract.isDeviceProposed(taskArguments.device, signer.address)) {
+      console.log(
+        `${taskArguments.device} is registered once it runs task:vault-device-accept --owner ${signer.address}`,
+      );
+    }
+  });
+
+/**
+ * Accepts the proposal of an owner, the signer being the device.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:vault-device-accept --signer-index 2 --owner 0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266
+ */
+task("task:vault-device-accept", "Calls the acceptDevice() function of EnergyVault Contract as the device")
+  .addOptionalParam("address", "Optionally specify the EnergyVault contract address")
+  .addOptionalParam("signerIndex", "Index of the signer acting as the meter device", "0")
+  .addParam("owner", "The address of the user who proposed the device")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    if (!ethers.isAddress(taskArguments.owner)) {
+      throw new Error(`Argument --owner is not a valid address`);
+    }
+
+    const { energyVaultContract, signer } = await getEnergyVault(hre, taskArguments);
+
+    const tx = await energyVaultContract.connect(signer).acceptDevice(taskArguments.owner);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`${signer.address} submits records for ${await energyVaultContract.getDeviceOwner(signer.address)}`);
+  });
+
+/**
+ * Simulates a smart meter: the signer must be a device registered with task:vault-device and
+ * task:vault-device-accept, and posts a random reading between --min and --max every --interval seconds,
+ * --count times. Readings are credited to the owner of the device.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:vault-meter-simulate --signer-index 2
+ *   - npx hardhat --network localhost task:vault-meter-simulate --signer-index 2 --type consumption --min 0.2 --max 1.5
+ */
+task("task:vault-meter-simulate", "Posts periodic readings as a meter device through createDeviceRecord()")
+  .addOptionalParam("address", "Optionally specify the EnergyVault contract address")
+  .addOptionalParam("signerIndex", "Index of the signer acting as the meter device", "0")
+  .addOptionalParam("type", "Type of the readings: generation or consumption", "generation")
+  .addOptionalParam("source", "Source description of the readings", "Smart Meter")
+  .addOptionalParam("min", "Smallest reading, in the unit of the deployment", "0.5")
+  .addOptionalParam("max", "Largest reading, in the unit of the deployment", "3")
+  .addOptionalParam("interval", "Seconds between two readings", "10")
+  .addOptionalParam("count", "Number of readings to post", "10")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    const recordType = RECORD_TYPE_NAMES.indexOf(String(taskArguments.type).toUpperCase());
+    if (recordType < 0) {
+      throw new Error(`Argument --type must be generation or consumption`);
+    }
+    const min = Number(taskArguments.min);
+    const max = Number(taskArguments.max);
+    if (!Number.isFinite(min) || !Number.isFinite(max) || min < 0 || max < min) {
+      throw new Error(`Arguments --min and --max must satisfy 0 <= min <= max`);
+    }
+    const interval = Number(taskArguments.interval);
+    const count = parseInt(taskArguments.count);
+    if (!Number.isFinite(interval) || interval < 0 || !Number.isInteger(count) || count < 1) {
+      throw new Error(`Argument --interval must be a non-negative number and --count a positive integer`);
+    }
+
+    await fhevm.initializeCLIApi();
+
+    const { energyVaultAddress, energyVaultContract, signer } = await getEnergyVault(hre, taskArguments);
+    const format = await getValueFormat(energyVaultContract);
+
+    const owner = await energyVaultContract.getDeviceOwner(signer.address);
+    if (owner === ethers.ZeroAddress) {
+      throw new Error(
+        `${signer.address} is not a registered device, run task:vault-device and task:vault-device-accept first`,
+      );
+    }
+    console.log(`Meter ${signer.address} posts ${taskArguments.type} readings for ${owner}`);
+
+    // Each reading covers the time since the previous one
+    let measuredFrom = await getLatestBlockTimestamp(hre);
+    for (let i = 0; i < count; i++) {
+      if (i > 0) {
+        await new Promise((resolve) => setTimeout(resolve, interval * 1000));
+      }
+      const measuredTo = Math.max(measuredFrom, await getLatestBlockTimestamp(hre));
+
+      const reading = min + Math.random() * (max - min);
+      const value = encodeEnergyValue(reading, format);
+      const encryptedValue = await fhevm
+        .createEncryptedInput(energyVaultAddress, signer.address)
+        .add64(value)
+        .encrypt();
+
+      const tx = await energyVaultContract
+        .connect(signer)
+        .createDeviceRecord(
+          recordType,
+          taskArguments.source,
+          encryptedValue.handles[0],
+          encryptedValue.inputProof,
+          measuredFrom,
+          measuredTo,
+        );
+      const receipt = await tx.wait();
+      measuredFrom = measuredTo;
+
+      let recordId = "?";
+      for (const log of receipt?.logs ?? []) {
+        const parsed = energyVaultContract.interface.parseLog(log);
+        if (parsed?.name === "RecordCreated") {
+          recordId = parsed.args.id.toString();
+        }
+      }
+      const formatted = formatEnergy(decodeEnergyValue(value, format), format);
+      console.log(`[${new Date().toISOString()}] reading ${i + 1}/${count}: ${formatted} -> record #${recordId}`);
+    }
+  });
+
+/**
+ * Decrypts, as an auditor, the totals of the producers who authorized the signer. Without --user every
+ * producer returned by getAuditedUsers() is audited.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:vault-audit --signer-index 1
+ *   - npx hardhat --network sepolia task:vault-audit --signer-index 1 --user 0x...
+ */
+task("task:vault-audit", "Decrypts the generation and consumption totals of producers audited by a signer")
+  .addOptionalParam("address", "Optionally specify the EnergyVault contract address")
+  .addOptionalParam("signerIndex", "Index of the auditor signer", "0")
+  .addOptionalParam("user", "Only audit this producer address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    if (taskArguments.user !== undefined && !ethers.isAddress(taskArguments.user)) {
+      throw new Error(`Argument --user is not a valid address`);
+    }
+
+    await fhevm.initializeCLIApi();
+
+    const { energyVaultAddress, energyVaultContract, signer } = await getEnergyVault(hre, taskArguments);
+    const format = await getValueFormat(energyVaultContract);
+
+    const users: string[] = taskArguments.user
+      ? [taskArguments.user]
+      : [...(await energyVaultContract.getAuditedUsers(signer.address))];
+    console.log(`${users.length} producer(s) audited by ${signer.address}`);
+
+    for (const user of users) {
+      const generationHandle = await energyVaultContract.connect(signer).getTotalGeneration(user);
+      const consumptionHandle = await energyVaultContract.connect(signer).getTotalConsumption(user);
+
+      // An uninitialized total (no record of that type yet) is bytes32(0)
+      const generation =
+        generationHandle === ethers.ZeroHash
+          ? 0n
+          : await fhevm.userDecryptEuint(FhevmType.euint64, generationHandle, energyVaultAddress, signer);
+      const consumption =
+        consumptionHandle === ethers.ZeroHash
+          ? 0n
+          : await fhevm.userDecryptEuint(FhevmType.euint64, consumptionHandle, energyVaultAddress, signer);
+      const overflowedHandle = await energyVaultContract.connect(signer).getTotalsOverflowed(user);
+      const overflowed =
+        overflowedHandle !== ethers.ZeroHash &&
+        (await fhevm.userDecryptEbool(overflowedHandle, energyVaultAddress, signer));
+      console.log(
+        `${user}: generation=${formatEnergy(decodeEnergyValue(generation, format), format)} ` +
+          `consumption=${formatEnergy(decodeEnergyValue(consumption, format), format)}` +
+          (overflowed ? " (clamped at uint64 max)" : ""),
+      );
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-community-join
+ *   - npx hardhat --network localhost task:vault-community-join --leave
+ */
+task("task:vault-community-join", "Calls the joinCommunityPool() or leaveCommunityPool() function of EnergyVault")
+  .addOptionalParam("address", "Optionally specify the EnergyVault contract address")
+  .addOptionalParam("signerIndex", "Index of the signer joining the pool", "0")
+  .addFlag("leave", "Leave the pool instead")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const leave: boolean = taskArguments.leave;
+
+    const { energyVaultContract, signer } = await getEnergyVault(hre, taskArguments);
+
+    const tx = leave
+      ? await energyVaultContract.connect(signer).leaveCommunityPool()
+      : await energyVaultContract.connect(signer).joinCommunityPool();
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const memberCount = await energyVaultContract.getCommunityMemberCount();
+    console.log(`${signer.address} ${leave ? "left" : "joined"} the community pool (${memberCount} member(s))`);
+  });
+
+/**
+ * Requests the public decryption of the pooled generation. On the mock (hardhat or localhost) the oracle is
+ * simulated and the result printed right away; on Sepolia the relayer answers a few blocks later, run
+ * task:vault-community-publish --status to read it.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:vault-community-publish
+ *   - npx hardhat --network sepolia task:vault-community-publish --status
+ */
+task("task:vault-community-publish", "Publishes the total generation of the EnergyVault community pool")
+  .addOptionalParam("address", "Optionally specify the EnergyVault contract address")
+  .addOptionalParam("signerIndex", "Index of the signer sending the request", "0")
+  .addFlag("status", "Only print the last published total")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { energyVaultContract, signer } = await getEnergyVault(hre, taskArguments);
+    const format = await getValueFormat(energyVaultContract);
+
+    if (!taskArguments.status) {
+      const tx = await energyVaultContract.connect(signer).requestCommunityDecryption();
+      console.log(`Wait for tx:${tx.hash}...`);
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+      if (!fhevm.isMock) {
+        console.log("Decryption requested, the oracle publishes the total in a few blocks");
+        return;
+      }
+      await fhevm.awaitDecryptionOracle();
+    }
+
+    const memberCount = await energyVaultContract.getCommunityMemberCount();
+    const isPending = await energyVaultContract.isCommunityDecryptionPending();
+    const [totalGeneration, publishedMemberCount, publishedAt] =
+      await energyVaultContract.getPublishedCommunityGeneration();
+    console.log(`Members              : ${memberCount}${isPending ? " (decryption pending)" : ""}`);
+    if (publishedAt === 0n) {
+      console.log("Published generation : none yet");
+      return;
+    }
+    console.log(
+      `Published generation : ${formatEnergy(decodeEnergyValue(totalGeneration, format), format)} ` +
+        `from ${publishedMemberCount} member(s) at ${new Date(Number(publishedAt) * 1000).toISOString()}`,
+    );
+  });
+
+/**
+ * Bulk import
+ * ===========
+ *
+ * Readings are encrypted and submitted one record per transaction, in file order. CSV files need a header
+ * row with the columns `type,source,kWh,timestamp` and an optional `start` column; JSON files hold an
+ * array of objects with the same keys.
+ *
+ *   type,source,kWh,timestamp,start
+ *   generation,Solar Panel,12.5,2025-03-01T10:00:00Z,2025-03-01T09:00:00Z
+ *   consumption,Home Usage,4.2,1740823200,
+ *
+ * Readings are always given in kWh and converted to the unit and precision of the deployment, like the
+ * frontend does. The timestamp is the end of the measurement and `start` its beginning (the timestamp
+ * itself when empty); both are sent with the record, which is counted in the day and month of the timestamp.
+ *
+ * Progress is written to a journal file (`<file>.journal.json` by default) before and after each
+ * transaction, so re-running the same command after a crash resumes from the last confirmed record
+ * instead of submitting it twice. The nonce of each transaction is journaled before it is sent: a run
+ * that crashed before recording the hash finds the transaction by its nonce, and reuses the nonce when
+ * it was never mined so that at most one of the two submissions can be.
+ */
+
+type ImportRow = {
+  type: "generation" | "consumption";
+  source: string;
+  kWh: number;
+  timestamp: number; // Unix timestamp in seconds, end of the measurement
+  start?: number; // Unix timestamp in seconds, start of the measurement when it differs from the end
+};
+
+type ImportJournalEntry = {
+  row: string;
+  // intent: about to be sent with `nonce`, the hash is not known yet
+  status: "intent" | "submitted" | "confirmed";
+  txHash?: string;
+  nonce?: number; // Missing in journals written before intents were recorded
+  fromBlock?: number; // The nonce was still unused at this block
+  recordId?: string;
+};
+
+type ImportJournal = {
+  contractAddress: string;
+  userAddress: string;
+  entries: Record<string, ImportJournalEntry>;
+};
+
+function splitCSVLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; ++i) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        cell += '"';
+        ++i;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += c;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function parseImportRow(raw: Record<string, unknown>, index: number): ImportRow {
+  const where = `Row ${index + 1}`;
+
+  const type = String(raw.type ?? "")
+    .trim()
+    .toLowerCase();
+  if (type !== "generation" && type !== "consumption") {
+    throw new Error(`${where}: type must be 'generation' or 'consumption' (got '${raw.type}')`);
+  }
+
+  const source = String(raw.source ?? "").trim();
+  if (source.length === 0) {
+    throw new Error(`${where}: source is empty`);
+  }
+
+  const kWh = Number(raw.kWh);
+  if (!Number.isFinite(kWh) || kWh < 0) {
+    throw new Error(`${where}: kWh must be a non-negative number (got '${raw.kWh}')`);
+  }
+
+  const timestamp = parseTimestamp(raw.timestamp);
+  if (!Number.isInteger(timestamp) || timestamp <= 0) {
+    throw new Error(`${where}: timestamp must be a unix timestamp or an ISO date (got '${raw.timestamp}')`);
+  }
+
+  if (String(raw.start ?? "").trim().length === 0) {
+    return { type, source, kWh, timestamp };
+  }
+  const start = parseTimestamp(raw.start);
+  if (!Number.isInteger(start) || start <= 0 || start > timestamp) {
+    throw new Error(`${where}: start must be a unix timestamp or an ISO date before timestamp (got '${raw.start}')`);
+  }
+
+  return { type, source, kWh, timestamp, start };
+}
+
+function readImportFile(file: string): ImportRow[] {
+  const content = fs.readFileSync(file, "utf-8");
+
+  if (file.toLowerCase().endsWith(".json")) {
+    const data = JSON.parse(content);
+    if (!Array.isArray(data)) {
+      throw new Error(`${file} must contain a JSON array of readings`);
+    }
+    return data.map((raw, index) => parseImportRow(raw, index));
+  }
+
+  const lines = content.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  if (lines.length === 0) {
+    return [];
+  }
+  const header = splitCSVLine(lines[0]);
+  for (const column of ["type", "source", "kWh", "timestamp"]) {
+    if (!header.includes(column)) {
+      throw new Error(`${file}: missing '${column}' column in CSV header`);
+    }
+  }
+  return lines.slice(1).map((line, index) => {
+    const cells = splitCSVLine(line);
+    const raw: Record<string, string> = {};
+    header.forEach((column, i) => (raw[column] = cells[i] ?? ""));
+    return parseImportRow(raw, index);
+  });
+}
+
+function rowFingerprint(row: ImportRow): string {
+  // Rows without start keep the fingerprint of journals written before the column existed
+  const base = `${row.type}|${row.source}|${row.kWh}|${row.timestamp}`;
+  return row.start === undefined ? base : `${base}|${row.start}`;
+}
+
+function loadImportJournal(journalFile: string, contractAddress: string, userAddress: string): ImportJournal {
+  if (!fs.existsSync(journalFile)) {
+    return { contractAddress, userAddress, entries: {} };
+  }
+  const journal = JSON.parse(fs.readFileSync(journalFile, "utf-8")) as ImportJournal;
+  if (
+    journal.contractAddress.toLowerCase() !== contractAddress.toLowerCase() ||
+    journal.userAddress.toLowerCase() !== userAddress.toLowerCase()
+  ) {
+    throw new Error(
+      `${journalFile} belongs to contract=${journal.contractAddress} user=${journal.userAddress}. Use --journal to pick another file.`,
+    );
+  }
+  return journal;
+}
+
+function saveImportJournal(journalFile: string, journal: ImportJournal) {
+  // Write then rename, so a crash never leaves a truncated journal behind
+  const tmpFile = `${journalFile}.tmp`;
+  fs.writeFileSync(tmpFile, JSON.stringify(journal, null, 2), "utf-8");
+  fs.renameSync(tmpFile, journalFile);
+}
+
+// The transaction of `from` with `nonce`, found by bisecting the account nonce between fromBlock and the head
+async function findTransactionByNonce(
+  hre: HardhatRuntimeEnvironment,
+  from: string,
+  nonce: number,
+  fromBlock: number,
+): Promise<TransactionResponse | null> {
+  const provider = hre.ethers.provider;
+  let low = fromBlock;
+  let high = await provider.getBlockNumber();
+  if ((await provider.getTransactionCount(from, high)) <= nonce) {
+    return null;
+  }
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if ((await provider.getTransactionCount(from, middle)) > nonce) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+  const block = await provider.getBlock(low, true);
+  return (
+    block?.prefetchedTransactions.find((tx) => tx.from.toLowerCase() === from.toLowerCase() && tx.nonce === nonce) ??
+    null
+  );
+}
+
+// The receipt of a transaction, or of the one that replaced it, without throwing when it reverted like tx.wait() does
+async function waitForReceipt(hre: HardhatRuntimeEnvironment, hash: string): Promise<TransactionReceipt | null> {
+  const tx = await hre.ethers.provider.getTransaction(hash);
+  try {
+    return tx ? await tx.wait() : null;
+  } catch (e) {
+    if (isError(e, "CALL_EXCEPTION") || isError(e, "TRANSACTION_REPLACED")) {
+      return e.receipt ?? null;
+    }
+    throw e;
+  }
+}
+
+/**
+ * Outcome of a journaled transaction that was not confirmed when the previous run stopped: its receipt
+ * when it (or whatever else used its nonce) was mined, "unsent" when the nonce is still free and can be
+ * reused, or "unknown" for entries without a nonce whose transaction is gone.
+ */
+async function resolveImportEntry(
+  hre: HardhatRuntimeEnvironment,
+  from: string,
+  entry: ImportJournalEntry,
+): Promise<TransactionReceipt | "unsent" | "unknown"> {
+  const provider = hre.ethers.provider;
+
+  if (entry.txHash) {
+    // Unlike tx.wait(), the receipt of a reverted transaction does not throw
+    const receipt = await provider.getTransactionReceipt(entry.txHash);
+    if (receipt) {
+      return receipt;
+    }
+  }
+
+  if (entry.nonce === undefined) {
+    return (entry.txHash && (await waitForReceipt(hre, entry.txHash))) || "unknown";
+  }
+
+  if ((await provider.getTransactionCount(from, "latest")) <= entry.nonce) {
+    if ((await provider.getTransactionCount(from, "pending")) > entry.nonce) {
+      if (entry.txHash) {
+        return (await waitForReceipt(hre, entry.txHash)) ?? "unsent";
+      }
+      throw new Error(
+        `A transaction with nonce ${entry.nonce} is still pending, run the import again once it is mined`,
+      );
+    }
+    return "unsent";
+  }
+
+  // Mined between the two queries, or the nonce was used by a speed-up or another transaction
+  const mined = await findTransactionByNonce(hre, from, entry.nonce, entry.fromBlock ?? 0);
+  const receipt = mined ? await provider.getTransactionReceipt(mined.hash) : null;
+  if (!receipt) {
+    throw new Error(`Cannot find the transaction with nonce ${entry.nonce} of ${from}`);
+  }
+  return receipt;
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vault-import --file readings.csv
+ *   - npx hardhat --network sepolia task:vault-import --file readings.json --signer-index 1
+ */
+task("task:vault-import", "Imports CSV or JSON meter readings into EnergyVault")
+  .addOptionalParam("address", "Optionally specify the EnergyVault contract address")
+  .addOptionalParam("signerIndex", "Index of the signer creating the records", "0")
+  .addOptionalParam("journal", "Progress journal file (defaults to <file>.journal.json)")
+  .addParam("file", "The CSV or JSON file to import")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    const rows = readImportFile(taskArguments.file);
+    console.log(`${rows.length} reading(s) in ${taskArguments.file}`);
+
+    await fhevm.initializeCLIApi();
+
+    const { energyVaultAddress, energyVaultContract, signer } = await getEnergyVault(hre, taskArguments);
+
+    // Encode every reading up front so an out-of-range value fails before the first transaction
+    const format = await getValueFormat(energyVaultContract);
+    const values = rows.map((row, i) => {
+      try {
+        return encodeEnergyValue(row.kWh, format, "kWh");
+      } catch (e) {
+        throw new Error(`Row ${i + 1}: ${(e as Error).message}`);
+      }
+    });
+    const latest = await getLatestBlockTimestamp(hre);
+    rows.forEach((row, i) => {
+      if (row.timestamp > latest) {
+        throw new Error(
+          `Row ${i + 1}: timestamp is in the future (latest block at ${new Date(latest * 1000).toISOString()})`,
+        );
+      }
+    });
+
+    const journalFile: string = taskArguments.journal ?? `${taskArguments.file}.journal.json`;
+    const journal = loadImportJournal(journalFile, energyVaultAddress, signer.address);
+
+    const findRecordId = (receipt: { logs: ReadonlyArray<{ topics: ReadonlyArray<string>; data: string }> }) => {
+      for (const log of receipt.logs) {
+        const parsed = energyVaultContract.interface.parseLog(log);
+        if (parsed?.name === "RecordCreated") {
+          return parsed.args.id.toString() as string;
+        }
+      }
+      return undefined;
+    };
+
+    let imported = 0;
+    for (let i = 0; i < rows.length; ++i) {
+      const row = rows[i];
+      const fingerprint = rowFingerprint(row);
+      const entry = journal.entries[i];
+
+      if (entry && entry.row !== fingerprint) {
+        throw new Error(`Row ${i + 1} does not match ${journalFile}. The input file changed since the last run.`);
+      }
+
+      if (entry?.status === "confirmed") {
+        continue;
+      }
+
+      // Nonce to send the row with, kept when the previous submission never reached the chain
+      let nonce: number | undefined;
+      if (entry) {
+        // Crashed between submission and confirmation: only resubmit if the transaction is gone or reverted
+        console.log(`Row ${i + 1}: checking the previous submission (${entry.txHash ?? `nonce ${entry.nonce}`})...`);
+        const outcome = await resolveImportEntry(hre, signer.address, entry);
+        if (typeof outcome !== "string") {
+          const recordId =
+            outcome.status === 1 && outcome.to?.toLowerCase() === energyVaultAddress.toLowerCase()
+              ? findRecordId(outcome)
+              : undefined;
+          if (recordId !== undefined) {
+            journal.entries[i] = { ...entry, status: "confirmed", txHash: outcome.hash, recordId };
+            saveImportJournal(journalFile, journal);
+            ++imported;
+            continue;
+          }
+          console.log(`Row ${i + 1}: tx:${outcome.hash} reverted or was replaced, submitting again`);
+        } else if (outcome === "unsent") {
+          console.log(`Row ${i + 1}: the transaction was never mined, submitting again with nonce ${entry.nonce}`);
+          nonce = entry.nonce;
+        } else {
+          console.log(`Row ${i + 1}: tx:${entry.txHash} was dropped, submitting again`);
+        }
+      }
+
+      const encryptedValue = await fhevm
+        .createEncryptedInput(energyVaultAddress, signer.address)
+        .add64(values[i])
+        .encrypt();
+
+      nonce ??= await signer.getNonce("pending");
+      const fromBlock = await ethers.provider.getBlockNumber();
+      journal.entries[i] = { row: fingerprint, status: "intent", nonce, fromBlock };
+      saveImportJournal(journalFile, journal);
+
+      const measuredFrom = row.start ?? row.timestamp;
+      const tx =
+        row.type === "generation"
+          ? await energyVaultContract
+              .connect(signer)
+              .createGenerationRecord(
+                row.source,
+                encryptedValue.handles[0],
+                encryptedValue.inputProof,
+                measuredFrom,
+                row.timestamp,
+                { nonce },
+              )
+          : await energyVaultContract
+              .connect(signer)
+              .createConsumptionRecord(
+                row.source,
+                encryptedValue.handles[0],
+                encryptedValue.inputProof,
+                measuredFrom,
+                row.timestamp,
+                { nonce },
+              );
+
+      journal.entries[i] = { row: fingerprint, status: "submitted", txHash: tx.hash, nonce, fromBlock };
+      saveImportJournal(journalFile, journal);
+
+      const receipt = await waitForReceipt(hre, tx.hash);
+      if (receipt?.status !== 1) {
+        throw new Error(`Row ${i + 1}: tx:${tx.hash} reverted`);
+      }
+
+      const recordId = findRecordId(receipt);
+      journal.entries[i] = { row: fingerprint, status: "confirmed", txHash: receipt.hash, nonce, fromBlock, recordId };
+      saveImportJournal(journalFile, journal);
+      ++imported;
+
+      console.log(`Row ${i + 1}/${rows.length}: ${row.type} "${row.source}" ${row.kWh} kWh -> record #${recordId}`);
+    }
+
+    console.log(`Imported ${imported} reading(s), ${rows.length - imported} already in ${journalFile}`);
+  });
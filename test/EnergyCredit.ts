@@ -0,0 +1,230 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { EnergyCredit, EnergyCredit__factory, EnergyVault } from "../types";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { DEFAULT_VALUE_FORMAT, ENERGY_UNITS } from "../frontend/lib/energyUnits";
+import { getEnergyVaultFactory } from "./energyVaultFactory";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const vaultFactory = await getEnergyVaultFactory();
+  const energyVaultContract = (await vaultFactory.deploy(
+    ENERGY_UNITS.indexOf(DEFAULT_VALUE_FORMAT.unit),
+    DEFAULT_VALUE_FORMAT.decimals,
+  )) as EnergyVault;
+  const energyVaultContractAddress = await energyVaultContract.getAddress();
+
+  const creditFactory = (await ethers.getContractFactory("EnergyCredit")) as EnergyCredit__factory;
+  const energyCreditContract = (await creditFactory.deploy(
+    energyVaultContractAddress,
+    DEFAULT_VALUE_FORMAT.decimals,
+  )) as EnergyCredit;
+  const energyCreditContractAddress = await energyCreditContract.getAddress();
+
+  const tx = await energyVaultContract.setCreditToken(energyCreditContractAddress);
+  await tx.wait();
+
+  return { energyVaultContract, energyVaultContractAddress, energyCreditContract, energyCreditContractAddress };
+}
+
+// Measurement interval of a reading taken during the hour before the latest block
+async function lastHour(): Promise<[number, number]> {
+  const now = await time.latest();
+  return [now - 3600, now];
+}
+
+// Measurement intervals of a batch of readings taken during the hour before the latest block
+async function lastHourBatch(count: number): Promise<[number, number][]> {
+  return Array(count).fill(await lastHour());
+}
+
+describe("EnergyCredit", function () {
+  let signers: Signers;
+  let energyVaultContract: EnergyVault;
+  let energyVaultContractAddress: string;
+  let energyCreditContract: EnergyCredit;
+  let energyCreditContractAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ energyVaultContract, energyVaultContractAddress, energyCreditContract, energyCreditContractAddress } =
+      await deployFixture());
+  });
+
+  async function encrypt(contractAddress: string, signer: HardhatEthersSigner, value: number) {
+    return fhevm.createEncryptedInput(contractAddress, signer.address).add64(value).encrypt();
+  }
+
+  async function decryptBalance(signer: HardhatEthersSigner) {
+    const encryptedBalance = await energyCreditContract.confidentialBalanceOf(signer.address);
+    if (encryptedBalance === ethers.ZeroHash) {
+      return 0n;
+    }
+    return fhevm.userDecryptEuint(FhevmType.euint64, encryptedBalance, energyCreditContractAddress, signer);
+  }
+
+  async function createRecord(signer: HardhatEthersSigner, type: "generation" | "consumption", value: number) {
+    const encryptedValue = await encrypt(energyVaultContractAddress, signer, value);
+    const create =
+      type === "generation"
+        ? energyVaultContract.connect(signer).createGenerationRecord
+        : energyVaultContract.connect(signer).createConsumptionRecord;
+    const tx = await create("Solar", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
+    await tx.wait();
+  }
+
+  async function transfer(from: HardhatEthersSigner, to: HardhatEthersSigner, value: number) {
+    const encryptedAmount = await encrypt(energyCreditContractAddress, from, value);
+    const tx = await energyCreditContract
+      .connect(from)
+      ["confidentialTransfer(address,bytes32,bytes)"](
+        to.address,
+        encryptedAmount.handles[0],
+        encryptedAmount.inputProof,
+      );
+    await tx.wait();
+  }
+
+  it("should only be linked once by the deployer", async function () {
+    expect(await energyVaultContract.creditToken()).to.eq(energyCreditContractAddress);
+    expect(await energyCreditContract.minter()).to.eq(energyVaultContractAddress);
+    expect(await energyCreditContract.decimals()).to.eq(DEFAULT_VALUE_FORMAT.decimals);
+
+    await expect(energyVaultContract.setCreditToken(energyCreditContractAddress)).to.be.revertedWithCustomError(
+      energyVaultContract,
+      "CreditTokenAlreadySet",
+    );
+
+    const vaultFactory = await getEnergyVaultFactory();
+    const otherVault = await vaultFactory.deploy(0, 0);
+    await expect(
+      otherVault.connect(signers.alice).setCreditToken(energyCreditContractAddress),
+    ).to.be.revertedWithCustomError(otherVault, "NotDeployer");
+    await expect(otherVault.setCreditToken(energyCreditContractAddress)).to.be.revertedWithCustomError(
+      otherVault,
+      "VaultIsNotTheMinter",
+    );
+
+    const encryptedAmount = await encrypt(energyCreditContractAddress, signers.alice, 10);
+    await expect(
+      energyCreditContract.connect(signers.alice).mint(signers.alice.address, encryptedAmount.handles[0]),
+    ).to.be.revertedWithCustomError(energyCreditContract, "NotMinter");
+  });
+
+  it("should mint credits from generation records only", async function () {
+    await createRecord(signers.alice, "generation", 120);
+    await createRecord(signers.alice, "consumption", 50);
+    expect(await decryptBalance(signers.alice)).to.eq(120);
+
+    // Batches mint the generation sum once
+    const input = fhevm.createEncryptedInput(energyVaultContractAddress, signers.alice.address);
+    input.add64(30).add64(40).add64(15);
+    const encrypted = await input.encrypt();
+    const tx = await energyVaultContract
+      .connect(signers.alice)
+      .createRecords(
+        [0, 1, 0],
+        ["Solar", "Home", "Wind"],
+        encrypted.handles,
+        encrypted.inputProof,
+        await lastHourBatch(encrypted.handles.length),
+      );
+    await tx.wait();
+    expect(await decryptBalance(signers.alice)).to.eq(165);
+  });
+
+  it("should mint or burn the difference when a generation record changes", async function () {
+    await createRecord(signers.alice, "generation", 100);
+
+    const encryptedValue = await encrypt(energyVaultContractAddress, signers.alice, 130);
+    let tx = await energyVaultContract
+      .connect(signers.alice)
+      .correctRecord(0, encryptedValue.handles[0], encryptedValue.inputProof);
+    await tx.wait();
+    expect(await decryptBalance(signers.alice)).to.eq(130);
+
+    // Credits already transferred away are not burned
+    await transfer(signers.alice, signers.bob, 100);
+    tx = await energyVaultContract.connect(signers.alice).voidRecord(0);
+    await tx.wait();
+    expect(await decryptBalance(signers.alice)).to.eq(0);
+    expect(await decryptBalance(signers.bob)).to.eq(100);
+  });
+
+  it("should transfer nothing when the balance is too low", async function () {
+    await createRecord(signers.alice, "generation", 80);
+
+    await transfer(signers.alice, signers.bob, 30);
+    expect(await decryptBalance(signers.alice)).to.eq(50);
+    expect(await decryptBalance(signers.bob)).to.eq(30);
+
+    await transfer(signers.alice, signers.bob, 60);
+    expect(await decryptBalance(signers.alice)).to.eq(50);
+    expect(await decryptBalance(signers.bob)).to.eq(30);
+
+    const encryptedAmount = await encrypt(energyCreditContractAddress, signers.alice, 1);
+    await expect(
+      energyCreditContract
+        .connect(signers.alice)
+        ["confidentialTransfer(address,bytes32,bytes)"](
+          ethers.ZeroAddress,
+          encryptedAmount.handles[0],
+          encryptedAmount.inputProof,
+        ),
+    ).to.be.revertedWithCustomError(energyCreditContract, "InvalidReceiver");
+  });
+
+  it("should spend an encrypted allowance", async function () {
+    await createRecord(signers.alice, "generation", 100);
+
+    const encryptedAllowance = await encrypt(energyCreditContractAddress, signers.alice, 40);
+    await expect(
+      energyCreditContract
+        .connect(signers.alice)
+        .approve(signers.bob.address, encryptedAllowance.handles[0], encryptedAllowance.inputProof),
+    )
+      .to.emit(energyCreditContract, "Approval")
+      .withArgs(signers.alice.address, signers.bob.address);
+
+    const transferFrom = async (value: number) => {
+      const encryptedAmount = await encrypt(energyCreditContractAddress, signers.bob, value);
+      const tx = await energyCreditContract
+        .connect(signers.bob)
+        ["confidentialTransferFrom(address,address,bytes32,bytes)"](
+          signers.alice.address,
+          signers.bob.address,
+          encryptedAmount.handles[0],
+          encryptedAmount.inputProof,
+        );
+      await tx.wait();
+    };
+
+    await transferFrom(25);
+    // More than the remaining allowance moves nothing
+    await transferFrom(20);
+    expect(await decryptBalance(signers.alice)).to.eq(75);
+    expect(await decryptBalance(signers.bob)).to.eq(25);
+
+    const encryptedRemaining = await energyCreditContract.allowance(signers.alice.address, signers.bob.address);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, encryptedRemaining, energyCreditContractAddress, signers.bob),
+    ).to.eq(15);
+  });
+});
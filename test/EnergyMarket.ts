@@ -0,0 +1,355 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import {
+  EnergyCredit,
+  EnergyCredit__factory,
+  EnergyMarket,
+  EnergyMarket__factory,
+  EnergyVault,
+  PaymentToken,
+  PaymentToken__factory,
+} from "../types";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { DEFAULT_VALUE_FORMAT, ENERGY_UNITS } from "../frontend/lib/energyUnits";
+import { getEnergyVaultFactory } from "./energyVaultFactory";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture(issuer: HardhatEthersSigner) {
+  const vaultFactory = await getEnergyVaultFactory();
+  const energyVaultContract = (await vaultFactory.deploy(
+    ENERGY_UNITS.indexOf(DEFAULT_VALUE_FORMAT.unit),
+    DEFAULT_VALUE_FORMAT.decimals,
+  )) as EnergyVault;
+  const energyVaultContractAddress = await energyVaultContract.getAddress();
+
+  const creditFactory = (await ethers.getContractFactory("EnergyCredit")) as EnergyCredit__factory;
+  const energyCreditContract = (await creditFactory.deploy(
+    energyVaultContractAddress,
+    DEFAULT_VALUE_FORMAT.decimals,
+  )) as EnergyCredit;
+  const energyCreditContractAddress = await energyCreditContract.getAddress();
+  const tx = await energyVaultContract.setCreditToken(energyCreditContractAddress);
+  await tx.wait();
+
+  const paymentFactory = (await ethers.getContractFactory("PaymentToken")) as PaymentToken__factory;
+  const paymentTokenContract = (await paymentFactory.deploy(issuer.address, 0)) as PaymentToken;
+  const paymentTokenContractAddress = await paymentTokenContract.getAddress();
+
+  const marketFactory = (await ethers.getContractFactory("EnergyMarket")) as EnergyMarket__factory;
+  const energyMarketContract = (await marketFactory.deploy(
+    energyCreditContractAddress,
+    paymentTokenContractAddress,
+  )) as EnergyMarket;
+  const energyMarketContractAddress = await energyMarketContract.getAddress();
+
+  return {
+    energyVaultContract,
+    energyVaultContractAddress,
+    energyCreditContract,
+    energyCreditContractAddress,
+    paymentTokenContract,
+    paymentTokenContractAddress,
+    energyMarketContract,
+    energyMarketContractAddress,
+  };
+}
+
+// Measurement interval of a reading taken during the hour before the latest block
+async function lastHour(): Promise<[number, number]> {
+  const now = await time.latest();
+  return [now - 3600, now];
+}
+
+describe("EnergyMarket", function () {
+  let signers: Signers;
+  let energyVaultContract: EnergyVault;
+  let energyVaultContractAddress: string;
+  let energyCreditContract: EnergyCredit;
+  let energyCreditContractAddress: string;
+  let paymentTokenContract: PaymentToken;
+  let paymentTokenContractAddress: string;
+  let energyMarketContract: EnergyMarket;
+  let energyMarketContractAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({
+      energyVaultContract,
+      energyVaultContractAddress,
+      energyCreditContract,
+      energyCreditContractAddress,
+      paymentTokenContract,
+      paymentTokenContractAddress,
+      energyMarketContract,
+      energyMarketContractAddress,
+    } = await deployFixture(signers.deployer));
+  });
+
+  // Generation records mint as many credits
+  async function earnCredits(signer: HardhatEthersSigner, value: number) {
+    const encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signer.address)
+      .add64(value)
+      .encrypt();
+    const tx = await energyVaultContract
+      .connect(signer)
+      .createGenerationRecord("Solar", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
+    await tx.wait();
+  }
+
+  async function issuePayment(signer: HardhatEthersSigner, value: number) {
+    const encryptedValue = await fhevm
+      .createEncryptedInput(paymentTokenContractAddress, signers.deployer.address)
+      .add64(value)
+      .encrypt();
+    const tx = await paymentTokenContract
+      .connect(signers.deployer)
+      .issue(signer.address, encryptedValue.handles[0], encryptedValue.inputProof);
+    await tx.wait();
+  }
+
+  async function approveMarket(token: EnergyCredit | PaymentToken, signer: HardhatEthersSigner, value: number) {
+    const encryptedValue = await fhevm
+      .createEncryptedInput(await token.getAddress(), signer.address)
+      .add64(value)
+      .encrypt();
+    const tx = await token
+      .connect(signer)
+      .approve(energyMarketContractAddress, encryptedValue.handles[0], encryptedValue.inputProof);
+    await tx.wait();
+  }
+
+  async function decryptBalance(token: EnergyCredit | PaymentToken, signer: HardhatEthersSigner) {
+    const encryptedBalance = await token.confidentialBalanceOf(signer.address);
+    if (encryptedBalance === ethers.ZeroHash) {
+      return 0n;
+    }
+    return fhevm.userDecryptEuint(FhevmType.euint64, encryptedBalance, await token.getAddress(), signer);
+  }
+
+  async function decryptMarketValue(handle: string, signer: HardhatEthersSigner) {
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, energyMarketContractAddress, signer);
+  }
+
+  async function createOffer(signer: HardhatEthersSigner, amount: number, price: bigint | number) {
+    const encryptedAmount = await fhevm
+      .createEncryptedInput(energyMarketContractAddress, signer.address)
+      .add64(amount)
+      .encrypt();
+    const tx = await energyMarketContract
+      .connect(signer)
+      .createOffer(encryptedAmount.handles[0], encryptedAmount.inputProof, price);
+    await tx.wait();
+  }
+
+  async function placeBid(signer: HardhatEthersSigner, offerId: number, amount: number) {
+    const encryptedAmount = await fhevm
+      .createEncryptedInput(energyMarketContractAddress, signer.address)
+      .add64(amount)
+      .encrypt();
+    const tx = await energyMarketContract
+      .connect(signer)
+      .placeBid(offerId, encryptedAmount.handles[0], encryptedAmount.inputProof);
+    await tx.wait();
+  }
+
+  it("should escrow credits and payment and settle both on acceptance", async function () {
+    expect(await energyMarketContract.creditToken()).to.eq(energyCreditContractAddress);
+    expect(await energyMarketContract.paymentToken()).to.eq(paymentTokenContractAddress);
+
+    await earnCredits(signers.alice, 100);
+    await issuePayment(signers.bob, 1000);
+
+    // 6.0 kWh at 25 per kWh
+    await approveMarket(energyCreditContract, signers.alice, 60);
+    await createOffer(signers.alice, 60, 25);
+    expect(await energyMarketContract.getOpenOfferIds()).to.deep.eq([0n]);
+    const [, seller, price, , isOpen] = await energyMarketContract.getOffer(0);
+    expect(seller).to.eq(signers.alice.address);
+    expect(price).to.eq(25);
+    expect(isOpen).to.eq(true);
+    expect(await decryptBalance(energyCreditContract, signers.alice)).to.eq(40);
+
+    await expect(placeBid(signers.alice, 0, 10)).to.be.revertedWithCustomError(
+      energyMarketContract,
+      "CannotBidOnOwnOffer",
+    );
+
+    // 4.5 kWh cost 112.5, rounded up and escrowed from the buyer
+    await approveMarket(paymentTokenContract, signers.bob, 500);
+    await placeBid(signers.bob, 0, 45);
+    expect(await decryptBalance(paymentTokenContract, signers.bob)).to.eq(887);
+
+    // The seller can read the bid amount to decide
+    const [bidAmount, , escrowed] = await energyMarketContract.connect(signers.alice).getBidAmounts(0);
+    expect(await decryptMarketValue(bidAmount, signers.alice)).to.eq(45);
+    expect(await decryptMarketValue(escrowed, signers.bob)).to.eq(113);
+
+    await expect(energyMarketContract.connect(signers.bob).acceptBid(0)).to.be.revertedWithCustomError(
+      energyMarketContract,
+      "NotOfferSeller",
+    );
+    await expect(energyMarketContract.connect(signers.alice).acceptBid(0))
+      .to.emit(energyMarketContract, "BidAccepted")
+      .withArgs(0, 0, signers.bob.address, anyValue);
+
+    expect(await decryptBalance(energyCreditContract, signers.bob)).to.eq(45);
+    expect(await decryptBalance(paymentTokenContract, signers.alice)).to.eq(113);
+    expect(await decryptBalance(paymentTokenContract, signers.bob)).to.eq(887);
+    const remaining = await energyMarketContract.connect(signers.alice).getOfferRemaining(0);
+    expect(await decryptMarketValue(remaining, signers.alice)).to.eq(15);
+    expect((await energyMarketContract.getBid(0))[4]).to.eq(1); // ACCEPTED
+    await expect(energyMarketContract.connect(signers.alice).acceptBid(0)).to.be.revertedWithCustomError(
+      energyMarketContract,
+      "BidIsClosed",
+    );
+
+    // A bid larger than what is left is partially filled: the buyer pays for 1.5 kWh and gets the rest back
+    await placeBid(signers.bob, 0, 50);
+    expect(await decryptBalance(paymentTokenContract, signers.bob)).to.eq(762);
+    let tx = await energyMarketContract.connect(signers.alice).acceptBid(1);
+    await tx.wait();
+    const [, filled, paid] = await energyMarketContract.connect(signers.bob).getBidAmounts(1);
+    expect(await decryptMarketValue(filled, signers.bob)).to.eq(15);
+    expect(await decryptMarketValue(paid, signers.bob)).to.eq(38);
+    expect(await decryptBalance(energyCreditContract, signers.bob)).to.eq(60);
+    expect(await decryptBalance(paymentTokenContract, signers.bob)).to.eq(849);
+    expect(await decryptBalance(paymentTokenContract, signers.alice)).to.eq(151);
+
+    tx = await energyMarketContract.connect(signers.alice).cancelOffer(0);
+    await tx.wait();
+    expect(await energyMarketContract.getOpenOfferIds()).to.deep.eq([]);
+    expect(await decryptBalance(energyCreditContract, signers.alice)).to.eq(40);
+    await expect(placeBid(signers.bob, 0, 5)).to.be.revertedWithCustomError(energyMarketContract, "OfferIsClosed");
+  });
+
+  it("should settle nothing for a bid whose payment could not be escrowed", async function () {
+    await earnCredits(signers.alice, 50);
+    await approveMarket(energyCreditContract, signers.alice, 50);
+    await createOffer(signers.alice, 50, 20);
+
+    // The buyer approved the market on less than the 20 the first bid costs, then enough for the second
+    await issuePayment(signers.bob, 1000);
+    await approveMarket(paymentTokenContract, signers.bob, 19);
+    await placeBid(signers.bob, 0, 10);
+    expect(await decryptBalance(paymentTokenContract, signers.bob)).to.eq(1000);
+    await approveMarket(paymentTokenContract, signers.bob, 20);
+    await placeBid(signers.bob, 0, 10);
+    expect(await decryptBalance(paymentTokenContract, signers.bob)).to.eq(980);
+
+    // The seller reads the same requested amount whether the payment was escrowed or not
+    for (const bidId of [0, 1]) {
+      const [bidAmount] = await energyMarketContract.connect(signers.alice).getBidAmounts(bidId);
+      expect(await decryptMarketValue(bidAmount, signers.alice)).to.eq(10);
+    }
+    const [, , escrowed] = await energyMarketContract.connect(signers.bob).getBidAmounts(0);
+    expect(await decryptMarketValue(escrowed, signers.bob)).to.eq(0);
+
+    let tx = await energyMarketContract.connect(signers.alice).acceptBid(0);
+    await tx.wait();
+    expect(await decryptBalance(energyCreditContract, signers.bob)).to.eq(0);
+    expect(await decryptBalance(paymentTokenContract, signers.alice)).to.eq(0);
+    const remaining = await energyMarketContract.connect(signers.alice).getOfferRemaining(0);
+    expect(await decryptMarketValue(remaining, signers.alice)).to.eq(50);
+    const [, filled] = await energyMarketContract.connect(signers.bob).getBidAmounts(0);
+    expect(await decryptMarketValue(filled, signers.bob)).to.eq(0);
+
+    tx = await energyMarketContract.connect(signers.alice).acceptBid(1);
+    await tx.wait();
+    expect(await decryptBalance(energyCreditContract, signers.bob)).to.eq(10);
+    expect(await decryptBalance(paymentTokenContract, signers.alice)).to.eq(20);
+  });
+
+  it("should not reveal to the buyer that the seller's credits could not be escrowed", async function () {
+    // Alice has credits for her first offer only
+    await earnCredits(signers.alice, 50);
+    await approveMarket(energyCreditContract, signers.alice, 100);
+    await createOffer(signers.alice, 50, 20);
+    await createOffer(signers.alice, 50, 20);
+    expect(await decryptBalance(energyCreditContract, signers.alice)).to.eq(0);
+
+    await issuePayment(signers.bob, 1000);
+    await approveMarket(paymentTokenContract, signers.bob, 1000);
+    await placeBid(signers.bob, 0, 10);
+    await placeBid(signers.bob, 1, 10);
+    for (const bidId of [0, 1]) {
+      const tx = await energyMarketContract.connect(signers.alice).acceptBid(bidId);
+      await tx.wait();
+    }
+
+    // The buyer reads the same fill and price for both bids
+    for (const bidId of [0, 1]) {
+      const [, filled, paid] = await energyMarketContract.connect(signers.bob).getBidAmounts(bidId);
+      expect(await decryptMarketValue(filled, signers.bob)).to.eq(10);
+      expect(await decryptMarketValue(paid, signers.bob)).to.eq(20);
+    }
+
+    // Only the funded offer settled, the payment of the other bid is refunded
+    expect(await decryptBalance(energyCreditContract, signers.bob)).to.eq(10);
+    expect(await decryptBalance(paymentTokenContract, signers.bob)).to.eq(980);
+    expect(await decryptBalance(paymentTokenContract, signers.alice)).to.eq(20);
+  });
+
+  it("should list an empty offer when the credits are insufficient", async function () {
+    await earnCredits(signers.bob, 30);
+    await approveMarket(energyCreditContract, signers.bob, 80);
+
+    await createOffer(signers.bob, 80, 10);
+    const remaining = await energyMarketContract.connect(signers.bob).getOfferRemaining(0);
+    expect(await decryptMarketValue(remaining, signers.bob)).to.eq(0);
+    expect(await decryptBalance(energyCreditContract, signers.bob)).to.eq(30);
+
+    await expect(energyMarketContract.connect(signers.alice).getOfferRemaining(0)).to.be.revertedWithCustomError(
+      energyMarketContract,
+      "NotOfferSeller",
+    );
+    await expect(createOffer(signers.bob, 10, 0)).to.be.revertedWithCustomError(energyMarketContract, "InvalidPrice");
+    await expect(createOffer(signers.bob, 10, 2n ** 64n)).to.be.revertedWithCustomError(
+      energyMarketContract,
+      "InvalidPrice",
+    );
+  });
+
+  it("should refund the escrowed payment when the buyer cancels a bid", async function () {
+    await earnCredits(signers.alice, 50);
+    await approveMarket(energyCreditContract, signers.alice, 50);
+    await createOffer(signers.alice, 50, 20);
+    await issuePayment(signers.bob, 100);
+    await approveMarket(paymentTokenContract, signers.bob, 100);
+    await placeBid(signers.bob, 0, 10);
+    expect(await decryptBalance(paymentTokenContract, signers.bob)).to.eq(80);
+
+    await expect(energyMarketContract.connect(signers.alice).cancelBid(0)).to.be.revertedWithCustomError(
+      energyMarketContract,
+      "NotBidBuyer",
+    );
+    await expect(energyMarketContract.connect(signers.bob).cancelBid(0))
+      .to.emit(energyMarketContract, "BidCancelled")
+      .withArgs(0, 0, signers.bob.address);
+    expect(await decryptBalance(paymentTokenContract, signers.bob)).to.eq(100);
+    await expect(energyMarketContract.connect(signers.alice).acceptBid(0)).to.be.revertedWithCustomError(
+      energyMarketContract,
+      "BidIsClosed",
+    );
+    expect(await energyMarketContract.getUserBidIds(signers.bob.address)).to.deep.eq([0n]);
+    expect(await energyMarketContract.getOfferBidIds(0)).to.deep.eq([0n]);
+  });
+});
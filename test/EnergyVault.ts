@@ -1,8 +1,21 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
-import { ethers, fhevm } from "hardhat";
-import { EnergyVault, EnergyVault__factory } from "../types";
+import * as fs from "fs";
+import { ethers, fhevm, run } from "hardhat";
+import * as os from "os";
+import * as path from "path";
+import { EnergyVault } from "../types";
 import { expect } from "chai";
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import {
+  DEFAULT_VALUE_FORMAT,
+  ENERGY_UNITS,
+  decodeEnergyValue,
+  encodeEnergyValue,
+  parseEnergyDecimals,
+} from "../frontend/lib/energyUnits";
+import { getEnergyVaultFactory } from "./energyVaultFactory";
 
 type Signers = {
   deployer: HardhatEthersSigner;
@@ -11,13 +24,27 @@ type Signers = {
 };
 
 async function deployFixture() {
-  const factory = (await ethers.getContractFactory("EnergyVault")) as EnergyVault__factory;
-  const energyVaultContract = (await factory.deploy()) as EnergyVault;
+  const factory = await getEnergyVaultFactory();
+  const energyVaultContract = (await factory.deploy(
+    ENERGY_UNITS.indexOf(DEFAULT_VALUE_FORMAT.unit),
+    DEFAULT_VALUE_FORMAT.decimals,
+  )) as EnergyVault;
   const energyVaultContractAddress = await energyVaultContract.getAddress();
 
   return { energyVaultContract, energyVaultContractAddress };
 }
 
+// Measurement interval of a reading taken during the hour before the latest block
+async function lastHour(): Promise<[number, number]> {
+  const now = await time.latest();
+  return [now - 3600, now];
+}
+
+// Measurement intervals of a batch of readings taken during the hour before the latest block
+async function lastHourBatch(count: number): Promise<[number, number][]> {
+  return Array(count).fill(await lastHour());
+}
+
 describe("EnergyVault", function () {
   let signers: Signers;
   let energyVaultContract: EnergyVault;
@@ -43,6 +70,60 @@ describe("EnergyVault", function () {
     expect(totalRecords).to.eq(0);
   });
 
+  it("should expose the unit and decimals of the deployment", async function () {
+    expect(await energyVaultContract.valueUnit()).to.eq(ENERGY_UNITS.indexOf("kWh"));
+    expect(await energyVaultContract.valueDecimals()).to.eq(1);
+
+    const factory = await getEnergyVaultFactory();
+    const mwhVault = await factory.deploy(ENERGY_UNITS.indexOf("MWh"), 6);
+    expect(await mwhVault.valueUnit()).to.eq(ENERGY_UNITS.indexOf("MWh"));
+    expect(await mwhVault.valueDecimals()).to.eq(6);
+
+    await expect(factory.deploy(ENERGY_UNITS.indexOf("Wh"), 7)).to.be.revertedWithCustomError(
+      factory,
+      "InvalidDecimals",
+    );
+  });
+
+  it("should round-trip values through the shared fixed-point encoding", async function () {
+    const factory = await getEnergyVaultFactory();
+    const whVault = await factory.deploy(ENERGY_UNITS.indexOf("Wh"), 0);
+    const whVaultAddress = await whVault.getAddress();
+    const whFormat = { unit: "Wh" as const, decimals: 0 };
+
+    // 1.5 kWh entered by the user is stored as 1500 Wh
+    const encryptedValue = await fhevm
+      .createEncryptedInput(whVaultAddress, signers.alice.address)
+      .add64(encodeEnergyValue(1.5, whFormat, "kWh"))
+      .encrypt();
+    const tx = await whVault
+      .connect(signers.alice)
+      .createGenerationRecord("Solar", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
+    await tx.wait();
+
+    const encryptedRecordValue = await whVault.connect(signers.alice).getRecordEncryptedValue(0);
+    const clearValue = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      encryptedRecordValue,
+      whVaultAddress,
+      signers.alice,
+    );
+    expect(clearValue).to.eq(1500n);
+    expect(decodeEnergyValue(clearValue, whFormat)).to.eq(1500);
+
+    // The default deployment keeps one decimal of kWh
+    expect(encodeEnergyValue(12.34, DEFAULT_VALUE_FORMAT)).to.eq(123n);
+    expect(decodeEnergyValue(123n, DEFAULT_VALUE_FORMAT)).to.eq(12.3);
+    expect(encodeEnergyValue(0, DEFAULT_VALUE_FORMAT)).to.eq(0n);
+    expect(() => encodeEnergyValue(-1, DEFAULT_VALUE_FORMAT)).to.throw(RangeError);
+
+    // Decimals of a new deployment are validated before they become immutable
+    expect(parseEnergyDecimals(" 3 ")).to.eq(3);
+    for (const invalid of ["", "abc", "1.5", "-1", "7"]) {
+      expect(() => parseEnergyDecimals(invalid)).to.throw(RangeError);
+    }
+  });
+
   it("should create a generation record", async function () {
     const clearValue = 100; // 100 kWh
     const source = "Solar Panel";
@@ -50,13 +131,13 @@ describe("EnergyVault", function () {
     // Encrypt the value
     const encryptedValue = await fhevm
       .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
-      .add32(clearValue)
+      .add64(clearValue)
       .encrypt();
 
     // Create generation record
     const tx = await energyVaultContract
       .connect(signers.alice)
-      .createGenerationRecord(source, encryptedValue.handles[0], encryptedValue.inputProof);
+      .createGenerationRecord(source, encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
     await tx.wait();
 
     // Verify record was created
@@ -83,13 +164,13 @@ describe("EnergyVault", function () {
     // Encrypt the value
     const encryptedValue = await fhevm
       .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
-      .add32(clearValue)
+      .add64(clearValue)
       .encrypt();
 
     // Create consumption record
     const tx = await energyVaultContract
       .connect(signers.alice)
-      .createConsumptionRecord(source, encryptedValue.handles[0], encryptedValue.inputProof);
+      .createConsumptionRecord(source, encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
     await tx.wait();
 
     // Verify record was created
@@ -110,12 +191,12 @@ describe("EnergyVault", function () {
     // Encrypt and create record
     const encryptedValue = await fhevm
       .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
-      .add32(clearValue)
+      .add64(clearValue)
       .encrypt();
 
     const tx = await energyVaultContract
       .connect(signers.alice)
-      .createGenerationRecord(source, encryptedValue.handles[0], encryptedValue.inputProof);
+      .createGenerationRecord(source, encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
     await tx.wait();
 
     // Get encrypted value
@@ -125,7 +206,7 @@ describe("EnergyVault", function () {
 
     // Decrypt the value
     const decryptedValue = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
+      FhevmType.euint64,
       encryptedRecordValue,
       energyVaultContractAddress,
       signers.alice,
@@ -142,12 +223,12 @@ describe("EnergyVault", function () {
     for (const value of values) {
       const encryptedValue = await fhevm
         .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
-        .add32(value)
+        .add64(value)
         .encrypt();
 
       const tx = await energyVaultContract
         .connect(signers.alice)
-        .createGenerationRecord("Solar", encryptedValue.handles[0], encryptedValue.inputProof);
+        .createGenerationRecord("Solar", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
       await tx.wait();
     }
 
@@ -158,7 +239,7 @@ describe("EnergyVault", function () {
 
     // Decrypt and verify
     const decryptedTotal = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
+      FhevmType.euint64,
       encryptedTotal,
       energyVaultContractAddress,
       signers.alice,
@@ -175,12 +256,12 @@ describe("EnergyVault", function () {
     for (const value of values) {
       const encryptedValue = await fhevm
         .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
-        .add32(value)
+        .add64(value)
         .encrypt();
 
       const tx = await energyVaultContract
         .connect(signers.alice)
-        .createConsumptionRecord("Home", encryptedValue.handles[0], encryptedValue.inputProof);
+        .createConsumptionRecord("Home", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
       await tx.wait();
     }
 
@@ -191,7 +272,7 @@ describe("EnergyVault", function () {
 
     // Decrypt and verify
     const decryptedTotal = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
+      FhevmType.euint64,
       encryptedTotal,
       energyVaultContractAddress,
       signers.alice,
@@ -200,39 +281,1623 @@ describe("EnergyVault", function () {
     expect(decryptedTotal).to.eq(expectedTotal);
   });
 
+  it("should create a mixed batch of records", async function () {
+    const batch = [
+      { type: 0, source: "Solar", value: 40 },
+      { type: 1, source: "Home", value: 15 },
+      { type: 0, source: "Wind", value: 25 },
+    ];
+
+    // One encrypted input holding every value of the batch
+    const input = fhevm.createEncryptedInput(energyVaultContractAddress, signers.alice.address);
+    for (const entry of batch) {
+      input.add64(entry.value);
+    }
+    const encryptedValues = await input.encrypt();
+
+    const tx = await energyVaultContract.connect(signers.alice).createRecords(
+      batch.map((entry) => entry.type),
+      batch.map((entry) => entry.source),
+      encryptedValues.handles,
+      encryptedValues.inputProof,
+      await lastHourBatch(encryptedValues.handles.length),
+    );
+    await tx.wait();
+
+    expect(await energyVaultContract.getTotalRecords()).to.eq(batch.length);
+    expect(await energyVaultContract.getUserRecordIds(signers.alice.address)).to.deep.eq([0n, 1n, 2n]);
+
+    for (let i = 0; i < batch.length; i++) {
+      const metadata = await energyVaultContract.getRecordMetadata(i);
+      expect(metadata.recordType).to.eq(batch[i].type);
+      expect(metadata.source).to.eq(batch[i].source);
+
+      const encryptedRecordValue = await energyVaultContract.connect(signers.alice).getRecordEncryptedValue(i);
+      const decryptedValue = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        encryptedRecordValue,
+        energyVaultContractAddress,
+        signers.alice,
+      );
+      expect(decryptedValue).to.eq(batch[i].value);
+    }
+  });
+
+  it("should aggregate batch totals on top of single records", async function () {
+    // Single record first, so the batch adds to an initialized total
+    const single = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(100)
+      .encrypt();
+    await (
+      await energyVaultContract
+        .connect(signers.alice)
+        .createGenerationRecord("Solar", single.handles[0], single.inputProof, ...(await lastHour()))
+    ).wait();
+
+    const types = [1, 0, 1, 0, 1];
+    const values = [10, 20, 30, 40, 50];
+    const input = fhevm.createEncryptedInput(energyVaultContractAddress, signers.alice.address);
+    for (const value of values) {
+      input.add64(value);
+    }
+    const encryptedValues = await input.encrypt();
+
+    await (
+      await energyVaultContract.connect(signers.alice).createRecords(
+        types,
+        types.map((type) => (type === 0 ? "Solar" : "Home")),
+        encryptedValues.handles,
+        encryptedValues.inputProof,
+        await lastHourBatch(encryptedValues.handles.length),
+      )
+    ).wait();
+
+    const encryptedGeneration = await energyVaultContract
+      .connect(signers.alice)
+      .getTotalGeneration(signers.alice.address);
+    const encryptedConsumption = await energyVaultContract
+      .connect(signers.alice)
+      .getTotalConsumption(signers.alice.address);
+
+    expect(
+      await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        encryptedGeneration,
+        energyVaultContractAddress,
+        signers.alice,
+      ),
+    ).to.eq(100 + 20 + 40);
+    expect(
+      await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        encryptedConsumption,
+        energyVaultContractAddress,
+        signers.alice,
+      ),
+    ).to.eq(10 + 30 + 50);
+  });
+
+  it("should reject empty or mismatched batches", async function () {
+    const encryptedValues = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(1)
+      .add64(2)
+      .encrypt();
+
+    await expect(
+      energyVaultContract.connect(signers.alice).createRecords([], [], [], encryptedValues.inputProof, []),
+    ).to.be.revertedWithCustomError(energyVaultContract, "EmptyBatch");
+
+    await expect(
+      energyVaultContract
+        .connect(signers.alice)
+        .createRecords(
+          [0, 1],
+          ["Solar"],
+          encryptedValues.handles,
+          encryptedValues.inputProof,
+          await lastHourBatch(encryptedValues.handles.length),
+        ),
+    ).to.be.revertedWithCustomError(energyVaultContract, "BatchLengthMismatch");
+  });
+
+  it("should compute the encrypted net balance for a surplus", async function () {
+    const input = fhevm.createEncryptedInput(energyVaultContractAddress, signers.alice.address);
+    input.add64(300).add64(120).add64(50);
+    const encryptedValues = await input.encrypt();
+
+    await (
+      await energyVaultContract
+        .connect(signers.alice)
+        .createRecords(
+          [0, 1, 1],
+          ["Solar", "Home", "EV"],
+          encryptedValues.handles,
+          encryptedValues.inputProof,
+          await lastHourBatch(encryptedValues.handles.length),
+        )
+    ).wait();
+
+    const encryptedNetBalance = await energyVaultContract
+      .connect(signers.alice)
+      .getNetBalance(signers.alice.address);
+    const encryptedIsSurplus = await energyVaultContract
+      .connect(signers.alice)
+      .getIsSurplus(signers.alice.address);
+
+    expect(
+      await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        encryptedNetBalance,
+        energyVaultContractAddress,
+        signers.alice,
+      ),
+    ).to.eq(300 - 120 - 50);
+    expect(await fhevm.userDecryptEbool(encryptedIsSurplus, energyVaultContractAddress, signers.alice)).to.eq(true);
+  });
+
+  it("should compute the encrypted net balance for a deficit", async function () {
+    for (const [method, value] of [
+      ["createGenerationRecord", 40],
+      ["createConsumptionRecord", 100],
+    ] as const) {
+      const encryptedValue = await fhevm
+        .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+        .add64(value)
+        .encrypt();
+      await (
+        await energyVaultContract
+          .connect(signers.alice)
+          [method]("Meter", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()))
+      ).wait();
+    }
+
+    const encryptedNetBalance = await energyVaultContract
+      .connect(signers.alice)
+      .getNetBalance(signers.alice.address);
+    const encryptedIsSurplus = await energyVaultContract
+      .connect(signers.alice)
+      .getIsSurplus(signers.alice.address);
+
+    expect(
+      await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        encryptedNetBalance,
+        energyVaultContractAddress,
+        signers.alice,
+      ),
+    ).to.eq(100 - 40);
+    expect(await fhevm.userDecryptEbool(encryptedIsSurplus, energyVaultContractAddress, signers.alice)).to.eq(false);
+
+    await expect(
+      energyVaultContract.connect(signers.bob).getNetBalance(signers.alice.address),
+    ).to.be.revertedWithCustomError(energyVaultContract, "CanOnlyViewOwnTotals");
+  });
+
   it("should not allow non-owner to access encrypted value", async function () {
     const clearValue = 100;
 
     // Alice creates a record
     const encryptedValue = await fhevm
       .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
-      .add32(clearValue)
+      .add64(clearValue)
       .encrypt();
 
     const tx = await energyVaultContract
       .connect(signers.alice)
-      .createGenerationRecord("Solar", encryptedValue.handles[0], encryptedValue.inputProof);
+      .createGenerationRecord("Solar", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
     await tx.wait();
 
     // Bob tries to access Alice's record
-    await expect(
-      energyVaultContract.connect(signers.bob).getRecordEncryptedValue(0)
-    ).to.be.revertedWith("Not record owner");
+    await expect(energyVaultContract.connect(signers.bob).getRecordEncryptedValue(0)).to.be.revertedWithCustomError(
+      energyVaultContract,
+      "NotRecordOwner",
+    );
   });
 
   it("should correctly report record ownership", async function () {
     const encryptedValue = await fhevm
       .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
-      .add32(100)
+      .add64(100)
       .encrypt();
 
     const tx = await energyVaultContract
       .connect(signers.alice)
-      .createGenerationRecord("Solar", encryptedValue.handles[0], encryptedValue.inputProof);
+      .createGenerationRecord("Solar", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
     await tx.wait();
 
     // Check ownership
-    expect(await energyVaultContract.isRecordOwner(0, signers.alice.address)).to.be.true;
-    expect(await energyVaultContract.isRecordOwner(0, signers.bob.address)).to.be.false;
+    expect(await energyVaultContract.isRecordOwner(0, signers.alice.address)).to.eq(true);
+    expect(await energyVaultContract.isRecordOwner(0, signers.bob.address)).to.eq(false);
+  });
+
+  it("should let a grantee decrypt a shared record", async function () {
+    const clearValue = 75;
+
+    const encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(clearValue)
+      .encrypt();
+
+    let tx = await energyVaultContract
+      .connect(signers.alice)
+      .createGenerationRecord("Solar", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
+    await tx.wait();
+
+    // Alice shares the record with Bob
+    tx = await energyVaultContract.connect(signers.alice).grantAccess(0, signers.bob.address);
+    await expect(tx)
+      .to.emit(energyVaultContract, "AccessGranted")
+      .withArgs(0, signers.alice.address, signers.bob.address);
+
+    expect(await energyVaultContract.getRecordGrantees(0)).to.deep.eq([signers.bob.address]);
+    expect(await energyVaultContract.getRecordsSharedWith(signers.bob.address)).to.deep.eq([0n]);
+    expect(await energyVaultContract.hasRecordAccess(0, signers.bob.address)).to.eq(true);
+
+    // Bob can now fetch and decrypt the value
+    const encryptedHandle = await energyVaultContract.connect(signers.bob).getRecordEncryptedValue(0);
+    const clearDecrypted = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      encryptedHandle,
+      energyVaultContractAddress,
+      signers.bob,
+    );
+    expect(clearDecrypted).to.eq(clearValue);
+  });
+
+  it("should revoke access to a shared record", async function () {
+    const encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(10)
+      .add64(20)
+      .encrypt();
+
+    let tx = await energyVaultContract
+      .connect(signers.alice)
+      .createRecords(
+        [0, 1],
+        ["Solar", "Home"],
+        [encryptedValue.handles[0], encryptedValue.handles[1]],
+        encryptedValue.inputProof,
+        await lastHourBatch(2),
+      );
+    await tx.wait();
+
+    tx = await energyVaultContract.connect(signers.alice).grantAccess(0, signers.bob.address);
+    await tx.wait();
+    tx = await energyVaultContract.connect(signers.alice).grantAccess(1, signers.bob.address);
+    await tx.wait();
+    tx = await energyVaultContract.connect(signers.alice).grantAccess(0, signers.deployer.address);
+    await tx.wait();
+
+    tx = await energyVaultContract.connect(signers.alice).revokeAccess(0, signers.bob.address);
+    await expect(tx)
+      .to.emit(energyVaultContract, "AccessRevoked")
+      .withArgs(0, signers.alice.address, signers.bob.address);
+
+    expect(await energyVaultContract.getRecordGrantees(0)).to.deep.eq([signers.deployer.address]);
+    expect(await energyVaultContract.getRecordsSharedWith(signers.bob.address)).to.deep.eq([1n]);
+    expect(await energyVaultContract.hasRecordAccess(0, signers.bob.address)).to.eq(false);
+
+    await expect(energyVaultContract.connect(signers.bob).getRecordEncryptedValue(0)).to.be.revertedWithCustomError(
+      energyVaultContract,
+      "NotRecordOwner",
+    );
+    // Other grants are untouched
+    await energyVaultContract.connect(signers.bob).getRecordEncryptedValue(1);
+    await energyVaultContract.connect(signers.deployer).getRecordEncryptedValue(0);
+  });
+
+  it("should only let the owner share a record", async function () {
+    const encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(100)
+      .encrypt();
+
+    let tx = await energyVaultContract
+      .connect(signers.alice)
+      .createGenerationRecord("Solar", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
+    await tx.wait();
+
+    await expect(
+      energyVaultContract.connect(signers.bob).grantAccess(0, signers.bob.address),
+    ).to.be.revertedWithCustomError(energyVaultContract, "NotRecordOwner");
+    await expect(
+      energyVaultContract.connect(signers.alice).grantAccess(0, signers.alice.address),
+    ).to.be.revertedWithCustomError(energyVaultContract, "InvalidGrantee");
+    await expect(
+      energyVaultContract.connect(signers.alice).revokeAccess(0, signers.bob.address),
+    ).to.be.revertedWithCustomError(energyVaultContract, "AccessNotGranted");
+
+    tx = await energyVaultContract.connect(signers.alice).grantAccess(0, signers.bob.address);
+    await tx.wait();
+    await expect(
+      energyVaultContract.connect(signers.alice).grantAccess(0, signers.bob.address),
+    ).to.be.revertedWithCustomError(energyVaultContract, "AccessAlreadyGranted");
+    await expect(
+      energyVaultContract.connect(signers.bob).revokeAccess(0, signers.bob.address),
+    ).to.be.revertedWithCustomError(energyVaultContract, "NotRecordOwner");
+  });
+
+  it("should let an authorized auditor decrypt totals", async function () {
+    // Alice records generation before authorizing Bob as her auditor
+    let encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(100)
+      .encrypt();
+    let tx = await energyVaultContract
+      .connect(signers.alice)
+      .createGenerationRecord("Solar", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
+    await tx.wait();
+
+    await expect(
+      energyVaultContract.connect(signers.bob).getTotalGeneration(signers.alice.address),
+    ).to.be.revertedWithCustomError(energyVaultContract, "CanOnlyViewOwnTotals");
+
+    tx = await energyVaultContract.connect(signers.alice).authorizeAuditor(signers.bob.address);
+    await expect(tx)
+      .to.emit(energyVaultContract, "AuditorAuthorized")
+      .withArgs(signers.alice.address, signers.bob.address);
+
+    expect(await energyVaultContract.getAuditors(signers.alice.address)).to.deep.eq([signers.bob.address]);
+    expect(await energyVaultContract.getAuditedUsers(signers.bob.address)).to.deep.eq([signers.alice.address]);
+    expect(await energyVaultContract.isAuditor(signers.alice.address, signers.bob.address)).to.eq(true);
+
+    // The existing total is readable right away
+    let encryptedTotal = await energyVaultContract.connect(signers.bob).getTotalGeneration(signers.alice.address);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, encryptedTotal, energyVaultContractAddress, signers.bob),
+    ).to.eq(100);
+
+    // Totals updated after the authorization are readable too
+    encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(50)
+      .add64(30)
+      .encrypt();
+    tx = await energyVaultContract
+      .connect(signers.alice)
+      .createRecords(
+        [0, 1],
+        ["Wind", "Home"],
+        [encryptedValue.handles[0], encryptedValue.handles[1]],
+        encryptedValue.inputProof,
+        await lastHourBatch(2),
+      );
+    await tx.wait();
+
+    encryptedTotal = await energyVaultContract.connect(signers.bob).getTotalGeneration(signers.alice.address);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, encryptedTotal, energyVaultContractAddress, signers.bob),
+    ).to.eq(150);
+    encryptedTotal = await energyVaultContract.connect(signers.bob).getTotalConsumption(signers.alice.address);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, encryptedTotal, energyVaultContractAddress, signers.bob),
+    ).to.eq(30);
+
+    // Auditors see totals only, not the individual records
+    await expect(energyVaultContract.connect(signers.bob).getRecordEncryptedValue(0)).to.be.revertedWithCustomError(
+      energyVaultContract,
+      "NotRecordOwner",
+    );
+  });
+
+  it("should revoke an auditor", async function () {
+    let tx = await energyVaultContract.connect(signers.alice).authorizeAuditor(signers.bob.address);
+    await tx.wait();
+    tx = await energyVaultContract.connect(signers.alice).authorizeAuditor(signers.deployer.address);
+    await tx.wait();
+
+    await expect(
+      energyVaultContract.connect(signers.alice).authorizeAuditor(signers.bob.address),
+    ).to.be.revertedWithCustomError(energyVaultContract, "AuditorAlreadyAuthorized");
+    await expect(
+      energyVaultContract.connect(signers.alice).authorizeAuditor(signers.alice.address),
+    ).to.be.revertedWithCustomError(energyVaultContract, "InvalidAuditor");
+
+    tx = await energyVaultContract.connect(signers.alice).revokeAuditor(signers.bob.address);
+    await expect(tx)
+      .to.emit(energyVaultContract, "AuditorRevoked")
+      .withArgs(signers.alice.address, signers.bob.address);
+
+    expect(await energyVaultContract.getAuditors(signers.alice.address)).to.deep.eq([signers.deployer.address]);
+    expect(await energyVaultContract.getAuditedUsers(signers.bob.address)).to.deep.eq([]);
+    await expect(
+      energyVaultContract.connect(signers.bob).getTotalGeneration(signers.alice.address),
+    ).to.be.revertedWithCustomError(energyVaultContract, "CanOnlyViewOwnTotals");
+    await expect(
+      energyVaultContract.connect(signers.alice).revokeAuditor(signers.bob.address),
+    ).to.be.revertedWithCustomError(energyVaultContract, "AuditorNotAuthorized");
+  });
+
+  it("should let an auditor decrypt the totals of a past month", async function () {
+    const [DAY, MONTH] = [0, 1];
+
+    // Alice records generation and consumption, then again a month later before she authorizes Bob
+    let encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(100)
+      .add64(40)
+      .encrypt();
+    let tx = await energyVaultContract
+      .connect(signers.alice)
+      .createRecords(
+        [0, 1],
+        ["Solar", "Home"],
+        [encryptedValue.handles[0], encryptedValue.handles[1]],
+        encryptedValue.inputProof,
+        await lastHourBatch(2),
+      );
+    await tx.wait();
+    const recordedAt = await time.latest();
+    await time.increase(32 * 24 * 60 * 60);
+
+    encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(50)
+      .add64(20)
+      .encrypt();
+    tx = await energyVaultContract
+      .connect(signers.alice)
+      .createRecords(
+        [0, 1],
+        ["Wind", "Office"],
+        [encryptedValue.handles[0], encryptedValue.handles[1]],
+        encryptedValue.inputProof,
+        await lastHourBatch(2),
+      );
+    await tx.wait();
+
+    await expect(
+      energyVaultContract.connect(signers.alice).allowAuditorPeriodTotals(signers.bob.address, MONTH, 0, 1),
+    ).to.be.revertedWithCustomError(energyVaultContract, "AuditorNotAuthorized");
+    await expect(
+      energyVaultContract.connect(signers.alice).allowAuditorSourceTotals(signers.bob.address, 0, 1),
+    ).to.be.revertedWithCustomError(energyVaultContract, "AuditorNotAuthorized");
+
+    tx = await energyVaultContract.connect(signers.alice).authorizeAuditor(signers.bob.address);
+    await tx.wait();
+
+    const decrypt = (handle: string) =>
+      fhevm.userDecryptEuint(FhevmType.euint64, handle, energyVaultContractAddress, signers.bob);
+    const alice = signers.alice.address;
+    const auditor = energyVaultContract.connect(signers.bob);
+    const month = await energyVaultContract.getPeriodIndex(MONTH, recordedAt);
+    const day = await energyVaultContract.getPeriodIndex(DAY, recordedAt);
+
+    // Authorizing shares the overall totals only: past periods and sources are shared page by page
+    expect(await decrypt(await auditor.getTotalGeneration(alice))).to.eq(150);
+    let [monthGeneration, monthConsumption] = await auditor.getPeriodTotals(alice, MONTH, month);
+    expect(
+      await decrypt(monthGeneration).then(
+        () => true,
+        () => false,
+      ),
+    ).to.eq(false);
+
+    await expect(
+      energyVaultContract.connect(signers.alice).allowAuditorPeriodTotals(signers.bob.address, DAY, day, 101),
+    ).to.be.revertedWithCustomError(energyVaultContract, "PageTooLarge");
+    await expect(
+      energyVaultContract.connect(signers.alice).allowAuditorSourceTotals(signers.bob.address, 0, 101),
+    ).to.be.revertedWithCustomError(energyVaultContract, "PageTooLarge");
+
+    tx = await energyVaultContract
+      .connect(signers.alice)
+      .allowAuditorPeriodTotals(signers.bob.address, MONTH, month, 1);
+    await tx.wait();
+    tx = await energyVaultContract
+      .connect(signers.alice)
+      .allowAuditorPeriodTotals(signers.bob.address, DAY, day - 5n, 10);
+    await tx.wait();
+    tx = await energyVaultContract.connect(signers.alice).allowAuditorSourceTotals(signers.bob.address, 0, 100);
+    await tx.wait();
+
+    [monthGeneration, monthConsumption] = await auditor.getPeriodTotals(alice, MONTH, month);
+    expect(await decrypt(monthGeneration)).to.eq(100);
+    expect(await decrypt(monthConsumption)).to.eq(40);
+
+    const [dayGeneration] = await auditor.getPeriodTotals(alice, DAY, day);
+    expect(await decrypt(dayGeneration)).to.eq(100);
+
+    const [, sourceConsumption] = await auditor.getSourceTotals(alice, "Home");
+    expect(await decrypt(sourceConsumption)).to.eq(40);
+  });
+
+  it("should compute day and month period indexes", async function () {
+    const DAY = 0;
+    const MONTH = 1;
+
+    expect(await energyVaultContract.getPeriodIndex(MONTH, 0)).to.eq(0);
+    // 2000-03-01T00:00:00Z
+    expect(await energyVaultContract.getPeriodIndex(MONTH, 951868800)).to.eq(30 * 12 + 2);
+    // 2024-02-29T00:00:00Z (leap day)
+    expect(await energyVaultContract.getPeriodIndex(MONTH, 1709164800)).to.eq(54 * 12 + 1);
+    expect(await energyVaultContract.getPeriodIndex(DAY, 1709164800)).to.eq(19782);
+    // 2025-12-31T23:59:59Z
+    expect(await energyVaultContract.getPeriodIndex(MONTH, 1767225599)).to.eq(55 * 12 + 11);
+    expect(await energyVaultContract.getPeriodIndex(MONTH, 1767225600)).to.eq(56 * 12);
+  });
+
+  it("should aggregate totals per month", async function () {
+    const MONTH = 1;
+
+    let encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(100)
+      .add64(40)
+      .encrypt();
+    let tx = await energyVaultContract
+      .connect(signers.alice)
+      .createRecords(
+        [0, 1],
+        ["Solar", "Home"],
+        [encryptedValue.handles[0], encryptedValue.handles[1]],
+        encryptedValue.inputProof,
+        await lastHourBatch(2),
+      );
+    await tx.wait();
+    const firstMonth = await energyVaultContract.getPeriodIndex(MONTH, await time.latest());
+
+    // Move past the end of the month
+    await time.increase(32 * 24 * 60 * 60);
+
+    encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(25)
+      .encrypt();
+    tx = await energyVaultContract
+      .connect(signers.alice)
+      .createGenerationRecord("Solar", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
+    await tx.wait();
+    const secondMonth = await energyVaultContract.getPeriodIndex(MONTH, await time.latest());
+    expect(secondMonth).to.be.gt(firstMonth);
+
+    const [generation, consumption] = await energyVaultContract
+      .connect(signers.alice)
+      .getPeriodTotalsRange(signers.alice.address, MONTH, firstMonth, secondMonth - firstMonth + 1n);
+    expect(generation.length).to.eq(Number(secondMonth - firstMonth + 1n));
+
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, generation[0], energyVaultContractAddress, signers.alice),
+    ).to.eq(100);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, consumption[0], energyVaultContractAddress, signers.alice),
+    ).to.eq(40);
+    expect(
+      await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        generation[generation.length - 1],
+        energyVaultContractAddress,
+        signers.alice,
+      ),
+    ).to.eq(25);
+    // No consumption was recorded in the second month
+    expect(consumption[consumption.length - 1]).to.eq(ethers.ZeroHash);
+
+    // The all-time total still covers both months
+    const encryptedTotal = await energyVaultContract.connect(signers.alice).getTotalGeneration(signers.alice.address);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, encryptedTotal, energyVaultContractAddress, signers.alice),
+    ).to.eq(125);
+
+    await expect(
+      energyVaultContract.connect(signers.bob).getPeriodTotals(signers.alice.address, MONTH, firstMonth),
+    ).to.be.revertedWithCustomError(energyVaultContract, "CanOnlyViewOwnTotals");
+    await expect(
+      energyVaultContract.connect(signers.alice).getPeriodTotalsRange(signers.alice.address, MONTH, 0, 367),
+    ).to.be.revertedWithCustomError(energyVaultContract, "RangeTooLarge");
+  });
+
+  it("should aggregate totals per day", async function () {
+    const DAY = 0;
+
+    let encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(10)
+      .encrypt();
+    let tx = await energyVaultContract
+      .connect(signers.alice)
+      .createConsumptionRecord("Home", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
+    await tx.wait();
+    const firstDay = await energyVaultContract.getPeriodIndex(DAY, await time.latest());
+
+    encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(15)
+      .encrypt();
+    tx = await energyVaultContract
+      .connect(signers.alice)
+      .createConsumptionRecord("Home", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
+    await tx.wait();
+
+    // Same day unless the two blocks straddle midnight
+    const secondDay = await energyVaultContract.getPeriodIndex(DAY, await time.latest());
+    const [, consumption] = await energyVaultContract
+      .connect(signers.alice)
+      .getPeriodTotals(signers.alice.address, DAY, secondDay);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, consumption, energyVaultContractAddress, signers.alice),
+    ).to.eq(firstDay === secondDay ? 25 : 15);
+  });
+
+  it("should aggregate totals per source", async function () {
+    let encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(100)
+      .encrypt();
+    let tx = await energyVaultContract
+      .connect(signers.alice)
+      .createGenerationRecord("Solar", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
+    await tx.wait();
+
+    encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(30)
+      .add64(20)
+      .add64(40)
+      .encrypt();
+    tx = await energyVaultContract
+      .connect(signers.alice)
+      .createRecords(
+        [0, 0, 1],
+        ["Wind", "Solar", "Home"],
+        [encryptedValue.handles[0], encryptedValue.handles[1], encryptedValue.handles[2]],
+        encryptedValue.inputProof,
+        await lastHourBatch(3),
+      );
+    await tx.wait();
+
+    expect(await energyVaultContract.getUserSources(signers.alice.address)).to.deep.eq(["Solar", "Wind", "Home"]);
+
+    const expected: [string, number, number][] = [
+      ["Solar", 120, 0],
+      ["Wind", 30, 0],
+      ["Home", 0, 40],
+    ];
+    for (const [source, clearGeneration, clearConsumption] of expected) {
+      const [generation, consumption] = await energyVaultContract
+        .connect(signers.alice)
+        .getSourceTotals(signers.alice.address, source);
+      for (const [handle, clearValue] of [
+        [generation, clearGeneration],
+        [consumption, clearConsumption],
+      ] as const) {
+        if (clearValue === 0) {
+          // The source was never used with this record type
+          expect(handle).to.eq(ethers.ZeroHash);
+        } else {
+          expect(
+            await fhevm.userDecryptEuint(FhevmType.euint64, handle, energyVaultContractAddress, signers.alice),
+          ).to.eq(clearValue);
+        }
+      }
+    }
+
+    await expect(
+      energyVaultContract.connect(signers.bob).getSourceTotals(signers.alice.address, "Solar"),
+    ).to.be.revertedWithCustomError(energyVaultContract, "CanOnlyViewOwnTotals");
+  });
+
+  it("should correct a record and adjust every aggregate", async function () {
+    const MONTH = 1;
+
+    let encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(100)
+      .add64(40)
+      .encrypt();
+    let tx = await energyVaultContract
+      .connect(signers.alice)
+      .createRecords(
+        [0, 1],
+        ["Solar", "Home"],
+        [encryptedValue.handles[0], encryptedValue.handles[1]],
+        encryptedValue.inputProof,
+        await lastHourBatch(2),
+      );
+    await tx.wait();
+    const month = await energyVaultContract.getPeriodIndex(MONTH, await time.latest());
+
+    // Bob was granted the record before the correction and keeps access to the new value
+    tx = await energyVaultContract.connect(signers.alice).grantAccess(0, signers.bob.address);
+    await tx.wait();
+
+    encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(70)
+      .encrypt();
+    await expect(
+      energyVaultContract.connect(signers.alice).correctRecord(0, encryptedValue.handles[0], encryptedValue.inputProof),
+    )
+      .to.emit(energyVaultContract, "RecordCorrected")
+      .withArgs(0, signers.alice.address, anyValue);
+
+    const encryptedRecordValue = await energyVaultContract.connect(signers.bob).getRecordEncryptedValue(0);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, encryptedRecordValue, energyVaultContractAddress, signers.bob),
+    ).to.eq(70);
+
+    const encryptedTotal = await energyVaultContract.connect(signers.alice).getTotalGeneration(signers.alice.address);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, encryptedTotal, energyVaultContractAddress, signers.alice),
+    ).to.eq(70);
+
+    const [monthGeneration] = await energyVaultContract
+      .connect(signers.alice)
+      .getPeriodTotals(signers.alice.address, MONTH, month);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, monthGeneration, energyVaultContractAddress, signers.alice),
+    ).to.eq(70);
+
+    const [sourceGeneration] = await energyVaultContract
+      .connect(signers.alice)
+      .getSourceTotals(signers.alice.address, "Solar");
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, sourceGeneration, energyVaultContractAddress, signers.alice),
+    ).to.eq(70);
+
+    const encryptedNetBalance = await energyVaultContract.connect(signers.alice).getNetBalance(signers.alice.address);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, encryptedNetBalance, energyVaultContractAddress, signers.alice),
+    ).to.eq(30);
+  });
+
+  it("should void a record and subtract it from every aggregate", async function () {
+    const DAY = 0;
+
+    const encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(100)
+      .add64(40)
+      .add64(15)
+      .encrypt();
+    const tx = await energyVaultContract
+      .connect(signers.alice)
+      .createRecords(
+        [0, 1, 1],
+        ["Solar", "Home", "EV"],
+        encryptedValue.handles,
+        encryptedValue.inputProof,
+        await lastHourBatch(encryptedValue.handles.length),
+      );
+    await tx.wait();
+    const day = await energyVaultContract.getPeriodIndex(DAY, await time.latest());
+
+    await expect(energyVaultContract.connect(signers.alice).voidRecord(1))
+      .to.emit(energyVaultContract, "RecordVoided")
+      .withArgs(1, signers.alice.address, anyValue);
+
+    const metadata = await energyVaultContract.getRecordMetadata(1);
+    expect(metadata[5]).to.eq(true);
+    expect((await energyVaultContract.getRecordMetadata(0))[5]).to.eq(false);
+
+    const encryptedTotal = await energyVaultContract.connect(signers.alice).getTotalConsumption(signers.alice.address);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, encryptedTotal, energyVaultContractAddress, signers.alice),
+    ).to.eq(15);
+
+    const [, dayConsumption] = await energyVaultContract
+      .connect(signers.alice)
+      .getPeriodTotals(signers.alice.address, DAY, day);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, dayConsumption, energyVaultContractAddress, signers.alice),
+    ).to.eq(15);
+
+    const [, sourceConsumption] = await energyVaultContract
+      .connect(signers.alice)
+      .getSourceTotals(signers.alice.address, "Home");
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, sourceConsumption, energyVaultContractAddress, signers.alice),
+    ).to.eq(0);
+
+    const encryptedNetBalance = await energyVaultContract.connect(signers.alice).getNetBalance(signers.alice.address);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, encryptedNetBalance, energyVaultContractAddress, signers.alice),
+    ).to.eq(85);
+  });
+
+  it("should only let the owner correct or void a live record", async function () {
+    let encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(100)
+      .encrypt();
+    let tx = await energyVaultContract
+      .connect(signers.alice)
+      .createGenerationRecord("Solar", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
+    await tx.wait();
+
+    await expect(energyVaultContract.connect(signers.bob).voidRecord(0)).to.be.revertedWithCustomError(
+      energyVaultContract,
+      "NotRecordOwner",
+    );
+    await expect(energyVaultContract.connect(signers.alice).voidRecord(1)).to.be.revertedWithCustomError(
+      energyVaultContract,
+      "RecordDoesNotExist",
+    );
+
+    encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.bob.address)
+      .add64(1)
+      .encrypt();
+    await expect(
+      energyVaultContract.connect(signers.bob).correctRecord(0, encryptedValue.handles[0], encryptedValue.inputProof),
+    ).to.be.revertedWithCustomError(energyVaultContract, "NotRecordOwner");
+
+    tx = await energyVaultContract.connect(signers.alice).voidRecord(0);
+    await tx.wait();
+    await expect(energyVaultContract.connect(signers.alice).voidRecord(0)).to.be.revertedWithCustomError(
+      energyVaultContract,
+      "RecordIsVoid",
+    );
+
+    encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(1)
+      .encrypt();
+    await expect(
+      energyVaultContract.connect(signers.alice).correctRecord(0, encryptedValue.handles[0], encryptedValue.inputProof),
+    ).to.be.revertedWithCustomError(energyVaultContract, "RecordIsVoid");
+  });
+
+  it("should accumulate totals beyond the uint32 range", async function () {
+    const encryptedValues = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(4_000_000_000)
+      .add64(500_000_000)
+      .encrypt();
+    const tx = await energyVaultContract
+      .connect(signers.alice)
+      .createRecords(
+        [0, 0],
+        ["Solar", "Solar"],
+        encryptedValues.handles,
+        encryptedValues.inputProof,
+        await lastHourBatch(encryptedValues.handles.length),
+      );
+    await tx.wait();
+
+    const encryptedTotal = await energyVaultContract.connect(signers.alice).getTotalGeneration(signers.alice.address);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, encryptedTotal, energyVaultContractAddress, signers.alice),
+    ).to.eq(4_500_000_000n);
+
+    const encryptedOverflowed = await energyVaultContract
+      .connect(signers.alice)
+      .getTotalsOverflowed(signers.alice.address);
+    expect(await fhevm.userDecryptEbool(encryptedOverflowed, energyVaultContractAddress, signers.alice)).to.eq(false);
+  });
+
+  it("should clamp and flag totals that would wrap around", async function () {
+    const MONTH = 1;
+    const MAX_UINT64 = 2n ** 64n - 1n;
+
+    let tx = await energyVaultContract.connect(signers.alice).authorizeAuditor(signers.bob.address);
+    await tx.wait();
+
+    let encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(MAX_UINT64 - 10n)
+      .encrypt();
+    tx = await energyVaultContract
+      .connect(signers.alice)
+      .createGenerationRecord("Solar", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
+    await tx.wait();
+
+    encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(20)
+      .encrypt();
+    tx = await energyVaultContract
+      .connect(signers.alice)
+      .createGenerationRecord("Solar", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
+    await tx.wait();
+    const month = await energyVaultContract.getPeriodIndex(MONTH, await time.latest());
+
+    // Without clamping the total would have wrapped around to 9
+    const encryptedTotal = await energyVaultContract.connect(signers.alice).getTotalGeneration(signers.alice.address);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, encryptedTotal, energyVaultContractAddress, signers.alice),
+    ).to.eq(MAX_UINT64);
+
+    const [monthGeneration] = await energyVaultContract
+      .connect(signers.alice)
+      .getPeriodTotals(signers.alice.address, MONTH, month);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, monthGeneration, energyVaultContractAddress, signers.alice),
+    ).to.eq(MAX_UINT64);
+
+    const [sourceGeneration] = await energyVaultContract
+      .connect(signers.alice)
+      .getSourceTotals(signers.alice.address, "Solar");
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, sourceGeneration, energyVaultContractAddress, signers.alice),
+    ).to.eq(MAX_UINT64);
+
+    const encryptedNetBalance = await energyVaultContract.connect(signers.alice).getNetBalance(signers.alice.address);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, encryptedNetBalance, energyVaultContractAddress, signers.alice),
+    ).to.eq(MAX_UINT64);
+
+    // The flag is readable by the owner and their auditor
+    const encryptedOverflowed = await energyVaultContract
+      .connect(signers.bob)
+      .getTotalsOverflowed(signers.alice.address);
+    expect(await fhevm.userDecryptEbool(encryptedOverflowed, energyVaultContractAddress, signers.alice)).to.eq(true);
+    expect(await fhevm.userDecryptEbool(encryptedOverflowed, energyVaultContractAddress, signers.bob)).to.eq(true);
+
+    await expect(
+      energyVaultContract.connect(signers.deployer).getTotalsOverflowed(signers.alice.address),
+    ).to.be.revertedWithCustomError(energyVaultContract, "CanOnlyViewOwnTotals");
+  });
+
+  it("should clamp a batch sum that would wrap around", async function () {
+    const MAX_UINT64 = 2n ** 64n - 1n;
+
+    const encryptedValues = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(MAX_UINT64)
+      .add64(1)
+      .add64(7)
+      .encrypt();
+    const tx = await energyVaultContract
+      .connect(signers.alice)
+      .createRecords(
+        [1, 1, 0],
+        ["Home", "EV", "Solar"],
+        encryptedValues.handles,
+        encryptedValues.inputProof,
+        await lastHourBatch(encryptedValues.handles.length),
+      );
+    await tx.wait();
+
+    const encryptedTotal = await energyVaultContract
+      .connect(signers.alice)
+      .getTotalConsumption(signers.alice.address);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, encryptedTotal, energyVaultContractAddress, signers.alice),
+    ).to.eq(MAX_UINT64);
+
+    const encryptedOverflowed = await energyVaultContract
+      .connect(signers.alice)
+      .getTotalsOverflowed(signers.alice.address);
+    expect(await fhevm.userDecryptEbool(encryptedOverflowed, energyVaultContractAddress, signers.alice)).to.eq(true);
+
+    // Generation stays exact: 7 - MAX_UINT64 is a deficit of MAX_UINT64 - 7
+    const encryptedNetBalance = await energyVaultContract.connect(signers.alice).getNetBalance(signers.alice.address);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, encryptedNetBalance, energyVaultContractAddress, signers.alice),
+    ).to.eq(MAX_UINT64 - 7n);
+  });
+
+  it("should flag consumption above an encrypted monthly limit", async function () {
+    const MONTH = 1;
+
+    let encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(100)
+      .encrypt();
+    await expect(
+      energyVaultContract.connect(signers.alice).setConsumptionLimit(encryptedValue.handles[0], encryptedValue.inputProof),
+    )
+      .to.emit(energyVaultContract, "ConsumptionLimitSet")
+      .withArgs(signers.alice.address, anyValue);
+
+    const encryptedLimit = await energyVaultContract.connect(signers.alice).getConsumptionLimit(signers.alice.address);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, encryptedLimit, energyVaultContractAddress, signers.alice),
+    ).to.eq(100);
+
+    // Generation does not count towards the limit
+    encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(500)
+      .add64(60)
+      .encrypt();
+    let tx = await energyVaultContract
+      .connect(signers.alice)
+      .createRecords(
+        [0, 1],
+        ["Solar", "Home"],
+        encryptedValue.handles,
+        encryptedValue.inputProof,
+        await lastHourBatch(encryptedValue.handles.length),
+      );
+    await tx.wait();
+
+    const [initialOverLimit, month] = await energyVaultContract
+      .connect(signers.alice)
+      .getConsumptionAlert(signers.alice.address);
+    expect(month).to.eq(await energyVaultContract.getPeriodIndex(MONTH, await time.latest()));
+    expect(await fhevm.userDecryptEbool(initialOverLimit, energyVaultContractAddress, signers.alice)).to.eq(false);
+
+    encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(41)
+      .encrypt();
+    tx = await energyVaultContract
+      .connect(signers.alice)
+      .createConsumptionRecord("EV", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
+    await tx.wait();
+
+    let [overLimit] = await energyVaultContract.connect(signers.alice).getConsumptionAlert(signers.alice.address);
+    expect(await fhevm.userDecryptEbool(overLimit, energyVaultContractAddress, signers.alice)).to.eq(true);
+
+    // Voiding the record brings the month back under the limit
+    tx = await energyVaultContract.connect(signers.alice).voidRecord(2);
+    await tx.wait();
+    [overLimit] = await energyVaultContract.connect(signers.alice).getConsumptionAlert(signers.alice.address);
+    expect(await fhevm.userDecryptEbool(overLimit, energyVaultContractAddress, signers.alice)).to.eq(false);
+
+    await expect(
+      energyVaultContract.connect(signers.bob).getConsumptionAlert(signers.alice.address),
+    ).to.be.revertedWithCustomError(energyVaultContract, "CanOnlyViewOwnTotals");
+    await expect(
+      energyVaultContract.connect(signers.bob).getConsumptionLimit(signers.alice.address),
+    ).to.be.revertedWithCustomError(energyVaultContract, "CanOnlyViewOwnTotals");
+  });
+
+  it("should compare the limit with the consumption of the record's month", async function () {
+    let encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(150)
+      .encrypt();
+    const firstMeasurement = await lastHour();
+    let tx = await energyVaultContract
+      .connect(signers.alice)
+      .createConsumptionRecord("Home", encryptedValue.handles[0], encryptedValue.inputProof, ...firstMeasurement);
+    await tx.wait();
+
+    // No alert until a limit is set
+    let [overLimit, month] = await energyVaultContract
+      .connect(signers.alice)
+      .getConsumptionAlert(signers.alice.address);
+    expect(overLimit).to.eq(ethers.ZeroHash);
+
+    encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(100)
+      .encrypt();
+    tx = await energyVaultContract
+      .connect(signers.alice)
+      .setConsumptionLimit(encryptedValue.handles[0], encryptedValue.inputProof);
+    await tx.wait();
+
+    [overLimit, month] = await energyVaultContract.connect(signers.alice).getConsumptionAlert(signers.alice.address);
+    expect(await fhevm.userDecryptEbool(overLimit, energyVaultContractAddress, signers.alice)).to.eq(true);
+    const firstMonth = month;
+
+    // Move past the end of the month
+    await time.increase(32 * 24 * 60 * 60);
+
+    encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(80)
+      .encrypt();
+    tx = await energyVaultContract
+      .connect(signers.alice)
+      .createConsumptionRecord("Home", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
+    await tx.wait();
+
+    [overLimit, month] = await energyVaultContract.connect(signers.alice).getConsumptionAlert(signers.alice.address);
+    expect(month).to.be.gt(firstMonth);
+    expect(await fhevm.userDecryptEbool(overLimit, energyVaultContractAddress, signers.alice)).to.eq(false);
+
+    // The current month goes over the limit
+    encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(40)
+      .encrypt();
+    tx = await energyVaultContract
+      .connect(signers.alice)
+      .createConsumptionRecord("Home", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
+    await tx.wait();
+
+    [overLimit, month] = await energyVaultContract.connect(signers.alice).getConsumptionAlert(signers.alice.address);
+    const currentMonth = month;
+    expect(await fhevm.userDecryptEbool(overLimit, energyVaultContractAddress, signers.alice)).to.eq(true);
+
+    // A reading submitted late counts in the month it was measured in and keeps the alert of the current one
+    encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(10)
+      .encrypt();
+    tx = await energyVaultContract
+      .connect(signers.alice)
+      .createConsumptionRecord("Home", encryptedValue.handles[0], encryptedValue.inputProof, ...firstMeasurement);
+    await tx.wait();
+
+    [overLimit, month] = await energyVaultContract.connect(signers.alice).getConsumptionAlert(signers.alice.address);
+    expect(month).to.eq(currentMonth);
+    expect(await fhevm.userDecryptEbool(overLimit, energyVaultContractAddress, signers.alice)).to.eq(true);
+    const MONTH = 1;
+    const [, firstMonthConsumption] = await energyVaultContract
+      .connect(signers.alice)
+      .getPeriodTotals(signers.alice.address, MONTH, firstMonth);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, firstMonthConsumption, energyVaultContractAddress, signers.alice),
+    ).to.eq(160);
+  });
+
+  it("should publish the pooled generation of community members once enough joined", async function () {
+    const createGeneration = async (signer: HardhatEthersSigner, value: number) => {
+      const encryptedValue = await fhevm
+        .createEncryptedInput(energyVaultContractAddress, signer.address)
+        .add64(value)
+        .encrypt();
+      const tx = await energyVaultContract
+        .connect(signer)
+        .createGenerationRecord("Solar", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
+      await tx.wait();
+    };
+
+    // Generation recorded before joining is pooled as well
+    await createGeneration(signers.alice, 100);
+    await expect(energyVaultContract.connect(signers.alice).joinCommunityPool())
+      .to.emit(energyVaultContract, "CommunityPoolJoined")
+      .withArgs(signers.alice.address, 1);
+    await expect(energyVaultContract.connect(signers.alice).joinCommunityPool()).to.be.revertedWithCustomError(
+      energyVaultContract,
+      "AlreadyAMember",
+    );
+
+    let tx = await energyVaultContract.connect(signers.bob).joinCommunityPool();
+    await tx.wait();
+    await createGeneration(signers.bob, 40);
+    await createGeneration(signers.alice, 10);
+
+    await expect(energyVaultContract.requestCommunityDecryption()).to.be.revertedWithCustomError(
+      energyVaultContract,
+      "NotEnoughMembers",
+    );
+
+    // The deployer joins without any generation; a non-member's generation is never pooled
+    tx = await energyVaultContract.connect(signers.deployer).joinCommunityPool();
+    await tx.wait();
+    expect(await energyVaultContract.getCommunityMemberCount()).to.eq(3);
+    expect(await energyVaultContract.isCommunityMember(signers.deployer.address)).to.eq(true);
+
+    await expect(energyVaultContract.connect(signers.bob).requestCommunityDecryption())
+      .to.emit(energyVaultContract, "CommunityDecryptionRequested")
+      .withArgs(anyValue, 3);
+    expect(await energyVaultContract.isCommunityDecryptionPending()).to.eq(true);
+    await expect(energyVaultContract.requestCommunityDecryption()).to.be.revertedWithCustomError(
+      energyVaultContract,
+      "DecryptionPending",
+    );
+
+    await fhevm.awaitDecryptionOracle();
+
+    const [totalGeneration, memberCount, publishedAt] = await energyVaultContract.getPublishedCommunityGeneration();
+    expect(totalGeneration).to.eq(150);
+    expect(memberCount).to.eq(3);
+    expect(publishedAt).to.be.gt(0);
+    expect(await energyVaultContract.isCommunityDecryptionPending()).to.eq(false);
+  });
+
+  it("should mirror corrections and departures in the community pool", async function () {
+    const encryptedValues = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(100)
+      .add64(30)
+      .add64(50)
+      .encrypt();
+    let tx = await energyVaultContract
+      .connect(signers.alice)
+      .createRecords(
+        [0, 0, 1],
+        ["Solar", "Wind", "Home"],
+        encryptedValues.handles,
+        encryptedValues.inputProof,
+        await lastHourBatch(encryptedValues.handles.length),
+      );
+    await tx.wait();
+
+    for (const signer of [signers.deployer, signers.alice, signers.bob]) {
+      tx = await energyVaultContract.connect(signer).joinCommunityPool();
+      await tx.wait();
+    }
+
+    // Correct the Solar record to 70 and void the Wind one
+    const correctedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(70)
+      .encrypt();
+    tx = await energyVaultContract
+      .connect(signers.alice)
+      .correctRecord(0, correctedValue.handles[0], correctedValue.inputProof);
+    await tx.wait();
+    tx = await energyVaultContract.connect(signers.alice).voidRecord(1);
+    await tx.wait();
+
+    tx = await energyVaultContract.requestCommunityDecryption();
+    await tx.wait();
+    await fhevm.awaitDecryptionOracle();
+    expect((await energyVaultContract.getPublishedCommunityGeneration())[0]).to.eq(70);
+
+    await expect(energyVaultContract.connect(signers.alice).leaveCommunityPool())
+      .to.emit(energyVaultContract, "CommunityPoolLeft")
+      .withArgs(signers.alice.address, 2);
+    await expect(energyVaultContract.connect(signers.alice).leaveCommunityPool()).to.be.revertedWithCustomError(
+      energyVaultContract,
+      "NotAMember",
+    );
+    await expect(energyVaultContract.requestCommunityDecryption()).to.be.revertedWithCustomError(
+      energyVaultContract,
+      "NotEnoughMembers",
+    );
+
+    // Only the oracle answer to the pending request is accepted
+    await expect(
+      energyVaultContract.publishCommunityGeneration(0, ethers.AbiCoder.defaultAbiCoder().encode(["uint64"], [1]), "0x"),
+    ).to.be.revertedWithCustomError(energyVaultContract, "UnknownRequest");
+  });
+
+  it("should not publish again until the interval elapsed and enough members changed", async function () {
+    const join = async (signer: HardhatEthersSigner) => {
+      const tx = await energyVaultContract.connect(signer).joinCommunityPool();
+      await tx.wait();
+    };
+    const encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(100)
+      .encrypt();
+    let tx = await energyVaultContract
+      .connect(signers.alice)
+      .createGenerationRecord("Solar", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
+    await tx.wait();
+    for (const signer of [signers.deployer, signers.alice, signers.bob]) {
+      await join(signer);
+    }
+    tx = await energyVaultContract.requestCommunityDecryption();
+    await tx.wait();
+    await fhevm.awaitDecryptionOracle();
+
+    // Publishing again right after a single member joined would reveal that member's total
+    const [carol, dave, erin] = (await ethers.getSigners()).slice(3, 6);
+    await join(carol);
+    await expect(energyVaultContract.requestCommunityDecryption()).to.be.revertedWithCustomError(
+      energyVaultContract,
+      "PublicationTooSoon",
+    );
+    await time.increase(Number(await energyVaultContract.COMMUNITY_PUBLICATION_INTERVAL()));
+    await expect(energyVaultContract.requestCommunityDecryption()).to.be.revertedWithCustomError(
+      energyVaultContract,
+      "TooFewMembershipChanges",
+    );
+
+    // Leaving and joining again within a round is not a change
+    tx = await energyVaultContract.connect(dave).joinCommunityPool();
+    await tx.wait();
+    tx = await energyVaultContract.connect(dave).leaveCommunityPool();
+    await tx.wait();
+    await expect(energyVaultContract.requestCommunityDecryption()).to.be.revertedWithCustomError(
+      energyVaultContract,
+      "TooFewMembershipChanges",
+    );
+
+    await join(dave);
+    await join(erin);
+    await expect(energyVaultContract.requestCommunityDecryption())
+      .to.emit(energyVaultContract, "CommunityDecryptionRequested")
+      .withArgs(anyValue, 6);
+  });
+
+  it("should credit records submitted by a registered device to its owner", async function () {
+    const device = signers.deployer;
+    const submit = async (recordType: number, value: number) => {
+      const encryptedValue = await fhevm
+        .createEncryptedInput(energyVaultContractAddress, device.address)
+        .add64(value)
+        .encrypt();
+      return energyVaultContract
+        .connect(device)
+        .createDeviceRecord(
+          recordType,
+          "Smart Meter",
+          encryptedValue.handles[0],
+          encryptedValue.inputProof,
+          ...(await lastHour()),
+        );
+    };
+
+    await expect(submit(0, 10)).to.be.revertedWithCustomError(energyVaultContract, "NotARegisteredDevice");
+    await expect(
+      energyVaultContract.connect(signers.alice).proposeDevice(signers.alice.address),
+    ).to.be.revertedWithCustomError(energyVaultContract, "InvalidDevice");
+    await expect(energyVaultContract.connect(signers.alice).proposeDevice(device.address))
+      .to.emit(energyVaultContract, "DeviceProposed")
+      .withArgs(signers.alice.address, device.address);
+    await expect(energyVaultContract.connect(device).acceptDevice(signers.alice.address))
+      .to.emit(energyVaultContract, "DeviceRegistered")
+      .withArgs(signers.alice.address, device.address);
+    expect(await energyVaultContract.isDeviceProposed(device.address, signers.alice.address)).to.eq(false);
+    await expect(energyVaultContract.connect(signers.bob).proposeDevice(device.address)).to.be.revertedWithCustomError(
+      energyVaultContract,
+      "DeviceAlreadyRegistered",
+    );
+    expect(await energyVaultContract.getDevices(signers.alice.address)).to.deep.eq([device.address]);
+    expect(await energyVaultContract.getDeviceOwner(device.address)).to.eq(signers.alice.address);
+
+    await expect(submit(0, 120))
+      .to.emit(energyVaultContract, "RecordCreated")
+      .withArgs(0, signers.alice.address, 0, "Smart Meter", anyValue, device.address, anyValue, anyValue);
+    const tx = await submit(1, 45);
+    await tx.wait();
+
+    expect(await energyVaultContract.getUserRecordIds(signers.alice.address)).to.deep.eq([0n, 1n]);
+    expect(await energyVaultContract.getUserRecordCount(device.address)).to.eq(0);
+    const metadata = await energyVaultContract.getRecordMetadata(0);
+    expect(metadata[4]).to.eq(signers.alice.address);
+    expect(metadata[6]).to.eq(device.address);
+
+    // Totals and records belong to the owner only
+    const generation = await energyVaultContract.connect(signers.alice).getTotalGeneration(signers.alice.address);
+    const consumption = await energyVaultContract.connect(signers.alice).getTotalConsumption(signers.alice.address);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, generation, energyVaultContractAddress, signers.alice),
+    ).to.eq(120);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint64, consumption, energyVaultContractAddress, signers.alice),
+    ).to.eq(45);
+    await expect(energyVaultContract.connect(device).getRecordEncryptedValue(0)).to.be.revertedWithCustomError(
+      energyVaultContract,
+      "NotRecordOwner",
+    );
+    await expect(energyVaultContract.connect(device).voidRecord(0)).to.be.revertedWithCustomError(
+      energyVaultContract,
+      "NotRecordOwner",
+    );
+
+    await expect(energyVaultContract.connect(signers.bob).removeDevice(device.address)).to.be.revertedWithCustomError(
+      energyVaultContract,
+      "NotDeviceOwner",
+    );
+    await expect(energyVaultContract.connect(signers.alice).removeDevice(device.address))
+      .to.emit(energyVaultContract, "DeviceRemoved")
+      .withArgs(signers.alice.address, device.address);
+    expect(await energyVaultContract.getDevices(signers.alice.address)).to.deep.eq([]);
+    await expect(submit(0, 10)).to.be.revertedWithCustomError(energyVaultContract, "NotARegisteredDevice");
+  });
+
+  it("should only register a device that accepted the proposal", async function () {
+    const device = signers.deployer;
+
+    // Bob proposes Alice's meter first: nothing is registered until the meter accepts
+    let tx = await energyVaultContract.connect(signers.bob).proposeDevice(device.address);
+    await tx.wait();
+    expect(await energyVaultContract.getDeviceOwner(device.address)).to.eq(ethers.ZeroAddress);
+    expect(await energyVaultContract.getDevices(signers.bob.address)).to.deep.eq([]);
+    const encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, device.address)
+      .add64(10)
+      .encrypt();
+    await expect(
+      energyVaultContract
+        .connect(device)
+        .createDeviceRecord(0, "Smart Meter", encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour())),
+    ).to.be.revertedWithCustomError(energyVaultContract, "NotARegisteredDevice");
+
+    // The squatter's proposal does not block the owner, and the device cannot accept an owner who did not propose
+    tx = await energyVaultContract.connect(signers.alice).proposeDevice(device.address);
+    await tx.wait();
+    await expect(
+      energyVaultContract.connect(signers.bob).acceptDevice(signers.bob.address),
+    ).to.be.revertedWithCustomError(energyVaultContract, "NoDeviceProposal");
+    await expect(energyVaultContract.connect(device).acceptDevice(signers.alice.address))
+      .to.emit(energyVaultContract, "DeviceRegistered")
+      .withArgs(signers.alice.address, device.address);
+    await expect(energyVaultContract.connect(device).acceptDevice(signers.bob.address)).to.be.revertedWithCustomError(
+      energyVaultContract,
+      "DeviceAlreadyRegistered",
+    );
+
+    await expect(energyVaultContract.connect(signers.bob).cancelDeviceProposal(device.address))
+      .to.emit(energyVaultContract, "DeviceProposalCancelled")
+      .withArgs(signers.bob.address, device.address);
+    await expect(
+      energyVaultContract.connect(signers.bob).cancelDeviceProposal(device.address),
+    ).to.be.revertedWithCustomError(energyVaultContract, "NoDeviceProposal");
+  });
+
+  it("should bucket records by the end of their measurement interval", async function () {
+    const DAY = 0;
+    const MONTH = 1;
+    const now = await time.latest();
+    // A reading imported 40 days after it was taken
+    const measuredTo = now - 40 * 24 * 60 * 60;
+    const measuredFrom = measuredTo - 24 * 60 * 60;
+
+    const encrypt = async (value: number) =>
+      fhevm.createEncryptedInput(energyVaultContractAddress, signers.alice.address).add64(value).encrypt();
+
+    let encryptedValue = await encrypt(70);
+    await expect(
+      energyVaultContract
+        .connect(signers.alice)
+        .createGenerationRecord(
+          "Solar",
+          encryptedValue.handles[0],
+          encryptedValue.inputProof,
+          measuredFrom,
+          measuredTo,
+        ),
+    )
+      .to.emit(energyVaultContract, "RecordCreated")
+      .withArgs(0, signers.alice.address, 0, "Solar", anyValue, ethers.ZeroAddress, measuredFrom, measuredTo);
+
+    const metadata = await energyVaultContract.getRecordMetadata(0);
+    expect(metadata.measuredFrom).to.eq(measuredFrom);
+    expect(metadata.measuredTo).to.eq(measuredTo);
+    expect(metadata.timestamp).to.be.gt(now);
+
+    const pastMonth = await energyVaultContract.getPeriodIndex(MONTH, measuredTo);
+    const pastDay = await energyVaultContract.getPeriodIndex(DAY, measuredTo);
+    const currentMonth = await energyVaultContract.getPeriodIndex(MONTH, await time.latest());
+    expect(currentMonth).to.be.gt(pastMonth);
+
+    const decryptGeneration = async (period: number, index: bigint) => {
+      const [generation] = await energyVaultContract
+        .connect(signers.alice)
+        .getPeriodTotals(signers.alice.address, period, index);
+      if (generation === ethers.ZeroHash) {
+        return 0n;
+      }
+      return fhevm.userDecryptEuint(FhevmType.euint64, generation, energyVaultContractAddress, signers.alice);
+    };
+    expect(await decryptGeneration(MONTH, pastMonth)).to.eq(70);
+    expect(await decryptGeneration(DAY, pastDay)).to.eq(70);
+    expect(await decryptGeneration(MONTH, currentMonth)).to.eq(0);
+
+    // Corrections and voids update the period of the measurement, not of the submission
+    const tx = await energyVaultContract.connect(signers.alice).voidRecord(0);
+    await tx.wait();
+    expect(await decryptGeneration(MONTH, pastMonth)).to.eq(0);
+
+    encryptedValue = await encrypt(10);
+    await expect(
+      energyVaultContract
+        .connect(signers.alice)
+        .createGenerationRecord(
+          "Solar",
+          encryptedValue.handles[0],
+          encryptedValue.inputProof,
+          measuredTo,
+          measuredFrom,
+        ),
+    ).to.be.revertedWithCustomError(energyVaultContract, "InvalidMeasurementPeriod");
+    await expect(
+      energyVaultContract
+        .connect(signers.alice)
+        .createGenerationRecord("Solar", encryptedValue.handles[0], encryptedValue.inputProof, now, now + 3600),
+    ).to.be.revertedWithCustomError(energyVaultContract, "MeasurementEndsInTheFuture");
+
+    // One invalid interval rejects the whole batch
+    const encryptedValues = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(1)
+      .add64(2)
+      .encrypt();
+    await expect(
+      energyVaultContract
+        .connect(signers.alice)
+        .createRecords([0, 1], ["Solar", "Home"], encryptedValues.handles, encryptedValues.inputProof, [
+          [measuredFrom, measuredTo],
+          [now, now + 3600],
+        ]),
+    ).to.be.revertedWithCustomError(energyVaultContract, "MeasurementEndsInTheFuture");
+  });
+
+  it("should page and filter the records of a user", async function () {
+    const DAY = 24 * 60 * 60;
+    const now = await time.latest();
+    const types = [0, 1, 1, 0, 1];
+    const measuredTo = [now - 5 * DAY, now - 4 * DAY, now - 3 * DAY, now - 2 * DAY, now - DAY];
+
+    const input = fhevm.createEncryptedInput(energyVaultContractAddress, signers.alice.address);
+    for (let i = 0; i < types.length; i++) {
+      input.add64(10 + i);
+    }
+    const encryptedValues = await input.encrypt();
+    const tx = await energyVaultContract.connect(signers.alice).createRecords(
+      types,
+      types.map((type) => (type === 0 ? "Solar" : "Home")),
+      encryptedValues.handles,
+      encryptedValues.inputProof,
+      measuredTo.map((to) => [to - 3600, to]),
+    );
+    await tx.wait();
+
+    const alice = signers.alice.address;
+    expect(await energyVaultContract.getUserRecordIdsPaged(alice, 0, 2)).to.deep.eq([0n, 1n]);
+    expect(await energyVaultContract.getUserRecordIdsPaged(alice, 4, 2)).to.deep.eq([4n]);
+    expect(await energyVaultContract.getUserRecordIdsPaged(alice, 9, 2)).to.deep.eq([]);
+    expect(await energyVaultContract.getUserRecordIdsPaged(signers.bob.address, 0, 10)).to.deep.eq([]);
+
+    // Filters scan a page of the list, so a page can hold fewer IDs than the limit
+    expect(await energyVaultContract.getUserRecordsByType(alice, 1, 0, 5)).to.deep.eq([1n, 2n, 4n]);
+    expect(await energyVaultContract.getUserRecordsByType(alice, 0, 1, 2)).to.deep.eq([]);
+    expect(await energyVaultContract.getUserRecordsInRange(alice, measuredTo[1], measuredTo[3], 0, 5)).to.deep.eq([
+      1n,
+      2n,
+      3n,
+    ]);
+    expect(await energyVaultContract.getUserRecordsInRange(alice, measuredTo[1], measuredTo[3], 3, 5)).to.deep.eq([3n]);
+
+    await expect(energyVaultContract.getUserRecordIdsPaged(alice, 0, 101)).to.be.revertedWithCustomError(
+      energyVaultContract,
+      "PageTooLarge",
+    );
+
+    const metadata = await energyVaultContract.getRecordsMetadata([4, 0]);
+    expect(metadata.map((record) => record.id)).to.deep.eq([4n, 0n]);
+    expect(metadata[0].recordType).to.eq(1);
+    expect(metadata[0].source).to.eq("Home");
+    expect(metadata[0].owner).to.eq(alice);
+    expect(metadata[0].measuredTo).to.eq(measuredTo[4]);
+    expect(metadata[1].measuredFrom).to.eq(measuredTo[0] - 3600);
+    await expect(energyVaultContract.getRecordsMetadata([0, 5])).to.be.revertedWithCustomError(
+      energyVaultContract,
+      "RecordDoesNotExist",
+    );
+  });
+
+  it("should resume an import without creating a record twice", async function () {
+    const alice = signers.alice;
+    const now = await time.latest();
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "vault-import-"));
+    const file = path.join(dir, "readings.csv");
+    const journalFile = `${file}.journal.json`;
+    fs.writeFileSync(
+      file,
+      `type,source,kWh,timestamp\ngeneration,Solar,1.5,${now - 60}\nconsumption,Home,0.5,${now}\n`,
+    );
+    const importReadings = () =>
+      run("task:vault-import", { file, address: energyVaultContractAddress, signerIndex: "1" });
+
+    // The first run journaled its intent and sent the first row, then stopped before recording the hash
+    const nonce = await alice.getNonce();
+    const fromBlock = await ethers.provider.getBlockNumber();
+    fs.writeFileSync(
+      journalFile,
+      JSON.stringify({
+        contractAddress: energyVaultContractAddress,
+        userAddress: alice.address,
+        entries: { 0: { row: `generation|Solar|1.5|${now - 60}`, status: "intent", nonce, fromBlock } },
+      }),
+    );
+    const encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, alice.address)
+      .add64(encodeEnergyValue(1.5, DEFAULT_VALUE_FORMAT, "kWh"))
+      .encrypt();
+    const sent = await energyVaultContract
+      .connect(alice)
+      .createGenerationRecord("Solar", encryptedValue.handles[0], encryptedValue.inputProof, now - 60, now - 60, {
+        nonce,
+      });
+    await sent.wait();
+
+    // The transaction is found by its nonce and only the second row is submitted
+    await importReadings();
+    expect(await energyVaultContract.getUserRecordIdsPaged(alice.address, 0, 10)).to.deep.eq([0n, 1n]);
+    const journal = JSON.parse(fs.readFileSync(journalFile, "utf-8"));
+    expect(journal.entries[0]).to.include({ status: "confirmed", txHash: sent.hash, recordId: "0" });
+    expect(journal.entries[1]).to.include({ status: "confirmed", recordId: "1" });
+
+    // An intent whose transaction never reached the chain is sent again with the same nonce
+    const unsentNonce = await alice.getNonce();
+    journal.entries[1] = { row: journal.entries[1].row, status: "intent", nonce: unsentNonce, fromBlock };
+    fs.writeFileSync(journalFile, JSON.stringify(journal));
+    await importReadings();
+    expect(await energyVaultContract.getUserRecordIdsPaged(alice.address, 0, 10)).to.deep.eq([0n, 1n, 2n]);
+    expect(JSON.parse(fs.readFileSync(journalFile, "utf-8")).entries[1]).to.include({
+      status: "confirmed",
+      nonce: unsentNonce,
+      recordId: "2",
+    });
+    expect(await alice.getNonce()).to.eq(unsentNonce + 1);
+
+    fs.rmSync(dir, { recursive: true });
   });
 });
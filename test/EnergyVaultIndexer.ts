@@ -0,0 +1,191 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm, network } from "hardhat";
+import { EnergyVault } from "../types";
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { DEFAULT_VALUE_FORMAT, ENERGY_UNITS } from "../frontend/lib/energyUnits";
+import { getEnergyVaultFactory } from "./energyVaultFactory";
+import { EnergyVaultIndexer, IndexedRecord, IndexerStore, createIndexerServer } from "../indexer/src";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+type RecordsPage = { total: number; offset: number; limit: number; records: IndexedRecord[] };
+type Status = { chainId: string; address: string; startBlock: number; lastBlock: number | null };
+
+async function deployFixture() {
+  const factory = await getEnergyVaultFactory();
+  const energyVaultContract = (await factory.deploy(
+    ENERGY_UNITS.indexOf(DEFAULT_VALUE_FORMAT.unit),
+    DEFAULT_VALUE_FORMAT.decimals,
+  )) as EnergyVault;
+  const energyVaultContractAddress = await energyVaultContract.getAddress();
+  const startBlock = (await energyVaultContract.deploymentTransaction()!.wait())!.blockNumber;
+
+  return { energyVaultContract, energyVaultContractAddress, startBlock };
+}
+
+// Measurement interval of a reading taken during the hour before the latest block
+async function lastHour(): Promise<[number, number]> {
+  const now = await time.latest();
+  return [now - 3600, now];
+}
+
+describe("EnergyVaultIndexer", function () {
+  let signers: Signers;
+  let energyVaultContract: EnergyVault;
+  let energyVaultContractAddress: string;
+  let store: IndexerStore;
+  let indexer: EnergyVaultIndexer;
+  let server: Server;
+  let baseUrl: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    let startBlock: number;
+    ({ energyVaultContract, energyVaultContractAddress, startBlock } = await deployFixture());
+
+    store = new IndexerStore(":memory:");
+    indexer = new EnergyVaultIndexer(ethers.provider, store, {
+      address: energyVaultContractAddress,
+      startBlock,
+      batchSize: 3,
+      reorgDepth: 4,
+    });
+
+    server = createIndexerServer(store);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async function () {
+    if (server) {
+      await new Promise((resolve) => server.close(resolve));
+      store.close();
+    }
+  });
+
+  async function createRecord(signer: HardhatEthersSigner, type: "generation" | "consumption", source: string) {
+    const encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signer.address)
+      .add64(100)
+      .encrypt();
+    const create =
+      type === "generation"
+        ? energyVaultContract.connect(signer).createGenerationRecord
+        : energyVaultContract.connect(signer).createConsumptionRecord;
+    const tx = await create(source, encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
+    await tx.wait();
+  }
+
+  async function get<T = { error: string }>(path: string): Promise<{ status: number; body: T }> {
+    const res = await fetch(`${baseUrl}${path}`);
+    return { status: res.status, body: (await res.json()) as T };
+  }
+
+  async function getUserRecords(signer: HardhatEthersSigner, query = ""): Promise<IndexedRecord[]> {
+    const { status, body } = await get<RecordsPage>(`/users/${signer.address}/records${query}`);
+    expect(status).to.eq(200);
+    return body.records;
+  }
+
+  it("should backfill records, voids and corrections and serve them over HTTP", async function () {
+    await createRecord(signers.alice, "generation", "Solar");
+    await createRecord(signers.alice, "consumption", "Home");
+    await createRecord(signers.bob, "generation", "Wind");
+    await createRecord(signers.alice, "generation", "Roof");
+
+    let tx = await energyVaultContract.connect(signers.alice).voidRecord(1);
+    await tx.wait();
+    const encryptedValue = await fhevm
+      .createEncryptedInput(energyVaultContractAddress, signers.alice.address)
+      .add64(150)
+      .encrypt();
+    tx = await energyVaultContract
+      .connect(signers.alice)
+      .correctRecord(0, encryptedValue.handles[0], encryptedValue.inputProof);
+    await tx.wait();
+
+    // The deployment block and the six transaction blocks are backfilled three at a time
+    expect(await indexer.sync()).to.eq(6);
+    expect(await indexer.sync()).to.eq(0);
+
+    const { body: status } = await get<Status>("/status");
+    expect(status.address).to.eq(energyVaultContractAddress);
+    expect(status.lastBlock).to.eq(await ethers.provider.getBlockNumber());
+
+    const records = await getUserRecords(signers.alice);
+    expect(records.map((r) => r.id)).to.deep.eq(["3", "1", "0"]);
+    expect(records.map((r) => r.isVoided)).to.deep.eq([false, true, false]);
+    expect(records.map((r) => r.corrections)).to.deep.eq([0, 0, 1]);
+
+    // The metadata matches the contract
+    const [, recordType, source, timestamp, owner, isVoided, device, measuredFrom, measuredTo] =
+      await energyVaultContract.getRecordMetadata(0);
+    const { body: record } = await get<IndexedRecord>("/records/0");
+    expect(record).to.include({
+      id: "0",
+      recordType: recordType === 0n ? "generation" : "consumption",
+      source,
+      timestamp: Number(timestamp),
+      owner,
+      isVoided,
+      device,
+      measuredFrom: Number(measuredFrom),
+      measuredTo: Number(measuredTo),
+    });
+
+    const { body: history } = await get<{ events: { name: string }[] }>("/records/0/events");
+    expect(history.events.map((e) => e.name)).to.deep.eq(["RecordCreated", "RecordCorrected"]);
+
+    // Filters and pages
+    expect((await getUserRecords(signers.alice, "?type=consumption")).map((r) => r.id)).to.deep.eq(["1"]);
+    const lastMeasurementEnd = records[0].measuredTo;
+    expect((await getUserRecords(signers.alice, `?from=${lastMeasurementEnd}`)).map((r) => r.id)).to.deep.eq(["3"]);
+    const { body: page } = await get<RecordsPage>(`/users/${signers.alice.address}/records?offset=1&limit=1`);
+    expect(page.total).to.eq(3);
+    expect(page.records.map((r) => r.id)).to.deep.eq(["1"]);
+    expect((await getUserRecords(signers.bob)).map((r) => r.source)).to.deep.eq(["Wind"]);
+
+    expect((await get("/records/42")).status).to.eq(404);
+    expect((await get(`/users/${signers.alice.address}/records?limit=101`)).status).to.eq(400);
+    expect((await get("/users/0x1234/records")).status).to.eq(400);
+    expect((await get("/unknown")).status).to.eq(404);
+  });
+
+  it("should drop records of an abandoned fork and index the new one", async function () {
+    await createRecord(signers.alice, "generation", "Solar");
+    const snapshot = await network.provider.send("evm_snapshot");
+
+    await createRecord(signers.alice, "generation", "Wind");
+    await createRecord(signers.alice, "consumption", "Home");
+    await indexer.sync();
+    expect((await getUserRecords(signers.alice)).map((r) => r.source)).to.deep.eq(["Home", "Wind", "Solar"]);
+
+    // A fork replacing the last two blocks with one holding another record
+    await network.provider.send("evm_revert", [snapshot]);
+    await createRecord(signers.alice, "generation", "Hydro");
+    await indexer.sync();
+    const records = await getUserRecords(signers.alice);
+    expect(records.map((r) => r.source)).to.deep.eq(["Hydro", "Solar"]);
+    expect(records[0].transactionHash).to.eq((await ethers.provider.getBlock("latest"))!.transactions[0]);
+
+    const { body: status } = await get<Status>("/status");
+    expect(status.lastBlock).to.eq(await ethers.provider.getBlockNumber());
+  });
+});
@@ -19,6 +19,12 @@ describe("EnergyVaultSepolia", function () {
     console.log(`${++step}/${steps} ${message}`);
   }
 
+  // Measurement interval of a reading taken during the hour before the latest block
+  async function lastHour(): Promise<[number, number]> {
+    const block = await ethers.provider.getBlock("latest");
+    return [block!.timestamp - 3600, block!.timestamp];
+  }
+
   before(async function () {
     if (fhevm.isMock) {
       console.warn(`This hardhat test suite can only run on Sepolia Testnet`);
@@ -61,7 +67,7 @@ describe("EnergyVaultSepolia", function () {
     );
     const tx = await energyVaultContract
       .connect(signers.alice)
-      .createGenerationRecord(source, encryptedValue.handles[0], encryptedValue.inputProof);
+      .createGenerationRecord(source, encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
     await tx.wait();
 
     progress("Getting record metadata...");
@@ -122,7 +128,7 @@ describe("EnergyVaultSepolia", function () {
     );
     const tx = await energyVaultContract
       .connect(signers.alice)
-      .createConsumptionRecord(source, encryptedValue.handles[0], encryptedValue.inputProof);
+      .createConsumptionRecord(source, encryptedValue.handles[0], encryptedValue.inputProof, ...(await lastHour()));
     await tx.wait();
 
     progress("Getting user record count...");
@@ -0,0 +1,15 @@
+import { ethers } from "hardhat";
+import { EnergyVault__factory } from "../types";
+
+// Libraries EnergyVault is linked with, see deploy/deploy.ts
+const ENERGY_VAULT_LIBRARIES = ["EnergyAuditors", "EnergyCommunityPool", "EnergyDevices", "EnergySharing"] as const;
+
+// Deploy the vault libraries and return an EnergyVault factory linked with them
+export async function getEnergyVaultFactory(): Promise<EnergyVault__factory> {
+  const libraries: Record<string, string> = {};
+  for (const name of ENERGY_VAULT_LIBRARIES) {
+    const library = await (await ethers.getContractFactory(name)).deploy();
+    libraries[name] = await library.getAddress();
+  }
+  return (await ethers.getContractFactory("EnergyVault", { libraries })) as EnergyVault__factory;
+}